@@ -2,17 +2,16 @@ import { Module } from '@nestjs/common';
 import { ClientsModule, Transport } from '@nestjs/microservices';
 import { AuthController } from './auth/auth.controller';
 import { EventsController } from './events/events.controller';
+import { InvitationsController } from './invitations/invitations.controller';
+import { JwksController } from './auth/jwks.controller';
 import { JwtStrategy } from './auth/jwt.strategy';
+import { ApiKeyStrategy } from './auth/api-key.strategy';
+import { JwksService } from './auth/jwks.service';
 import { PassportModule } from '@nestjs/passport';
-import { JwtModule } from '@nestjs/jwt';
 
 @Module({
   imports: [
     PassportModule,
-    JwtModule.register({
-      secret: process.env.JWT_SECRET || 'your-secret-key',
-      signOptions: { expiresIn: '1h' },
-    }),
     ClientsModule.register([
       {
         name: 'AUTH_SERVICE',
@@ -32,7 +31,7 @@ import { JwtModule } from '@nestjs/jwt';
       },
     ]),
   ],
-  controllers: [AuthController, EventsController],
-  providers: [JwtStrategy],
+  controllers: [AuthController, EventsController, InvitationsController, JwksController],
+  providers: [JwksService, JwtStrategy, ApiKeyStrategy],
 })
 export class AppModule {}
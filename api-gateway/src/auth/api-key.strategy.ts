@@ -0,0 +1,51 @@
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ClientProxy } from '@nestjs/microservices';
+import { Strategy } from 'passport-custom';
+import { firstValueFrom } from 'rxjs';
+import { timeout } from 'rxjs/operators';
+
+const API_KEY_PREFIX = 'evb_';
+
+/**
+ * Accepts a personal API key from the X-API-Key header (or as a bearer
+ * token) and resolves it through the auth service
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(@Inject('AUTH_SERVICE') private authClient: ClientProxy) {
+    super();
+  }
+
+  async validate(req: any) {
+    const key = this.extractKey(req);
+
+    if (!key) {
+      return null;
+    }
+
+    try {
+      return await firstValueFrom(
+        this.authClient
+          .send({ cmd: 'auth.validateApiKey' }, { key, correlationId: req.correlationId })
+          .pipe(timeout(5000)),
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid API key');
+    }
+  }
+
+  private extractKey(req: any): string | undefined {
+    if (typeof req.headers['x-api-key'] === 'string') {
+      return req.headers['x-api-key'];
+    }
+
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+
+    if (scheme === 'Bearer' && token?.startsWith(API_KEY_PREFIX)) {
+      return token;
+    }
+
+    return undefined;
+  }
+}
@@ -2,10 +2,14 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
+  Param,
   UseGuards,
   Inject,
   Req,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { ClientProxy } from '@nestjs/microservices';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
@@ -29,7 +33,12 @@ export class AuthController {
       this.authClient
         .send(
           { cmd: 'auth.signup' },
-          { ...signupDto, correlationId: req.correlationId },
+          {
+            ...signupDto,
+            userAgent: req.headers['user-agent'],
+            ipAddress: req.ip,
+            correlationId: req.correlationId,
+          },
         )
         .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 2 })),
     );
@@ -42,7 +51,48 @@ export class AuthController {
       this.authClient
         .send(
           { cmd: 'auth.login' },
-          { ...loginDto, correlationId: req.correlationId },
+          {
+            ...loginDto,
+            userAgent: req.headers['user-agent'],
+            ipAddress: req.ip,
+            correlationId: req.correlationId,
+          },
+        )
+        .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 2 })),
+    );
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Rotate refresh token and issue new access token' })
+  async refresh(@Body() refreshDto: any, @Req() req: any) {
+    return firstValueFrom(
+      this.authClient
+        .send(
+          { cmd: 'auth.refresh' },
+          {
+            refreshToken: refreshDto.refreshToken,
+            userAgent: req.headers['user-agent'],
+            ipAddress: req.ip,
+            correlationId: req.correlationId,
+          },
+        )
+        .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 1 })),
+    );
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke refresh token session' })
+  async logout(@Body() logoutDto: any, @Req() req: any) {
+    await firstValueFrom(
+      this.authClient
+        .send(
+          { cmd: 'auth.logout' },
+          {
+            refreshToken: logoutDto.refreshToken,
+            correlationId: req.correlationId,
+          },
         )
         .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 2 })),
     );
@@ -62,4 +112,57 @@ export class AuthController {
         .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 3 })),
     );
   }
+
+  @Post('api-keys')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a personal API key (shown only once)' })
+  async createApiKey(@Body() apiKeyDto: any, @CurrentUser() user: any, @Req() req: any) {
+    return firstValueFrom(
+      this.authClient
+        .send(
+          { cmd: 'auth.createApiKey' },
+          {
+            name: apiKeyDto.name,
+            scopes: apiKeyDto.scopes,
+            expiresAt: apiKeyDto.expiresAt,
+            userId: user.id,
+            organizationId: user.organizationId,
+            correlationId: req.correlationId,
+          },
+        )
+        .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 1 })),
+    );
+  }
+
+  @Get('api-keys')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List your API keys' })
+  async listApiKeys(@CurrentUser() user: any, @Req() req: any) {
+    return firstValueFrom(
+      this.authClient
+        .send(
+          { cmd: 'auth.listApiKeys' },
+          { userId: user.id, correlationId: req.correlationId },
+        )
+        .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 3 })),
+    );
+  }
+
+  @Delete('api-keys/:id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke an API key' })
+  async revokeApiKey(@Param('id') id: string, @CurrentUser() user: any, @Req() req: any) {
+    await firstValueFrom(
+      this.authClient
+        .send(
+          { cmd: 'auth.revokeApiKey' },
+          { id, userId: user.id, correlationId: req.correlationId },
+        )
+        .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 2 })),
+    );
+  }
 }
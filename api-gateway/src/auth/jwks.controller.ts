@@ -0,0 +1,16 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import { JwksService, Jwks } from './jwks.service';
+
+@ApiTags('auth')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private jwksService: JwksService) {}
+
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({ summary: 'Public keys for verifying access tokens' })
+  getJwks(): Promise<Jwks> {
+    return this.jwksService.getJwks();
+  }
+}
@@ -0,0 +1,63 @@
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import { timeout } from 'rxjs/operators';
+
+export interface Jwks {
+  keys: (JsonWebKey & { kid: string; alg: string })[];
+}
+
+const JWKS_CACHE_TTL_MS = 5 * 60 * 1000;
+const JWKS_REFRESH_MIN_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Caches the auth service's published signing keys. A token naming an
+ * unknown kid triggers an early refetch (at most every 10s) so keys added
+ * by a rotation are picked up before they start signing.
+ */
+@Injectable()
+export class JwksService {
+  private cache?: { jwks: Jwks; fetchedAt: number };
+
+  constructor(@Inject('AUTH_SERVICE') private authClient: ClientProxy) {}
+
+  async getJwks(): Promise<Jwks> {
+    if (this.cache && Date.now() - this.cache.fetchedAt < JWKS_CACHE_TTL_MS) {
+      return this.cache.jwks;
+    }
+
+    return this.fetch();
+  }
+
+  /**
+   * Public key (PEM) for verifying a token signed with `kid`
+   */
+  async getPublicKey(kid: string | undefined): Promise<string> {
+    if (!kid) {
+      throw new UnauthorizedException('Unknown signing key');
+    }
+
+    let jwk = (await this.getJwks()).keys.find((key) => key.kid === kid);
+
+    if (!jwk && this.cache && Date.now() - this.cache.fetchedAt > JWKS_REFRESH_MIN_INTERVAL_MS) {
+      jwk = (await this.fetch()).keys.find((key) => key.kid === kid);
+    }
+
+    if (!jwk) {
+      throw new UnauthorizedException('Unknown signing key');
+    }
+
+    return createPublicKey({ key: jwk, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+  }
+
+  private async fetch(): Promise<Jwks> {
+    const jwks: Jwks = await firstValueFrom(
+      this.authClient.send({ cmd: 'auth.jwks' }, {}).pipe(timeout(5000)),
+    );
+    this.cache = { jwks, fetchedAt: Date.now() };
+    return jwks;
+  }
+}
@@ -1,14 +1,31 @@
 import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { JwksService } from './jwks.service';
+
+// `kid` from the token header, without verifying the token
+function keyIdOf(token: string): string | undefined {
+  try {
+    const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+    return typeof header.kid === 'string' ? header.kid : undefined;
+  } catch {
+    return undefined;
+  }
+}
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor() {
+  constructor(jwksService: JwksService) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: process.env.JWT_SECRET || 'your-secret-key',
+      algorithms: ['RS256', 'ES256'],
+      secretOrKeyProvider: (_req: any, token: string, done: (err: any, key?: string) => void) => {
+        jwksService.getPublicKey(keyIdOf(token)).then(
+          (key) => done(null, key),
+          (err) => done(err),
+        );
+      },
     });
   }
 
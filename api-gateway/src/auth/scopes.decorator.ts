@@ -0,0 +1,4 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const SCOPES_KEY = 'scopes';
+export const Scopes = (...scopes: string[]) => SetMetadata(SCOPES_KEY, scopes);
@@ -0,0 +1,34 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SCOPES_KEY } from './scopes.decorator';
+
+/**
+ * Requests authenticated with an API key must carry every scope listed
+ * with @Scopes(). Access tokens are not scoped and always pass; the
+ * events service still applies the user's role.
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredScopes = this.reflector.getAllAndOverride<string[]>(SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    const { user } = context.switchToHttp().getRequest();
+
+    if (!requiredScopes || !user?.apiKeyId) {
+      return true;
+    }
+
+    const missing = requiredScopes.filter((scope) => !user.scopes?.includes(scope));
+
+    if (missing.length > 0) {
+      throw new ForbiddenException(`API key is missing scopes: ${missing.join(', ')}`);
+    }
+
+    return true;
+  }
+}
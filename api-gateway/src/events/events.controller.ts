@@ -15,8 +15,10 @@ import {
   Headers,
 } from '@nestjs/common';
 import { ClientProxy } from '@nestjs/microservices';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
-import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiSecurity } from '@nestjs/swagger';
+import { JwtOrApiKeyAuthGuard } from '../auth/jwt-or-api-key-auth.guard';
+import { ScopesGuard } from '../auth/scopes.guard';
+import { Scopes } from '../auth/scopes.decorator';
 import { CurrentUser } from '../auth/current-user.decorator';
 import { firstValueFrom } from 'rxjs';
 import { timeout } from 'rxjs/operators';
@@ -24,14 +26,16 @@ import { retryWithBackoff } from '../common/utils/retry.util';
 
 @ApiTags('events')
 @Controller('events')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtOrApiKeyAuthGuard, ScopesGuard)
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class EventsController {
   constructor(
     @Inject('EVENTS_SERVICE') private eventsClient: ClientProxy,
   ) {}
 
   @Post()
+  @Scopes('events:write')
   @ApiOperation({ summary: 'Create event' })
   async create(
     @Body() createEventDto: any,
@@ -56,6 +60,7 @@ export class EventsController {
   }
 
   @Get()
+  @Scopes('events:read')
   @ApiOperation({ summary: 'List events' })
   async findAll(@Query() query: any, @CurrentUser() user: any, @Req() req: any) {
     return firstValueFrom(
@@ -75,6 +80,7 @@ export class EventsController {
   }
 
   @Get(':id')
+  @Scopes('events:read')
   @ApiOperation({ summary: 'Get event by ID' })
   async findOne(@Param('id') id: string, @CurrentUser() user: any, @Req() req: any) {
     return firstValueFrom(
@@ -94,6 +100,7 @@ export class EventsController {
   }
 
   @Patch(':id')
+  @Scopes('events:write')
   @ApiOperation({ summary: 'Update event' })
   async update(
     @Param('id') id: string,
@@ -120,6 +127,7 @@ export class EventsController {
 
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Scopes('events:write')
   @ApiOperation({ summary: 'Delete event' })
   async remove(@Param('id') id: string, @CurrentUser() user: any, @Req() req: any) {
     return firstValueFrom(
@@ -139,6 +147,7 @@ export class EventsController {
   }
 
   @Post(':id/submit')
+  @Scopes('events:write')
   @ApiOperation({ summary: 'Submit event for review' })
   async submit(
     @Param('id') id: string,
@@ -163,6 +172,7 @@ export class EventsController {
   }
 
   @Post(':id/approve')
+  @Scopes('events:moderate')
   @ApiOperation({ summary: 'Approve event' })
   async approve(
     @Param('id') id: string,
@@ -188,6 +198,7 @@ export class EventsController {
   }
 
   @Post(':id/reject')
+  @Scopes('events:moderate')
   @ApiOperation({ summary: 'Reject event' })
   async reject(
     @Param('id') id: string,
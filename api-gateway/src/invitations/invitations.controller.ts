@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Inject,
+  HttpCode,
+  HttpStatus,
+  Req,
+} from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { firstValueFrom } from 'rxjs';
+import { timeout } from 'rxjs/operators';
+import { retryWithBackoff } from '../common/utils/retry.util';
+
+@ApiTags('invitations')
+@Controller('invitations')
+export class InvitationsController {
+  constructor(
+    @Inject('AUTH_SERVICE') private authClient: ClientProxy,
+  ) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Invite a user to the organization (admin only)' })
+  async create(@Body() invitationDto: any, @CurrentUser() user: any, @Req() req: any) {
+    return firstValueFrom(
+      this.authClient
+        .send(
+          { cmd: 'auth.createInvitation' },
+          {
+            email: invitationDto.email,
+            invitedRole: invitationDto.role,
+            organizationId: user.organizationId,
+            invitedById: user.id,
+            role: user.role,
+            correlationId: req.correlationId,
+          },
+        )
+        .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 1 })),
+    );
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List organization invitations (admin only)' })
+  async findAll(@CurrentUser() user: any, @Req() req: any) {
+    return firstValueFrom(
+      this.authClient
+        .send(
+          { cmd: 'auth.listInvitations' },
+          {
+            organizationId: user.organizationId,
+            role: user.role,
+            correlationId: req.correlationId,
+          },
+        )
+        .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 3 })),
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke a pending invitation (admin only)' })
+  async revoke(@Param('id') id: string, @CurrentUser() user: any, @Req() req: any) {
+    await firstValueFrom(
+      this.authClient
+        .send(
+          { cmd: 'auth.revokeInvitation' },
+          {
+            id,
+            organizationId: user.organizationId,
+            role: user.role,
+            correlationId: req.correlationId,
+          },
+        )
+        .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 2 })),
+    );
+  }
+
+  @Post('accept')
+  @ApiOperation({ summary: 'Sign up by accepting an invitation' })
+  async accept(@Body() acceptDto: any, @Req() req: any) {
+    return firstValueFrom(
+      this.authClient
+        .send(
+          { cmd: 'auth.acceptInvitation' },
+          {
+            token: acceptDto.token,
+            password: acceptDto.password,
+            firstName: acceptDto.firstName,
+            lastName: acceptDto.lastName,
+            userAgent: req.headers['user-agent'],
+            ipAddress: req.ip,
+            correlationId: req.correlationId,
+          },
+        )
+        .pipe(timeout(5000), retryWithBackoff({ maxAttempts: 1 })),
+    );
+  }
+}
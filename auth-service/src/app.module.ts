@@ -2,16 +2,17 @@ import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { AuthController } from './auth/auth.controller';
 import { AuthService } from './auth/auth.service';
+import { SigningKeyService } from './auth/signing-key.service';
 import { PrismaService } from './prisma/prisma.service';
 
 @Module({
   imports: [
+    // Tokens are signed per call with the current SigningKey
     JwtModule.register({
-      secret: process.env.JWT_SECRET || 'your-secret-key',
       signOptions: { expiresIn: process.env.JWT_EXPIRY || '1h' } as any,
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, PrismaService],
+  providers: [AuthService, SigningKeyService, PrismaService],
 })
 export class AppModule {}
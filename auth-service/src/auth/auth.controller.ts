@@ -1,10 +1,14 @@
 import { Controller } from '@nestjs/common';
 import { MessagePattern, Payload } from '@nestjs/microservices';
 import { AuthService } from './auth.service';
+import { SigningKeyService } from './signing-key.service';
 
 @Controller()
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly signingKeyService: SigningKeyService,
+  ) {}
 
   @MessagePattern({ cmd: 'auth.signup' })
   async signup(@Payload() data: any) {
@@ -20,6 +24,77 @@ export class AuthController {
     return this.authService.login(loginDto);
   }
 
+  @MessagePattern({ cmd: 'auth.refresh' })
+  async refresh(@Payload() data: any) {
+    const { correlationId, ...refreshDto } = data;
+    console.log(`[${correlationId || 'N/A'}] auth.refresh`);
+    return this.authService.refresh(refreshDto);
+  }
+
+  @MessagePattern({ cmd: 'auth.logout' })
+  async logout(@Payload() data: any) {
+    const { correlationId, ...logoutDto } = data;
+    console.log(`[${correlationId || 'N/A'}] auth.logout`);
+    return this.authService.logout(logoutDto);
+  }
+
+  @MessagePattern({ cmd: 'auth.createInvitation' })
+  async createInvitation(@Payload() data: any) {
+    const { correlationId, ...invitationDto } = data;
+    console.log(`[${correlationId || 'N/A'}] auth.createInvitation - email: ${invitationDto.email}`);
+    return this.authService.createInvitation(invitationDto);
+  }
+
+  @MessagePattern({ cmd: 'auth.listInvitations' })
+  async listInvitations(@Payload() data: { organizationId: string; role: string; correlationId?: string }) {
+    const { correlationId, ...query } = data;
+    console.log(`[${correlationId || 'N/A'}] auth.listInvitations - organizationId: ${query.organizationId}`);
+    return this.authService.listInvitations(query);
+  }
+
+  @MessagePattern({ cmd: 'auth.revokeInvitation' })
+  async revokeInvitation(@Payload() data: { id: string; organizationId: string; role: string; correlationId?: string }) {
+    const { correlationId, ...revokeDto } = data;
+    console.log(`[${correlationId || 'N/A'}] auth.revokeInvitation - id: ${revokeDto.id}`);
+    return this.authService.revokeInvitation(revokeDto);
+  }
+
+  @MessagePattern({ cmd: 'auth.acceptInvitation' })
+  async acceptInvitation(@Payload() data: any) {
+    const { correlationId, ...acceptDto } = data;
+    console.log(`[${correlationId || 'N/A'}] auth.acceptInvitation`);
+    return this.authService.acceptInvitation(acceptDto);
+  }
+
+  @MessagePattern({ cmd: 'auth.createApiKey' })
+  async createApiKey(@Payload() data: any) {
+    const { correlationId, ...apiKeyDto } = data;
+    console.log(`[${correlationId || 'N/A'}] auth.createApiKey - userId: ${apiKeyDto.userId}`);
+    return this.authService.createApiKey(apiKeyDto);
+  }
+
+  @MessagePattern({ cmd: 'auth.listApiKeys' })
+  async listApiKeys(@Payload() data: { userId: string; correlationId?: string }) {
+    const { correlationId, ...query } = data;
+    console.log(`[${correlationId || 'N/A'}] auth.listApiKeys - userId: ${query.userId}`);
+    return this.authService.listApiKeys(query);
+  }
+
+  @MessagePattern({ cmd: 'auth.revokeApiKey' })
+  async revokeApiKey(@Payload() data: { id: string; userId: string; correlationId?: string }) {
+    const { correlationId, ...revokeDto } = data;
+    console.log(`[${correlationId || 'N/A'}] auth.revokeApiKey - id: ${revokeDto.id}`);
+    return this.authService.revokeApiKey(revokeDto);
+  }
+
+  @MessagePattern({ cmd: 'auth.validateApiKey' })
+  async validateApiKey(@Payload() data: { key: string; correlationId?: string }) {
+    const { correlationId, ...validateDto } = data;
+    // Never log the key itself
+    console.log(`[${correlationId || 'N/A'}] auth.validateApiKey`);
+    return this.authService.validateApiKey(validateDto);
+  }
+
   @MessagePattern({ cmd: 'auth.getMe' })
   async getMe(@Payload() data: { userId: string; correlationId?: string }) {
     const { correlationId, userId } = data;
@@ -33,4 +108,10 @@ export class AuthController {
     console.log(`[${correlationId || 'N/A'}] auth.validateUser - userId: ${userId}`);
     return this.authService.validateUser(userId);
   }
+
+  @MessagePattern({ cmd: 'auth.jwks' })
+  async jwks(@Payload() data: { correlationId?: string }) {
+    console.log(`[${data?.correlationId || 'N/A'}] auth.jwks`);
+    return this.signingKeyService.getJwks();
+  }
 }
@@ -3,16 +3,28 @@ import {
   UnauthorizedException,
   ConflictException,
   NotFoundException,
+  ForbiddenException,
+  BadRequestException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../prisma/prisma.service';
+import { SigningKeyService } from './signing-key.service';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(
+  process.env.REFRESH_TOKEN_TTL_DAYS || '7',
+);
+const INVITATION_TTL_DAYS = parseInt(process.env.INVITATION_TTL_DAYS || '7');
+const API_KEY_PREFIX = 'evb_';
+const API_KEY_SCOPES = ['events:read', 'events:write', 'events:moderate'];
 
 @Injectable()
 export class AuthService {
   constructor(
     private prisma: PrismaService,
     private jwtService: JwtService,
+    private signingKeyService: SigningKeyService,
   ) {}
 
   async signup(signupDto: any) {
@@ -30,18 +42,14 @@ export class AuthService {
       .replace(/[^a-z0-9]+/g, '-')
       .replace(/^-|-$/g, '');
 
-    // Find or create organization
-    let organization = await this.prisma.organization.findUnique({
+    // Signup always creates a new organization; joining an existing one
+    // requires an invitation from its admin
+    const organization = await this.prisma.organization.findUnique({
       where: { slug },
     });
 
-    if (!organization) {
-      organization = await this.prisma.organization.create({
-        data: {
-          name: signupDto.organizationName,
-          slug,
-        },
-      });
+    if (organization) {
+      throw new ConflictException('Organization with this name already exists');
     }
 
     const passwordHash = await bcrypt.hash(signupDto.password, 10);
@@ -52,8 +60,13 @@ export class AuthService {
         passwordHash,
         firstName: signupDto.firstName,
         lastName: signupDto.lastName,
-        organizationId: organization.id,
         role: 'ADMIN', // First user in org is admin
+        organization: {
+          create: {
+            name: signupDto.organizationName,
+            slug,
+          },
+        },
       },
       select: {
         id: true,
@@ -67,10 +80,16 @@ export class AuthService {
     });
 
     const accessToken = await this.generateToken(user);
+    const refreshToken = await this.createRefreshToken(
+      user.id,
+      randomUUID(),
+      signupDto,
+    );
 
     return {
       user,
       accessToken,
+      refreshToken,
     };
   }
 
@@ -93,6 +112,11 @@ export class AuthService {
     }
 
     const accessToken = await this.generateToken(user);
+    const refreshToken = await this.createRefreshToken(
+      user.id,
+      randomUUID(),
+      loginDto,
+    );
 
     return {
       user: {
@@ -105,9 +129,69 @@ export class AuthService {
         createdAt: user.createdAt,
       },
       accessToken,
+      refreshToken,
+    };
+  }
+
+  async refresh(refreshDto: any) {
+    const existing = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshDto.refreshToken) },
+      include: { user: true },
+    });
+
+    if (!existing) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // A revoked token being presented again means it leaked: kill the family
+    if (existing.revokedAt) {
+      await this.revokeFamily(existing.familyId);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    if (existing.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: existing.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      await this.revokeFamily(existing.familyId);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    const refreshToken = await this.createRefreshToken(
+      existing.userId,
+      existing.familyId,
+      {
+        userAgent: refreshDto.userAgent ?? existing.userAgent,
+        ipAddress: refreshDto.ipAddress ?? existing.ipAddress,
+      },
+      existing.id,
+    );
+    const accessToken = await this.generateToken(existing.user);
+
+    return {
+      accessToken,
+      refreshToken,
     };
   }
 
+  async logout(logoutDto: any) {
+    const existing = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(logoutDto.refreshToken) },
+    });
+
+    if (existing) {
+      await this.revokeFamily(existing.familyId);
+    }
+
+    return { success: true };
+  }
+
   async getMe(userId: string) {
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
@@ -137,6 +221,308 @@ export class AuthService {
     return user;
   }
 
+  async createInvitation(data: any) {
+    this.assertAdmin(data.role);
+
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: data.email },
+    });
+
+    if (existingUser) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    // Re-inviting an address replaces its pending invitation
+    await this.prisma.invitation.updateMany({
+      where: {
+        organizationId: data.organizationId,
+        email: data.email,
+        acceptedAt: null,
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    const token = randomBytes(32).toString('base64url');
+
+    const invitation = await this.prisma.invitation.create({
+      data: {
+        email: data.email,
+        role: data.invitedRole || 'USER',
+        tokenHash: this.hashToken(token),
+        organizationId: data.organizationId,
+        invitedById: data.invitedById,
+        expiresAt: new Date(
+          Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+        ),
+      },
+    });
+
+    // No mail transport in the microservice stack: the raw token is
+    // returned once so the admin can forward the invitation link
+    return {
+      ...this.toInvitationResponse(invitation),
+      token,
+    };
+  }
+
+  async listInvitations(data: any) {
+    this.assertAdmin(data.role);
+
+    const invitations = await this.prisma.invitation.findMany({
+      where: { organizationId: data.organizationId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map((invitation) =>
+      this.toInvitationResponse(invitation),
+    );
+  }
+
+  async revokeInvitation(data: any) {
+    this.assertAdmin(data.role);
+
+    const invitation = await this.prisma.invitation.findFirst({
+      where: { id: data.id, organizationId: data.organizationId },
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    if (invitation.acceptedAt) {
+      throw new ConflictException('Invitation has already been accepted');
+    }
+
+    if (!invitation.revokedAt) {
+      await this.prisma.invitation.update({
+        where: { id: invitation.id },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    return { success: true };
+  }
+
+  async acceptInvitation(acceptDto: any) {
+    const invitation = await this.prisma.invitation.findUnique({
+      where: { tokenHash: this.hashToken(acceptDto.token) },
+    });
+
+    if (!invitation || this.invitationStatus(invitation) !== 'PENDING') {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: invitation.email },
+    });
+
+    if (existingUser) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    const passwordHash = await bcrypt.hash(acceptDto.password, 10);
+
+    const user = await this.prisma.$transaction(async (tx) => {
+      // Conditional update so two concurrent accepts cannot both succeed
+      const { count } = await tx.invitation.updateMany({
+        where: {
+          id: invitation.id,
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        data: { acceptedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Invalid or expired invitation');
+      }
+
+      return tx.user.create({
+        data: {
+          email: invitation.email,
+          passwordHash,
+          firstName: acceptDto.firstName,
+          lastName: acceptDto.lastName,
+          role: invitation.role,
+          organizationId: invitation.organizationId,
+        },
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          role: true,
+          organizationId: true,
+          createdAt: true,
+        },
+      });
+    });
+
+    const accessToken = await this.generateToken(user);
+    const refreshToken = await this.createRefreshToken(
+      user.id,
+      randomUUID(),
+      acceptDto,
+    );
+
+    return {
+      user,
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  async createApiKey(data: any) {
+    const scopes: string[] = data.scopes || [];
+
+    if (
+      !data.name ||
+      scopes.length === 0 ||
+      scopes.some((scope) => !API_KEY_SCOPES.includes(scope))
+    ) {
+      throw new BadRequestException(
+        `An API key needs a name and scopes from: ${API_KEY_SCOPES.join(', ')}`,
+      );
+    }
+
+    const expiresAt = data.expiresAt ? new Date(data.expiresAt) : null;
+
+    if (expiresAt && !(expiresAt > new Date())) {
+      throw new BadRequestException('Expiry date must be in the future');
+    }
+
+    const key = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: data.name,
+        prefix: key.slice(0, 12),
+        keyHash: this.hashToken(key),
+        scopes: [...new Set(scopes)],
+        userId: data.userId,
+        organizationId: data.organizationId,
+        expiresAt,
+      },
+    });
+
+    // Only the hash is stored: the key is returned this one time
+    return {
+      ...this.toApiKeyResponse(apiKey),
+      key,
+    };
+  }
+
+  async listApiKeys(data: any) {
+    const apiKeys = await this.prisma.apiKey.findMany({
+      where: { userId: data.userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiKeys.map((apiKey) => this.toApiKeyResponse(apiKey));
+  }
+
+  async revokeApiKey(data: any) {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: { id: data.id, userId: data.userId },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    if (!apiKey.revokedAt) {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Resolve an API key to the user it acts as, for the gateway. The
+   * gateway enforces the returned scopes.
+   */
+  async validateApiKey(data: any) {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hashToken(data.key || '') },
+      include: { user: true },
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      throw new UnauthorizedException('API key expired');
+    }
+
+    await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return {
+      id: apiKey.user.id,
+      email: apiKey.user.email,
+      role: apiKey.user.role,
+      organizationId: apiKey.user.organizationId,
+      scopes: apiKey.scopes,
+      apiKeyId: apiKey.id,
+    };
+  }
+
+  private toApiKeyResponse(apiKey: any) {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      organizationId: apiKey.organizationId,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+
+  private assertAdmin(role: string) {
+    if (role !== 'ADMIN') {
+      throw new ForbiddenException('Access denied. Required roles: ADMIN');
+    }
+  }
+
+  private invitationStatus(invitation: any): string {
+    if (invitation.acceptedAt) {
+      return 'ACCEPTED';
+    }
+    if (invitation.revokedAt) {
+      return 'REVOKED';
+    }
+    if (invitation.expiresAt <= new Date()) {
+      return 'EXPIRED';
+    }
+    return 'PENDING';
+  }
+
+  private toInvitationResponse(invitation: any) {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      status: this.invitationStatus(invitation),
+      organizationId: invitation.organizationId,
+      invitedById: invitation.invitedById,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: invitation.acceptedAt,
+      revokedAt: invitation.revokedAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+
   private async generateToken(user: any): Promise<string> {
     const payload = {
       sub: user.id,
@@ -144,7 +530,54 @@ export class AuthService {
       role: user.role,
       organizationId: user.organizationId,
     };
-    return this.jwtService.signAsync(payload);
+    const key = await this.signingKeyService.getSigningKey();
+    return this.jwtService.signAsync(payload, {
+      privateKey: key.privateKey,
+      algorithm: key.algorithm as any,
+      keyid: key.kid,
+    });
+  }
+
+  private async createRefreshToken(
+    userId: string,
+    familyId: string,
+    context: any,
+    previousTokenId?: string,
+  ): Promise<string> {
+    const token = randomBytes(48).toString('base64url');
+
+    const created = await this.prisma.refreshToken.create({
+      data: {
+        tokenHash: this.hashToken(token),
+        familyId,
+        userId,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt: new Date(
+          Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+        ),
+      },
+    });
+
+    if (previousTokenId) {
+      await this.prisma.refreshToken.update({
+        where: { id: previousTokenId },
+        data: { replacedById: created.id },
+      });
+    }
+
+    return token;
+  }
+
+  private async revokeFamily(familyId: string) {
+    await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
   }
 
   async validateUser(userId: string) {
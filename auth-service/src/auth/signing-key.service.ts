@@ -0,0 +1,140 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+} from 'crypto';
+
+const SIGNING_ALG = process.env.JWT_SIGNING_ALG === 'ES256' ? 'ES256' : 'RS256';
+const KEY_ACTIVATION_DELAY_SECONDS = parseInt(
+  process.env.JWT_KEY_ACTIVATION_DELAY_SECONDS || '600',
+);
+const KEY_RETENTION_HOURS = parseInt(process.env.JWT_KEY_RETENTION_HOURS || '24');
+const KEY_ENCRYPTION_KEY = process.env.JWT_KEY_ENCRYPTION_KEY;
+const KEY_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Asymmetric access token signing keys, owned by this service.
+ *
+ * Verifiers (the gateway) fetch the public keys as a JWKS and select one by
+ * the token's `kid`. A rotated key is published immediately but only signs
+ * after KEY_ACTIVATION_DELAY_SECONDS, so verifier caches pick it up first;
+ * superseded keys stay published for KEY_RETENTION_HOURS so tokens they
+ * signed keep verifying until expiry. Private keys are stored encrypted.
+ */
+@Injectable()
+export class SigningKeyService {
+  private cache?: { keys: any[]; loadedAt: number };
+
+  constructor(private prisma: PrismaService) {
+    // No default: private keys must not be encrypted under a public value
+    if (!KEY_ENCRYPTION_KEY) {
+      throw new Error('JWT_KEY_ENCRYPTION_KEY must be set');
+    }
+  }
+
+  async getSigningKey(): Promise<{ kid: string; algorithm: string; privateKey: string }> {
+    const now = new Date();
+    let key = (await this.loadKeys()).filter((k) => k.activatesAt <= now).pop();
+
+    // A fresh database gets its first key on demand
+    if (!key) {
+      key = await this.createKey(now);
+      this.cache = undefined;
+    }
+
+    return { kid: key.id, algorithm: key.algorithm, privateKey: this.decrypt(key.privateKey) };
+  }
+
+  async getJwks() {
+    const keys = this.publishedKeys(await this.loadKeys(), new Date());
+
+    return {
+      keys: keys.map((key) => ({
+        ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.id,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  async rotate(): Promise<{ kid: string; activatesAt: Date }> {
+    const now = new Date();
+    const keys = await this.loadKeys(true);
+    const published = this.publishedKeys(keys, now);
+    const retired = keys.filter((key) => !published.includes(key));
+
+    if (retired.length > 0) {
+      await this.prisma.signingKey.deleteMany({
+        where: { id: { in: retired.map((key) => key.id) } },
+      });
+    }
+
+    const key = await this.createKey(new Date(now.getTime() + KEY_ACTIVATION_DELAY_SECONDS * 1000));
+    this.cache = undefined;
+
+    return { kid: key.id, activatesAt: key.activatesAt };
+  }
+
+  private async createKey(activatesAt: Date) {
+    const { publicKey, privateKey } =
+      SIGNING_ALG === 'ES256'
+        ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    return this.prisma.signingKey.create({
+      data: {
+        algorithm: SIGNING_ALG,
+        publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+        privateKey: this.encrypt(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()),
+        activatesAt,
+      },
+    });
+  }
+
+  private async loadKeys(force = false) {
+    if (!force && this.cache && Date.now() - this.cache.loadedAt < KEY_CACHE_TTL_MS) {
+      return this.cache.keys;
+    }
+
+    const keys = await this.prisma.signingKey.findMany({ orderBy: { activatesAt: 'asc' } });
+    this.cache = { keys, loadedAt: Date.now() };
+    return keys;
+  }
+
+  // Pending, current, and superseded keys still within retention
+  private publishedKeys(keys: any[], now: Date) {
+    const cutoff = now.getTime() - KEY_RETENTION_HOURS * 60 * 60 * 1000;
+    const active = keys.filter((key) => key.activatesAt <= now);
+
+    return keys.filter((key) => {
+      const successor = active.find((next) => next.activatesAt > key.activatesAt);
+      return !successor || successor.activatesAt.getTime() > cutoff;
+    });
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+  }
+
+  private decrypt(encrypted: string): string {
+    const [iv, tag, ciphertext] = encrypted.split(':').map((part) => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  private encryptionKey(): Buffer {
+    return createHash('sha256').update(KEY_ENCRYPTION_KEY!).digest();
+  }
+}
@@ -0,0 +1,18 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { SigningKeyService } from '../auth/signing-key.service';
+
+/**
+ * Rotate the access token signing key (after `npm run build`):
+ *   npm run jwt:rotate-key
+ */
+async function rotate() {
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] });
+
+  const { kid, activatesAt } = await app.get(SigningKeyService).rotate();
+  console.log(`🔑 New signing key ${kid} activates at ${activatesAt.toISOString()}`);
+
+  await app.close();
+}
+
+void rotate();
@@ -0,0 +1,37 @@
+import { Event, EventStatus } from '@prisma/client';
+
+export type EventAction = 'read' | 'update' | 'delete' | 'approve' | 'reject';
+
+type EventSubject = Pick<Event, 'createdById' | 'status'>;
+
+// Mirrors the built-in role permissions of the monolith (src/common/permissions).
+// Custom roles are not available to the microservices.
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  USER: ['event:read:own', 'event:update:own', 'event:delete:own'],
+  MODERATOR: ['event:read:any', 'event:update:any', 'event:approve', 'event:reject'],
+  ADMIN: ['event:read:any', 'event:update:any', 'event:delete:any', 'event:approve', 'event:reject'],
+};
+
+const isOwner = (userId: string, event: EventSubject) => event.createdById === userId;
+const isOwnDraft = (userId: string, event: EventSubject) =>
+  isOwner(userId, event) && event.status === EventStatus.DRAFT;
+
+const EVENT_RULES: Record<EventAction, { permission: string; when?: typeof isOwner }[]> = {
+  read: [{ permission: 'event:read:any' }, { permission: 'event:read:own', when: isOwner }],
+  update: [{ permission: 'event:update:any' }, { permission: 'event:update:own', when: isOwnDraft }],
+  delete: [{ permission: 'event:delete:any' }, { permission: 'event:delete:own', when: isOwnDraft }],
+  approve: [{ permission: 'event:approve' }],
+  reject: [{ permission: 'event:reject' }],
+};
+
+export function can(role: string, userId: string, action: EventAction, event?: EventSubject): boolean {
+  const permissions = ROLE_PERMISSIONS[role] || [];
+
+  return EVENT_RULES[action].some(
+    (rule) => permissions.includes(rule.permission) && (!rule.when || (!!event && rule.when(userId, event))),
+  );
+}
+
+export function canReadAny(role: string): boolean {
+  return (ROLE_PERMISSIONS[role] || []).includes('event:read:any');
+}
@@ -7,6 +7,7 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { EventStatus, Prisma } from '@prisma/client';
+import { can, canReadAny } from './event.policy';
 
 @Injectable()
 export class EventsService {
@@ -37,10 +38,9 @@ export class EventsService {
   }
 
   async findAllPaginated(query: any, organizationId: string, userId: string, userRole: string) {
-    const baseWhere: Prisma.EventWhereInput =
-      userRole === 'USER'
-        ? { organizationId, createdById: userId }
-        : { organizationId };
+    const baseWhere: Prisma.EventWhereInput = canReadAny(userRole)
+      ? { organizationId }
+      : { organizationId, createdById: userId };
 
     const where: Prisma.EventWhereInput = {
       ...baseWhere,
@@ -91,7 +91,7 @@ export class EventsService {
       throw new ForbiddenException('Access denied to this event');
     }
 
-    if (userRole === 'USER' && event.createdById !== userId) {
+    if (!can(userRole, userId, 'read', event)) {
       throw new ForbiddenException('Access denied to this event');
     }
 
@@ -109,13 +109,8 @@ export class EventsService {
       throw new ForbiddenException('Access denied to this event');
     }
 
-    if (userRole === 'USER') {
-      if (event.createdById !== userId) {
-        throw new ForbiddenException('You can only edit your own events');
-      }
-      if (event.status !== EventStatus.DRAFT) {
-        throw new ForbiddenException('You can only edit draft events');
-      }
+    if (!can(userRole, userId, 'update', event)) {
+      throw new ForbiddenException('You do not have permission to edit this event');
     }
 
     const updatedEvent = await this.prisma.event.update({
@@ -143,15 +138,8 @@ export class EventsService {
       throw new ForbiddenException('Access denied to this event');
     }
 
-    if (userRole === 'USER') {
-      if (event.createdById !== userId) {
-        throw new ForbiddenException('You can only delete your own events');
-      }
-      if (event.status !== EventStatus.DRAFT) {
-        throw new ForbiddenException('You can only delete draft events');
-      }
-    } else if (userRole === 'MODERATOR') {
-      throw new ForbiddenException('Moderators cannot delete events');
+    if (!can(userRole, userId, 'delete', event)) {
+      throw new ForbiddenException('You do not have permission to delete this event');
     }
 
     await this.prisma.event.delete({ where: { id } });
@@ -185,8 +173,8 @@ export class EventsService {
   }
 
   async approve(id: string, organizationId: string, userRole: string, approvedBy?: string) {
-    if (userRole === 'USER') {
-      throw new ForbiddenException('Only moderators and admins can approve events');
+    if (!can(userRole, approvedBy || '', 'approve')) {
+      throw new ForbiddenException('You do not have permission to approve events');
     }
 
     const event = await this.prisma.event.findUnique({ where: { id } });
@@ -212,8 +200,8 @@ export class EventsService {
   }
 
   async reject(id: string, rejectDto: any, organizationId: string, userRole: string, rejectedBy?: string) {
-    if (userRole === 'USER') {
-      throw new ForbiddenException('Only moderators and admins can reject events');
+    if (!can(userRole, rejectedBy || '', 'reject')) {
+      throw new ForbiddenException('You do not have permission to reject events');
     }
 
     const event = await this.prisma.event.findUnique({ where: { id } });
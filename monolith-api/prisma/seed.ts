@@ -38,8 +38,10 @@ async function main() {
       passwordHash,
       firstName: 'Admin',
       lastName: 'User',
-      role: UserRole.ADMIN,
-      organizationId: org1.id,
+      emailVerifiedAt: new Date(),
+      memberships: {
+        create: { organizationId: org1.id, role: UserRole.ADMIN },
+      },
     },
   });
 
@@ -51,8 +53,10 @@ async function main() {
       passwordHash,
       firstName: 'Moderator',
       lastName: 'User',
-      role: UserRole.MODERATOR,
-      organizationId: org1.id,
+      emailVerifiedAt: new Date(),
+      memberships: {
+        create: { organizationId: org1.id, role: UserRole.MODERATOR },
+      },
     },
   });
 
@@ -64,8 +68,10 @@ async function main() {
       passwordHash,
       firstName: 'Regular',
       lastName: 'User',
-      role: UserRole.USER,
-      organizationId: org1.id,
+      emailVerifiedAt: new Date(),
+      memberships: {
+        create: { organizationId: org1.id, role: UserRole.USER },
+      },
     },
   });
 
@@ -77,13 +83,36 @@ async function main() {
       passwordHash,
       firstName: 'Tech',
       lastName: 'User',
-      role: UserRole.USER,
+      emailVerifiedAt: new Date(),
+      memberships: {
+        create: { organizationId: org2.id, role: UserRole.USER },
+      },
+    },
+  });
+
+  // The Acme moderator also helps out at Tech Innovators as a regular member
+  await prisma.membership.upsert({
+    where: {
+      userId_organizationId: {
+        userId: moderatorUser.id,
+        organizationId: org2.id,
+      },
+    },
+    update: {},
+    create: {
+      userId: moderatorUser.id,
       organizationId: org2.id,
+      role: UserRole.USER,
     },
   });
 
   console.log('✅ Users created');
 
+  await prisma.organization.update({
+    where: { id: org1.id },
+    data: { ownerId: adminUser.id },
+  });
+
   // Create Sample Events
   await prisma.event.upsert({
     where: { id: '00000000-0000-0000-0000-000000000001' },
@@ -138,6 +167,7 @@ async function main() {
   console.log('\n📊 Seed Summary:');
   console.log(`Organizations: ${await prisma.organization.count()}`);
   console.log(`Users: ${await prisma.user.count()}`);
+  console.log(`Memberships: ${await prisma.membership.count()}`);
   console.log(`Events: ${await prisma.event.count()}`);
 
   console.log('\n🔐 Test Credentials:');
@@ -8,15 +8,25 @@ import { HealthController } from './health/health.controller';
 import { RequestIdMiddleware } from './common/middleware/request-id.middleware';
 import { DatabaseModule } from './database/database.module';
 import { AuthModule } from './modules/auth/auth.module';
+import { CategoriesModule } from './modules/categories/categories.module';
 import { EventsModule as EventsFeatureModule } from './modules/events/events.module';
+import { InvitationsModule } from './modules/invitations/invitations.module';
+import { OrganizationsModule } from './modules/orgs/organizations.module';
+import { RolesModule } from './modules/roles/roles.module';
+import { SsoModule } from './modules/sso/sso.module';
+import { VenuesModule } from './modules/venues/venues.module';
 import { EventsModule as DomainEventsModule } from './common/events';
+import { MailerModule } from './common/mailer';
+import { StorageModule } from './common/storage';
 import appConfig from './config/app.config';
+import mailConfig from './config/mail.config';
+import storageConfig from './config/storage.config';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig],
+      load: [appConfig, mailConfig, storageConfig],
       envFilePath: '.env',
     }),
     LoggerModule.forRoot({
@@ -39,9 +49,17 @@ import appConfig from './config/app.config';
       },
     }),
     DomainEventsModule, // Global event bus
+    MailerModule, // Global mail transport
+    StorageModule, // Global file storage
     DatabaseModule,
     AuthModule,
+    CategoriesModule,
     EventsFeatureModule,
+    InvitationsModule,
+    OrganizationsModule,
+    RolesModule,
+    SsoModule,
+    VenuesModule,
     TerminusModule,
   ],
   controllers: [AppController, HealthController],
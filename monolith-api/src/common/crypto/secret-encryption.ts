@@ -0,0 +1,41 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+/**
+ * AES-256-GCM encryption for secrets stored at rest (MFA seeds, SSO client
+ * secrets, signing keys). The key is derived from a configured passphrase;
+ * the result is `iv:tag:ciphertext`, each part base64 encoded.
+ */
+export function encryptSecret(plaintext: string, passphrase: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString('base64'))
+    .join(':');
+}
+
+export function decryptSecret(encrypted: string, passphrase: string): string {
+  const [iv, tag, ciphertext] = encrypted
+    .split(':')
+    .map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(passphrase), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+function deriveKey(passphrase: string): Buffer {
+  return createHash('sha256').update(passphrase).digest();
+}
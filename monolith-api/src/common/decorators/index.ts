@@ -1,3 +1,4 @@
 export * from './public.decorator';
 export * from './roles.decorator';
 export * from './no-envelope.decorator';
+export * from './require-permission.decorator';
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+export const RequirePermission = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,32 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Request } from 'express';
+
+/**
+ * Rejects requests from users who have not verified their email address.
+ * Must run after JwtAuthGuard so that request.user is populated.
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context
+      .switchToHttp()
+      .getRequest<Request & { user?: { emailVerifiedAt?: Date | null } }>();
+
+    if (!user) {
+      throw new ForbiddenException('User not found in request');
+    }
+
+    if (!user.emailVerifiedAt) {
+      throw new ForbiddenException(
+        'Email address must be verified before performing this action',
+      );
+    }
+
+    return true;
+  }
+}
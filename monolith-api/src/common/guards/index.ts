@@ -1 +1,4 @@
 export * from './roles.guard';
+export * from './email-verified.guard';
+export * from './permissions.guard';
+export * from './not-impersonating.guard';
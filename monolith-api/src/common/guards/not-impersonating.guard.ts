@@ -0,0 +1,29 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Request } from 'express';
+
+/**
+ * Blocks sensitive account actions (credentials, MFA, switching
+ * organization) for an admin who is impersonating the user.
+ * Must run after JwtAuthGuard so that request.user is populated.
+ */
+@Injectable()
+export class NotImpersonatingGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context
+      .switchToHttp()
+      .getRequest<Request & { user?: { impersonator?: unknown } }>();
+
+    if (user?.impersonator) {
+      throw new ForbiddenException(
+        'This action is not allowed while impersonating a user',
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Permission } from '../permissions';
+import { PERMISSIONS_KEY } from '../decorators/require-permission.decorator';
+
+/**
+ * Allows the request if the user holds any of the permissions listed
+ * with @RequirePermission(). Resource-level checks (ownership, status)
+ * stay in the services via can(). Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredPermissions) {
+      return true;
+    }
+
+    const { user } = context
+      .switchToHttp()
+      .getRequest<Request & { user?: { permissions?: Permission[] } }>();
+
+    if (!user) {
+      throw new ForbiddenException('User not found in request');
+    }
+
+    const granted = requiredPermissions.some((permission) =>
+      user.permissions?.includes(permission),
+    );
+
+    if (!granted) {
+      throw new ForbiddenException(
+        `Access denied. Required permissions: ${requiredPermissions.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
@@ -23,6 +23,7 @@ export class RolesGuard implements CanActivate {
       throw new ForbiddenException('User not found in request');
     }
 
+    // user.role is the role of the token's active organization membership
     const hasRole = requiredRoles.some((role) => user.role === role);
 
     if (!hasRole) {
@@ -0,0 +1,5 @@
+export * from './mail-message.interface';
+export * from './mailer.service';
+export * from './smtp-mailer.service';
+export * from './outbox-mailer.service';
+export * from './mailer.module';
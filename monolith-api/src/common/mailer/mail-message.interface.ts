@@ -0,0 +1,17 @@
+/**
+ * Outgoing email message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Message as recorded by a mail transport, including metadata
+ */
+export interface SentMailMessage extends MailMessage {
+  from: string;
+  sentAt: Date;
+}
@@ -0,0 +1,25 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailerService } from './mailer.service';
+import { SmtpMailerService } from './smtp-mailer.service';
+import { OutboxMailerService } from './outbox-mailer.service';
+
+/**
+ * Global module for outgoing mail
+ * MAIL_TRANSPORT selects the implementation: "smtp" or "outbox" (default)
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MailerService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('mail.transport') === 'smtp'
+          ? new SmtpMailerService(configService)
+          : new OutboxMailerService(configService),
+    },
+  ],
+  exports: [MailerService],
+})
+export class MailerModule {}
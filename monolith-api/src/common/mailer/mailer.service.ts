@@ -0,0 +1,9 @@
+import { MailMessage } from './mail-message.interface';
+
+/**
+ * Transport-agnostic mailer
+ * Inject this class; the concrete transport is selected by MailerModule
+ */
+export abstract class MailerService {
+  abstract send(message: MailMessage): Promise<void>;
+}
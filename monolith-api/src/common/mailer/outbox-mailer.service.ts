@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailerService } from './mailer.service';
+import { MailMessage, SentMailMessage } from './mail-message.interface';
+
+/**
+ * Development/test transport that keeps sent mail in memory
+ * and optionally mirrors each message to a JSON file in MAIL_OUTBOX_DIR
+ */
+@Injectable()
+export class OutboxMailerService extends MailerService {
+  private readonly logger = new Logger(OutboxMailerService.name);
+  private readonly messages: SentMailMessage[] = [];
+  private readonly from: string;
+  private readonly outboxDir?: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.from = configService.get<string>('mail.from', '');
+    this.outboxDir = configService.get<string>('mail.outboxDir');
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const sent: SentMailMessage = {
+      ...message,
+      from: this.from,
+      sentAt: new Date(),
+    };
+
+    this.messages.push(sent);
+
+    if (this.outboxDir) {
+      await mkdir(this.outboxDir, { recursive: true });
+      const fileName = `${sent.sentAt.getTime()}-${this.messages.length}.json`;
+      await writeFile(
+        join(this.outboxDir, fileName),
+        JSON.stringify(sent, null, 2),
+      );
+    }
+
+    this.logger.log(`Queued "${message.subject}" for ${message.to} in outbox`);
+  }
+
+  /**
+   * All messages sent since startup (or the last clear), oldest first
+   */
+  getMessages(): SentMailMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Most recent message sent to the given recipient
+   */
+  findLatest(to: string): SentMailMessage | undefined {
+    return [...this.messages].reverse().find((message) => message.to === to);
+  }
+
+  /**
+   * Clear the outbox (useful for testing)
+   */
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,36 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import { MailerService } from './mailer.service';
+import { MailMessage } from './mail-message.interface';
+
+/**
+ * Delivers mail through an SMTP relay
+ */
+@Injectable()
+export class SmtpMailerService extends MailerService {
+  private readonly logger = new Logger(SmtpMailerService.name);
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.from = configService.get<string>('mail.from', '');
+    this.transporter = createTransport({
+      host: configService.get<string>('mail.smtp.host'),
+      port: configService.get<number>('mail.smtp.port'),
+      secure: configService.get<boolean>('mail.smtp.secure', false),
+      auth: configService.get<string>('mail.smtp.user')
+        ? {
+            user: configService.get<string>('mail.smtp.user'),
+            pass: configService.get<string>('mail.smtp.password'),
+          }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+    this.logger.log(`Sent "${message.subject}" to ${message.to}`);
+  }
+}
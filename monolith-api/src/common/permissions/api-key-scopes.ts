@@ -0,0 +1,39 @@
+import { Permission } from './permissions';
+
+export const API_KEY_SCOPES = [
+  'events:read',
+  'events:write',
+  'events:moderate',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Permissions a scope allows. A key never grants more than its owner's
+ * membership in the key's organization.
+ */
+export const SCOPE_PERMISSIONS: Record<ApiKeyScope, readonly Permission[]> = {
+  'events:read': ['event:read:own', 'event:read:any'],
+  'events:write': [
+    'event:create',
+    'event:update:own',
+    'event:update:any',
+    'event:delete:own',
+    'event:delete:any',
+    'event:restore',
+    'event:submit:own',
+    'event:register',
+  ],
+  'events:moderate': ['event:approve', 'event:reject'],
+};
+
+export function restrictToScopes(
+  permissions: readonly Permission[],
+  scopes: readonly string[],
+): Permission[] {
+  const allowed = new Set(
+    scopes.flatMap((scope) => SCOPE_PERMISSIONS[scope as ApiKeyScope] ?? []),
+  );
+
+  return permissions.filter((permission) => allowed.has(permission));
+}
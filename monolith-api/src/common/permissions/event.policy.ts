@@ -0,0 +1,108 @@
+import { Event, EventStatus, Prisma } from '@prisma/client';
+import { Permission } from './permissions';
+
+export type EventAction =
+  | 'create'
+  | 'read'
+  | 'update'
+  | 'delete'
+  | 'submit'
+  | 'approve'
+  | 'reject'
+  | 'restore'
+  | 'register';
+
+/**
+ * The parts of the authenticated request user the policy looks at
+ */
+export interface PolicyUser {
+  id: string;
+  organizationId: string;
+  permissions: readonly Permission[];
+}
+
+type EventSubject = Pick<Event, 'organizationId' | 'createdById' | 'status'>;
+
+interface Rule {
+  permission: Permission;
+  when?: (user: PolicyUser, event: EventSubject) => boolean;
+}
+
+const isOwner = (user: PolicyUser, event: EventSubject) =>
+  event.createdById === user.id;
+
+const isOwnDraft = (user: PolicyUser, event: EventSubject) =>
+  isOwner(user, event) && event.status === EventStatus.DRAFT;
+
+// An action is allowed if any of its rules grants it
+const EVENT_RULES: Record<EventAction, Rule[]> = {
+  create: [{ permission: 'event:create' }],
+  read: [
+    { permission: 'event:read:any' },
+    { permission: 'event:read:own', when: isOwner },
+  ],
+  update: [
+    { permission: 'event:update:any' },
+    { permission: 'event:update:own', when: isOwnDraft },
+  ],
+  delete: [
+    { permission: 'event:delete:any' },
+    { permission: 'event:delete:own', when: isOwnDraft },
+  ],
+  submit: [{ permission: 'event:submit:own', when: isOwner }],
+  approve: [{ permission: 'event:approve' }],
+  reject: [{ permission: 'event:reject' }],
+  restore: [{ permission: 'event:restore' }],
+  register: [{ permission: 'event:register' }],
+};
+
+/**
+ * Whether the user may perform the action on the event. Without an
+ * event only unconditional rules apply. Events of other organizations
+ * are never accessible.
+ */
+export function can(
+  user: PolicyUser,
+  action: EventAction,
+  event?: EventSubject,
+): boolean {
+  if (event && event.organizationId !== user.organizationId) {
+    return false;
+  }
+
+  return EVENT_RULES[action].some(
+    (rule) =>
+      user.permissions.includes(rule.permission) &&
+      (!rule.when || (!!event && rule.when(user, event))),
+  );
+}
+
+/**
+ * Filter matching the events the user may read, for list queries
+ */
+export function readableEventsWhere(user: PolicyUser): Prisma.EventWhereInput {
+  if (user.permissions.includes('event:read:any')) {
+    return { organizationId: user.organizationId };
+  }
+
+  if (user.permissions.includes('event:read:own')) {
+    return { organizationId: user.organizationId, createdById: user.id };
+  }
+
+  return { organizationId: user.organizationId, id: { in: [] } };
+}
+
+/**
+ * readableEventsWhere as a condition on "events", for raw queries
+ */
+export function readableEventsSql(user: PolicyUser): Prisma.Sql {
+  if (user.permissions.includes('event:read:any')) {
+    return Prisma.sql`"organizationId" = ${user.organizationId}`;
+  }
+
+  if (user.permissions.includes('event:read:own')) {
+    return Prisma.sql`"organizationId" = ${user.organizationId} AND "createdById" = ${user.id}`;
+  }
+
+  return Prisma.sql`FALSE`;
+}
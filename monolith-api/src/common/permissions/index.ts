@@ -0,0 +1,3 @@
+export * from './permissions';
+export * from './event.policy';
+export * from './api-key-scopes';
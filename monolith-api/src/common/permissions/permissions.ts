@@ -0,0 +1,68 @@
+import { UserRole } from '@prisma/client';
+
+/**
+ * Every permission that can be granted to a role. `:own` permissions
+ * only apply to events the user created (see event.policy.ts).
+ */
+export const PERMISSIONS = [
+  'event:create',
+  'event:read:own',
+  'event:read:any',
+  'event:update:own',
+  'event:update:any',
+  'event:delete:own',
+  'event:delete:any',
+  'event:submit:own',
+  'event:approve',
+  'event:reject',
+  'event:restore',
+  'event:register',
+  'role:manage',
+  'venue:manage',
+  'category:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permission sets of the built-in roles, used for memberships that have
+ * no custom role assigned
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> =
+  {
+    [UserRole.USER]: [
+      'event:create',
+      'event:read:own',
+      'event:update:own',
+      'event:delete:own',
+      'event:submit:own',
+      'event:register',
+    ],
+    [UserRole.MODERATOR]: [
+      'event:create',
+      'event:read:any',
+      'event:update:any',
+      'event:submit:own',
+      'event:approve',
+      'event:reject',
+      'event:register',
+    ],
+    [UserRole.ADMIN]: PERMISSIONS,
+  };
+
+/**
+ * A custom role replaces the built-in permission set of the membership's
+ * base role. Unknown permission strings stored in the database are dropped.
+ */
+export function resolvePermissions(
+  role: UserRole,
+  customRole?: { permissions: string[] } | null,
+): Permission[] {
+  if (!customRole) {
+    return [...DEFAULT_ROLE_PERMISSIONS[role]];
+  }
+
+  return customRole.permissions.filter((permission): permission is Permission =>
+    (PERMISSIONS as readonly string[]).includes(permission),
+  );
+}
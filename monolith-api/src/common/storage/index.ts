@@ -0,0 +1,4 @@
+export * from './storage.service';
+export * from './local-storage.service';
+export * from './s3-storage.service';
+export * from './storage.module';
@@ -0,0 +1,54 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { StorageService } from './storage.service';
+
+/**
+ * Keeps files on the local filesystem under STORAGE_LOCAL_DIR
+ */
+@Injectable()
+export class LocalStorageService extends StorageService {
+  private readonly root: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.root = resolve(configService.get<string>('storage.localDir', '.'));
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.pathFor(key);
+
+    try {
+      await stat(path);
+    } catch {
+      throw new NotFoundException('File not found');
+    }
+
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  // Keys must not escape the storage directory
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,79 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { StorageService } from './storage.service';
+
+/**
+ * Keeps files in an S3-compatible bucket. Set S3_ENDPOINT and
+ * S3_FORCE_PATH_STYLE=true to use MinIO or another non-AWS server.
+ */
+@Injectable()
+export class S3StorageService extends StorageService {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.bucket = configService.get<string>('storage.s3.bucket', '');
+
+    const accessKeyId = configService.get<string>('storage.s3.accessKeyId');
+    this.client = new S3Client({
+      endpoint: configService.get<string>('storage.s3.endpoint'),
+      region: configService.get<string>('storage.s3.region'),
+      forcePathStyle: configService.get<boolean>(
+        'storage.s3.forcePathStyle',
+        false,
+      ),
+      credentials: accessKeyId
+        ? {
+            accessKeyId,
+            secretAccessKey: configService.get<string>(
+              'storage.s3.secretAccessKey',
+              '',
+            ),
+          }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const object = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+
+      // In Node.js the SDK returns the body as a stream
+      return object.Body as Readable;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new NotFoundException('File not found');
+      }
+
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+}
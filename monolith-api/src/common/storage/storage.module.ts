@@ -0,0 +1,25 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService } from './storage.service';
+import { LocalStorageService } from './local-storage.service';
+import { S3StorageService } from './s3-storage.service';
+
+/**
+ * Global module for file storage
+ * STORAGE_DRIVER selects the implementation: "s3" or "local" (default)
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: StorageService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('storage.driver') === 's3'
+          ? new S3StorageService(configService)
+          : new LocalStorageService(configService),
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,20 @@
+import { Readable } from 'stream';
+
+/**
+ * Backend-agnostic file storage
+ * Inject this class; the concrete driver is selected by StorageModule.
+ * Keys are slash-separated paths such as "events/<id>/<file>".
+ */
+export abstract class StorageService {
+  abstract put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Throws NotFoundException when nothing is stored under the key
+   */
+  abstract get(key: string): Promise<Readable>;
+
+  /**
+   * Deleting a missing key is not an error
+   */
+  abstract delete(key: string): Promise<void>;
+}
@@ -5,4 +5,6 @@ export default registerAs('app', () => ({
   port: parseInt(process.env.PORT || '3000', 10),
   appName: process.env.APP_NAME || 'EventBoard API',
   enableEnvelope: process.env.ENABLE_ENVELOPE === 'true',
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
+  apiUrl: process.env.API_URL || 'http://localhost:3000',
 }));
@@ -0,0 +1,14 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('mail', () => ({
+  transport: process.env.MAIL_TRANSPORT || 'outbox',
+  from: process.env.MAIL_FROM || 'EventBoard <no-reply@eventboard.local>',
+  outboxDir: process.env.MAIL_OUTBOX_DIR,
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+  },
+}));
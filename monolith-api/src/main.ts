@@ -61,6 +61,7 @@ async function bootstrap() {
     .addTag('events', 'Event management endpoints')
     .addTag('health', 'Health check endpoints')
     .addBearerAuth()
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'api-key')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { UserTokenPurpose } from '@prisma/client';
+import { ActionTokenService } from './action-token.service';
+import { PrismaService } from '../../database/prisma.service';
+
+describe('ActionTokenService', () => {
+  let service: ActionTokenService;
+
+  const mockPrismaService = {
+    userToken: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    getOrThrow: jest.fn((key: string) => `test-${key}`),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ActionTokenService,
+        JwtService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ActionTokenService>(ActionTokenService);
+
+    mockPrismaService.userToken.create.mockResolvedValue({ id: 'token-1' });
+    mockPrismaService.userToken.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('configuration', () => {
+    it('should refuse to start without ACTION_TOKEN_SECRET', () => {
+      expect(
+        () =>
+          new ActionTokenService(
+            mockPrismaService as unknown as PrismaService,
+            new JwtService(),
+            new ConfigService({}),
+          ),
+      ).toThrow('ACTION_TOKEN_SECRET');
+    });
+  });
+
+  describe('consume', () => {
+    it('should mark the token used', async () => {
+      const token = await service.issue(
+        'user-1',
+        UserTokenPurpose.PASSWORD_RESET,
+      );
+
+      await expect(
+        service.consume(token, UserTokenPurpose.PASSWORD_RESET),
+      ).resolves.toBe('user-1');
+      const [{ where }] = mockPrismaService.userToken.updateMany.mock
+        .lastCall as [{ where: Record<string, unknown> }];
+      expect(where).toMatchObject({ id: 'token-1', usedAt: null });
+    });
+
+    it('should reject a token signed with another secret', async () => {
+      const token = await new JwtService().signAsync(
+        {
+          sub: 'user-1',
+          jti: 'token-1',
+          purpose: UserTokenPurpose.PASSWORD_RESET,
+        },
+        { secret: 'your-action-token-secret' },
+      );
+
+      await expect(
+        service.consume(token, UserTokenPurpose.PASSWORD_RESET),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.userToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyChallenge', () => {
+    it('should refuse a signed challenge without an unused record', async () => {
+      const token = await service.issue(
+        'user-1',
+        UserTokenPurpose.MFA_CHALLENGE,
+      );
+      mockPrismaService.userToken.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.verifyChallenge(token, UserTokenPurpose.MFA_CHALLENGE),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should not accept another purpose as a challenge', async () => {
+      const token = await service.issue(
+        'user-1',
+        UserTokenPurpose.PASSWORD_RESET,
+      );
+      mockPrismaService.userToken.findFirst.mockResolvedValue({
+        id: 'token-1',
+      });
+
+      await expect(
+        service.verifyChallenge(token, UserTokenPurpose.MFA_CHALLENGE),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
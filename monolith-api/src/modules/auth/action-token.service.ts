@@ -0,0 +1,173 @@
+import {
+  BadRequestException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { UserTokenPurpose } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+
+interface ActionTokenPayload {
+  sub: string;
+  jti: string;
+  purpose: UserTokenPurpose;
+}
+
+const TOKEN_TTL_MINUTES: Record<UserTokenPurpose, number> = {
+  [UserTokenPurpose.EMAIL_VERIFICATION]: 24 * 60,
+  [UserTokenPurpose.PASSWORD_RESET]: 30,
+  [UserTokenPurpose.MFA_CHALLENGE]: 5,
+};
+
+/**
+ * Signed, single-use tokens for emailed actions (verify email, reset password)
+ * and for the MFA step of login.
+ *
+ * Tokens are JWTs signed with a secret separate from access tokens, so they
+ * can never be used as bearer credentials. The `jti` claim points at a
+ * UserToken row which is marked used on consumption.
+ */
+@Injectable()
+export class ActionTokenService {
+  // Signs every token issued here; ACTION_TOKEN_SECRET must be set
+  private readonly secret: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    configService: ConfigService,
+  ) {
+    this.secret = configService.getOrThrow<string>('ACTION_TOKEN_SECRET');
+  }
+
+  async issue(userId: string, purpose: UserTokenPurpose): Promise<string> {
+    const ttlMinutes = TOKEN_TTL_MINUTES[purpose];
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    // Only the most recently issued token for a purpose stays valid
+    await this.prisma.userToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    const record = await this.prisma.userToken.create({
+      data: { userId, purpose, expiresAt },
+    });
+
+    const payload: ActionTokenPayload = {
+      sub: userId,
+      jti: record.id,
+      purpose,
+    };
+
+    return this.jwtService.signAsync(payload, {
+      secret: this.secret,
+      expiresIn: ttlMinutes * 60,
+    });
+  }
+
+  /**
+   * Check that a token is valid for the given purpose without using it up,
+   * e.g. to validate the rest of a request before consuming the token.
+   * Returns the ID of the user the token was issued to.
+   */
+  async verify(token: string, purpose: UserTokenPurpose): Promise<string> {
+    const payload = await this.decode(token, purpose);
+
+    const record = await this.prisma.userToken.findFirst({
+      where: {
+        id: payload.jti,
+        userId: payload.sub,
+        purpose,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true },
+    });
+
+    if (!record) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return payload.sub;
+  }
+
+  /**
+   * Verify a token for the given purpose and mark it used.
+   * Returns the ID of the user the token was issued to.
+   */
+  async consume(token: string, purpose: UserTokenPurpose): Promise<string> {
+    const payload = await this.decode(token, purpose);
+
+    const { count } = await this.prisma.userToken.updateMany({
+      where: {
+        id: payload.jti,
+        userId: payload.sub,
+        purpose,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return payload.sub;
+  }
+
+  /**
+   * verify() for a login challenge. The caller is not signed in yet, so
+   * a bad challenge is reported as 401 like bad credentials.
+   */
+  async verifyChallenge(
+    token: string,
+    purpose: UserTokenPurpose,
+  ): Promise<string> {
+    return this.asChallenge(() => this.verify(token, purpose));
+  }
+
+  /**
+   * consume() for a login challenge, reported like verifyChallenge()
+   */
+  async consumeChallenge(
+    token: string,
+    purpose: UserTokenPurpose,
+  ): Promise<string> {
+    return this.asChallenge(() => this.consume(token, purpose));
+  }
+
+  private async asChallenge(check: () => Promise<string>): Promise<string> {
+    try {
+      return await check();
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw new UnauthorizedException('Invalid or expired challenge token');
+      }
+      throw error;
+    }
+  }
+
+  private async decode(
+    token: string,
+    purpose: UserTokenPurpose,
+  ): Promise<ActionTokenPayload> {
+    let payload: ActionTokenPayload;
+
+    try {
+      payload = await this.jwtService.verifyAsync<ActionTokenPayload>(token, {
+        secret: this.secret,
+      });
+    } catch {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    if (payload.purpose !== purpose) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return payload;
+  }
+}
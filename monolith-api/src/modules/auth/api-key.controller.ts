@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ApiKeyService } from './api-key.service';
+import {
+  CreateApiKeyDto,
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { NotImpersonatingGuard } from '../../common/guards/not-impersonating.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@ApiTags('auth')
+@Controller('auth/api-keys')
+@UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+@ApiBearerAuth()
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a personal API key for the active organization',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created; the key is only returned this once',
+    type: CreatedApiKeyResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  async create(
+    @Body() createApiKeyDto: CreateApiKeyDto,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<CreatedApiKeyResponseDto> {
+    return this.apiKeyService.create(createApiKeyDto, userId, organizationId);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your API keys in the active organization' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the API keys, including revoked ones',
+    type: [ApiKeyResponseDto],
+  })
+  async findAll(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<ApiKeyResponseDto[]> {
+    return this.apiKeyService.findAll(userId, organizationId);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({ status: 204, description: 'API key revoked' })
+  @ApiResponse({ status: 403, description: 'Not your API key' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revoke(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<void> {
+    return this.apiKeyService.revoke(id, userId);
+  }
+}
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ApiKeyService, API_KEY_PREFIX } from './api-key.service';
+import { AuthService } from './auth.service';
+import { PrismaService } from '../../database/prisma.service';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../common/permissions';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+
+  const mockPrismaService = {
+    apiKey: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockAuthService = {
+    validateUser: jest.fn(),
+  };
+
+  const userId = 'user-1';
+  const organizationId = 'org-1';
+
+  const storedKey = {
+    id: 'key-1',
+    name: 'CI pipeline',
+    prefix: 'evb_abcdefgh',
+    keyHash: 'hash',
+    scopes: ['events:read'],
+    userId,
+    organizationId,
+    expiresAt: null as Date | null,
+    lastUsedAt: null,
+    revokedAt: null as Date | null,
+    createdAt: new Date(),
+  };
+
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store only the hash and return the key once', async () => {
+      mockPrismaService.apiKey.create.mockImplementation(
+        ({ data }: { data: typeof storedKey }) => ({ ...storedKey, ...data }),
+      );
+
+      const result = await service.create(
+        { name: 'CI pipeline', scopes: ['events:read'] },
+        userId,
+        organizationId,
+      );
+
+      const [[{ data }]] = mockPrismaService.apiKey.create.mock.calls as [
+        [{ data: typeof storedKey }],
+      ];
+      expect(result.key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(data.keyHash).toBe(sha256(result.key));
+      expect(data.prefix).toBe(result.key.slice(0, 12));
+      expect(data).not.toHaveProperty('key');
+      expect(data.expiresAt).toBeNull();
+    });
+
+    it('should reject an expiry date in the past', async () => {
+      await expect(
+        service.create(
+          {
+            name: 'CI pipeline',
+            scopes: ['events:read'],
+            expiresAt: '2020-01-01T00:00:00Z',
+          },
+          userId,
+          organizationId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.apiKey.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it("should not revoke another user's key", async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(storedKey);
+
+      await expect(service.revoke(storedKey.id, 'user-2')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockPrismaService.apiKey.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    const member = {
+      id: userId,
+      email: 'bot@acme.com',
+      organizationId,
+      role: 'ADMIN',
+      permissions: [...DEFAULT_ROLE_PERMISSIONS.ADMIN],
+    };
+
+    it("should limit the owner's permissions to the key's scopes", async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(storedKey);
+      mockAuthService.validateUser.mockResolvedValue(member);
+
+      const result = await service.authenticate('evb_secret');
+
+      expect(mockPrismaService.apiKey.findUnique).toHaveBeenCalledWith({
+        where: { keyHash: sha256('evb_secret') },
+      });
+      expect(mockAuthService.validateUser).toHaveBeenCalledWith(
+        userId,
+        organizationId,
+      );
+      expect(result.permissions).toEqual(['event:read:own', 'event:read:any']);
+      expect(result.apiKeyId).toBe(storedKey.id);
+      expect(mockPrismaService.apiKey.update).toHaveBeenCalledWith({
+        where: { id: storedKey.id },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('should not grant scoped permissions the owner lacks', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        scopes: ['events:read', 'events:moderate'],
+      });
+      mockAuthService.validateUser.mockResolvedValue({
+        ...member,
+        role: 'USER',
+        permissions: [...DEFAULT_ROLE_PERMISSIONS.USER],
+      });
+
+      const result = await service.authenticate('evb_secret');
+
+      expect(result.permissions).toEqual(['event:read:own']);
+    });
+
+    it('should reject unknown and revoked keys', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValueOnce(null);
+      await expect(service.authenticate('evb_unknown')).rejects.toThrow(
+        UnauthorizedException,
+      );
+
+      mockPrismaService.apiKey.findUnique.mockResolvedValueOnce({
+        ...storedKey,
+        revokedAt: new Date(),
+      });
+      await expect(service.authenticate('evb_secret')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockAuthService.validateUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired keys', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.authenticate('evb_secret')).rejects.toThrow(
+        'API key expired',
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiKey } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { ApiKeyScope, restrictToScopes } from '../../common/permissions';
+import { AuthService } from './auth.service';
+import {
+  CreateApiKeyDto,
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto';
+
+// Makes keys recognizable, e.g. by secret scanners and the api-key strategy
+export const API_KEY_PREFIX = 'evb_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * Personal API keys for machine clients. A key acts as its owner in one
+ * organization, limited to the permissions its scopes allow. Only a hash
+ * of the key is stored.
+ */
+@Injectable()
+export class ApiKeyService {
+  constructor(
+    private prisma: PrismaService,
+    private authService: AuthService,
+  ) {}
+
+  async create(
+    createApiKeyDto: CreateApiKeyDto,
+    userId: string,
+    organizationId: string,
+  ): Promise<CreatedApiKeyResponseDto> {
+    const expiresAt = createApiKeyDto.expiresAt
+      ? new Date(createApiKeyDto.expiresAt)
+      : null;
+
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('Expiry date must be in the future');
+    }
+
+    const key = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: createApiKeyDto.name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: this.hash(key),
+        scopes: createApiKeyDto.scopes,
+        userId,
+        organizationId,
+        expiresAt,
+      },
+    });
+
+    return new CreatedApiKeyResponseDto({ ...this.toResponse(apiKey), key });
+  }
+
+  async findAll(
+    userId: string,
+    organizationId: string,
+  ): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.prisma.apiKey.findMany({
+      where: { userId, organizationId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiKeys.map((apiKey) => this.toResponse(apiKey));
+  }
+
+  async revoke(id: string, userId: string): Promise<void> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { id },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    if (apiKey.userId !== userId) {
+      throw new ForbiddenException('Access denied to this API key');
+    }
+
+    if (!apiKey.revokedAt) {
+      await this.prisma.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+    }
+  }
+
+  /**
+   * Resolve a presented key to the request user. The owner's membership
+   * is checked on every use, so removing or deactivating a member also
+   * disables their keys.
+   */
+  async authenticate(key: string) {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hash(key) },
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      throw new UnauthorizedException('API key expired');
+    }
+
+    const user = await this.authService.validateUser(
+      apiKey.userId,
+      apiKey.organizationId,
+    );
+
+    await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return {
+      ...user,
+      permissions: restrictToScopes(user.permissions, apiKey.scopes),
+      apiKeyId: apiKey.id,
+    };
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private toResponse(apiKey: ApiKey): ApiKeyResponseDto {
+    return new ApiKeyResponseDto({
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      organizationId: apiKey.organizationId,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    });
+  }
+}
@@ -1,4 +1,14 @@
-import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  UseGuards,
+  Ip,
+  Headers,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
@@ -6,9 +16,20 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
-import { SignupDto, LoginDto } from './dto';
+import type { Impersonator } from './impersonation.service';
+import {
+  SignupDto,
+  LoginDto,
+  RefreshTokenDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
+  VerifyEmailDto,
+  SwitchOrganizationDto,
+} from './dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
+import { NotImpersonatingGuard } from '../../common/guards/not-impersonating.guard';
 import { CurrentUser } from './decorators/current-user.decorator';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { Public } from '../../common/decorators/public.decorator';
@@ -21,12 +42,18 @@ export class AuthController {
 
   @Public()
   @Post('signup')
-  @ApiOperation({ summary: 'Register a new user' })
+  @ApiOperation({ summary: 'Register a new user and organization' })
   @ApiResponse({ status: 201, description: 'User successfully registered' })
-  @ApiResponse({ status: 409, description: 'User already exists' })
-  @ApiResponse({ status: 404, description: 'Organization not found' })
-  async signup(@Body() signupDto: SignupDto) {
-    return this.authService.signup(signupDto);
+  @ApiResponse({
+    status: 409,
+    description: 'User or organization already exists',
+  })
+  async signup(
+    @Body() signupDto: SignupDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.signup(signupDto, { ipAddress, userAgent });
   }
 
   @Public()
@@ -34,8 +61,133 @@ export class AuthController {
   @ApiOperation({ summary: 'Login user' })
   @ApiResponse({ status: 200, description: 'User successfully logged in' })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  async login(
+    @Body() loginDto: LoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.login(loginDto, { ipAddress, userAgent });
+  }
+
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange a refresh token for a new token pair' })
+  @ApiResponse({ status: 200, description: 'Tokens rotated successfully' })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token invalid, expired, revoked or reused',
+  })
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.refresh(refreshTokenDto, { ipAddress, userAgent });
+  }
+
+  @Public()
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke the refresh token session for this device' })
+  @ApiResponse({ status: 204, description: 'Logged out successfully' })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto): Promise<void> {
+    return this.authService.logout(refreshTokenDto);
+  }
+
+  @Post('switch-organization')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Issue tokens for another organization the user belongs to',
+  })
+  @ApiResponse({ status: 200, description: 'Switched organization' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not a member of the organization, or signed in with SSO',
+  })
+  async switchOrganization(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('sessionId') sessionId: string,
+    @Body() switchOrganizationDto: SwitchOrganizationDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.switchOrganization(
+      userId,
+      sessionId,
+      switchOrganizationDto,
+      { ipAddress, userAgent },
+    );
+  }
+
+  @Public()
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Request a password reset email' })
+  @ApiResponse({
+    status: 202,
+    description: 'Reset email sent if the account exists',
+  })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(forgotPasswordDto);
+  }
+
+  @Public()
+  @Post('password/reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Set a new password using a reset token' })
+  @ApiResponse({ status: 200, description: 'Password reset successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.authService.resetPassword(resetPasswordDto);
+  }
+
+  @Post('password/change')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Change the password; other sessions are signed out',
+  })
+  @ApiResponse({ status: 200, description: 'Password changed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'New password violates the password policy',
+  })
+  @ApiResponse({ status: 401, description: 'Current password is incorrect' })
+  async changePassword(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('sessionId') sessionId: string,
+    @Body() changePasswordDto: ChangePasswordDto,
+  ) {
+    return this.authService.changePassword(
+      userId,
+      sessionId,
+      changePasswordDto,
+    );
+  }
+
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Verify email address using a verification token' })
+  @ApiResponse({ status: 200, description: 'Email verified successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.authService.verifyEmail(verifyEmailDto);
+  }
+
+  @Post('verify-email/resend')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Resend the email verification link' })
+  @ApiResponse({ status: 202, description: 'Verification email sent' })
+  @ApiResponse({ status: 409, description: 'Email already verified' })
+  async resendVerificationEmail(@CurrentUser('id') userId: string) {
+    return this.authService.resendVerificationEmail(userId);
   }
 
   @Get('me')
@@ -44,8 +196,12 @@ export class AuthController {
   @ApiOperation({ summary: 'Get current user profile' })
   @ApiResponse({ status: 200, description: 'Returns current user' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  async getMe(@CurrentUser('id') userId: string) {
-    return this.authService.getMe(userId);
+  async getMe(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+    @CurrentUser('impersonator') impersonator?: Impersonator,
+  ) {
+    return this.authService.getMe(userId, organizationId, impersonator);
   }
 
   @Get('admin-only')
@@ -1,10 +1,29 @@
-import { Module } from '@nestjs/common';
+import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigService } from '@nestjs/config';
 import { AuthController } from './auth.controller';
+import { MfaController } from './mfa.controller';
+import { LoginAttemptController } from './login-attempt.controller';
+import { ApiKeyController } from './api-key.controller';
+import { JwksController } from './jwks.controller';
+import { ImpersonationController } from './impersonation.controller';
+import { SessionController } from './session.controller';
+import { PasswordPolicyController } from './password-policy.controller';
 import { AuthService } from './auth.service';
+import { TokenService } from './token.service';
+import { ActionTokenService } from './action-token.service';
+import { MfaService } from './mfa.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { ApiKeyService } from './api-key.service';
+import { SigningKeyService } from './signing-key.service';
+import { ImpersonationService } from './impersonation.service';
+import { SessionService } from './session.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { BreachedPasswordService } from './breached-password.service';
+import { ImpersonationAuditMiddleware } from './impersonation-audit.middleware';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
 
 @Module({
   imports: [
@@ -13,8 +32,8 @@ import { JwtStrategy } from './strategies/jwt.strategy';
       inject: [ConfigService],
       useFactory: (configService: ConfigService) => {
         const expiresIn = configService.get<string>('JWT_EXPIRES_IN', '1d');
+        // Access tokens are signed per call with the current SigningKey
         return {
-          secret: configService.get<string>('JWT_SECRET', 'your-secret-key'),
           signOptions: {
             expiresIn: expiresIn as any,
           },
@@ -22,8 +41,35 @@ import { JwtStrategy } from './strategies/jwt.strategy';
       },
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService],
+  controllers: [
+    AuthController,
+    MfaController,
+    LoginAttemptController,
+    ApiKeyController,
+    JwksController,
+    ImpersonationController,
+    SessionController,
+    PasswordPolicyController,
+  ],
+  providers: [
+    AuthService,
+    TokenService,
+    ActionTokenService,
+    MfaService,
+    LoginAttemptService,
+    ApiKeyService,
+    SigningKeyService,
+    ImpersonationService,
+    SessionService,
+    PasswordPolicyService,
+    BreachedPasswordService,
+    JwtStrategy,
+    ApiKeyStrategy,
+  ],
+  exports: [AuthService, TokenService, PasswordPolicyService],
 })
-export class AuthModule {}
+export class AuthModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(ImpersonationAuditMiddleware).forRoutes('*');
+  }
+}
@@ -1,8 +1,24 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { JwtService } from '@nestjs/jwt';
-import { ConflictException, UnauthorizedException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+  NotFoundException,
+} from '@nestjs/common';
+import { UserTokenPurpose } from '@prisma/client';
 import { AuthService } from './auth.service';
 import { PrismaService } from '../../database/prisma.service';
+import { MailerService } from '../../common/mailer';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../common/permissions';
+import { TokenService } from './token.service';
+import { ActionTokenService } from './action-token.service';
+import { MfaService } from './mfa.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { PasswordPolicyService } from './password-policy.service';
 import * as bcrypt from 'bcrypt';
 
 jest.mock('bcrypt');
@@ -10,20 +26,70 @@ jest.mock('bcrypt');
 describe('AuthService', () => {
   let service: AuthService;
   let prismaService: PrismaService;
-  let jwtService: JwtService;
+  let tokenService: TokenService;
 
   const mockPrismaService = {
     user: {
       findUnique: jest.fn(),
       create: jest.fn(),
+      update: jest.fn(),
     },
     organization: {
       findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    membership: {
+      findUnique: jest.fn(),
     },
+    session: {
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockTokenService = {
+    issueTokens: jest.fn(),
+    rotate: jest.fn(),
+    revoke: jest.fn(),
+    revokeAllForUser: jest.fn(),
+    revokeOtherSessions: jest.fn(),
+  };
+
+  const mockActionTokenService = {
+    issue: jest.fn(),
+    verify: jest.fn(),
+    consume: jest.fn(),
+    verifyChallenge: jest.fn(),
+    consumeChallenge: jest.fn(),
+  };
+
+  const mockMfaService = {
+    isRequiredFor: jest.fn(),
+    verify: jest.fn(),
+    confirmEnrollment: jest.fn(),
+    startEnrollment: jest.fn(),
   };
 
-  const mockJwtService = {
-    signAsync: jest.fn(),
+  const mockLoginAttemptService = {
+    assertAllowed: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+    clearLockout: jest.fn(),
+  };
+
+  const mockPasswordPolicyService = {
+    assertAcceptable: jest.fn(),
+    isExpired: jest.fn(),
+    recordPrevious: jest.fn(),
+  };
+
+  const mockMailerService = {
+    send: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
   };
 
   beforeEach(async () => {
@@ -35,15 +101,48 @@ describe('AuthService', () => {
           useValue: mockPrismaService,
         },
         {
-          provide: JwtService,
-          useValue: mockJwtService,
+          provide: TokenService,
+          useValue: mockTokenService,
+        },
+        {
+          provide: ActionTokenService,
+          useValue: mockActionTokenService,
+        },
+        {
+          provide: MfaService,
+          useValue: mockMfaService,
+        },
+        {
+          provide: LoginAttemptService,
+          useValue: mockLoginAttemptService,
+        },
+        {
+          provide: PasswordPolicyService,
+          useValue: mockPasswordPolicyService,
+        },
+        {
+          provide: MailerService,
+          useValue: mockMailerService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
         },
       ],
     }).compile();
 
     service = module.get<AuthService>(AuthService);
     prismaService = module.get<PrismaService>(PrismaService);
-    jwtService = module.get<JwtService>(JwtService);
+    tokenService = module.get<TokenService>(TokenService);
+
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof mockPrismaService) => Promise<unknown>) =>
+        callback(mockPrismaService),
+    );
+    mockPrismaService.organization.create.mockResolvedValue({
+      id: 'org-id-123',
+    });
+    mockPasswordPolicyService.isExpired.mockResolvedValue(false);
   });
 
   afterEach(() => {
@@ -56,7 +155,7 @@ describe('AuthService', () => {
       password: 'Password123!',
       firstName: 'Test',
       lastName: 'User',
-      organizationId: 'org-id-123',
+      organizationName: 'Test Org',
     };
 
     it('should successfully create a new user', async () => {
@@ -66,41 +165,152 @@ describe('AuthService', () => {
         email: signupDto.email,
         firstName: signupDto.firstName,
         lastName: signupDto.lastName,
-        role: 'USER',
-        organizationId: signupDto.organizationId,
         createdAt: new Date(),
       };
-      const accessToken = 'jwt-token';
+      const tokens = { accessToken: 'jwt-token', refreshToken: 'refresh' };
 
       mockPrismaService.user.findUnique.mockResolvedValue(null);
-      mockPrismaService.organization.findUnique.mockResolvedValue({ id: signupDto.organizationId });
+      mockPrismaService.organization.findUnique.mockResolvedValue(null);
       (bcrypt.hash as jest.Mock).mockResolvedValue(hashedPassword);
       mockPrismaService.user.create.mockResolvedValue(createdUser);
-      mockJwtService.signAsync.mockResolvedValue(accessToken);
+      mockTokenService.issueTokens.mockResolvedValue(tokens);
 
       const result = await service.signup(signupDto);
 
+      const user = {
+        ...createdUser,
+        role: 'ADMIN',
+        organizationId: 'org-id-123',
+      };
+
       expect(result).toEqual({
-        user: createdUser,
-        accessToken,
+        user,
+        ...tokens,
       });
       expect(mockPrismaService.user.findUnique).toHaveBeenCalledWith({
         where: { email: signupDto.email },
       });
       expect(bcrypt.hash).toHaveBeenCalledWith(signupDto.password, 10);
+      expect(mockTokenService.issueTokens).toHaveBeenCalledWith(
+        user,
+        'org-id-123',
+        {},
+      );
     });
 
-    it('should throw ConflictException if user already exists', async () => {
-      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'existing-user' });
+    it('should create the organization with the user as admin and owner', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.organization.findUnique.mockResolvedValue(null);
+      mockPrismaService.user.create.mockResolvedValue({
+        id: 'user-id-123',
+        email: signupDto.email,
+      });
 
-      await expect(service.signup(signupDto)).rejects.toThrow(ConflictException);
+      await service.signup(signupDto);
+
+      expect(mockPrismaService.organization.findUnique).toHaveBeenCalledWith({
+        where: { slug: 'test-org' },
+      });
+      expect(mockPrismaService.organization.create).toHaveBeenCalledWith({
+        data: { name: 'Test Org', slug: 'test-org' },
+      });
+      expect(mockPrismaService.user.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            memberships: {
+              create: { organizationId: 'org-id-123', role: 'ADMIN' },
+            },
+          }),
+        }),
+      );
+      expect(mockPrismaService.organization.update).toHaveBeenCalledWith({
+        where: { id: 'org-id-123' },
+        data: { ownerId: 'user-id-123' },
+      });
+    });
+
+    it('should send a verification email to the new user', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.organization.findUnique.mockResolvedValue(null);
+      (bcrypt.hash as jest.Mock).mockResolvedValue('hashed-password');
+      mockPrismaService.user.create.mockResolvedValue({
+        id: 'user-id-123',
+        email: signupDto.email,
+        firstName: signupDto.firstName,
+      });
+      mockActionTokenService.issue.mockResolvedValue('verify-token');
+
+      await service.signup(signupDto);
+
+      expect(mockActionTokenService.issue).toHaveBeenCalledWith(
+        'user-id-123',
+        UserTokenPurpose.EMAIL_VERIFICATION,
+      );
+      expect(mockMailerService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: signupDto.email,
+          text: expect.stringContaining('verify-email?token=verify-token'),
+        }),
+      );
     });
 
-    it('should throw NotFoundException if organization does not exist', async () => {
+    it('should still sign up the user if the verification email fails', async () => {
       mockPrismaService.user.findUnique.mockResolvedValue(null);
       mockPrismaService.organization.findUnique.mockResolvedValue(null);
+      mockPrismaService.user.create.mockResolvedValue({
+        id: 'user-id-123',
+        email: signupDto.email,
+      });
+      mockMailerService.send.mockRejectedValueOnce(new Error('SMTP down'));
+      mockTokenService.issueTokens.mockResolvedValue({
+        accessToken: 'jwt-token',
+        refreshToken: 'refresh',
+      });
+
+      const result = await service.signup(signupDto);
 
-      await expect(service.signup(signupDto)).rejects.toThrow(NotFoundException);
+      expect(result.accessToken).toBe('jwt-token');
+    });
+
+    it('should reject a breached password before creating anything', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.organization.findUnique.mockResolvedValue(null);
+      mockPasswordPolicyService.assertAcceptable.mockRejectedValueOnce(
+        new BadRequestException([
+          'Password has appeared in a data breach; choose a different one',
+        ]),
+      );
+
+      await expect(service.signup(signupDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPasswordPolicyService.assertAcceptable).toHaveBeenCalledWith(
+        signupDto.password,
+        [],
+      );
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException if user already exists', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'existing-user',
+      });
+
+      await expect(service.signup(signupDto)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should throw ConflictException if the organization already exists', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        id: 'org-id-123',
+      });
+
+      await expect(service.signup(signupDto)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
     });
   });
 
@@ -116,63 +326,746 @@ describe('AuthService', () => {
       passwordHash: 'hashed-password',
       firstName: 'Test',
       lastName: 'User',
-      role: 'USER',
-      organizationId: 'org-id-123',
+      mfaEnabled: false,
+      memberships: [
+        {
+          organizationId: 'org-id-123',
+          role: 'USER',
+          organization: { mfaRequired: false },
+        },
+      ],
       createdAt: new Date(),
     };
 
     it('should successfully login user with valid credentials', async () => {
       const accessToken = 'jwt-token';
+      const context = { ipAddress: '127.0.0.1', userAgent: 'jest' };
 
       mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
       (bcrypt.compare as jest.Mock).mockResolvedValue(true);
-      mockJwtService.signAsync.mockResolvedValue(accessToken);
+      mockTokenService.issueTokens.mockResolvedValue({
+        accessToken,
+        refreshToken: 'refresh-token',
+      });
 
-      const result = await service.login(loginDto);
+      const result = await service.login(loginDto, context);
 
-      expect(result).toHaveProperty('user');
+      expect(result).toMatchObject({
+        user: {
+          email: loginDto.email,
+          role: 'USER',
+          organizationId: 'org-id-123',
+        },
+      });
       expect(result).toHaveProperty('accessToken', accessToken);
-      expect(result.user.email).toBe(loginDto.email);
+      expect(result).toHaveProperty('refreshToken', 'refresh-token');
+      // A password login is not confined to one organization
+      expect(mockTokenService.issueTokens).toHaveBeenCalledWith(
+        mockUser,
+        'org-id-123',
+        context,
+        undefined,
+      );
+    });
+
+    it('should flag a password older than the policy allows', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      mockPasswordPolicyService.isExpired.mockResolvedValueOnce(true);
+
+      const result = await service.login(loginDto);
+
+      expect(result).toMatchObject({ user: { passwordExpired: true } });
+      expect(mockPasswordPolicyService.isExpired).toHaveBeenCalledWith(
+        mockUser,
+        ['org-id-123'],
+      );
+    });
+
+    it('should return an MFA challenge instead of tokens when MFA is enabled', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        mfaEnabled: true,
+      });
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      mockActionTokenService.issue.mockResolvedValue('mfa-token');
+
+      const result = await service.login(loginDto);
+
+      expect(result).toEqual({
+        mfaRequired: true,
+        mfaEnrollmentRequired: false,
+        mfaToken: 'mfa-token',
+      });
+      expect(mockTokenService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should require enrollment when the organization mandates MFA', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      mockMfaService.isRequiredFor.mockReturnValueOnce(true);
+      mockActionTokenService.issue.mockResolvedValue('mfa-token');
+
+      const result = await service.login(loginDto);
+
+      expect(result).toMatchObject({ mfaEnrollmentRequired: true });
+      expect(mockActionTokenService.issue).toHaveBeenCalledWith(
+        mockUser.id,
+        UserTokenPurpose.MFA_CHALLENGE,
+      );
     });
 
     it('should throw UnauthorizedException if user not found', async () => {
       mockPrismaService.user.findUnique.mockResolvedValue(null);
 
-      await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      await expect(service.login(loginDto)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockLoginAttemptService.recordFailure).toHaveBeenCalledWith(
+        loginDto.email,
+        null,
+        {},
+        'unknown_email',
+      );
     });
 
     it('should throw UnauthorizedException if password is invalid', async () => {
       mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
       (bcrypt.compare as jest.Mock).mockResolvedValue(false);
 
-      await expect(service.login(loginDto)).rejects.toThrow(UnauthorizedException);
+      await expect(service.login(loginDto)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockLoginAttemptService.recordFailure).toHaveBeenCalledWith(
+        loginDto.email,
+        mockUser,
+        {},
+        'invalid_password',
+      );
+    });
+
+    it('should reject a user without active memberships', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        memberships: [],
+      });
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+      await expect(service.login(loginDto)).rejects.toThrow(
+        'Account is deactivated',
+      );
+      expect(mockTokenService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should not check the password while the account is locked', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockLoginAttemptService.assertAllowed.mockRejectedValueOnce(
+        new HttpException('Locked', HttpStatus.TOO_MANY_REQUESTS),
+      );
+
+      await expect(service.login(loginDto)).rejects.toThrow(HttpException);
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+    });
+
+    it('should record a successful login', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      mockMfaService.isRequiredFor.mockReturnValue(false);
+
+      await service.login(loginDto, { ipAddress: '127.0.0.1' });
+
+      expect(mockLoginAttemptService.recordSuccess).toHaveBeenCalledWith(
+        mockUser,
+        { ipAddress: '127.0.0.1' },
+      );
+    });
+
+    it('should reject password login for users provisioned through SSO', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        passwordHash: null,
+      });
+
+      await expect(service.login(loginDto)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeSsoLogin', () => {
+    const mockUser = {
+      id: 'user-id-123',
+      email: 'test@example.com',
+      mfaEnabled: true,
+      memberships: [
+        {
+          organizationId: 'org-id-123',
+          role: 'ADMIN',
+          organization: { mfaRequired: false },
+        },
+        {
+          organizationId: 'org-id-456',
+          role: 'USER',
+          organization: { mfaRequired: true },
+        },
+      ],
+    };
+
+    it("should issue tokens for the connection's organization without local MFA", async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockTokenService.issueTokens.mockResolvedValue({
+        accessToken: 'jwt-token',
+        refreshToken: 'refresh-token',
+      });
+
+      const result = await service.completeSsoLogin(mockUser.id, {
+        id: 'connection-1',
+        organizationId: 'org-id-456',
+      });
+
+      expect(result).toMatchObject({
+        user: { role: 'USER', organizationId: 'org-id-456' },
+        accessToken: 'jwt-token',
+      });
+      expect(mockTokenService.issueTokens).toHaveBeenCalledWith(
+        mockUser,
+        'org-id-456',
+        {},
+        'connection-1',
+      );
+      expect(mockActionTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should reject users without an active membership in the organization', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+
+      await expect(
+        service.completeSsoLogin(mockUser.id, {
+          id: 'connection-1',
+          organizationId: 'org-id-789',
+        }),
+      ).rejects.toThrow('Account is deactivated');
+      expect(mockTokenService.issueTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyMfaChallenge', () => {
+    const mockUser = {
+      id: 'user-id-123',
+      email: 'test@example.com',
+      mfaEnabled: true,
+      memberships: [
+        {
+          organizationId: 'org-id-123',
+          role: 'ADMIN',
+          organization: { mfaRequired: true },
+        },
+      ],
+    };
+
+    it('should issue tokens after a valid MFA code', async () => {
+      mockActionTokenService.verifyChallenge.mockResolvedValue(mockUser.id);
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockTokenService.issueTokens.mockResolvedValue({
+        accessToken: 'jwt-token',
+        refreshToken: 'refresh-token',
+      });
+
+      const result = await service.verifyMfaChallenge({
+        mfaToken: 'mfa-token',
+        code: '123456',
+      });
+
+      expect(mockMfaService.verify).toHaveBeenCalledWith(mockUser.id, '123456');
+      expect(mockActionTokenService.consumeChallenge).toHaveBeenCalledWith(
+        'mfa-token',
+        UserTokenPurpose.MFA_CHALLENGE,
+      );
+      expect(result).toHaveProperty('accessToken', 'jwt-token');
+      expect(result).not.toHaveProperty('recoveryCodes');
+    });
+
+    it('should confirm enrollment and return recovery codes', async () => {
+      mockActionTokenService.verifyChallenge.mockResolvedValue(mockUser.id);
+      mockMfaService.isRequiredFor.mockReturnValueOnce(true);
+      mockMfaService.confirmEnrollment.mockResolvedValue(['abcde-12345']);
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        mfaEnabled: false,
+      });
+
+      const result = await service.verifyMfaChallenge({
+        mfaToken: 'mfa-token',
+        code: '123456',
+      });
+
+      expect(result).toHaveProperty('recoveryCodes', ['abcde-12345']);
+    });
+
+    it('should not issue tokens when the MFA code is invalid', async () => {
+      mockActionTokenService.verifyChallenge.mockResolvedValue(mockUser.id);
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockMfaService.verify.mockRejectedValueOnce(
+        new UnauthorizedException('Invalid MFA code'),
+      );
+
+      await expect(
+        service.verifyMfaChallenge({ mfaToken: 'mfa-token', code: '000000' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockTokenService.issueTokens).not.toHaveBeenCalled();
+      expect(mockActionTokenService.consumeChallenge).not.toHaveBeenCalled();
+      expect(mockLoginAttemptService.recordFailure).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser,
+        {},
+        'invalid_mfa_code',
+      );
+    });
+
+    it('should refuse a challenge that was not issued by a login', async () => {
+      mockActionTokenService.verifyChallenge.mockRejectedValue(
+        new UnauthorizedException('Invalid or expired challenge token'),
+      );
+
+      await expect(
+        service.verifyMfaChallenge({ mfaToken: 'forged', code: '123456' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockPrismaService.user.findUnique).not.toHaveBeenCalled();
+      expect(mockTokenService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should not enroll a user whose organizations do not mandate MFA', async () => {
+      mockActionTokenService.verifyChallenge.mockResolvedValue(mockUser.id);
+      mockMfaService.isRequiredFor.mockReturnValueOnce(false);
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        mfaEnabled: false,
+      });
+      mockMfaService.verify.mockRejectedValueOnce(
+        new BadRequestException('MFA is not enabled'),
+      );
+
+      await expect(
+        service.verifyMfaChallenge({ mfaToken: 'mfa-token', code: '123456' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockMfaService.confirmEnrollment).not.toHaveBeenCalled();
+      expect(mockTokenService.issueTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startMfaChallengeEnrollment', () => {
+    const mockUser = {
+      id: 'user-id-123',
+      email: 'test@example.com',
+      mfaEnabled: false,
+      memberships: [
+        {
+          organizationId: 'org-id-123',
+          role: 'ADMIN',
+          organization: { mfaRequired: true },
+        },
+      ],
+    };
+
+    it('should start enrollment when an organization mandates MFA', async () => {
+      mockActionTokenService.verifyChallenge.mockResolvedValue(mockUser.id);
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockMfaService.isRequiredFor.mockReturnValueOnce(true);
+
+      await service.startMfaChallengeEnrollment({ mfaToken: 'mfa-token' });
+
+      expect(mockMfaService.startEnrollment).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should refuse enrollment the user does not need', async () => {
+      mockActionTokenService.verifyChallenge.mockResolvedValue(mockUser.id);
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockMfaService.isRequiredFor.mockReturnValueOnce(false);
+
+      await expect(
+        service.startMfaChallengeEnrollment({ mfaToken: 'mfa-token' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockMfaService.startEnrollment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('switchOrganization', () => {
+    it('should issue tokens for another organization of the user', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        organizationId: 'org-2',
+        role: 'MODERATOR',
+        deactivatedAt: null,
+        user: { id: 'user-id-123', email: 'test@example.com' },
+      });
+      mockTokenService.issueTokens.mockResolvedValue({
+        accessToken: 'org-2-access',
+        refreshToken: 'org-2-refresh',
+      });
+
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        ssoConnectionId: null,
+      });
+
+      const result = await service.switchOrganization(
+        'user-id-123',
+        'session-1',
+        { organizationId: 'org-2' },
+      );
+
+      expect(mockPrismaService.membership.findUnique).toHaveBeenCalledWith({
+        where: {
+          userId_organizationId: {
+            userId: 'user-id-123',
+            organizationId: 'org-2',
+          },
+        },
+        include: { user: { select: { id: true, email: true } } },
+      });
+      expect(mockTokenService.issueTokens).toHaveBeenCalledWith(
+        { id: 'user-id-123', email: 'test@example.com' },
+        'org-2',
+        {},
+      );
+      expect(result).toEqual({
+        organizationId: 'org-2',
+        role: 'MODERATOR',
+        accessToken: 'org-2-access',
+        refreshToken: 'org-2-refresh',
+      });
+    });
+
+    it('should throw ForbiddenException for a non-member', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.switchOrganization('user-id-123', 'session-1', {
+          organizationId: 'org-3',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockTokenService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException for a deactivated membership', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        organizationId: 'org-2',
+        role: 'USER',
+        deactivatedAt: new Date(),
+        user: { id: 'user-id-123', email: 'test@example.com' },
+      });
+
+      await expect(
+        service.switchOrganization('user-id-123', 'session-1', {
+          organizationId: 'org-2',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should keep a single sign-on session in its organization', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        ssoConnectionId: 'connection-1',
+      });
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        organizationId: 'org-2',
+        role: 'ADMIN',
+        deactivatedAt: null,
+        user: { id: 'user-id-123', email: 'test@example.com' },
+      });
+
+      await expect(
+        service.switchOrganization('user-id-123', 'session-1', {
+          organizationId: 'org-2',
+        }),
+      ).rejects.toThrow(
+        'Sessions started with single sign-on cannot switch organization',
+      );
+      expect(mockTokenService.issueTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should return the rotated token pair', async () => {
+      mockTokenService.rotate.mockResolvedValue({
+        userId: 'user-id-123',
+        accessToken: 'new-access',
+        refreshToken: 'new-refresh',
+      });
+
+      const result = await service.refresh({ refreshToken: 'old-refresh' });
+
+      expect(result).toEqual({
+        accessToken: 'new-access',
+        refreshToken: 'new-refresh',
+      });
+      expect(mockTokenService.rotate).toHaveBeenCalledWith('old-refresh', {});
+    });
+
+    it('should propagate UnauthorizedException from rotation', async () => {
+      mockTokenService.rotate.mockRejectedValue(
+        new UnauthorizedException('Refresh token reuse detected'),
+      );
+
+      await expect(
+        service.refresh({ refreshToken: 'stolen-refresh' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the refresh token session', async () => {
+      await service.logout({ refreshToken: 'refresh-token' });
+
+      expect(mockTokenService.revoke).toHaveBeenCalledWith('refresh-token');
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should email a reset link to an existing user', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id-123',
+        email: 'test@example.com',
+        firstName: 'Test',
+      });
+      mockActionTokenService.issue.mockResolvedValue('reset-token');
+
+      const result = await service.forgotPassword({
+        email: 'test@example.com',
+      });
+
+      expect(result).toHaveProperty('message');
+      expect(mockActionTokenService.issue).toHaveBeenCalledWith(
+        'user-id-123',
+        UserTokenPurpose.PASSWORD_RESET,
+      );
+      expect(mockMailerService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@example.com',
+          text: expect.stringContaining('reset-password?token=reset-token'),
+        }),
+      );
+    });
+
+    it('should respond identically for unknown emails without sending mail', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      const result = await service.forgotPassword({
+        email: 'nobody@example.com',
+      });
+
+      expect(result).toHaveProperty('message');
+      expect(mockMailerService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const mockUser = {
+      id: 'user-id-123',
+      passwordHash: 'old-hash',
+      memberships: [{ organizationId: 'org-id-123' }],
+    };
+
+    it('should update the password and revoke all sessions', async () => {
+      mockActionTokenService.verify.mockResolvedValue('user-id-123');
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      (bcrypt.hash as jest.Mock).mockResolvedValue('new-hash');
+
+      await service.resetPassword({
+        token: 'reset-token',
+        password: 'NewPassword123!',
+      });
+
+      expect(mockActionTokenService.consume).toHaveBeenCalledWith(
+        'reset-token',
+        UserTokenPurpose.PASSWORD_RESET,
+      );
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id-123' },
+        data: expect.objectContaining({
+          passwordHash: 'new-hash',
+          passwordChangedAt: expect.any(Date),
+        }),
+      });
+      expect(mockPasswordPolicyService.recordPrevious).toHaveBeenCalledWith(
+        mockPrismaService,
+        'user-id-123',
+        'old-hash',
+      );
+      expect(mockTokenService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-id-123',
+      );
+      expect(mockLoginAttemptService.clearLockout).toHaveBeenCalledWith(
+        'user-id-123',
+      );
+    });
+
+    it('should keep the token usable when the password is rejected', async () => {
+      mockActionTokenService.verify.mockResolvedValue('user-id-123');
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockPasswordPolicyService.assertAcceptable.mockRejectedValueOnce(
+        new BadRequestException(['Password must contain a number']),
+      );
+
+      await expect(
+        service.resetPassword({ token: 'reset-token', password: 'NoDigits!' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPasswordPolicyService.assertAcceptable).toHaveBeenCalledWith(
+        'NoDigits!',
+        ['org-id-123'],
+        mockUser,
+      );
+      expect(mockActionTokenService.consume).not.toHaveBeenCalled();
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should propagate BadRequestException for invalid tokens', async () => {
+      mockActionTokenService.verify.mockRejectedValue(
+        new BadRequestException('Invalid or expired token'),
+      );
+
+      await expect(
+        service.resetPassword({ token: 'bad', password: 'NewPassword123!' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    const changePasswordDto = {
+      currentPassword: 'Password123!',
+      newPassword: 'NewPassword123!',
+    };
+
+    const mockUser = {
+      id: 'user-id-123',
+      passwordHash: 'old-hash',
+      memberships: [{ organizationId: 'org-id-123' }],
+    };
+
+    it('should change the password and sign out other sessions', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      (bcrypt.hash as jest.Mock).mockResolvedValue('new-hash');
+
+      await service.changePassword(
+        'user-id-123',
+        'session-1',
+        changePasswordDto,
+      );
+
+      expect(mockPasswordPolicyService.assertAcceptable).toHaveBeenCalledWith(
+        'NewPassword123!',
+        ['org-id-123'],
+        mockUser,
+      );
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id-123' },
+        data: { passwordHash: 'new-hash', passwordChangedAt: expect.any(Date) },
+      });
+      expect(mockTokenService.revokeOtherSessions).toHaveBeenCalledWith(
+        'user-id-123',
+        'session-1',
+      );
+    });
+
+    it('should throw UnauthorizedException for a wrong current password', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        service.changePassword('user-id-123', 'session-1', changePasswordDto),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject users provisioned through SSO', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        passwordHash: null,
+      });
+
+      await expect(
+        service.changePassword('user-id-123', 'session-1', changePasswordDto),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not change a password the policy rejects', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      mockPasswordPolicyService.assertAcceptable.mockRejectedValueOnce(
+        new BadRequestException([
+          'Password must differ from your last 5 passwords',
+        ]),
+      );
+
+      await expect(
+        service.changePassword('user-id-123', 'session-1', changePasswordDto),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+      expect(mockTokenService.revokeOtherSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the email as verified', async () => {
+      mockActionTokenService.consume.mockResolvedValue('user-id-123');
+
+      await service.verifyEmail({ token: 'verify-token' });
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id-123' },
+        data: { emailVerifiedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should throw ConflictException if already verified', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id-123',
+        emailVerifiedAt: new Date(),
+      });
+
+      await expect(
+        service.resendVerificationEmail('user-id-123'),
+      ).rejects.toThrow(ConflictException);
     });
   });
 
   describe('getMe', () => {
     const userId = 'user-id-123';
+    const organization = {
+      id: 'org-id-123',
+      name: 'Test Org',
+      slug: 'test-org',
+    };
     const mockUser = {
       id: userId,
       email: 'test@example.com',
       firstName: 'Test',
       lastName: 'User',
-      role: 'USER',
-      organizationId: 'org-id-123',
       createdAt: new Date(),
       updatedAt: new Date(),
-      organization: {
-        id: 'org-id-123',
-        name: 'Test Org',
-        slug: 'test-org',
-      },
+      memberships: [
+        { role: 'USER', organization },
+        {
+          role: 'ADMIN',
+          organization: { id: 'org-2', name: 'Other Org', slug: 'other-org' },
+        },
+      ],
     };
 
-    it('should return user profile', async () => {
+    it('should return user profile with the active organization', async () => {
       mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
 
-      const result = await service.getMe(userId);
+      const result = await service.getMe(userId, 'org-id-123');
 
-      expect(result).toEqual(mockUser);
+      expect(result).toEqual({
+        ...mockUser,
+        passwordExpired: false,
+        role: 'USER',
+        organizationId: 'org-id-123',
+        organization,
+      });
       expect(mockPrismaService.user.findUnique).toHaveBeenCalledWith({
         where: { id: userId },
         select: expect.any(Object),
@@ -182,33 +1075,84 @@ describe('AuthService', () => {
     it('should throw NotFoundException if user not found', async () => {
       mockPrismaService.user.findUnique.mockResolvedValue(null);
 
-      await expect(service.getMe(userId)).rejects.toThrow(NotFoundException);
+      await expect(service.getMe(userId, 'org-id-123')).rejects.toThrow(
+        NotFoundException,
+      );
     });
   });
 
   describe('validateUser', () => {
     const userId = 'user-id-123';
+    const organizationId = 'org-id-123';
     const mockUser = {
       id: userId,
       email: 'test@example.com',
       firstName: 'Test',
       lastName: 'User',
-      role: 'USER',
-      organizationId: 'org-id-123',
     };
 
-    it('should return user if found', async () => {
-      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+    it('should take role and organization from the active membership', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        role: 'MODERATOR',
+        deactivatedAt: null,
+        customRole: null,
+        user: mockUser,
+      });
 
-      const result = await service.validateUser(userId);
+      const result = await service.validateUser(userId, organizationId);
 
-      expect(result).toEqual(mockUser);
+      expect(result).toEqual({
+        ...mockUser,
+        role: 'MODERATOR',
+        organizationId,
+        permissions: DEFAULT_ROLE_PERMISSIONS.MODERATOR,
+      });
+      expect(mockPrismaService.membership.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_organizationId: { userId, organizationId } },
+        }),
+      );
     });
 
-    it('should throw UnauthorizedException if user not found', async () => {
-      mockPrismaService.user.findUnique.mockResolvedValue(null);
+    it('should take permissions from the custom role if one is assigned', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        role: 'USER',
+        deactivatedAt: null,
+        customRole: { permissions: ['event:read:any', 'event:approve'] },
+        user: mockUser,
+      });
+
+      const result = await service.validateUser(userId, organizationId);
+
+      expect(result.role).toBe('USER');
+      expect(result.permissions).toEqual(['event:read:any', 'event:approve']);
+    });
+
+    it('should throw UnauthorizedException without an active organization', async () => {
+      await expect(service.validateUser(userId)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrismaService.membership.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException if not a member', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.validateUser(userId, organizationId),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should throw UnauthorizedException if the membership is deactivated', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        role: 'USER',
+        deactivatedAt: new Date(),
+        user: mockUser,
+      });
 
-      await expect(service.validateUser(userId)).rejects.toThrow(UnauthorizedException);
+      await expect(
+        service.validateUser(userId, organizationId),
+      ).rejects.toThrow('Account is deactivated');
     });
   });
 });
@@ -1,22 +1,64 @@
 import {
   Injectable,
+  Logger,
+  BadRequestException,
   UnauthorizedException,
   ConflictException,
   NotFoundException,
+  ForbiddenException,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, UserRole, UserTokenPurpose } from '@prisma/client';
 import { PrismaService } from '../../database/prisma.service';
-import { SignupDto, LoginDto } from './dto';
+import { MailerService } from '../../common/mailer';
+import { resolvePermissions } from '../../common/permissions';
+import {
+  SignupDto,
+  LoginDto,
+  RefreshTokenDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
+  VerifyEmailDto,
+  MfaChallengeDto,
+  VerifyMfaDto,
+  SwitchOrganizationDto,
+} from './dto';
+import { TokenService, ClientContext } from './token.service';
+import { ActionTokenService } from './action-token.service';
+import { MfaService } from './mfa.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { Impersonator } from './impersonation.service';
 import * as bcrypt from 'bcrypt';
 
+// Oldest first: users sign in to the first organization they joined
+const ACTIVE_MEMBERSHIPS = {
+  where: { deactivatedAt: null },
+  include: { organization: { select: { mfaRequired: true } } },
+  orderBy: { createdAt: 'asc' },
+} satisfies Prisma.User$membershipsArgs;
+
+type UserWithMemberships = Prisma.UserGetPayload<{
+  include: { memberships: typeof ACTIVE_MEMBERSHIPS };
+}>;
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private prisma: PrismaService,
-    private jwtService: JwtService,
+    private tokenService: TokenService,
+    private actionTokenService: ActionTokenService,
+    private mfaService: MfaService,
+    private loginAttemptService: LoginAttemptService,
+    private passwordPolicyService: PasswordPolicyService,
+    private mailer: MailerService,
+    private configService: ConfigService,
   ) {}
 
-  async signup(signupDto: SignupDto) {
+  async signup(signupDto: SignupDto, context: ClientContext = {}) {
     // Check if user already exists
     const existingUser = await this.prisma.user.findUnique({
       where: { email: signupDto.email },
@@ -26,85 +68,429 @@ export class AuthService {
       throw new ConflictException('User with this email already exists');
     }
 
-    // Check if organization exists
-    const organization = await this.prisma.organization.findUnique({
-      where: { id: signupDto.organizationId },
+    // Self-service signup always creates a new organization; joining an
+    // existing one requires an invitation from its admin
+    const slug = this.slugify(signupDto.organizationName);
+
+    if (!slug) {
+      throw new BadRequestException(
+        'Organization name must contain letters or numbers',
+      );
+    }
+
+    const existingOrganization = await this.prisma.organization.findUnique({
+      where: { slug },
     });
 
-    if (!organization) {
-      throw new NotFoundException('Organization not found');
+    if (existingOrganization) {
+      throw new ConflictException('Organization with this name already exists');
     }
 
+    // The new organization has no policy yet, so only the baseline rules
+    // and the breached-password check apply
+    await this.passwordPolicyService.assertAcceptable(signupDto.password, []);
+
     // Hash password
     const passwordHash = await bcrypt.hash(signupDto.password, 10);
 
-    // Create user
-    const user = await this.prisma.user.create({
-      data: {
-        email: signupDto.email,
-        passwordHash,
-        firstName: signupDto.firstName,
-        lastName: signupDto.lastName,
-        organizationId: signupDto.organizationId,
-      },
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        role: true,
-        organizationId: true,
-        createdAt: true,
-      },
+    // Create organization and its first user, who becomes admin and owner
+    const user = await this.prisma.$transaction(async (tx) => {
+      const organization = await tx.organization.create({
+        data: { name: signupDto.organizationName, slug },
+      });
+
+      const createdUser = await tx.user.create({
+        data: {
+          email: signupDto.email,
+          passwordHash,
+          firstName: signupDto.firstName,
+          lastName: signupDto.lastName,
+          memberships: {
+            create: { organizationId: organization.id, role: UserRole.ADMIN },
+          },
+        },
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          emailVerifiedAt: true,
+          createdAt: true,
+        },
+      });
+
+      await tx.organization.update({
+        where: { id: organization.id },
+        data: { ownerId: createdUser.id },
+      });
+
+      return {
+        ...createdUser,
+        role: UserRole.ADMIN,
+        organizationId: organization.id,
+      };
     });
 
-    // Generate JWT token
-    const accessToken = await this.generateToken(user.id, user.email);
+    // Send verification email; a failure here must not block signup
+    // since the user can request a new link later
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send verification email to ${user.email}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+
+    // Generate access and refresh tokens
+    const tokens = await this.tokenService.issueTokens(
+      user,
+      user.organizationId,
+      context,
+    );
 
     return {
       user,
-      accessToken,
+      ...tokens,
     };
   }
 
-  async login(loginDto: LoginDto) {
+  async login(loginDto: LoginDto, context: ClientContext = {}) {
     // Find user by email
     const user = await this.prisma.user.findUnique({
       where: { email: loginDto.email },
+      include: { memberships: ACTIVE_MEMBERSHIPS },
     });
 
+    await this.loginAttemptService.assertAllowed(loginDto.email, user, context);
+
     if (!user) {
+      await this.loginAttemptService.recordFailure(
+        loginDto.email,
+        null,
+        context,
+        'unknown_email',
+      );
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Verify password
-    const isPasswordValid = await bcrypt.compare(
-      loginDto.password,
-      user.passwordHash,
-    );
+    // Verify password (users provisioned through SSO may not have one)
+    const isPasswordValid =
+      user.passwordHash !== null &&
+      (await bcrypt.compare(loginDto.password, user.passwordHash));
 
     if (!isPasswordValid) {
+      await this.loginAttemptService.recordFailure(
+        user.email,
+        user,
+        context,
+        'invalid_password',
+      );
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Generate JWT token
-    const accessToken = await this.generateToken(user.id, user.email);
+    this.getSignInMembership(user);
+
+    // Second factor: hand back a challenge instead of tokens
+    const mfaEnrollmentRequired = this.mfaEnrollmentRequired(user);
+
+    if (user.mfaEnabled || mfaEnrollmentRequired) {
+      const mfaToken = await this.actionTokenService.issue(
+        user.id,
+        UserTokenPurpose.MFA_CHALLENGE,
+      );
+
+      return {
+        mfaRequired: true as const,
+        mfaEnrollmentRequired,
+        mfaToken,
+      };
+    }
+
+    return this.completeLogin(user, context);
+  }
+
+  /**
+   * Start TOTP enrollment for a user whose organization mandates MFA
+   * but who has not enrolled yet (no access token is available to them)
+   */
+  async startMfaChallengeEnrollment(mfaChallengeDto: MfaChallengeDto) {
+    const user = await this.findChallengedUser(mfaChallengeDto.mfaToken);
+
+    if (!this.mfaEnrollmentRequired(user)) {
+      throw new BadRequestException('MFA enrollment is not required');
+    }
+
+    return this.mfaService.startEnrollment(user.id);
+  }
+
+  /**
+   * Second step of login: exchange an MFA challenge and a TOTP or
+   * recovery code for the real token pair
+   */
+  async verifyMfaChallenge(
+    verifyMfaDto: VerifyMfaDto,
+    context: ClientContext = {},
+  ) {
+    const user = await this.findChallengedUser(verifyMfaDto.mfaToken);
+
+    // MFA codes are guessable too, so they count toward the lockout
+    await this.loginAttemptService.assertAllowed(user.email, user, context);
+
+    let recoveryCodes: string[] | undefined;
+
+    try {
+      if (this.mfaEnrollmentRequired(user)) {
+        recoveryCodes = await this.mfaService.confirmEnrollment(
+          user.id,
+          verifyMfaDto.code,
+        );
+      } else {
+        await this.mfaService.verify(user.id, verifyMfaDto.code);
+      }
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        await this.loginAttemptService.recordFailure(
+          user.email,
+          user,
+          context,
+          'invalid_mfa_code',
+        );
+      }
+      throw error;
+    }
+
+    // Used up only once the code checks out, so a mistyped code can be
+    // retried with the same challenge
+    await this.actionTokenService.consumeChallenge(
+      verifyMfaDto.mfaToken,
+      UserTokenPurpose.MFA_CHALLENGE,
+    );
+
+    const response = await this.completeLogin(user, context);
+
+    return recoveryCodes ? { ...response, recoveryCodes } : response;
+  }
+
+  /**
+   * Re-issue the token pair for another organization the user is an
+   * active member of. Role checks then use the role held there.
+   */
+  async switchOrganization(
+    userId: string,
+    sessionId: string,
+    switchOrganizationDto: SwitchOrganizationDto,
+    context: ClientContext = {},
+  ) {
+    const { organizationId } = switchOrganizationDto;
+
+    // The identity provider only vouches for the user in its own
+    // organization
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { ssoConnectionId: true },
+    });
+
+    if (session?.ssoConnectionId) {
+      throw new ForbiddenException(
+        'Sessions started with single sign-on cannot switch organization',
+      );
+    }
+
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
+      include: { user: { select: { id: true, email: true } } },
+    });
+
+    if (!membership || membership.deactivatedAt) {
+      throw new ForbiddenException('You are not a member of this organization');
+    }
+
+    const tokens = await this.tokenService.issueTokens(
+      membership.user,
+      organizationId,
+      context,
+    );
 
     return {
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        organizationId: user.organizationId,
-        createdAt: user.createdAt,
-      },
-      accessToken,
+      organizationId,
+      role: membership.role,
+      ...tokens,
     };
   }
 
-  async getMe(userId: string) {
+  async refresh(refreshTokenDto: RefreshTokenDto, context: ClientContext = {}) {
+    const { accessToken, refreshToken } = await this.tokenService.rotate(
+      refreshTokenDto.refreshToken,
+      context,
+    );
+
+    return { accessToken, refreshToken };
+  }
+
+  async logout(refreshTokenDto: RefreshTokenDto): Promise<void> {
+    await this.tokenService.revoke(refreshTokenDto.refreshToken);
+  }
+
+  async forgotPassword(forgotPasswordDto: ForgotPasswordDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { email: forgotPasswordDto.email },
+    });
+
+    // Respond identically whether or not the account exists so the
+    // endpoint cannot be used to enumerate registered emails
+    if (user) {
+      const token = await this.actionTokenService.issue(
+        user.id,
+        UserTokenPurpose.PASSWORD_RESET,
+      );
+
+      await this.mailer.send({
+        to: user.email,
+        subject: 'Reset your EventBoard password',
+        text: [
+          `Hi ${user.firstName},`,
+          '',
+          'We received a request to reset your password. Use the link below to choose a new one:',
+          this.buildLink('reset-password', token),
+          '',
+          'The link expires in 30 minutes. If you did not request this, you can ignore this email.',
+        ].join('\n'),
+      });
+    }
+
+    return {
+      message:
+        'If an account exists for this email, a password reset link has been sent',
+    };
+  }
+
+  async resetPassword(resetPasswordDto: ResetPasswordDto) {
+    // Check the password before using up the token so a rejected
+    // password can be retried with the same link
+    const userId = await this.actionTokenService.verify(
+      resetPasswordDto.token,
+      UserTokenPurpose.PASSWORD_RESET,
+    );
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { memberships: ACTIVE_MEMBERSHIPS },
+    });
+
+    if (!user) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    await this.passwordPolicyService.assertAcceptable(
+      resetPasswordDto.password,
+      user.memberships.map((membership) => membership.organizationId),
+      user,
+    );
+
+    await this.actionTokenService.consume(
+      resetPasswordDto.token,
+      UserTokenPurpose.PASSWORD_RESET,
+    );
+
+    // Receiving the reset link proves ownership of the mailbox as well
+    await this.updatePassword(user, resetPasswordDto.password, {
+      emailVerifiedAt: new Date(),
+    });
+
+    // Sign out every device that may have been using the old password
+    await this.tokenService.revokeAllForUser(userId);
+
+    // Proving mailbox ownership also lifts a brute-force lockout
+    await this.loginAttemptService.clearLockout(userId);
+
+    return { message: 'Password has been reset successfully' };
+  }
+
+  /**
+   * Change the password of a signed-in user. Every other session is
+   * signed out; the one making the request stays valid.
+   */
+  async changePassword(
+    userId: string,
+    sessionId: string,
+    changePasswordDto: ChangePasswordDto,
+  ) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { memberships: ACTIVE_MEMBERSHIPS },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Users provisioned through SSO have no password to change
+    if (user.passwordHash === null) {
+      throw new BadRequestException(
+        'Account has no password; sign in through single sign-on',
+      );
+    }
+
+    const isPasswordValid = await bcrypt.compare(
+      changePasswordDto.currentPassword,
+      user.passwordHash,
+    );
+
+    if (!isPasswordValid) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+
+    await this.passwordPolicyService.assertAcceptable(
+      changePasswordDto.newPassword,
+      user.memberships.map((membership) => membership.organizationId),
+      user,
+    );
+
+    await this.updatePassword(user, changePasswordDto.newPassword);
+    await this.tokenService.revokeOtherSessions(userId, sessionId);
+
+    return { message: 'Password has been changed successfully' };
+  }
+
+  async verifyEmail(verifyEmailDto: VerifyEmailDto) {
+    const userId = await this.actionTokenService.consume(
+      verifyEmailDto.token,
+      UserTokenPurpose.EMAIL_VERIFICATION,
+    );
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    return { message: 'Email verified successfully' };
+  }
+
+  async resendVerificationEmail(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new ConflictException('Email is already verified');
+    }
+
+    await this.sendVerificationEmail(user);
+
+    return { message: 'Verification email sent' };
+  }
+
+  async getMe(
+    userId: string,
+    organizationId: string,
+    impersonator?: Impersonator,
+  ) {
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
       select: {
@@ -112,49 +498,263 @@ export class AuthService {
         email: true,
         firstName: true,
         lastName: true,
-        role: true,
-        organizationId: true,
+        emailVerifiedAt: true,
+        mfaEnabled: true,
+        passwordHash: true,
+        passwordChangedAt: true,
         createdAt: true,
         updatedAt: true,
-        organization: {
+        memberships: {
+          where: { deactivatedAt: null },
+          orderBy: { createdAt: 'asc' },
           select: {
-            id: true,
-            name: true,
-            slug: true,
+            role: true,
+            organization: {
+              select: {
+                id: true,
+                name: true,
+                slug: true,
+              },
+            },
           },
         },
       },
     });
 
-    if (!user) {
+    const activeMembership = user?.memberships.find(
+      (membership) => membership.organization.id === organizationId,
+    );
+
+    if (!user || !activeMembership) {
       throw new NotFoundException('User not found');
     }
 
-    return user;
+    const { passwordHash, ...profile } = user;
+
+    return {
+      ...profile,
+      passwordExpired: await this.passwordPolicyService.isExpired(
+        { ...profile, passwordHash },
+        user.memberships.map((membership) => membership.organization.id),
+      ),
+      role: activeMembership.role,
+      organizationId,
+      organization: activeMembership.organization,
+      // Marks the session so clients can show who is acting as the user
+      ...(impersonator && { impersonatedBy: impersonator }),
+    };
+  }
+
+  /**
+   * Finish a single sign-on login. The identity provider has already
+   * authenticated the user, so no password or local MFA step applies;
+   * tokens are issued for the organization that owns the SSO connection,
+   * and the session cannot be switched to any other.
+   */
+  async completeSsoLogin(
+    userId: string,
+    connection: { id: string; organizationId: string },
+    context: ClientContext = {},
+  ) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { memberships: ACTIVE_MEMBERSHIPS },
+    });
+
+    const membership = user?.memberships.find(
+      (m) => m.organizationId === connection.organizationId,
+    );
+
+    if (!user || !membership) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+
+    return this.completeLogin(user, context, membership, connection.id);
+  }
+
+  private async completeLogin(
+    user: UserWithMemberships,
+    context: ClientContext,
+    membership = this.getSignInMembership(user),
+    ssoConnectionId?: string,
+  ) {
+    await this.loginAttemptService.recordSuccess(user, context);
+
+    // Generate access and refresh tokens
+    const tokens = await this.tokenService.issueTokens(
+      user,
+      membership.organizationId,
+      context,
+      ssoConnectionId,
+    );
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: membership.role,
+        organizationId: membership.organizationId,
+        emailVerifiedAt: user.emailVerifiedAt,
+        mfaEnabled: user.mfaEnabled,
+        // Expired passwords still sign in; clients prompt for a change
+        passwordExpired: await this.passwordPolicyService.isExpired(
+          user,
+          user.memberships.map((m) => m.organizationId),
+        ),
+        createdAt: user.createdAt,
+      },
+      ...tokens,
+    };
   }
 
-  private async generateToken(userId: string, email: string): Promise<string> {
-    const payload = { sub: userId, email };
-    return this.jwtService.signAsync(payload);
+  /**
+   * Users removed or deactivated from every organization cannot sign in
+   */
+  private getSignInMembership(user: UserWithMemberships) {
+    const [membership] = user.memberships;
+
+    if (!membership) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+
+    return membership;
   }
 
-  async validateUser(userId: string) {
+  /**
+   * The user an MFA challenge was issued to. Only a login that passed the
+   * password check issues one, and it is recorded server-side, so a token
+   * signed without that record is refused.
+   */
+  private async findChallengedUser(
+    mfaToken: string,
+  ): Promise<UserWithMemberships> {
+    const userId = await this.actionTokenService.verifyChallenge(
+      mfaToken,
+      UserTokenPurpose.MFA_CHALLENGE,
+    );
+
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
+      include: { memberships: ACTIVE_MEMBERSHIPS },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    return user;
+  }
+
+  /**
+   * Enrollment is decided from the user's current state, never from the
+   * challenge: MFA not enabled yet but mandated by an organization
+   */
+  private mfaEnrollmentRequired(user: UserWithMemberships): boolean {
+    return !user.mfaEnabled && this.mfaService.isRequiredFor(user);
+  }
+
+  private async updatePassword(
+    user: { id: string; passwordHash: string | null },
+    password: string,
+    data: Prisma.UserUpdateInput = {},
+  ): Promise<void> {
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.passwordPolicyService.recordPrevious(
+        tx,
+        user.id,
+        user.passwordHash,
+      );
+      await tx.user.update({
+        where: { id: user.id },
+        data: { ...data, passwordHash, passwordChangedAt: new Date() },
+      });
+    });
+  }
+
+  private async sendVerificationEmail(user: {
+    id: string;
+    email: string;
+    firstName: string;
+  }): Promise<void> {
+    const token = await this.actionTokenService.issue(
+      user.id,
+      UserTokenPurpose.EMAIL_VERIFICATION,
+    );
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Verify your EventBoard email address',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'Please confirm your email address by opening the link below:',
+        this.buildLink('verify-email', token),
+        '',
+        'The link expires in 24 hours.',
+      ].join('\n'),
+    });
+  }
+
+  private slugify(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+  }
+
+  private buildLink(path: string, token: string): string {
+    const baseUrl = this.configService.get<string>(
+      'app.frontendUrl',
+      'http://localhost:5173',
+    );
+    return `${baseUrl}/${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Resolve the request user from the access token's subject and active
+   * organization. `organizationId` and `role` on the result come from
+   * that membership, not from the user row.
+   */
+  async validateUser(userId: string, organizationId?: string) {
+    if (!organizationId) {
+      throw new UnauthorizedException('Token has no active organization');
+    }
+
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
       select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
         role: true,
-        organizationId: true,
+        deactivatedAt: true,
+        customRole: { select: { permissions: true } },
+        user: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            emailVerifiedAt: true,
+          },
+        },
       },
     });
 
-    if (!user) {
+    if (!membership) {
       throw new UnauthorizedException('User not found');
     }
 
-    return user;
+    if (membership.deactivatedAt) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+
+    return {
+      ...membership.user,
+      organizationId,
+      role: membership.role,
+      permissions: resolvePermissions(membership.role, membership.customRole),
+    };
   }
 }
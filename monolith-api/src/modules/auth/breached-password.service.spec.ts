@@ -0,0 +1,40 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BreachedPasswordService } from './breached-password.service';
+
+describe('BreachedPasswordService', () => {
+  let service: BreachedPasswordService;
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BreachedPasswordService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<BreachedPasswordService>(BreachedPasswordService);
+  });
+
+  it('should flag passwords from the bundled list', async () => {
+    await expect(service.isBreached('password')).resolves.toBe(true);
+    await expect(service.isBreached('P@ssw0rd')).resolves.toBe(true);
+  });
+
+  it('should accept passwords that are not on the list', async () => {
+    await expect(
+      service.isBreached('correct horse battery staple 42!'),
+    ).resolves.toBe(false);
+  });
+
+  it('should match the exact password only', async () => {
+    await expect(service.isBreached('PASSWORD')).resolves.toBe(false);
+  });
+});
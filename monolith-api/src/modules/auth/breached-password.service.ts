@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+
+export const BREACHED_PASSWORDS_FILE = join(
+  __dirname,
+  'data',
+  'breached-passwords.txt',
+);
+
+/**
+ * Offline breached-password check modelled on the Pwned Passwords
+ * k-anonymity API: SHA-1 hashes are grouped into ranges by their first
+ * five characters and a lookup only consults the password's range, so
+ * no network access is needed.
+ *
+ * The bundled list covers commonly breached passwords. Point
+ * BREACHED_PASSWORDS_FILE at a larger list built with
+ * `npm run passwords:build-breached-list`.
+ */
+@Injectable()
+export class BreachedPasswordService {
+  private ranges?: Promise<Map<string, Set<string>>>;
+
+  constructor(private configService: ConfigService) {}
+
+  async isBreached(password: string): Promise<boolean> {
+    const hash = createHash('sha1')
+      .update(password)
+      .digest('hex')
+      .toUpperCase();
+
+    const range = (await this.loadRanges()).get(hash.slice(0, 5));
+    return !!range?.has(hash.slice(5));
+  }
+
+  private loadRanges(): Promise<Map<string, Set<string>>> {
+    this.ranges ??= this.readRanges(
+      this.configService.get<string>(
+        'BREACHED_PASSWORDS_FILE',
+        BREACHED_PASSWORDS_FILE,
+      ),
+    );
+    return this.ranges;
+  }
+
+  private async readRanges(file: string): Promise<Map<string, Set<string>>> {
+    const ranges = new Map<string, Set<string>>();
+
+    for (const line of (await readFile(file, 'utf8')).split(/\r?\n/)) {
+      if (!line || line.startsWith('#')) {
+        continue;
+      }
+
+      const [prefix, suffix] = line.split(':');
+      let range = ranges.get(prefix);
+
+      if (!range) {
+        range = new Set();
+        ranges.set(prefix, range);
+      }
+
+      range.add(suffix);
+    }
+
+    return ranges;
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { API_KEY_SCOPES, ApiKeyScope } from '../../../common/permissions';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Name to recognize the key by',
+    example: 'CI pipeline',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'What the key may do',
+    enum: API_KEY_SCOPES,
+    isArray: true,
+    example: ['events:read'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: 'Expiry date; the key never expires if omitted',
+    example: '2027-01-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class ApiKeyResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ description: 'First characters of the key, for display' })
+  prefix: string;
+
+  @ApiProperty({ enum: API_KEY_SCOPES, isArray: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  expiresAt?: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  lastUsedAt?: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  revokedAt?: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  constructor(partial: Partial<ApiKeyResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({ description: 'The key itself; it is only shown once' })
+  key: string;
+
+  constructor(partial: Partial<CreatedApiKeyResponseDto>) {
+    super(partial);
+    // Own fields are only defined after super() returns
+    Object.assign(this, partial);
+  }
+}
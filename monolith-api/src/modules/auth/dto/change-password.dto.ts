@@ -0,0 +1,30 @@
+import {
+  IsString,
+  IsNotEmpty,
+  MinLength,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ChangePasswordDto {
+  @ApiProperty({ description: 'Current password' })
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+
+  @ApiProperty({
+    description:
+      "New password (min 8 chars, must contain uppercase, lowercase, number, and special char); the organization's password policy may add further rules",
+    example: 'NewPassword123!',
+    minLength: 8,
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  @Matches(/((?=.*\d)|(?=.*\W+))(?![.\n])(?=.*[A-Z])(?=.*[a-z]).*$/, {
+    message:
+      'Password must contain uppercase, lowercase, number, and special character',
+  })
+  newPassword: string;
+}
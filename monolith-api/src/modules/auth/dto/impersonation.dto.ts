@@ -0,0 +1,82 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StartImpersonationDto {
+  @ApiProperty({
+    description: 'ID of the user to act as',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  userId: string;
+
+  @ApiProperty({
+    description: 'Why the session is needed, kept in the audit trail',
+    example: 'Ticket #4821: user cannot see their draft events',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class QueryImpersonationSessionsDto {
+  @ApiPropertyOptional({
+    description: 'Page number (1-based)',
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Filter by the admin who impersonated' })
+  @IsOptional()
+  @IsUUID()
+  actorId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by the impersonated user' })
+  @IsOptional()
+  @IsUUID()
+  targetUserId?: string;
+}
+
+export class ImpersonationTokenResponseDto {
+  @ApiProperty({ description: 'Access token acting as the user' })
+  accessToken: string;
+
+  @ApiProperty()
+  sessionId: string;
+
+  @ApiProperty({ description: 'The token cannot be refreshed past this' })
+  expiresAt: Date;
+
+  constructor(partial: Partial<ImpersonationTokenResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -1,2 +1,14 @@
 export * from './signup.dto';
 export * from './login.dto';
+export * from './refresh-token.dto';
+export * from './forgot-password.dto';
+export * from './reset-password.dto';
+export * from './verify-email.dto';
+export * from './mfa.dto';
+export * from './query-login-attempts.dto';
+export * from './switch-organization.dto';
+export * from './api-key.dto';
+export * from './impersonation.dto';
+export * from './session.dto';
+export * from './change-password.dto';
+export * from './password-policy.dto';
@@ -0,0 +1,56 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MfaCodeDto {
+  @ApiProperty({
+    description: '6-digit TOTP code or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
+
+export class ConfirmMfaDto {
+  @ApiProperty({
+    description: '6-digit TOTP code from the authenticator app',
+    example: '123456',
+  })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code: string;
+}
+
+export class MfaChallengeDto {
+  @ApiProperty({
+    description: 'MFA challenge token returned by /auth/login',
+  })
+  @IsString()
+  @IsNotEmpty()
+  mfaToken: string;
+}
+
+export class VerifyMfaDto extends MfaCodeDto {
+  @ApiProperty({
+    description: 'MFA challenge token returned by /auth/login',
+  })
+  @IsString()
+  @IsNotEmpty()
+  mfaToken: string;
+}
+
+export class MfaPolicyDto {
+  @ApiProperty({
+    description: 'Require MFA for admins and moderators of the organization',
+    example: true,
+  })
+  @IsBoolean()
+  required: boolean;
+}
@@ -0,0 +1,81 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpsertPasswordPolicyDto {
+  @ApiPropertyOptional({
+    description: 'Minimum password length',
+    default: 8,
+    minimum: 8,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(8)
+  @Max(100)
+  minLength?: number;
+
+  @ApiPropertyOptional({
+    description: 'Require at least one number',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  requireDigit?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Require at least one special character',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  requireSymbol?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Number of most recent passwords (including the current one) that cannot be reused; 0 disables the check',
+    default: 0,
+    minimum: 0,
+    maximum: 24,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  historySize?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Days after which a password is flagged as expired; never expires if omitted',
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  maxAgeDays?: number;
+}
+
+export class PasswordPolicyResponseDto {
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  minLength: number;
+
+  @ApiProperty()
+  requireDigit: boolean;
+
+  @ApiProperty()
+  requireSymbol: boolean;
+
+  @ApiProperty()
+  historySize: number;
+
+  @ApiProperty({ required: false, nullable: true })
+  maxAgeDays: number | null;
+
+  constructor(partial: Partial<PasswordPolicyResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
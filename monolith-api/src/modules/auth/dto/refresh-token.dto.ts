@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token issued by login, signup or a previous refresh',
+    example: 'b3Bh...cXVl',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
@@ -0,0 +1,32 @@
+import {
+  IsString,
+  IsNotEmpty,
+  MinLength,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Password reset token received by email',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    description:
+      'New password (min 8 chars, must contain uppercase, lowercase, number, and special char)',
+    example: 'NewPassword123!',
+    minLength: 8,
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  @Matches(/((?=.*\d)|(?=.*\W+))(?![.\n])(?=.*[A-Z])(?=.*[a-z]).*$/, {
+    message:
+      'Password must contain uppercase, lowercase, number, and special character',
+  })
+  password: string;
+}
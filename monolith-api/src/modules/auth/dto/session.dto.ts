@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: 'Organization the session is signed in to' })
+  organizationId: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  userAgent?: string | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  ipAddress?: string | null;
+
+  @ApiProperty({ description: 'Last time the session was used' })
+  lastSeenAt: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Whether this is the session making the request',
+  })
+  current: boolean;
+
+  constructor(partial: Partial<SessionResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
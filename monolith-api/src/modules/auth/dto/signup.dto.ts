@@ -5,7 +5,6 @@ import {
   MaxLength,
   Matches,
   IsNotEmpty,
-  IsUUID,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
@@ -54,10 +53,13 @@ export class SignupDto {
   lastName: string;
 
   @ApiProperty({
-    description: 'Organization ID',
-    example: '550e8400-e29b-41d4-a716-446655440000',
+    description:
+      'Name of the new organization; the user becomes its admin. To join an existing organization, accept an invitation instead.',
+    example: 'Acme Corporation',
   })
-  @IsUUID()
+  @IsString()
   @IsNotEmpty()
-  organizationId: string;
+  @MinLength(2)
+  @MaxLength(100)
+  organizationName: string;
 }
@@ -0,0 +1,12 @@
+import { IsUUID, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SwitchOrganizationDto {
+  @ApiProperty({
+    description: 'ID of an organization the user is a member of',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  organizationId: string;
+}
@@ -0,0 +1,11 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Email verification token received by email',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Authenticates with either an access token or a personal API key.
+ * Only for routes whose access is governed by permissions, since API
+ * keys are restricted through the permissions their scopes allow.
+ */
+@Injectable()
+export class JwtOrApiKeyAuthGuard extends AuthGuard(['jwt', 'api-key']) {}
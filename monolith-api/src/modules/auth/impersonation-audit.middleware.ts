@@ -0,0 +1,39 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { ImpersonationService, Impersonator } from './impersonation.service';
+
+/**
+ * Writes every request made with an impersonation token to the audit
+ * trail, including those rejected by guards. Recorded once the response
+ * has finished, when authentication has populated request.user.
+ */
+@Injectable()
+export class ImpersonationAuditMiddleware implements NestMiddleware {
+  constructor(private impersonationService: ImpersonationService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    res.on('finish', () => {
+      const { user } = req as Request & {
+        user?: { impersonator?: Impersonator };
+      };
+
+      if (!user?.impersonator) {
+        return;
+      }
+
+      void this.impersonationService.recordRequest(
+        user.impersonator.sessionId,
+        {
+          method: req.method,
+          path: req.originalUrl,
+          statusCode: res.statusCode,
+          requestId: req.headers['x-request-id'] as string | undefined,
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent'],
+        },
+      );
+    });
+
+    next();
+  }
+}
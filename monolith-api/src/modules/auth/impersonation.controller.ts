@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import {
+  ImpersonationService,
+  type Impersonator,
+} from './impersonation.service';
+import {
+  StartImpersonationDto,
+  QueryImpersonationSessionsDto,
+  ImpersonationTokenResponseDto,
+} from './dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { NotImpersonatingGuard } from '../../common/guards/not-impersonating.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+
+@ApiTags('auth')
+@Controller('auth')
+@ApiBearerAuth()
+export class ImpersonationController {
+  constructor(private impersonationService: ImpersonationService) {}
+
+  @Post('impersonate')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get a short-lived token acting as a user of the organization',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Impersonation started',
+    type: ImpersonationTokenResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin only; administrators cannot be impersonated',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async start(
+    @Body() startImpersonationDto: StartImpersonationDto,
+    @CurrentUser('id') actorId: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<ImpersonationTokenResponseDto> {
+    return this.impersonationService.start(
+      startImpersonationDto,
+      actorId,
+      organizationId,
+    );
+  }
+
+  @Post('impersonation/end')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'End the impersonation session of this token' })
+  @ApiResponse({ status: 204, description: 'Impersonation ended' })
+  @ApiResponse({ status: 400, description: 'Not an impersonation token' })
+  async end(
+    @CurrentUser('impersonator') impersonator?: Impersonator,
+  ): Promise<void> {
+    return this.impersonationService.end(impersonator?.sessionId);
+  }
+
+  @Get('impersonations')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List impersonation sessions in the organization' })
+  @ApiResponse({ status: 200, description: 'Returns paginated sessions' })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  async findAll(
+    @Query() query: QueryImpersonationSessionsDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ) {
+    return this.impersonationService.findAll(query, organizationId);
+  }
+
+  @Get('impersonations/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get an impersonation session with its request audit trail',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the session' })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ) {
+    return this.impersonationService.findOne(id, organizationId);
+  }
+}
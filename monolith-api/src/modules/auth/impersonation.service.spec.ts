@@ -0,0 +1,238 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserRole } from '@prisma/client';
+import { ImpersonationService } from './impersonation.service';
+import { TokenService } from './token.service';
+import { PrismaService } from '../../database/prisma.service';
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+
+  const mockPrismaService = {
+    membership: {
+      findUnique: jest.fn(),
+    },
+    impersonationSession: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    impersonationRequest: {
+      create: jest.fn(),
+    },
+  };
+
+  const mockTokenService = {
+    issueImpersonationToken: jest.fn(),
+  };
+
+  const actorId = 'admin-1';
+  const organizationId = 'org-1';
+  const target = { id: 'user-1', email: 'user@example.com' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: TokenService,
+          useValue: mockTokenService,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback: unknown) => fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImpersonationService>(ImpersonationService);
+
+    mockTokenService.issueImpersonationToken.mockResolvedValue('imp-token');
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('start', () => {
+    const dto = { userId: target.id, reason: 'Ticket #1' };
+
+    it('should open a session and issue a token that expires with it', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        role: UserRole.USER,
+        deactivatedAt: null,
+        user: target,
+      });
+      mockPrismaService.impersonationSession.create.mockImplementation(
+        ({ data }: { data: { expiresAt: Date } }) => ({
+          id: 'session-1',
+          ...data,
+        }),
+      );
+
+      const result = await service.start(dto, actorId, organizationId);
+
+      expect(
+        mockPrismaService.impersonationSession.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actorId,
+          targetUserId: target.id,
+          organizationId,
+          reason: 'Ticket #1',
+        }),
+      });
+      expect(mockTokenService.issueImpersonationToken).toHaveBeenCalledWith(
+        target,
+        organizationId,
+        actorId,
+        'session-1',
+        30 * 60,
+      );
+      expect(result).toMatchObject({
+        accessToken: 'imp-token',
+        sessionId: 'session-1',
+      });
+    });
+
+    it('should not allow impersonating yourself', async () => {
+      await expect(
+        service.start({ ...dto, userId: actorId }, actorId, organizationId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should only allow active members of the organization', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        role: UserRole.USER,
+        deactivatedAt: new Date(),
+        user: target,
+      });
+
+      await expect(service.start(dto, actorId, organizationId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(
+        mockPrismaService.impersonationSession.create,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should not allow impersonating another admin', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        role: UserRole.ADMIN,
+        deactivatedAt: null,
+        user: target,
+      });
+
+      await expect(service.start(dto, actorId, organizationId)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('validateSession', () => {
+    const session = (overrides = {}) => ({
+      id: 'session-1',
+      actorId,
+      organizationId,
+      endedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+      actor: {
+        id: actorId,
+        email: 'admin@example.com',
+        memberships: [{ id: 'membership-1' }],
+      },
+      ...overrides,
+    });
+
+    it('should return the admin acting as the user', async () => {
+      mockPrismaService.impersonationSession.findUnique.mockResolvedValue(
+        session(),
+      );
+
+      const result = await service.validateSession(
+        'session-1',
+        actorId,
+        organizationId,
+      );
+
+      expect(result).toEqual({
+        id: actorId,
+        email: 'admin@example.com',
+        sessionId: 'session-1',
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it.each([
+      ['ended', { endedAt: new Date() }],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }],
+      ['started by someone else', { actorId: 'admin-2' }],
+      [
+        'started by an admin who lost the role',
+        { actor: { id: actorId, email: 'admin@example.com', memberships: [] } },
+      ],
+    ])('should reject a session %s', async (_case, overrides) => {
+      mockPrismaService.impersonationSession.findUnique.mockResolvedValue(
+        session(overrides),
+      );
+
+      await expect(
+        service.validateSession('session-1', actorId, organizationId),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject tokens without a session', async () => {
+      await expect(
+        service.validateSession(undefined, actorId, organizationId),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        mockPrismaService.impersonationSession.findUnique,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('end', () => {
+    it('should close the session', async () => {
+      await service.end('session-1');
+
+      expect(
+        mockPrismaService.impersonationSession.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: 'session-1', endedAt: null },
+        data: { endedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject tokens that are not impersonating', async () => {
+      await expect(service.end(undefined)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('recordRequest', () => {
+    it('should not fail the request when the audit write fails', async () => {
+      mockPrismaService.impersonationRequest.create.mockRejectedValue(
+        new Error('connection lost'),
+      );
+
+      await expect(
+        service.recordRequest('session-1', {
+          method: 'GET',
+          path: '/events',
+          statusCode: 200,
+        }),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { TokenService } from './token.service';
+import {
+  StartImpersonationDto,
+  QueryImpersonationSessionsDto,
+  ImpersonationTokenResponseDto,
+} from './dto';
+
+/**
+ * Set on the request user while an admin is acting as them
+ */
+export interface Impersonator {
+  id: string;
+  email: string;
+  sessionId: string;
+  expiresAt: Date;
+}
+
+export interface ImpersonatedRequest {
+  method: string;
+  path: string;
+  statusCode: number;
+  requestId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const USER_SUMMARY = {
+  select: { id: true, email: true, firstName: true, lastName: true },
+} as const;
+
+/**
+ * "Log in as user" for support staff.
+ *
+ * An admin can act as a non-admin member of their active organization
+ * for a limited time. Every session is recorded with its reason, and
+ * every request made with its token is written to the audit trail.
+ * Tokens are checked against the session on each request, so ending
+ * the session or demoting the admin cuts access immediately.
+ */
+@Injectable()
+export class ImpersonationService {
+  private readonly logger = new Logger(ImpersonationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private tokenService: TokenService,
+    private configService: ConfigService,
+  ) {}
+
+  async start(
+    startImpersonationDto: StartImpersonationDto,
+    actorId: string,
+    organizationId: string,
+  ): Promise<ImpersonationTokenResponseDto> {
+    const { userId, reason } = startImpersonationDto;
+
+    if (userId === actorId) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
+      include: { user: { select: { id: true, email: true } } },
+    });
+
+    if (!membership || membership.deactivatedAt) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (membership.role === UserRole.ADMIN) {
+      throw new ForbiddenException('Administrators cannot be impersonated');
+    }
+
+    const ttlMinutes = Number(
+      this.configService.get<string>('IMPERSONATION_TTL_MINUTES', '30'),
+    );
+
+    const session = await this.prisma.impersonationSession.create({
+      data: {
+        actorId,
+        targetUserId: userId,
+        organizationId,
+        reason,
+        expiresAt: new Date(Date.now() + ttlMinutes * 60_000),
+      },
+    });
+
+    const accessToken = await this.tokenService.issueImpersonationToken(
+      membership.user,
+      organizationId,
+      actorId,
+      session.id,
+      ttlMinutes * 60,
+    );
+
+    this.logger.log(
+      `Admin ${actorId} started impersonating ${userId} (session ${session.id})`,
+    );
+
+    return new ImpersonationTokenResponseDto({
+      accessToken,
+      sessionId: session.id,
+      expiresAt: session.expiresAt,
+    });
+  }
+
+  /**
+   * Resolve the admin behind an impersonation token. Rejects the token
+   * once the session has ended or expired, or the admin lost the role.
+   */
+  async validateSession(
+    sessionId: string | undefined,
+    actorId: string,
+    organizationId: string | undefined,
+  ): Promise<Impersonator> {
+    const session = sessionId
+      ? await this.prisma.impersonationSession.findUnique({
+          where: { id: sessionId },
+          include: {
+            actor: {
+              select: {
+                id: true,
+                email: true,
+                memberships: {
+                  where: {
+                    organizationId,
+                    role: UserRole.ADMIN,
+                    deactivatedAt: null,
+                  },
+                  select: { id: true },
+                },
+              },
+            },
+          },
+        })
+      : null;
+
+    if (
+      !session ||
+      session.actorId !== actorId ||
+      session.organizationId !== organizationId ||
+      session.endedAt ||
+      session.expiresAt <= new Date() ||
+      session.actor.memberships.length === 0
+    ) {
+      throw new UnauthorizedException('Impersonation session has ended');
+    }
+
+    return {
+      id: session.actor.id,
+      email: session.actor.email,
+      sessionId: session.id,
+      expiresAt: session.expiresAt,
+    };
+  }
+
+  async end(sessionId: string | undefined): Promise<void> {
+    if (!sessionId) {
+      throw new BadRequestException('You are not impersonating a user');
+    }
+
+    await this.prisma.impersonationSession.updateMany({
+      where: { id: sessionId, endedAt: null },
+      data: { endedAt: new Date() },
+    });
+  }
+
+  /**
+   * Append a request to the session's audit trail. Runs after the
+   * response is sent, so failures are logged rather than thrown.
+   */
+  async recordRequest(
+    sessionId: string,
+    request: ImpersonatedRequest,
+  ): Promise<void> {
+    try {
+      await this.prisma.impersonationRequest.create({
+        data: { sessionId, ...request },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to audit impersonated request ${request.method} ${request.path}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Impersonation sessions in an organization, newest first
+   */
+  async findAll(query: QueryImpersonationSessionsDto, organizationId: string) {
+    const where: Prisma.ImpersonationSessionWhereInput = {
+      organizationId,
+      ...(query.actorId && { actorId: query.actorId }),
+      ...(query.targetUserId && { targetUserId: query.targetUserId }),
+    };
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [data, total] = await Promise.all([
+      this.prisma.impersonationSession.findMany({
+        where,
+        include: {
+          actor: USER_SUMMARY,
+          targetUser: USER_SUMMARY,
+          _count: { select: { requests: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.impersonationSession.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasPrevious: page > 1,
+        hasNext: page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * One session with every request made during it
+   */
+  async findOne(id: string, organizationId: string) {
+    const session = await this.prisma.impersonationSession.findFirst({
+      where: { id, organizationId },
+      include: {
+        actor: USER_SUMMARY,
+        targetUser: USER_SUMMARY,
+        requests: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Impersonation session not found');
+    }
+
+    return session;
+  }
+}
@@ -0,0 +1,21 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SigningKeyService, PublicJwk } from './signing-key.service';
+import { Public } from '../../common/decorators/public.decorator';
+import { NoEnvelope } from '../../common/decorators/no-envelope.decorator';
+
+@ApiTags('auth')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private signingKeyService: SigningKeyService) {}
+
+  @Public()
+  @NoEnvelope()
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({ summary: 'Public keys for verifying access tokens' })
+  @ApiResponse({ status: 200, description: 'JSON Web Key Set' })
+  getJwks(): Promise<{ keys: PublicJwk[] }> {
+    return this.signingKeyService.getJwks();
+  }
+}
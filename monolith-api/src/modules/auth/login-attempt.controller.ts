@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { LoginAttemptService } from './login-attempt.service';
+import { QueryLoginAttemptsDto } from './dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+
+@ApiTags('auth')
+@Controller('auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class LoginAttemptController {
+  constructor(private loginAttemptService: LoginAttemptService) {}
+
+  @Get('login-attempts')
+  @ApiOperation({ summary: 'List login attempts in the organization' })
+  @ApiResponse({ status: 200, description: 'Returns paginated login attempts' })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  async findAll(
+    @Query() query: QueryLoginAttemptsDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ) {
+    return this.loginAttemptService.findAll(query, organizationId);
+  }
+
+  @Post('users/:id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unlock a user locked out by failed logins' })
+  @ApiResponse({ status: 200, description: 'User unlocked' })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async unlock(
+    @Param('id') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ) {
+    return this.loginAttemptService.unlock(userId, organizationId);
+  }
+}
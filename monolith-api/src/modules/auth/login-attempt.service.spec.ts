@@ -0,0 +1,262 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HttpException, NotFoundException } from '@nestjs/common';
+import { LoginAttemptService } from './login-attempt.service';
+import { PrismaService } from '../../database/prisma.service';
+
+describe('LoginAttemptService', () => {
+  let service: LoginAttemptService;
+
+  const mockPrismaService = {
+    user: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    loginAttempt: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  // Disable progressive delays so tests do not sleep
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: number) =>
+      key === 'LOGIN_FAILURE_DELAY_MS' ? 0 : defaultValue,
+    ),
+  };
+
+  const context = { ipAddress: '127.0.0.1', userAgent: 'jest' };
+  const user = { id: 'user-1', lockedUntil: null };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptService>(LoginAttemptService);
+
+    mockPrismaService.loginAttempt.count.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('assertAllowed', () => {
+    it('should allow an unlocked account from a clean IP', async () => {
+      await expect(
+        service.assertAllowed('user@example.com', user, context),
+      ).resolves.toBeUndefined();
+      expect(mockPrismaService.loginAttempt.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a locked account and record the attempt', async () => {
+      await expect(
+        service.assertAllowed(
+          'user@example.com',
+          { id: 'user-1', lockedUntil: new Date(Date.now() + 60_000) },
+          context,
+        ),
+      ).rejects.toThrow(HttpException);
+      expect(mockPrismaService.loginAttempt.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ success: false, reason: 'locked' }),
+      });
+    });
+
+    it('should allow an account whose lockout has expired', async () => {
+      await expect(
+        service.assertAllowed(
+          'user@example.com',
+          { id: 'user-1', lockedUntil: new Date(Date.now() - 1000) },
+          context,
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject an IP with too many recent failures', async () => {
+      mockPrismaService.loginAttempt.count.mockResolvedValue(20);
+
+      await expect(
+        service.assertAllowed('nobody@example.com', null, context),
+      ).rejects.toThrow('Too many failed login attempts');
+    });
+
+    it('should lift the IP lockout once the window passes, even while the client keeps retrying', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+      // A tiny attempts table, so counts reflect what was recorded
+      const attempts: { reason: string; createdAt: Date }[] = [];
+      mockPrismaService.loginAttempt.create.mockImplementation(
+        ({ data }: { data: { reason: string } }) => {
+          attempts.push({ reason: data.reason, createdAt: new Date() });
+          return Promise.resolve(data);
+        },
+      );
+      mockPrismaService.loginAttempt.count.mockImplementation(
+        ({
+          where,
+        }: {
+          where: { reason?: { not: string }; createdAt: { gte: Date } };
+        }) =>
+          Promise.resolve(
+            attempts.filter(
+              (attempt) =>
+                attempt.createdAt >= where.createdAt.gte &&
+                attempt.reason !== where.reason?.not,
+            ).length,
+          ),
+      );
+
+      try {
+        for (let i = 0; i < 20; i++) {
+          await service.recordFailure(
+            'nobody@example.com',
+            null,
+            context,
+            'unknown_email',
+          );
+        }
+
+        // Retry every 30 seconds until the 15 minute window has passed
+        for (let seconds = 0; seconds <= 15 * 60; seconds += 30) {
+          await expect(
+            service.assertAllowed('nobody@example.com', null, context),
+          ).rejects.toThrow('Too many failed login attempts');
+          jest.advanceTimersByTime(30_000);
+        }
+
+        await expect(
+          service.assertAllowed('nobody@example.com', null, context),
+        ).resolves.toBeUndefined();
+      } finally {
+        jest.useRealTimers();
+        mockPrismaService.loginAttempt.create.mockReset();
+      }
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should increment the account failure counter', async () => {
+      mockPrismaService.user.update.mockResolvedValue({ failedLoginCount: 1 });
+
+      await service.recordFailure(
+        'user@example.com',
+        user,
+        context,
+        'invalid_password',
+      );
+
+      expect(mockPrismaService.loginAttempt.create).toHaveBeenCalledWith({
+        data: {
+          email: 'user@example.com',
+          userId: 'user-1',
+          ipAddress: '127.0.0.1',
+          userAgent: 'jest',
+          success: false,
+          reason: 'invalid_password',
+        },
+      });
+      expect(mockPrismaService.user.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should lock the account once the threshold is reached', async () => {
+      mockPrismaService.user.update.mockResolvedValueOnce({
+        failedLoginCount: 5,
+      });
+
+      await service.recordFailure(
+        'user@example.com',
+        user,
+        context,
+        'invalid_password',
+      );
+
+      expect(mockPrismaService.user.update).toHaveBeenLastCalledWith({
+        where: { id: 'user-1' },
+        data: { failedLoginCount: 0, lockedUntil: expect.any(Date) },
+      });
+    });
+
+    it('should only record the attempt for unknown emails', async () => {
+      await service.recordFailure(
+        'nobody@example.com',
+        null,
+        context,
+        'unknown_email',
+      );
+
+      expect(mockPrismaService.loginAttempt.create).toHaveBeenCalled();
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlock', () => {
+    it('should clear the lockout for a user in the organization', async () => {
+      mockPrismaService.user.findFirst.mockResolvedValue({ id: 'user-1' });
+
+      await service.unlock('user-1', 'org-1');
+
+      expect(mockPrismaService.user.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: 'user-1',
+          memberships: { some: { organizationId: 'org-1' } },
+        },
+      });
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { failedLoginCount: 0, lockedUntil: null },
+      });
+    });
+
+    it('should throw NotFoundException for users of other organizations', async () => {
+      mockPrismaService.user.findFirst.mockResolvedValue(null);
+
+      await expect(service.unlock('user-1', 'org-2')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should scope attempts to the organization and paginate', async () => {
+      mockPrismaService.loginAttempt.findMany.mockResolvedValue([]);
+      mockPrismaService.loginAttempt.count.mockResolvedValue(45);
+
+      const result = await service.findAll(
+        { page: 2, limit: 20, success: false },
+        'org-1',
+      );
+
+      expect(mockPrismaService.loginAttempt.findMany).toHaveBeenCalledWith({
+        where: {
+          user: { memberships: { some: { organizationId: 'org-1' } } },
+          success: false,
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: 20,
+        take: 20,
+      });
+      expect(result.meta).toEqual({
+        page: 2,
+        limit: 20,
+        total: 45,
+        totalPages: 3,
+        hasPrevious: true,
+        hasNext: true,
+      });
+    });
+  });
+});
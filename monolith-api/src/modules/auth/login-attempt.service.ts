@@ -0,0 +1,241 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { ClientContext } from './token.service';
+import { QueryLoginAttemptsDto } from './dto';
+
+const MAX_FAILURE_DELAY_MS = 5000;
+
+export type LoginFailureReason =
+  | 'unknown_email'
+  | 'invalid_password'
+  | 'invalid_mfa_code'
+  | 'locked';
+
+interface TrackedUser {
+  id: string;
+  lockedUntil: Date | null;
+}
+
+/**
+ * Brute-force protection for login: per-account and per-IP failure
+ * counters, progressive delays, temporary lockout and an audit trail
+ * of every attempt.
+ */
+@Injectable()
+export class LoginAttemptService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Reject the attempt up front if the client IP or the account is
+   * currently locked out. Uses the same message for both so a lockout
+   * does not reveal whether the account exists.
+   */
+  async assertAllowed(
+    email: string,
+    user: TrackedUser | null,
+    context: ClientContext,
+  ): Promise<void> {
+    const accountLocked = !!user?.lockedUntil && user.lockedUntil > new Date();
+    const ipLocked =
+      !!context.ipAddress &&
+      (await this.countRecentIpFailures(context.ipAddress)) >=
+        this.setting('LOGIN_IP_MAX_FAILED_ATTEMPTS', 20);
+
+    if (accountLocked || ipLocked) {
+      await this.prisma.loginAttempt.create({
+        data: {
+          email,
+          userId: user?.id,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          success: false,
+          reason: 'locked',
+        },
+      });
+
+      throw new HttpException(
+        'Too many failed login attempts. Please try again later.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Record a failed attempt, lock the account once it crosses the
+   * threshold, then wait a delay that grows with consecutive failures
+   */
+  async recordFailure(
+    email: string,
+    user: TrackedUser | null,
+    context: ClientContext,
+    reason: LoginFailureReason,
+  ): Promise<void> {
+    await this.prisma.loginAttempt.create({
+      data: {
+        email,
+        userId: user?.id,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        success: false,
+        reason,
+      },
+    });
+
+    let accountFailures = 0;
+
+    if (user) {
+      const { failedLoginCount } = await this.prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginCount: { increment: 1 } },
+        select: { failedLoginCount: true },
+      });
+      accountFailures = failedLoginCount;
+
+      if (failedLoginCount >= this.setting('LOGIN_MAX_FAILED_ATTEMPTS', 5)) {
+        const lockoutMs = this.setting('LOGIN_LOCKOUT_MINUTES', 15) * 60_000;
+
+        await this.prisma.user.update({
+          where: { id: user.id },
+          data: {
+            failedLoginCount: 0,
+            lockedUntil: new Date(Date.now() + lockoutMs),
+          },
+        });
+      }
+    }
+
+    const ipFailures = context.ipAddress
+      ? await this.countRecentIpFailures(context.ipAddress)
+      : 0;
+
+    await this.delay(Math.max(accountFailures, ipFailures));
+  }
+
+  async recordSuccess(
+    user: { id: string; email: string },
+    context: ClientContext,
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.loginAttempt.create({
+        data: {
+          email: user.email,
+          userId: user.id,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          success: true,
+        },
+      }),
+      this.prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginCount: 0, lockedUntil: null },
+      }),
+    ]);
+  }
+
+  /**
+   * Admin action: lift a lockout for a user in the admin's organization
+   */
+  async unlock(userId: string, organizationId: string) {
+    const user = await this.prisma.user.findFirst({
+      where: { id: userId, memberships: { some: { organizationId } } },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.clearLockout(userId);
+
+    return { message: 'User unlocked successfully' };
+  }
+
+  async clearLockout(userId: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginCount: 0, lockedUntil: null },
+    });
+  }
+
+  /**
+   * Login attempts for users of an organization, newest first
+   */
+  async findAll(query: QueryLoginAttemptsDto, organizationId: string) {
+    const where: Prisma.LoginAttemptWhereInput = {
+      user: { memberships: { some: { organizationId } } },
+      ...(query.userId && { userId: query.userId }),
+      ...(query.email && { email: query.email }),
+      ...(query.ipAddress && { ipAddress: query.ipAddress }),
+      ...(query.success !== undefined && { success: query.success }),
+    };
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [data, total] = await Promise.all([
+      this.prisma.loginAttempt.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.loginAttempt.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasPrevious: page > 1,
+        hasNext: page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * Failed credentials from the IP within the window. Attempts rejected
+   * because of a lockout do not count, or a client retrying through the
+   * lockout would keep its IP locked for good.
+   */
+  private async countRecentIpFailures(ipAddress: string): Promise<number> {
+    const windowMs = this.setting('LOGIN_IP_WINDOW_MINUTES', 15) * 60_000;
+
+    return this.prisma.loginAttempt.count({
+      where: {
+        ipAddress,
+        success: false,
+        reason: { not: 'locked' },
+        createdAt: { gte: new Date(Date.now() - windowMs) },
+      },
+    });
+  }
+
+  private async delay(failures: number): Promise<void> {
+    const baseMs = this.setting('LOGIN_FAILURE_DELAY_MS', 250);
+
+    if (failures <= 0 || baseMs <= 0) {
+      return;
+    }
+
+    const ms = Math.min(baseMs * 2 ** (failures - 1), MAX_FAILURE_DELAY_MS);
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private setting(key: string, defaultValue: number): number {
+    return Number(this.configService.get(key, defaultValue));
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  Controller,
+  Post,
+  Patch,
+  Body,
+  UseGuards,
+  Ip,
+  Headers,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { AuthService } from './auth.service';
+import { MfaService } from './mfa.service';
+import {
+  MfaCodeDto,
+  ConfirmMfaDto,
+  MfaChallengeDto,
+  VerifyMfaDto,
+  MfaPolicyDto,
+} from './dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { NotImpersonatingGuard } from '../../common/guards/not-impersonating.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Public } from '../../common/decorators/public.decorator';
+
+@ApiTags('auth')
+@Controller('auth/mfa')
+export class MfaController {
+  constructor(
+    private authService: AuthService,
+    private mfaService: MfaService,
+  ) {}
+
+  @Public()
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete login with an MFA code' })
+  @ApiResponse({ status: 200, description: 'User successfully logged in' })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid MFA code or challenge token',
+  })
+  async verify(
+    @Body() verifyMfaDto: VerifyMfaDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.verifyMfaChallenge(verifyMfaDto, {
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  @Public()
+  @Post('challenge/enroll')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start mandatory MFA enrollment during login',
+  })
+  @ApiResponse({ status: 200, description: 'Returns TOTP secret and QR code' })
+  @ApiResponse({ status: 401, description: 'Invalid challenge token' })
+  async challengeEnroll(@Body() mfaChallengeDto: MfaChallengeDto) {
+    return this.authService.startMfaChallengeEnrollment(mfaChallengeDto);
+  }
+
+  @Post('enroll')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start TOTP enrollment' })
+  @ApiResponse({ status: 200, description: 'Returns TOTP secret and QR code' })
+  @ApiResponse({ status: 409, description: 'MFA already enabled' })
+  async enroll(@CurrentUser('id') userId: string) {
+    return this.mfaService.startEnrollment(userId);
+  }
+
+  @Post('confirm')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Confirm TOTP enrollment and enable MFA' })
+  @ApiResponse({ status: 200, description: 'Returns recovery codes' })
+  @ApiResponse({ status: 401, description: 'Invalid MFA code' })
+  async confirm(
+    @CurrentUser('id') userId: string,
+    @Body() confirmMfaDto: ConfirmMfaDto,
+  ) {
+    const recoveryCodes = await this.mfaService.confirmEnrollment(
+      userId,
+      confirmMfaDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('recovery-codes')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Regenerate MFA recovery codes' })
+  @ApiResponse({ status: 200, description: 'Returns new recovery codes' })
+  @ApiResponse({ status: 401, description: 'Invalid MFA code' })
+  async regenerateRecoveryCodes(
+    @CurrentUser('id') userId: string,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ) {
+    const recoveryCodes = await this.mfaService.regenerateRecoveryCodes(
+      userId,
+      mfaCodeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('disable')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Disable MFA' })
+  @ApiResponse({ status: 204, description: 'MFA disabled' })
+  @ApiResponse({ status: 401, description: 'Invalid MFA code' })
+  @ApiResponse({
+    status: 403,
+    description: 'MFA is mandatory for your role in one of your organizations',
+  })
+  async disable(
+    @CurrentUser('id') userId: string,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ): Promise<void> {
+    return this.mfaService.disable(userId, mfaCodeDto.code);
+  }
+
+  @Patch('policy')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Require MFA for admins and moderators of the organization',
+  })
+  @ApiResponse({ status: 200, description: 'Policy updated' })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  async updatePolicy(
+    @CurrentUser('organizationId') organizationId: string,
+    @Body() mfaPolicyDto: MfaPolicyDto,
+  ) {
+    return this.mfaService.setOrganizationPolicy(
+      organizationId,
+      mfaPolicyDto.required,
+    );
+  }
+}
@@ -0,0 +1,228 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { authenticator } from 'otplib';
+import { MfaService } from './mfa.service';
+import { PrismaService } from '../../database/prisma.service';
+
+describe('MfaService', () => {
+  let service: MfaService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    organization: {
+      update: jest.fn(),
+    },
+    mfaRecoveryCode: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+    getOrThrow: jest.fn((key: string) => `test-${key}`),
+  };
+
+  const baseUser = {
+    id: 'user-1',
+    email: 'admin@example.com',
+    mfaEnabled: false,
+    mfaSecret: null as string | null,
+    mfaLastUsedStep: null,
+  };
+
+  /** Runs enrollment and returns the plaintext secret plus the stored one */
+  const enroll = async () => {
+    mockPrismaService.user.findUnique.mockResolvedValue(baseUser);
+    const { secret } = await service.startEnrollment(baseUser.id);
+    const [[{ data }]] = mockPrismaService.user.update.mock.calls as [
+      [{ data: { mfaSecret: string } }],
+    ];
+    return { secret, storedSecret: data.mfaSecret };
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+
+    mockPrismaService.$transaction.mockResolvedValue([]);
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('configuration', () => {
+    it('should refuse to start without MFA_ENCRYPTION_KEY', () => {
+      expect(
+        () =>
+          new MfaService(
+            mockPrismaService as unknown as PrismaService,
+            new ConfigService({}),
+          ),
+      ).toThrow('MFA_ENCRYPTION_KEY');
+    });
+  });
+
+  describe('isRequiredFor', () => {
+    it('should require MFA for admins when the organization mandates it', () => {
+      expect(
+        service.isRequiredFor({
+          memberships: [{ role: 'ADMIN', organization: { mfaRequired: true } }],
+        }),
+      ).toBe(true);
+    });
+
+    it('should not require MFA for regular users', () => {
+      expect(
+        service.isRequiredFor({
+          memberships: [{ role: 'USER', organization: { mfaRequired: true } }],
+        }),
+      ).toBe(false);
+    });
+
+    it('should require MFA if any organization mandates it for the role', () => {
+      expect(
+        service.isRequiredFor({
+          memberships: [
+            { role: 'ADMIN', organization: { mfaRequired: false } },
+            { role: 'MODERATOR', organization: { mfaRequired: true } },
+          ],
+        }),
+      ).toBe(true);
+    });
+  });
+
+  describe('startEnrollment', () => {
+    it('should store an encrypted secret and return a QR code', async () => {
+      const { secret, storedSecret } = await enroll();
+
+      expect(secret).toEqual(expect.any(String));
+      expect(storedSecret).not.toContain(secret);
+    });
+
+    it('should throw ConflictException if MFA is already enabled', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        mfaEnabled: true,
+      });
+
+      await expect(service.startEnrollment(baseUser.id)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable MFA and return recovery codes for a valid code', async () => {
+      const { secret, storedSecret } = await enroll();
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        mfaSecret: storedSecret,
+      });
+
+      const codes = await service.confirmEnrollment(
+        baseUser.id,
+        authenticator.generate(secret),
+      );
+
+      expect(codes).toHaveLength(10);
+      expect(mockPrismaService.user.update).toHaveBeenLastCalledWith({
+        where: { id: baseUser.id },
+        data: { mfaEnabled: true },
+      });
+    });
+
+    it('should reject an invalid code', async () => {
+      const { storedSecret } = await enroll();
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        mfaSecret: storedSecret,
+      });
+
+      await expect(
+        service.confirmEnrollment(baseUser.id, 'abcdef'),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('verify', () => {
+    it('should reject a replayed TOTP code', async () => {
+      const { secret, storedSecret } = await enroll();
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        mfaEnabled: true,
+        mfaSecret: storedSecret,
+      });
+      mockPrismaService.user.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.mfaRecoveryCode.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        service.verify(baseUser.id, authenticator.generate(secret)),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should accept an unused recovery code', async () => {
+      const { storedSecret } = await enroll();
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        mfaEnabled: true,
+        mfaSecret: storedSecret,
+      });
+      mockPrismaService.mfaRecoveryCode.updateMany.mockResolvedValue({
+        count: 1,
+      });
+
+      await expect(
+        service.verify(baseUser.id, 'abcde-12345'),
+      ).resolves.toBeUndefined();
+      expect(mockPrismaService.mfaRecoveryCode.updateMany).toHaveBeenCalledWith(
+        {
+          where: expect.objectContaining({ userId: baseUser.id, usedAt: null }),
+          data: { usedAt: expect.any(Date) },
+        },
+      );
+    });
+  });
+
+  describe('disable', () => {
+    it('should refuse when MFA is mandatory for the role', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...baseUser,
+        mfaEnabled: true,
+        memberships: [{ role: 'ADMIN', organization: { mfaRequired: true } }],
+      });
+
+      await expect(service.disable(baseUser.id, '123456')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+});
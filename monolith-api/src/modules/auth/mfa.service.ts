@@ -0,0 +1,271 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserRole } from '@prisma/client';
+import { authenticator } from 'otplib';
+import * as QRCode from 'qrcode';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { encryptSecret, decryptSecret } from '../../common/crypto';
+
+const TOTP_STEP_SECONDS = 30;
+const RECOVERY_CODE_COUNT = 10;
+const MFA_REQUIRED_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.MODERATOR];
+
+// Accept codes from the previous/next step to tolerate clock drift
+const totp = authenticator.clone({ window: 1, step: TOTP_STEP_SECONDS });
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+/**
+ * TOTP multi-factor authentication: enrollment, verification and
+ * single-use recovery codes. Secrets are stored AES-256-GCM encrypted.
+ */
+@Injectable()
+export class MfaService {
+  // MFA_ENCRYPTION_KEY has no default: without it the app does not start
+  private readonly encryptionKey: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.encryptionKey = configService.getOrThrow<string>('MFA_ENCRYPTION_KEY');
+  }
+
+  /**
+   * Whether any organization the user is an active member of mandates
+   * MFA for their role there. Callers pass only active memberships.
+   */
+  isRequiredFor(user: {
+    memberships: { role: UserRole; organization: { mfaRequired: boolean } }[];
+  }): boolean {
+    return user.memberships.some(
+      (membership) =>
+        membership.organization.mfaRequired &&
+        MFA_REQUIRED_ROLES.includes(membership.role),
+    );
+  }
+
+  async startEnrollment(userId: string): Promise<MfaEnrollment> {
+    const user = await this.findUser(userId);
+
+    if (user.mfaEnabled) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    const secret = totp.generateSecret();
+    const otpauthUrl = totp.keyuri(
+      user.email,
+      this.configService.get<string>('app.appName', 'EventBoard'),
+      secret,
+    );
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { mfaSecret: this.encrypt(secret), mfaLastUsedStep: null },
+    });
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Activate MFA after the user proves their authenticator works.
+   * Returns the plaintext recovery codes, which are shown only once.
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (user.mfaEnabled) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    if (!user.mfaSecret) {
+      throw new BadRequestException('MFA enrollment has not been started');
+    }
+
+    if (!(await this.verifyTotp(user, code))) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { mfaEnabled: true },
+    });
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Check a TOTP or recovery code for a user with MFA enabled
+   */
+  async verify(userId: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+
+    if (await this.verifyTotp(user, code)) {
+      return;
+    }
+
+    if (await this.consumeRecoveryCode(userId, code)) {
+      return;
+    }
+
+    throw new UnauthorizedException('Invalid MFA code');
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        memberships: {
+          where: { deactivatedAt: null },
+          include: { organization: { select: { mfaRequired: true } } },
+        },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (this.isRequiredFor(user)) {
+      throw new ForbiddenException(
+        'MFA is mandatory for your role in one of your organizations',
+      );
+    }
+
+    await this.verify(userId, code);
+
+    await this.prisma.$transaction([
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { mfaEnabled: false, mfaSecret: null, mfaLastUsedStep: null },
+      }),
+    ]);
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.verify(userId, code);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  async setOrganizationPolicy(organizationId: string, required: boolean) {
+    return this.prisma.organization.update({
+      where: { id: organizationId },
+      data: { mfaRequired: required },
+      select: { id: true, mfaRequired: true },
+    });
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Validates a TOTP code and records its time step so the same code
+   * cannot be replayed within its validity window
+   */
+  private async verifyTotp(
+    user: { id: string; mfaSecret: string | null },
+    code: string,
+  ): Promise<boolean> {
+    if (!user.mfaSecret || !/^\d{6}$/.test(code)) {
+      return false;
+    }
+
+    const delta = totp.checkDelta(code, this.decrypt(user.mfaSecret));
+
+    if (delta === null) {
+      return false;
+    }
+
+    const step = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + delta;
+
+    const { count } = await this.prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+
+    return count > 0;
+  }
+
+  private async consumeRecoveryCode(
+    userId: string,
+    code: string,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.mfaRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: this.hashRecoveryCode(code),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.mfaRecoveryCode.createMany({
+        data: codes.map((code) => ({
+          userId,
+          codeHash: this.hashRecoveryCode(code),
+        })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+  }
+
+  private encrypt(plaintext: string): string {
+    return encryptSecret(plaintext, this.encryptionKey);
+  }
+
+  private decrypt(encrypted: string): string {
+    return decryptSecret(encrypted, this.encryptionKey);
+  }
+}
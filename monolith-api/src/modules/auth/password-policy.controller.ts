@@ -0,0 +1,58 @@
+import { Controller, Get, Put, Body, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { PasswordPolicyService } from './password-policy.service';
+import { UpsertPasswordPolicyDto, PasswordPolicyResponseDto } from './dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@ApiTags('organizations')
+@Controller('organizations/:id/password-policy')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class PasswordPolicyController {
+  constructor(private readonly passwordPolicyService: PasswordPolicyService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get the organization's password policy" })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the policy, or the defaults if none is set',
+    type: PasswordPolicyResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<PasswordPolicyResponseDto> {
+    return this.passwordPolicyService.getPolicy(id, organizationId);
+  }
+
+  @Put()
+  @ApiOperation({ summary: 'Create or replace the password policy' })
+  @ApiResponse({
+    status: 200,
+    description: 'Password policy saved',
+    type: PasswordPolicyResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  upsert(
+    @Param('id') id: string,
+    @Body() upsertPasswordPolicyDto: UpsertPasswordPolicyDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<PasswordPolicyResponseDto> {
+    return this.passwordPolicyService.upsertPolicy(
+      id,
+      upsertPasswordPolicyDto,
+      organizationId,
+    );
+  }
+}
@@ -0,0 +1,285 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { PasswordPolicyService } from './password-policy.service';
+import { BreachedPasswordService } from './breached-password.service';
+import { PrismaService } from '../../database/prisma.service';
+import * as bcrypt from 'bcrypt';
+
+jest.mock('bcrypt');
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+
+  const mockPrismaService = {
+    passwordPolicy: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    passwordHistory: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const mockBreachedPasswordService = {
+    isBreached: jest.fn(),
+  };
+
+  const policy = {
+    id: 'policy-1',
+    organizationId: 'org-1',
+    minLength: 12,
+    requireDigit: true,
+    requireSymbol: false,
+    historySize: 3,
+    maxAgeDays: 90,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: BreachedPasswordService,
+          useValue: mockBreachedPasswordService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PasswordPolicyService>(PasswordPolicyService);
+
+    mockPrismaService.passwordPolicy.findMany.mockResolvedValue([]);
+    mockPrismaService.passwordHistory.findMany.mockResolvedValue([]);
+    mockBreachedPasswordService.isBreached.mockResolvedValue(false);
+    (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getPolicy', () => {
+    it('should return the defaults when no policy is set', async () => {
+      mockPrismaService.passwordPolicy.findUnique.mockResolvedValue(null);
+
+      const result = await service.getPolicy('org-1', 'org-1');
+
+      expect(result).toEqual({
+        organizationId: 'org-1',
+        minLength: 8,
+        requireDigit: false,
+        requireSymbol: false,
+        historySize: 0,
+        maxAgeDays: null,
+      });
+    });
+
+    it('should throw ForbiddenException for another organization', async () => {
+      await expect(service.getPolicy('org-2', 'org-1')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('upsertPolicy', () => {
+    it('should fill omitted settings with the defaults', async () => {
+      mockPrismaService.passwordPolicy.upsert.mockResolvedValue(policy);
+
+      await service.upsertPolicy('org-1', { minLength: 12 }, 'org-1');
+
+      const data = {
+        minLength: 12,
+        requireDigit: false,
+        requireSymbol: false,
+        historySize: 0,
+        maxAgeDays: null,
+      };
+      expect(mockPrismaService.passwordPolicy.upsert).toHaveBeenCalledWith({
+        where: { organizationId: 'org-1' },
+        create: { organizationId: 'org-1', ...data },
+        update: data,
+      });
+    });
+  });
+
+  describe('resolve', () => {
+    it('should combine the strictest settings of every organization', async () => {
+      mockPrismaService.passwordPolicy.findMany.mockResolvedValue([
+        policy,
+        {
+          ...policy,
+          organizationId: 'org-2',
+          minLength: 10,
+          requireDigit: false,
+          requireSymbol: true,
+          historySize: 5,
+          maxAgeDays: null,
+        },
+      ]);
+
+      const result = await service.resolve(['org-1', 'org-2']);
+
+      expect(result).toEqual({
+        minLength: 12,
+        requireDigit: true,
+        requireSymbol: true,
+        historySize: 5,
+        maxAgeDays: 90,
+      });
+    });
+
+    it('should not query without organizations', async () => {
+      const result = await service.resolve([]);
+
+      expect(result.minLength).toBe(8);
+      expect(mockPrismaService.passwordPolicy.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertAcceptable', () => {
+    it('should accept a password satisfying the policy', async () => {
+      mockPrismaService.passwordPolicy.findMany.mockResolvedValue([policy]);
+
+      await expect(
+        service.assertAcceptable('LongEnough123!', ['org-1']),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should report every violation at once', async () => {
+      mockPrismaService.passwordPolicy.findMany.mockResolvedValue([policy]);
+      mockBreachedPasswordService.isBreached.mockResolvedValue(true);
+
+      await expect(
+        service.assertAcceptable('Short!', ['org-1']),
+      ).rejects.toMatchObject({
+        response: {
+          message: [
+            'Password must be at least 12 characters long',
+            'Password must contain a number',
+            'Password has appeared in a data breach; choose a different one',
+          ],
+        },
+      });
+    });
+
+    it('should reject a breached password even without a policy', async () => {
+      mockBreachedPasswordService.isBreached.mockResolvedValue(true);
+
+      await expect(service.assertAcceptable('Password1', [])).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject the current or a recent password', async () => {
+      mockPrismaService.passwordPolicy.findMany.mockResolvedValue([policy]);
+      mockPrismaService.passwordHistory.findMany.mockResolvedValue([
+        { passwordHash: 'old-hash-1' },
+        { passwordHash: 'old-hash-2' },
+      ]);
+      (bcrypt.compare as jest.Mock).mockImplementation(
+        (_password: string, hash: string) =>
+          Promise.resolve(hash === 'old-hash-2'),
+      );
+
+      await expect(
+        service.assertAcceptable('LongEnough123!', ['org-1'], {
+          id: 'user-1',
+          passwordHash: 'current-hash',
+        }),
+      ).rejects.toThrow('Bad Request');
+      expect(mockPrismaService.passwordHistory.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        orderBy: { createdAt: 'desc' },
+        take: 2,
+        select: { passwordHash: true },
+      });
+    });
+
+    it('should skip the history check when the policy does not keep one', async () => {
+      await service.assertAcceptable('LongEnough123!', [], {
+        id: 'user-1',
+        passwordHash: 'current-hash',
+      });
+
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isExpired', () => {
+    const daysAgo = (days: number) =>
+      new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    it('should expire a password older than the max age', async () => {
+      mockPrismaService.passwordPolicy.findMany.mockResolvedValue([policy]);
+
+      await expect(
+        service.isExpired(
+          {
+            passwordHash: 'hash',
+            passwordChangedAt: daysAgo(91),
+            createdAt: daysAgo(400),
+          },
+          ['org-1'],
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it('should fall back to the account creation date', async () => {
+      mockPrismaService.passwordPolicy.findMany.mockResolvedValue([policy]);
+
+      await expect(
+        service.isExpired(
+          {
+            passwordHash: 'hash',
+            passwordChangedAt: null,
+            createdAt: daysAgo(10),
+          },
+          ['org-1'],
+        ),
+      ).resolves.toBe(false);
+    });
+
+    it('should never expire users without a password', async () => {
+      await expect(
+        service.isExpired(
+          {
+            passwordHash: null,
+            passwordChangedAt: null,
+            createdAt: daysAgo(400),
+          },
+          ['org-1'],
+        ),
+      ).resolves.toBe(false);
+      expect(mockPrismaService.passwordPolicy.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordPrevious', () => {
+    it('should store the previous hash and prune old entries', async () => {
+      mockPrismaService.passwordHistory.findMany.mockResolvedValue([
+        { id: 'history-25' },
+      ]);
+
+      await service.recordPrevious(
+        mockPrismaService as never,
+        'user-1',
+        'old-hash',
+      );
+
+      expect(mockPrismaService.passwordHistory.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', passwordHash: 'old-hash' },
+      });
+      expect(mockPrismaService.passwordHistory.deleteMany).toHaveBeenCalledWith(
+        { where: { id: { in: ['history-25'] } } },
+      );
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { BreachedPasswordService } from './breached-password.service';
+import { UpsertPasswordPolicyDto, PasswordPolicyResponseDto } from './dto';
+import * as bcrypt from 'bcrypt';
+
+export interface EffectivePasswordPolicy {
+  minLength: number;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number;
+  maxAgeDays: number | null;
+}
+
+// The DTO validators (8+ chars, upper and lower case, digit or symbol)
+// always apply; organization policies can only tighten them
+const DEFAULT_POLICY: EffectivePasswordPolicy = {
+  minLength: 8,
+  requireDigit: false,
+  requireSymbol: false,
+  historySize: 0,
+  maxAgeDays: null,
+};
+
+// Previous hashes kept per user; covers the largest allowed historySize
+const MAX_HISTORY = 24;
+
+/**
+ * Organization password policies. A user belonging to several
+ * organizations must satisfy all of them, so the effective policy is the
+ * strictest combination of their active memberships' policies.
+ */
+@Injectable()
+export class PasswordPolicyService {
+  constructor(
+    private prisma: PrismaService,
+    private breachedPasswordService: BreachedPasswordService,
+  ) {}
+
+  async getPolicy(
+    id: string,
+    organizationId: string,
+  ): Promise<PasswordPolicyResponseDto> {
+    this.assertOrganization(id, organizationId);
+
+    const policy = await this.prisma.passwordPolicy.findUnique({
+      where: { organizationId: id },
+    });
+
+    return this.toResponse(id, policy ?? DEFAULT_POLICY);
+  }
+
+  async upsertPolicy(
+    id: string,
+    upsertPasswordPolicyDto: UpsertPasswordPolicyDto,
+    organizationId: string,
+  ): Promise<PasswordPolicyResponseDto> {
+    this.assertOrganization(id, organizationId);
+
+    const data = {
+      minLength: upsertPasswordPolicyDto.minLength ?? DEFAULT_POLICY.minLength,
+      requireDigit: upsertPasswordPolicyDto.requireDigit ?? false,
+      requireSymbol: upsertPasswordPolicyDto.requireSymbol ?? false,
+      historySize: upsertPasswordPolicyDto.historySize ?? 0,
+      maxAgeDays: upsertPasswordPolicyDto.maxAgeDays ?? null,
+    };
+
+    const policy = await this.prisma.passwordPolicy.upsert({
+      where: { organizationId: id },
+      create: { organizationId: id, ...data },
+      update: data,
+    });
+
+    return this.toResponse(id, policy);
+  }
+
+  async resolve(organizationIds: string[]): Promise<EffectivePasswordPolicy> {
+    const policies = organizationIds.length
+      ? await this.prisma.passwordPolicy.findMany({
+          where: { organizationId: { in: organizationIds } },
+        })
+      : [];
+
+    return policies.reduce<EffectivePasswordPolicy>(
+      (effective, policy) => ({
+        minLength: Math.max(effective.minLength, policy.minLength),
+        requireDigit: effective.requireDigit || policy.requireDigit,
+        requireSymbol: effective.requireSymbol || policy.requireSymbol,
+        historySize: Math.max(effective.historySize, policy.historySize),
+        maxAgeDays:
+          policy.maxAgeDays === null
+            ? effective.maxAgeDays
+            : Math.min(effective.maxAgeDays ?? Infinity, policy.maxAgeDays),
+      }),
+      DEFAULT_POLICY,
+    );
+  }
+
+  /**
+   * Check a new password against the policies of the given organizations,
+   * the breached-password list and, for an existing user, their recent
+   * passwords. All violations are reported together.
+   */
+  async assertAcceptable(
+    password: string,
+    organizationIds: string[],
+    user?: { id: string; passwordHash: string | null },
+  ): Promise<void> {
+    const policy = await this.resolve(organizationIds);
+    const violations: string[] = [];
+
+    if (password.length < policy.minLength) {
+      violations.push(
+        `Password must be at least ${policy.minLength} characters long`,
+      );
+    }
+
+    if (policy.requireDigit && !/\d/.test(password)) {
+      violations.push('Password must contain a number');
+    }
+
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      violations.push('Password must contain a special character');
+    }
+
+    if (await this.breachedPasswordService.isBreached(password)) {
+      violations.push(
+        'Password has appeared in a data breach; choose a different one',
+      );
+    }
+
+    if (
+      user &&
+      policy.historySize > 0 &&
+      (await this.isReused(password, user, policy.historySize))
+    ) {
+      violations.push(
+        `Password must differ from your last ${policy.historySize} passwords`,
+      );
+    }
+
+    if (violations.length) {
+      throw new BadRequestException(violations);
+    }
+  }
+
+  /**
+   * Whether the user's password is older than the strictest max age of
+   * their organizations. Users without a password (SSO) never expire.
+   */
+  async isExpired(
+    user: {
+      passwordHash: string | null;
+      passwordChangedAt: Date | null;
+      createdAt: Date;
+    },
+    organizationIds: string[],
+  ): Promise<boolean> {
+    if (user.passwordHash === null) {
+      return false;
+    }
+
+    const { maxAgeDays } = await this.resolve(organizationIds);
+
+    if (maxAgeDays === null) {
+      return false;
+    }
+
+    const changedAt = user.passwordChangedAt ?? user.createdAt;
+    return changedAt.getTime() + maxAgeDays * 24 * 60 * 60 * 1000 < Date.now();
+  }
+
+  /**
+   * Keep the password being replaced in the user's history, trimmed to
+   * the most recent MAX_HISTORY entries
+   */
+  async recordPrevious(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    previousHash: string | null,
+  ): Promise<void> {
+    if (previousHash === null) {
+      return;
+    }
+
+    await tx.passwordHistory.create({
+      data: { userId, passwordHash: previousHash },
+    });
+
+    const stale = await tx.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: MAX_HISTORY,
+      select: { id: true },
+    });
+
+    if (stale.length) {
+      await tx.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      });
+    }
+  }
+
+  // The current password counts as the most recent one
+  private async isReused(
+    password: string,
+    user: { id: string; passwordHash: string | null },
+    historySize: number,
+  ): Promise<boolean> {
+    const history = await this.prisma.passwordHistory.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      take: historySize - 1,
+      select: { passwordHash: true },
+    });
+
+    const hashes = [
+      ...(user.passwordHash ? [user.passwordHash] : []),
+      ...history.map((entry) => entry.passwordHash),
+    ];
+
+    for (const hash of hashes) {
+      if (await bcrypt.compare(password, hash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private assertOrganization(id: string, organizationId: string): void {
+    if (id !== organizationId) {
+      throw new ForbiddenException('Access denied to this organization');
+    }
+  }
+
+  private toResponse(
+    organizationId: string,
+    policy: EffectivePasswordPolicy,
+  ): PasswordPolicyResponseDto {
+    return new PasswordPolicyResponseDto({
+      organizationId,
+      minLength: policy.minLength,
+      requireDigit: policy.requireDigit,
+      requireSymbol: policy.requireSymbol,
+      historySize: policy.historySize,
+      maxAgeDays: policy.maxAgeDays,
+    });
+  }
+}
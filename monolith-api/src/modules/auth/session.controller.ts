@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { SessionService } from './session.service';
+import { SessionResponseDto } from './dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { NotImpersonatingGuard } from '../../common/guards/not-impersonating.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+
+@ApiTags('auth')
+@Controller('auth')
+@ApiBearerAuth()
+export class SessionController {
+  constructor(private sessionService: SessionService) {}
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'List the devices you are signed in on' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns active sessions; `current` marks this one',
+    type: [SessionResponseDto],
+  })
+  async findAll(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('sessionId') sessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    return this.sessionService.findAll(userId, sessionId);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Sign out one of your sessions' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revoke(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+  ): Promise<void> {
+    return this.sessionService.revoke(id, userId);
+  }
+
+  @Delete('users/:id/sessions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Sign a user out of all their sessions in the organization',
+  })
+  @ApiResponse({ status: 204, description: 'Sessions revoked' })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async revokeAllForUser(
+    @Param('id') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<void> {
+    return this.sessionService.revokeAllForMember(userId, organizationId);
+  }
+}
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { SessionService } from './session.service';
+import { TokenService } from './token.service';
+import { PrismaService } from '../../database/prisma.service';
+
+describe('SessionService', () => {
+  let service: SessionService;
+
+  const mockPrismaService = {
+    session: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    membership: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const mockTokenService = {
+    revokeSession: jest.fn(),
+    revokeAllForUser: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: TokenService,
+          useValue: mockTokenService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should mark the session making the request', async () => {
+      mockPrismaService.session.findMany.mockResolvedValue([
+        { id: 'session-1', organizationId: 'org-1' },
+        { id: 'session-2', organizationId: 'org-1' },
+      ]);
+
+      const result = await service.findAll('user-1', 'session-2');
+
+      expect(result.map((session) => session.current)).toEqual([false, true]);
+    });
+  });
+
+  describe('revoke', () => {
+    it("should not reveal or revoke another user's session", async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        userId: 'user-2',
+      });
+
+      await expect(service.revoke('session-1', 'user-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockTokenService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('should revoke your own session', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        userId: 'user-1',
+      });
+
+      await service.revoke('session-1', 'user-1');
+
+      expect(mockTokenService.revokeSession).toHaveBeenCalledWith('session-1');
+    });
+  });
+
+  describe('revokeAllForMember', () => {
+    it('should revoke sessions in the organization only', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue({ id: 'm-1' });
+
+      await service.revokeAllForMember('user-1', 'org-1');
+
+      expect(mockTokenService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-1',
+        'org-1',
+      );
+    });
+
+    it('should throw NotFoundException for users outside the organization', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.revokeAllForMember('user-1', 'org-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('validate', () => {
+    it('should reject a revoked session', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        userId: 'user-1',
+        revokedAt: new Date(),
+        lastSeenAt: new Date(),
+      });
+
+      await expect(service.validate('session-1', 'user-1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject tokens without a session', async () => {
+      await expect(service.validate(undefined, 'user-1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should record activity at most once a minute', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValueOnce({
+        userId: 'user-1',
+        revokedAt: null,
+        lastSeenAt: new Date(),
+      });
+      await service.validate('session-1', 'user-1');
+      expect(mockPrismaService.session.update).not.toHaveBeenCalled();
+
+      mockPrismaService.session.findUnique.mockResolvedValueOnce({
+        userId: 'user-1',
+        revokedAt: null,
+        lastSeenAt: new Date(Date.now() - 5 * 60 * 1000),
+      });
+      await service.validate('session-1', 'user-1');
+      expect(mockPrismaService.session.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { lastSeenAt: expect.any(Date) },
+      });
+    });
+  });
+});
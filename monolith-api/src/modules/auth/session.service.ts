@@ -0,0 +1,112 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { TokenService } from './token.service';
+import { SessionResponseDto } from './dto';
+
+// How stale lastSeenAt may get before a request refreshes it
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Where a user is signed in. A session is created on every login and
+ * lives as long as its refresh tokens; revoking it also invalidates the
+ * access tokens that name it.
+ */
+@Injectable()
+export class SessionService {
+  constructor(
+    private prisma: PrismaService,
+    private tokenService: TokenService,
+  ) {}
+
+  /**
+   * Active sessions of a user across organizations, most recently used
+   * first
+   */
+  async findAll(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        refreshTokens: {
+          some: { revokedAt: null, expiresAt: { gt: new Date() } },
+        },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map(
+      (session) =>
+        new SessionResponseDto({
+          id: session.id,
+          organizationId: session.organizationId,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          lastSeenAt: session.lastSeenAt,
+          createdAt: session.createdAt,
+          current: session.id === currentSessionId,
+        }),
+    );
+  }
+
+  async revoke(id: string, userId: string): Promise<void> {
+    const session = await this.prisma.session.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!session || session.userId !== userId) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.tokenService.revokeSession(id);
+  }
+
+  /**
+   * Admin action: sign a member out of every device in the organization
+   */
+  async revokeAllForMember(
+    userId: string,
+    organizationId: string,
+  ): Promise<void> {
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
+      select: { id: true },
+    });
+
+    if (!membership) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.tokenService.revokeAllForUser(userId, organizationId);
+  }
+
+  /**
+   * Reject access tokens whose session was revoked, and record activity
+   */
+  async validate(sessionId: string | undefined, userId: string): Promise<void> {
+    const session = sessionId
+      ? await this.prisma.session.findUnique({
+          where: { id: sessionId },
+          select: { userId: true, revokedAt: true, lastSeenAt: true },
+        })
+      : null;
+
+    if (!session || session.userId !== userId || session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+      await this.prisma.session.update({
+        where: { id: sessionId },
+        data: { lastSeenAt: new Date() },
+      });
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { SigningKey } from '@prisma/client';
+import { createPrivateKey, createPublicKey } from 'crypto';
+import { SigningKeyService } from './signing-key.service';
+import { PrismaService } from '../../database/prisma.service';
+
+describe('SigningKeyService', () => {
+  let service: SigningKeyService;
+  let rows: SigningKey[];
+  let created: number;
+
+  const HOUR = 60 * 60 * 1000;
+
+  const mockPrismaService = {
+    signingKey: {
+      findMany: jest.fn(() =>
+        [...rows].sort(
+          (a, b) => a.activatesAt.getTime() - b.activatesAt.getTime(),
+        ),
+      ),
+      create: jest.fn(
+        ({ data }: { data: Omit<SigningKey, 'id' | 'createdAt'> }) => {
+          const row = {
+            id: `key-${++created}`,
+            createdAt: new Date(),
+            ...data,
+          };
+          rows.push(row);
+          return row;
+        },
+      ),
+      deleteMany: jest.fn(({ where }: { where: { id: { in: string[] } } }) => {
+        rows = rows.filter((row) => !where.id.in.includes(row.id));
+      }),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: string) =>
+      key === 'JWT_SIGNING_ALG' ? 'ES256' : defaultValue,
+    ),
+    getOrThrow: jest.fn((key: string) => `test-${key}`),
+  };
+
+  beforeEach(async () => {
+    rows = [];
+    created = 0;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SigningKeyService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SigningKeyService>(SigningKeyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('configuration', () => {
+    it('should refuse to start without JWT_KEY_ENCRYPTION_KEY', () => {
+      expect(
+        () =>
+          new SigningKeyService(
+            mockPrismaService as unknown as PrismaService,
+            new ConfigService({}),
+          ),
+      ).toThrow('JWT_KEY_ENCRYPTION_KEY');
+    });
+  });
+
+  describe('getSigningKey', () => {
+    it('should create the first key on demand and store it encrypted', async () => {
+      const key = await service.getSigningKey();
+
+      expect(key).toMatchObject({ kid: 'key-1', algorithm: 'ES256' });
+      expect(createPrivateKey(key.privateKey).asymmetricKeyType).toBe('ec');
+      expect(rows[0].privateKey).not.toContain('PRIVATE KEY');
+    });
+
+    it('should not sign with a key before it activates', async () => {
+      await service.getSigningKey();
+      const { kid } = await service.rotate();
+
+      const key = await service.getSigningKey();
+
+      expect(kid).toBe('key-2');
+      expect(key.kid).toBe('key-1');
+    });
+  });
+
+  describe('rotate', () => {
+    it('should activate the new key after the configured delay', async () => {
+      const before = Date.now();
+
+      const { activatesAt } = await service.rotate();
+
+      expect(activatesAt.getTime()).toBeGreaterThanOrEqual(before + 600 * 1000);
+    });
+
+    it('should drop keys superseded before the retention period', async () => {
+      await service.getSigningKey();
+      await service.rotate();
+      rows[0].activatesAt = new Date(Date.now() - 72 * HOUR);
+      rows[1].activatesAt = new Date(Date.now() - 48 * HOUR);
+
+      await service.rotate();
+
+      expect(rows.map((row) => row.id)).toEqual(['key-2', 'key-3']);
+    });
+  });
+
+  describe('getJwks', () => {
+    it('should publish pending and current keys without private parts', async () => {
+      await service.getSigningKey();
+      await service.rotate();
+
+      const { keys } = await service.getJwks();
+
+      expect(keys.map((key) => key.kid)).toEqual(['key-1', 'key-2']);
+      expect(keys[0]).toMatchObject({ kty: 'EC', alg: 'ES256', use: 'sig' });
+      expect(keys[0]).not.toHaveProperty('d');
+    });
+  });
+
+  describe('getVerificationKey', () => {
+    it('should return the public key for a published kid', async () => {
+      await service.getSigningKey();
+
+      const publicKey = await service.getVerificationKey('key-1');
+
+      expect(createPublicKey(publicKey).asymmetricKeyType).toBe('ec');
+    });
+
+    it('should reject tokens without a known kid', async () => {
+      await service.getSigningKey();
+
+      await expect(service.getVerificationKey('unknown')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      await expect(service.getVerificationKey(undefined)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+});
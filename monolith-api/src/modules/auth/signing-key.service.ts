@@ -0,0 +1,201 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SigningKey } from '@prisma/client';
+import { createPublicKey, generateKeyPairSync, JsonWebKey } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { encryptSecret, decryptSecret } from '../../common/crypto';
+
+export const SIGNING_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+export type SigningAlgorithm = (typeof SIGNING_ALGORITHMS)[number];
+
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: string;
+  use: 'sig';
+}
+
+export interface ActiveSigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  privateKey: string;
+}
+
+const KEY_CACHE_TTL_MS = 60 * 1000;
+const KEY_REFRESH_MIN_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Asymmetric keys for access tokens, identified by `kid`.
+ *
+ * Rotation is zero-downtime: a new key is published (JWKS, verification)
+ * as soon as it is created but only starts signing at `activatesAt`, after
+ * verifiers caching the JWKS have picked it up. A superseded key stays
+ * published for the retention period so tokens it signed remain valid
+ * until they expire.
+ *
+ * Private keys are stored encrypted. The key set is cached briefly and
+ * reloaded early when a token names an unknown `kid`.
+ */
+@Injectable()
+export class SigningKeyService {
+  private cache?: { keys: SigningKey[]; loadedAt: number };
+
+  // Protects the private keys at rest; JWT_KEY_ENCRYPTION_KEY must be set
+  private readonly encryptionKey: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.encryptionKey = configService.getOrThrow<string>(
+      'JWT_KEY_ENCRYPTION_KEY',
+    );
+  }
+
+  /**
+   * The key new tokens are signed with. A fresh database gets its first
+   * key on demand.
+   */
+  async getSigningKey(): Promise<ActiveSigningKey> {
+    const now = new Date();
+    let key = this.currentKey(await this.loadKeys(), now);
+
+    if (!key) {
+      key = await this.createKey(now);
+      this.cache = undefined;
+    }
+
+    return {
+      kid: key.id,
+      algorithm: key.algorithm as SigningAlgorithm,
+      privateKey: decryptSecret(key.privateKey, this.encryptionKey),
+    };
+  }
+
+  /**
+   * Public key (PEM) for verifying a token signed with `kid`
+   */
+  async getVerificationKey(kid: string | undefined): Promise<string> {
+    const find = (keys: SigningKey[]) =>
+      this.publishedKeys(keys, new Date()).find((key) => key.id === kid);
+
+    let key = kid ? find(await this.loadKeys()) : undefined;
+
+    // Possibly a key created since the cache was loaded
+    if (
+      kid &&
+      !key &&
+      this.cache &&
+      Date.now() - this.cache.loadedAt > KEY_REFRESH_MIN_INTERVAL_MS
+    ) {
+      key = find(await this.loadKeys(true));
+    }
+
+    if (!key) {
+      throw new UnauthorizedException('Unknown signing key');
+    }
+
+    return key.publicKey;
+  }
+
+  async getJwks(): Promise<{ keys: PublicJwk[] }> {
+    const keys = this.publishedKeys(await this.loadKeys(), new Date());
+
+    return {
+      keys: keys.map((key) => ({
+        ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.id,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  /**
+   * Add a key that starts signing after the activation delay, and drop
+   * keys superseded longer ago than the retention period
+   */
+  async rotate(): Promise<{ kid: string; activatesAt: Date }> {
+    const delaySeconds = Number(
+      this.configService.get<string>('JWT_KEY_ACTIVATION_DELAY_SECONDS', '600'),
+    );
+    const now = new Date();
+    const keys = await this.loadKeys(true);
+    const published = this.publishedKeys(keys, now);
+
+    const retired = keys.filter((key) => !published.includes(key));
+    if (retired.length > 0) {
+      await this.prisma.signingKey.deleteMany({
+        where: { id: { in: retired.map((key) => key.id) } },
+      });
+    }
+
+    const key = await this.createKey(
+      new Date(now.getTime() + delaySeconds * 1000),
+    );
+    this.cache = undefined;
+
+    return { kid: key.id, activatesAt: key.activatesAt };
+  }
+
+  private async createKey(activatesAt: Date): Promise<SigningKey> {
+    const algorithm = this.configService.get<SigningAlgorithm>(
+      'JWT_SIGNING_ALG',
+      'RS256',
+    );
+
+    const { publicKey, privateKey } =
+      algorithm === 'ES256'
+        ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    return this.prisma.signingKey.create({
+      data: {
+        algorithm,
+        publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+        privateKey: encryptSecret(
+          privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+          this.encryptionKey,
+        ),
+        activatesAt,
+      },
+    });
+  }
+
+  private async loadKeys(force = false): Promise<SigningKey[]> {
+    if (
+      !force &&
+      this.cache &&
+      Date.now() - this.cache.loadedAt < KEY_CACHE_TTL_MS
+    ) {
+      return this.cache.keys;
+    }
+
+    const keys = await this.prisma.signingKey.findMany({
+      orderBy: { activatesAt: 'asc' },
+    });
+    this.cache = { keys, loadedAt: Date.now() };
+    return keys;
+  }
+
+  // Newest key that has reached its activation time
+  private currentKey(keys: SigningKey[], now: Date): SigningKey | undefined {
+    return keys.filter((key) => key.activatesAt <= now).pop();
+  }
+
+  // Pending, current, and superseded keys still within retention
+  private publishedKeys(keys: SigningKey[], now: Date): SigningKey[] {
+    const retentionHours = Number(
+      this.configService.get<string>('JWT_KEY_RETENTION_HOURS', '24'),
+    );
+    const cutoff = now.getTime() - retentionHours * 60 * 60 * 1000;
+    const active = keys.filter((key) => key.activatesAt <= now);
+
+    return keys.filter((key) => {
+      const successor = active.find(
+        (next) => next.activatesAt > key.activatesAt,
+      );
+      return !successor || successor.activatesAt.getTime() > cutoff;
+    });
+  }
+}
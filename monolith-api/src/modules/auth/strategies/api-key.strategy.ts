@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import { Request } from 'express';
+import { ApiKeyService, API_KEY_PREFIX } from '../api-key.service';
+
+/**
+ * Accepts a personal API key from the X-API-Key header, or as a bearer
+ * token so clients that only support bearer auth can use one too
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(private apiKeyService: ApiKeyService) {
+    super();
+  }
+
+  async validate(request: Request) {
+    const key = this.extractKey(request);
+
+    if (!key) {
+      // Lets passport report 401 without a message, like a missing JWT
+      return null;
+    }
+
+    return this.apiKeyService.authenticate(key);
+  }
+
+  private extractKey(request: Request): string | undefined {
+    const header = request.headers['x-api-key'];
+
+    if (typeof header === 'string') {
+      return header;
+    }
+
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+
+    if (scheme === 'Bearer' && token?.startsWith(API_KEY_PREFIX)) {
+      return token;
+    }
+
+    return undefined;
+  }
+}
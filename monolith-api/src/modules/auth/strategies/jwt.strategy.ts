@@ -1,29 +1,66 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
 import { AuthService } from '../auth.service';
+import { SigningKeyService, SIGNING_ALGORITHMS } from '../signing-key.service';
+import { ImpersonationService } from '../impersonation.service';
+import { SessionService } from '../session.service';
+import { AccessTokenPayload } from '../token.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
-    private configService: ConfigService,
     private authService: AuthService,
+    private impersonationService: ImpersonationService,
+    private sessionService: SessionService,
+    signingKeyService: SigningKeyService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: configService.get<string>('JWT_SECRET', 'your-secret-key'),
+      algorithms: [...SIGNING_ALGORITHMS],
+      // Verify against the published key named by the token's `kid`
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        signingKeyService
+          .getVerificationKey(keyIdOf(rawJwtToken))
+          .then((publicKey) => done(null, publicKey))
+          .catch((error: Error) => done(error));
+      },
     });
   }
 
-  async validate(payload: any) {
-    const user = await this.authService.validateUser(payload.sub);
+  async validate(payload: Partial<AccessTokenPayload> & { sub: string }) {
+    // `org` is the active organization the token was issued for
+    const user = await this.authService.validateUser(payload.sub, payload.org);
 
     if (!user) {
       throw new UnauthorizedException();
     }
 
-    return user;
+    // `act` names the admin impersonating the subject
+    if (payload.act) {
+      const impersonator = await this.impersonationService.validateSession(
+        payload.imp,
+        payload.act.sub,
+        payload.org,
+      );
+      return { ...user, impersonator };
+    }
+
+    // `sid` is the login session, which may have been revoked since
+    await this.sessionService.validate(payload.sid, payload.sub);
+
+    return { ...user, sessionId: payload.sid };
+  }
+}
+
+function keyIdOf(token: string): string | undefined {
+  try {
+    const header = JSON.parse(
+      Buffer.from(token.split('.')[0], 'base64url').toString(),
+    ) as { kid?: string };
+    return header.kid;
+  } catch {
+    return undefined;
   }
 }
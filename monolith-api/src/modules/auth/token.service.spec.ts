@@ -0,0 +1,319 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { TokenService } from './token.service';
+import { SigningKeyService } from './signing-key.service';
+import { PrismaService } from '../../database/prisma.service';
+
+describe('TokenService', () => {
+  let service: TokenService;
+
+  const mockPrismaService = {
+    session: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    refreshToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockJwtService = {
+    signAsync: jest.fn(),
+  };
+
+  const mockSigningKeyService = {
+    getSigningKey: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+  };
+
+  const storedToken = {
+    id: 'token-1',
+    tokenHash: createHash('sha256').update('refresh-token').digest('hex'),
+    sessionId: 'session-1',
+    userId: 'user-1',
+    organizationId: 'org-1',
+    userAgent: 'jest',
+    ipAddress: '127.0.0.1',
+    expiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+    replacedById: null,
+    createdAt: new Date(),
+    user: { id: 'user-1', email: 'user@example.com' },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: JwtService,
+          useValue: mockJwtService,
+        },
+        {
+          provide: SigningKeyService,
+          useValue: mockSigningKeyService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TokenService>(TokenService);
+
+    mockJwtService.signAsync.mockResolvedValue('access-token');
+    mockPrismaService.session.create.mockResolvedValue({ id: 'session-1' });
+    mockSigningKeyService.getSigningKey.mockResolvedValue({
+      kid: 'key-1',
+      algorithm: 'RS256',
+      privateKey: 'private-key-pem',
+    });
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof mockPrismaService) => Promise<unknown>) =>
+        callback(mockPrismaService),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('issueTokens', () => {
+    it('should return an access token and persist a hashed refresh token', async () => {
+      const result = await service.issueTokens(
+        { id: 'user-1', email: 'user@example.com' },
+        'org-1',
+        { ipAddress: '127.0.0.1', userAgent: 'jest' },
+      );
+
+      expect(result.accessToken).toBe('access-token');
+      expect(result.refreshToken).toEqual(expect.any(String));
+      expect(mockPrismaService.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          tokenHash: createHash('sha256')
+            .update(result.refreshToken)
+            .digest('hex'),
+          sessionId: 'session-1',
+          userId: 'user-1',
+          organizationId: 'org-1',
+          userAgent: 'jest',
+          ipAddress: '127.0.0.1',
+        }),
+      });
+    });
+
+    it('should start a session for the device', async () => {
+      await service.issueTokens(
+        { id: 'user-1', email: 'user@example.com' },
+        'org-1',
+        { ipAddress: '127.0.0.1', userAgent: 'jest' },
+      );
+
+      expect(mockPrismaService.session.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          organizationId: 'org-1',
+          userAgent: 'jest',
+          ipAddress: '127.0.0.1',
+        },
+      });
+    });
+
+    it('should put the active organization and session in the access token', async () => {
+      await service.issueTokens(
+        { id: 'user-1', email: 'user@example.com' },
+        'org-1',
+      );
+
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        {
+          sub: 'user-1',
+          email: 'user@example.com',
+          org: 'org-1',
+          sid: 'session-1',
+        },
+        expect.any(Object),
+      );
+    });
+
+    it('should sign the access token with the current signing key', async () => {
+      await service.issueTokens(
+        { id: 'user-1', email: 'user@example.com' },
+        'org-1',
+      );
+
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        expect.any(Object),
+        {
+          privateKey: 'private-key-pem',
+          algorithm: 'RS256',
+          keyid: 'key-1',
+        },
+      );
+    });
+  });
+
+  describe('issueImpersonationToken', () => {
+    it('should name the acting admin and expire with the session', async () => {
+      const token = await service.issueImpersonationToken(
+        { id: 'user-1', email: 'user@example.com' },
+        'org-1',
+        'admin-1',
+        'session-1',
+        1800,
+      );
+
+      expect(token).toBe('access-token');
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        {
+          sub: 'user-1',
+          email: 'user@example.com',
+          org: 'org-1',
+          act: { sub: 'admin-1' },
+          imp: 'session-1',
+        },
+        expect.objectContaining({ expiresIn: 1800 }),
+      );
+      expect(mockPrismaService.refreshToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rotate', () => {
+    it('should rotate a valid refresh token within the same session', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(storedToken);
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockPrismaService.refreshToken.create.mockResolvedValue({
+        id: 'token-2',
+      });
+
+      const result = await service.rotate('refresh-token');
+
+      expect(result.accessToken).toBe('access-token');
+      expect(result.refreshToken).not.toBe('refresh-token');
+      expect(mockPrismaService.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          sessionId: 'session-1',
+          organizationId: 'org-1',
+        }),
+      });
+      expect(mockPrismaService.refreshToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { replacedById: 'token-2' },
+      });
+      expect(mockPrismaService.session.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { lastSeenAt: expect.any(Date) },
+      });
+    });
+
+    it('should throw UnauthorizedException for an unknown token', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(null);
+
+      await expect(service.rotate('unknown')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should revoke the whole session when a revoked token is reused', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue({
+        ...storedToken,
+        revokedAt: new Date(),
+      });
+
+      await expect(service.rotate('refresh-token')).rejects.toThrow(
+        'Refresh token reuse detected',
+      );
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should treat a lost rotation race as reuse', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(storedToken);
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.rotate('refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrismaService.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired token', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue({
+        ...storedToken,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.rotate('refresh-token')).rejects.toThrow(
+        'Refresh token expired',
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke the session of a known token', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue({
+        sessionId: 'session-1',
+      });
+
+      await service.revoke('refresh-token');
+
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should ignore unknown tokens', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(null);
+
+      await service.revoke('unknown');
+
+      expect(mockPrismaService.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should limit revocation to one organization when given', async () => {
+      await service.revokeAllForUser('user-1', 'org-1');
+
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null, organizationId: 'org-1' },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null, organizationId: 'org-1' },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+});
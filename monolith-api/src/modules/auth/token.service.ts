@@ -0,0 +1,333 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { SigningKeyService } from './signing-key.service';
+
+export interface ClientContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  org: string;
+  // Login session the token belongs to; absent on impersonation tokens
+  sid?: string;
+  // Set when an admin acts as the subject (RFC 8693 actor claim)
+  act?: { sub: string };
+  // Impersonation session the token belongs to
+  imp?: string;
+}
+
+/**
+ * Issues access tokens and manages the lifecycle of refresh tokens.
+ *
+ * Both tokens are bound to the organization the user is acting in: the
+ * access token carries it as the `org` claim and the refresh token row
+ * stores it, so a refresh stays in the same organization.
+ *
+ * Refresh tokens are opaque random strings; only their SHA-256 hash is
+ * persisted. Every login starts a new Session (one per device), and each
+ * refresh rotates the token within that session. Presenting a token that
+ * was already rotated or revoked is treated as theft and revokes the
+ * whole session. Access tokens name their session in the `sid` claim so
+ * they stop working as soon as it is revoked.
+ */
+@Injectable()
+export class TokenService {
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private signingKeyService: SigningKeyService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Start a session in the organization. Sessions started through an SSO
+   * connection remember it and cannot switch to other organizations.
+   */
+  async issueTokens(
+    user: { id: string; email: string },
+    organizationId: string,
+    context: ClientContext = {},
+    ssoConnectionId?: string,
+  ): Promise<AuthTokens> {
+    const session = await this.prisma.session.create({
+      data: {
+        userId: user.id,
+        organizationId,
+        ssoConnectionId,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+      },
+    });
+
+    const accessToken = await this.signAccessToken(
+      user.id,
+      user.email,
+      organizationId,
+      { sid: session.id },
+    );
+    const refreshToken = await this.createRefreshToken(
+      user.id,
+      organizationId,
+      session.id,
+      context,
+    );
+
+    return { accessToken, refreshToken };
+  }
+
+  async rotate(
+    refreshToken: string,
+    context: ClientContext = {},
+  ): Promise<AuthTokens & { userId: string }> {
+    const existing = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hash(refreshToken) },
+      include: { user: { select: { id: true, email: true } } },
+    });
+
+    if (!existing) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (existing.revokedAt) {
+      await this.revokeSession(existing.sessionId);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    if (existing.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    const nextToken = this.generateOpaqueToken();
+
+    const rotated = await this.prisma.$transaction(async (tx) => {
+      // Conditional update guards against two concurrent refreshes both
+      // succeeding with the same token
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: existing.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const created = await tx.refreshToken.create({
+        data: {
+          tokenHash: this.hash(nextToken),
+          sessionId: existing.sessionId,
+          userId: existing.userId,
+          organizationId: existing.organizationId,
+          userAgent: context.userAgent ?? existing.userAgent,
+          ipAddress: context.ipAddress ?? existing.ipAddress,
+          expiresAt: this.refreshExpiry(),
+        },
+      });
+
+      await tx.refreshToken.update({
+        where: { id: existing.id },
+        data: { replacedById: created.id },
+      });
+
+      await tx.session.update({
+        where: { id: existing.sessionId },
+        data: {
+          lastSeenAt: new Date(),
+          ...(context.ipAddress && { ipAddress: context.ipAddress }),
+          ...(context.userAgent && { userAgent: context.userAgent }),
+        },
+      });
+
+      return created;
+    });
+
+    if (!rotated) {
+      await this.revokeSession(existing.sessionId);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    const accessToken = await this.signAccessToken(
+      existing.user.id,
+      existing.user.email,
+      existing.organizationId,
+      { sid: existing.sessionId },
+    );
+
+    return {
+      userId: existing.userId,
+      accessToken,
+      refreshToken: nextToken,
+    };
+  }
+
+  /**
+   * Access token for an admin acting as `user`. No refresh token is
+   * issued, so the session cannot outlive `expiresInSeconds`.
+   */
+  async issueImpersonationToken(
+    user: { id: string; email: string },
+    organizationId: string,
+    actorId: string,
+    sessionId: string,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    return this.signAccessToken(
+      user.id,
+      user.email,
+      organizationId,
+      { act: { sub: actorId }, imp: sessionId },
+      expiresInSeconds,
+    );
+  }
+
+  /**
+   * Revoke the device session the given refresh token belongs to.
+   * Unknown tokens are ignored so logout is idempotent.
+   */
+  async revoke(refreshToken: string): Promise<void> {
+    const existing = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hash(refreshToken) },
+      select: { sessionId: true },
+    });
+
+    if (existing) {
+      await this.revokeSession(existing.sessionId);
+    }
+  }
+
+  /**
+   * Revoke a session and its refresh tokens. Access tokens issued for it
+   * are rejected from the next request on.
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    const now = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.session.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      await tx.refreshToken.updateMany({
+        where: { sessionId, revokedAt: null },
+        data: { revokedAt: now },
+      });
+    });
+  }
+
+  /**
+   * Revoke every session of a user, or only those bound to one
+   * organization when it is given
+   */
+  async revokeAllForUser(
+    userId: string,
+    organizationId?: string,
+  ): Promise<void> {
+    const where = {
+      userId,
+      revokedAt: null,
+      ...(organizationId && { organizationId }),
+    };
+    const now = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.session.updateMany({ where, data: { revokedAt: now } });
+      await tx.refreshToken.updateMany({ where, data: { revokedAt: now } });
+    });
+  }
+
+  /**
+   * Revoke every session of a user except the one making the request
+   */
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<void> {
+    const now = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.session.updateMany({
+        where: { userId, revokedAt: null, id: { not: currentSessionId } },
+        data: { revokedAt: now },
+      });
+      await tx.refreshToken.updateMany({
+        where: {
+          userId,
+          revokedAt: null,
+          sessionId: { not: currentSessionId },
+        },
+        data: { revokedAt: now },
+      });
+    });
+  }
+
+  private async createRefreshToken(
+    userId: string,
+    organizationId: string,
+    sessionId: string,
+    context: ClientContext,
+  ): Promise<string> {
+    const token = this.generateOpaqueToken();
+
+    await this.prisma.refreshToken.create({
+      data: {
+        tokenHash: this.hash(token),
+        sessionId,
+        userId,
+        organizationId,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt: this.refreshExpiry(),
+      },
+    });
+
+    return token;
+  }
+
+  private async signAccessToken(
+    userId: string,
+    email: string,
+    organizationId: string,
+    claims: Pick<AccessTokenPayload, 'sid' | 'act' | 'imp'> = {},
+    expiresIn?: number,
+  ): Promise<string> {
+    const payload: AccessTokenPayload = {
+      sub: userId,
+      email,
+      org: organizationId,
+      ...claims,
+    };
+    const key = await this.signingKeyService.getSigningKey();
+
+    return this.jwtService.signAsync(payload, {
+      privateKey: key.privateKey,
+      algorithm: key.algorithm,
+      keyid: key.kid,
+      ...(expiresIn && { expiresIn }),
+    });
+  }
+
+  private refreshExpiry(): Date {
+    const ttlDays = Number(
+      this.configService.get<string>('REFRESH_TOKEN_TTL_DAYS', '7'),
+    );
+    return new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+  }
+
+  private generateOpaqueToken(): string {
+    return randomBytes(48).toString('base64url');
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CategoriesService } from './categories.service';
+import {
+  CreateCategoryDto,
+  UpdateCategoryDto,
+  CategoryResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('categories')
+@Controller('categories')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class CategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "List the organization's categories with their event counts",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the categories',
+    type: [CategoryResponseDto],
+  })
+  findAll(@CurrentUser() user: any): Promise<CategoryResponseDto[]> {
+    return this.categoriesService.findAll(user);
+  }
+
+  @Post()
+  @RequirePermission('category:manage')
+  @ApiOperation({ summary: 'Create a category' })
+  @ApiResponse({
+    status: 201,
+    description: 'Category created successfully',
+    type: CategoryResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 409, description: 'Category name already in use' })
+  create(
+    @Body() createCategoryDto: CreateCategoryDto,
+    @CurrentUser() user: any,
+  ): Promise<CategoryResponseDto> {
+    return this.categoriesService.create(createCategoryDto, user);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get category by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the category',
+    type: CategoryResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<CategoryResponseDto> {
+    return this.categoriesService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @RequirePermission('category:manage')
+  @ApiOperation({ summary: 'Update a category' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category updated successfully',
+    type: CategoryResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  @ApiResponse({ status: 409, description: 'Category name already in use' })
+  update(
+    @Param('id') id: string,
+    @Body() updateCategoryDto: UpdateCategoryDto,
+    @CurrentUser() user: any,
+  ): Promise<CategoryResponseDto> {
+    return this.categoriesService.update(id, updateCategoryDto, user);
+  }
+
+  @Delete(':id')
+  @RequirePermission('category:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a category; its events are left uncategorized',
+  })
+  @ApiResponse({ status: 204, description: 'Category deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  remove(@Param('id') id: string, @CurrentUser() user: any): Promise<void> {
+    return this.categoriesService.remove(id, user);
+  }
+}
@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { CategoriesService } from './categories.service';
+import { PrismaService } from '../../database/prisma.service';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../common/permissions';
+
+describe('CategoriesService', () => {
+  let service: CategoriesService;
+
+  const mockPrismaService = {
+    category: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    event: {
+      groupBy: jest.fn(),
+    },
+  };
+
+  const mockUser = {
+    id: 'user-1',
+    organizationId: 'org-1',
+    role: UserRole.USER,
+    permissions: DEFAULT_ROLE_PERMISSIONS.USER,
+  };
+
+  const mockAdmin = {
+    id: 'admin-1',
+    organizationId: 'org-1',
+    role: UserRole.ADMIN,
+    permissions: DEFAULT_ROLE_PERMISSIONS.ADMIN,
+  };
+
+  const category = {
+    id: 'category-1',
+    organizationId: 'org-1',
+    name: 'Workshops',
+    description: null,
+    color: '#3b82f6',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoriesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CategoriesService>(CategoriesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should count only the events the user can read', async () => {
+      mockPrismaService.category.findMany.mockResolvedValue([
+        category,
+        { ...category, id: 'category-2', name: 'Talks' },
+      ]);
+      mockPrismaService.event.groupBy.mockResolvedValue([
+        { categoryId: category.id, _count: { _all: 3 } },
+      ]);
+
+      const result = await service.findAll(mockUser);
+
+      expect(mockPrismaService.event.groupBy).toHaveBeenCalledWith({
+        by: ['categoryId'],
+        where: {
+          organizationId: mockUser.organizationId,
+          createdById: mockUser.id,
+          categoryId: { in: [category.id, 'category-2'] },
+        },
+        _count: { _all: true },
+      });
+      expect(result.map((item) => item.eventCount)).toEqual([3, 0]);
+    });
+  });
+
+  describe('create', () => {
+    it('should create the category in the organization', async () => {
+      mockPrismaService.category.findUnique.mockResolvedValue(null);
+      mockPrismaService.category.create.mockResolvedValue(category);
+
+      const result = await service.create({ name: 'Workshops' }, mockAdmin);
+
+      expect(mockPrismaService.category.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Workshops',
+          description: undefined,
+          color: undefined,
+          organizationId: mockAdmin.organizationId,
+        },
+      });
+      expect(result.eventCount).toBe(0);
+    });
+
+    it('should reject a name already in use', async () => {
+      mockPrismaService.category.findUnique.mockResolvedValue(category);
+
+      await expect(
+        service.create({ name: 'Workshops' }, mockAdmin),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.category.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException for an unknown category', async () => {
+      mockPrismaService.category.findUnique.mockResolvedValue(null);
+
+      await expect(service.findOne('missing', mockUser)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should deny access to another organization', async () => {
+      mockPrismaService.category.findUnique.mockResolvedValue({
+        ...category,
+        organizationId: 'org-2',
+      });
+
+      await expect(service.findOne(category.id, mockUser)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the category', async () => {
+      mockPrismaService.category.findUnique.mockResolvedValue(category);
+
+      await service.remove(category.id, mockAdmin);
+
+      expect(mockPrismaService.category.delete).toHaveBeenCalledWith({
+        where: { id: category.id },
+      });
+    });
+  });
+});
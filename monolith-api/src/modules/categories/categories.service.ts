@@ -0,0 +1,158 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { Category } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { PolicyUser, readableEventsWhere } from '../../common/permissions';
+import {
+  CreateCategoryDto,
+  UpdateCategoryDto,
+  CategoryResponseDto,
+} from './dto';
+
+@Injectable()
+export class CategoriesService {
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(user: PolicyUser): Promise<CategoryResponseDto[]> {
+    const categories = await this.prisma.category.findMany({
+      where: { organizationId: user.organizationId },
+      orderBy: { name: 'asc' },
+    });
+    const counts = await this.countEvents(
+      categories.map((category) => category.id),
+      user,
+    );
+
+    return categories.map((category) =>
+      this.toResponse(category, counts.get(category.id)),
+    );
+  }
+
+  async findOne(id: string, user: PolicyUser): Promise<CategoryResponseDto> {
+    const category = await this.findScoped(id, user.organizationId);
+    const counts = await this.countEvents([id], user);
+
+    return this.toResponse(category, counts.get(id));
+  }
+
+  async create(
+    createCategoryDto: CreateCategoryDto,
+    user: PolicyUser,
+  ): Promise<CategoryResponseDto> {
+    await this.assertNameAvailable(user.organizationId, createCategoryDto.name);
+
+    const category = await this.prisma.category.create({
+      data: {
+        name: createCategoryDto.name,
+        description: createCategoryDto.description,
+        color: createCategoryDto.color,
+        organizationId: user.organizationId,
+      },
+    });
+
+    return this.toResponse(category);
+  }
+
+  async update(
+    id: string,
+    updateCategoryDto: UpdateCategoryDto,
+    user: PolicyUser,
+  ): Promise<CategoryResponseDto> {
+    const category = await this.findScoped(id, user.organizationId);
+    const { name, description, color } = updateCategoryDto;
+
+    if (name && name !== category.name) {
+      await this.assertNameAvailable(user.organizationId, name);
+    }
+
+    const updated = await this.prisma.category.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(description !== undefined && { description }),
+        ...(color !== undefined && { color }),
+      },
+    });
+    const counts = await this.countEvents([id], user);
+
+    return this.toResponse(updated, counts.get(id));
+  }
+
+  /**
+   * Events in the category stay, without a category
+   */
+  async remove(id: string, user: PolicyUser): Promise<void> {
+    await this.findScoped(id, user.organizationId);
+
+    await this.prisma.category.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Number of events the user can read in each category
+   */
+  private async countEvents(
+    categoryIds: string[],
+    user: PolicyUser,
+  ): Promise<Map<string, number>> {
+    const groups = await this.prisma.event.groupBy({
+      by: ['categoryId'],
+      where: { ...readableEventsWhere(user), categoryId: { in: categoryIds } },
+      _count: { _all: true },
+    });
+
+    return new Map(
+      groups.map((group) => [group.categoryId!, group._count._all]),
+    );
+  }
+
+  private async findScoped(
+    id: string,
+    organizationId: string,
+  ): Promise<Category> {
+    const category = await this.prisma.category.findUnique({
+      where: { id },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+
+    // Check organization scoping
+    if (category.organizationId !== organizationId) {
+      throw new ForbiddenException('Access denied to this category');
+    }
+
+    return category;
+  }
+
+  private async assertNameAvailable(
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.prisma.category.findUnique({
+      where: { organizationId_name: { organizationId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictException('A category with this name already exists');
+    }
+  }
+
+  private toResponse(category: Category, eventCount = 0): CategoryResponseDto {
+    return new CategoryResponseDto({
+      id: category.id,
+      name: category.name,
+      description: category.description,
+      color: category.color,
+      eventCount,
+      createdAt: category.createdAt,
+      updatedAt: category.updatedAt,
+    });
+  }
+}
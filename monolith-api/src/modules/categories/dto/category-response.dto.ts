@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CategoryResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  description?: string | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  color?: string | null;
+
+  @ApiProperty({
+    description:
+      'Number of events in the category that the user can read; a recurring series counts once',
+  })
+  eventCount: number;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<CategoryResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateCategoryDto {
+  @ApiProperty({
+    description: 'Category name, unique within the organization',
+    example: 'Workshops',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(2)
+  @MaxLength(50)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'What belongs in the category',
+    example: 'Hands-on sessions with a limited number of seats',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Display color as a hex code',
+    example: '#3b82f6',
+    nullable: true,
+  })
+  @IsOptional()
+  @Matches(/^#[0-9a-f]{6}$/i, {
+    message: 'color must be a hex code like #3b82f6',
+  })
+  color?: string | null;
+}
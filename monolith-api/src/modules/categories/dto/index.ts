@@ -0,0 +1,3 @@
+export * from './create-category.dto';
+export * from './update-category.dto';
+export * from './category-response.dto';
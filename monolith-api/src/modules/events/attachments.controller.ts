@@ -0,0 +1,171 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+  StreamableFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiConsumes,
+  ApiBody,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { AttachmentsService, MAX_ATTACHMENT_SIZE } from './attachments.service';
+import {
+  UploadAttachmentDto,
+  UpdateAttachmentDto,
+  AttachmentResponseDto,
+} from './dto';
+import { JwtOrApiKeyAuthGuard } from '../auth/guards/jwt-or-api-key-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('events')
+@Controller('events/:id/attachments')
+@UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+export class AttachmentsController {
+  constructor(private readonly attachmentsService: AttachmentsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List files attached to an event' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the attachments, oldest first',
+    type: [AttachmentResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  findAll(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<AttachmentResponseDto[]> {
+    return this.attachmentsService.findAll(id, user);
+  }
+
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_ATTACHMENT_SIZE } }),
+  )
+  @ApiOperation({
+    summary: 'Attach a file to an event',
+    description:
+      'Images (JPEG, PNG, WebP, GIF), PDFs, plain text, CSV, iCalendar and Office documents up to 10 MB. Images get a thumbnail.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        cover: { type: 'boolean', default: false },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'File attached',
+    type: AttachmentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No file, invalid image or too many attachments',
+  })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  @ApiResponse({ status: 413, description: 'File too large' })
+  @ApiResponse({ status: 415, description: 'File type not allowed' })
+  create(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() uploadAttachmentDto: UploadAttachmentDto,
+    @CurrentUser() user: any,
+  ): Promise<AttachmentResponseDto> {
+    return this.attachmentsService.create(id, file, uploadAttachmentDto, user);
+  }
+
+  @Get(':attachmentId/download')
+  @ApiOperation({ summary: 'Download an attached file' })
+  @ApiProduces('application/octet-stream')
+  @ApiResponse({ status: 200, description: 'The file' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 404, description: 'Event or attachment not found' })
+  download(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: any,
+  ): Promise<StreamableFile> {
+    return this.attachmentsService.download(id, attachmentId, user);
+  }
+
+  @Get(':attachmentId/thumbnail')
+  @ApiOperation({ summary: 'Download the thumbnail of an attached image' })
+  @ApiProduces('image/webp')
+  @ApiResponse({ status: 200, description: 'The thumbnail as WebP' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({
+    status: 404,
+    description: 'Event or attachment not found, or not an image',
+  })
+  downloadThumbnail(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: any,
+  ): Promise<StreamableFile> {
+    return this.attachmentsService.downloadThumbnail(id, attachmentId, user);
+  }
+
+  @Patch(':attachmentId')
+  @ApiOperation({ summary: "Set or unset an image as the event's cover" })
+  @ApiResponse({
+    status: 200,
+    description: 'Attachment updated',
+    type: AttachmentResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Not an image' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  @ApiResponse({ status: 404, description: 'Event or attachment not found' })
+  update(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @Body() updateAttachmentDto: UpdateAttachmentDto,
+    @CurrentUser() user: any,
+  ): Promise<AttachmentResponseDto> {
+    return this.attachmentsService.update(
+      id,
+      attachmentId,
+      updateAttachmentDto,
+      user,
+    );
+  }
+
+  @Delete(':attachmentId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove an attached file' })
+  @ApiResponse({ status: 204, description: 'Attachment removed' })
+  @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+  @ApiResponse({ status: 404, description: 'Event or attachment not found' })
+  remove(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    return this.attachmentsService.remove(id, attachmentId, user);
+  }
+}
@@ -0,0 +1,316 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { EventStatus, UserRole } from '@prisma/client';
+import sharp from 'sharp';
+import { AttachmentsService, MAX_ATTACHMENTS } from './attachments.service';
+import { PrismaService } from '../../database/prisma.service';
+import { StorageService } from '../../common/storage';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../common/permissions';
+
+describe('AttachmentsService', () => {
+  let service: AttachmentsService;
+  let png: Buffer;
+
+  const mockPrismaService = {
+    event: {
+      findUnique: jest.fn(),
+    },
+    eventAttachment: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockStorage = {
+    put: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockUser = {
+    id: 'user-123',
+    organizationId: 'org-123',
+    role: UserRole.USER,
+    permissions: DEFAULT_ROLE_PERMISSIONS.USER,
+  };
+
+  const mockEvent = {
+    id: 'event-123',
+    status: EventStatus.DRAFT,
+    organizationId: 'org-123',
+    createdById: 'user-123',
+  };
+
+  const upload = (fields: Partial<Express.Multer.File>) =>
+    ({
+      originalname: 'agenda.pdf',
+      mimetype: 'application/pdf',
+      buffer: Buffer.from('%PDF-1.7'),
+      size: 8,
+      ...fields,
+    }) as Express.Multer.File;
+
+  const attachment = (fields: Record<string, unknown> = {}) => ({
+    id: 'attachment-1',
+    eventId: mockEvent.id,
+    uploadedById: mockUser.id,
+    fileName: 'agenda.pdf',
+    mimeType: 'application/pdf',
+    size: 8,
+    storageKey: 'events/event-123/attachment-1',
+    thumbnailKey: null,
+    width: null,
+    height: null,
+    cover: false,
+    createdAt: new Date(),
+    ...fields,
+  });
+
+  beforeAll(async () => {
+    png = await sharp({
+      create: {
+        width: 800,
+        height: 400,
+        channels: 3,
+        background: '#3b82f6',
+      },
+    })
+      .png()
+      .toBuffer();
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttachmentsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: StorageService,
+          useValue: mockStorage,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AttachmentsService>(AttachmentsService);
+
+    mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+    mockPrismaService.eventAttachment.count.mockResolvedValue(0);
+    mockPrismaService.eventAttachment.create.mockImplementation(
+      ({ data }: { data: Record<string, unknown> }) => attachment(data),
+    );
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof mockPrismaService) => Promise<unknown>) =>
+        callback(mockPrismaService),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store a document without a thumbnail', async () => {
+      const result = await service.create(
+        mockEvent.id,
+        upload({}),
+        {},
+        mockUser,
+      );
+
+      expect(mockStorage.put).toHaveBeenCalledTimes(1);
+      expect(mockStorage.put).toHaveBeenCalledWith(
+        `events/event-123/${result.id}`,
+        expect.any(Buffer),
+        'application/pdf',
+      );
+      expect(result.hasThumbnail).toBe(false);
+    });
+
+    it('should make a thumbnail of an image', async () => {
+      const result = await service.create(
+        mockEvent.id,
+        upload({
+          originalname: 'flyer.png',
+          mimetype: 'image/png',
+          buffer: png,
+          size: png.length,
+        }),
+        {},
+        mockUser,
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          width: 800,
+          height: 400,
+          hasThumbnail: true,
+        }),
+      );
+
+      const [, [key, thumbnail, type]] = mockStorage.put.mock.calls as [
+        unknown,
+        [string, Buffer, string],
+      ];
+      const metadata = await sharp(thumbnail).metadata();
+
+      expect(key).toBe(`events/event-123/${result.id}-thumbnail`);
+      expect(type).toBe('image/webp');
+      expect([metadata.width, metadata.height]).toEqual([320, 160]);
+    });
+
+    it('should replace the current cover', async () => {
+      const result = await service.create(
+        mockEvent.id,
+        upload({ mimetype: 'image/png', buffer: png, size: png.length }),
+        { cover: true },
+        mockUser,
+      );
+
+      expect(result.cover).toBe(true);
+      expect(mockPrismaService.eventAttachment.updateMany).toHaveBeenCalledWith(
+        {
+          where: { eventId: mockEvent.id, cover: true },
+          data: { cover: false },
+        },
+      );
+    });
+
+    it('should only accept images as the cover', async () => {
+      await expect(
+        service.create(mockEvent.id, upload({}), { cover: true }, mockUser),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject types that are not allowed', async () => {
+      await expect(
+        service.create(
+          mockEvent.id,
+          upload({ mimetype: 'application/x-msdownload' }),
+          {},
+          mockUser,
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject files that are not the image they claim to be', async () => {
+      await expect(
+        service.create(
+          mockEvent.id,
+          upload({ mimetype: 'image/jpeg', buffer: png }),
+          {},
+          mockUser,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('should limit the number of attachments', async () => {
+      mockPrismaService.eventAttachment.count.mockResolvedValue(
+        MAX_ATTACHMENTS,
+      );
+
+      await expect(
+        service.create(mockEvent.id, upload({}), {}, mockUser),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should keep UTF-8 file names', async () => {
+      const name = 'Tagesordnung-Übersicht.pdf';
+
+      const result = await service.create(
+        mockEvent.id,
+        upload({
+          originalname: Buffer.from(name, 'utf8').toString('latin1'),
+        }),
+        {},
+        mockUser,
+      );
+
+      expect(result.fileName).toBe(name);
+    });
+
+    it('should remove the stored file when it cannot be recorded', async () => {
+      mockPrismaService.eventAttachment.create.mockRejectedValue(
+        new Error('Database unavailable'),
+      );
+
+      await expect(
+        service.create(mockEvent.id, upload({}), {}, mockUser),
+      ).rejects.toThrow('Database unavailable');
+      expect(mockStorage.delete).toHaveBeenCalledWith(
+        expect.stringMatching(/^events\/event-123\//),
+      );
+    });
+
+    it('should deny members who cannot update the event', async () => {
+      await expect(
+        service.create(
+          mockEvent.id,
+          upload({}),
+          {},
+          { ...mockUser, id: 'user-456' },
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('update', () => {
+    it('should only make images the cover', async () => {
+      mockPrismaService.eventAttachment.findUnique.mockResolvedValue(
+        attachment(),
+      );
+
+      await expect(
+        service.update(mockEvent.id, 'attachment-1', { cover: true }, mockUser),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the file and its thumbnail', async () => {
+      mockPrismaService.eventAttachment.findUnique.mockResolvedValue(
+        attachment({
+          mimeType: 'image/png',
+          thumbnailKey: 'events/event-123/attachment-1-thumbnail',
+        }),
+      );
+
+      await service.remove(mockEvent.id, 'attachment-1', mockUser);
+
+      expect(mockPrismaService.eventAttachment.delete).toHaveBeenCalledWith({
+        where: { id: 'attachment-1' },
+      });
+      expect(mockStorage.delete.mock.calls).toEqual([
+        ['events/event-123/attachment-1'],
+        ['events/event-123/attachment-1-thumbnail'],
+      ]);
+    });
+  });
+
+  describe('findByEvent', () => {
+    it('should group attachments by event', async () => {
+      mockPrismaService.eventAttachment.findMany.mockResolvedValue([
+        attachment(),
+      ]);
+
+      const result = await service.findByEvent(['event-123', 'event-456']);
+
+      expect(result.get('event-123')).toHaveLength(1);
+      expect(result.get('event-456')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  StreamableFile,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Event, EventAttachment } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { basename } from 'path';
+import sharp from 'sharp';
+import { PrismaService } from '../../database/prisma.service';
+import { StorageService } from '../../common/storage';
+import { EventAction, PolicyUser, can } from '../../common/permissions';
+import {
+  UploadAttachmentDto,
+  UpdateAttachmentDto,
+  AttachmentResponseDto,
+} from './dto';
+
+// Largest file that can be attached, in bytes
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Most files a single event can carry
+export const MAX_ATTACHMENTS = 20;
+
+// Thumbnails fit in a square of this many pixels
+const THUMBNAIL_SIZE = 320;
+
+// The format sharp must find in an upload declared as each image type
+const IMAGE_FORMATS: Record<string, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const DOCUMENT_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/calendar',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+interface ProcessedImage {
+  width: number;
+  height: number;
+  thumbnail: Buffer;
+}
+
+/**
+ * Files attached to events: agendas, flyers and images, one of which can
+ * be the event's cover. Whoever may read the event may download its
+ * files; whoever may update it may add and remove them.
+ *
+ * The files themselves live in StorageService, under
+ * "events/<eventId>/<attachmentId>"; images get a WebP thumbnail next to
+ * them.
+ */
+@Injectable()
+export class AttachmentsService {
+  private readonly logger = new Logger(AttachmentsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private storage: StorageService,
+  ) {}
+
+  async findAll(
+    eventId: string,
+    user: PolicyUser,
+  ): Promise<AttachmentResponseDto[]> {
+    await this.findEvent(eventId, user, 'read');
+
+    const attachments = await this.prisma.eventAttachment.findMany({
+      where: { eventId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return attachments.map((attachment) => this.toResponse(attachment));
+  }
+
+  /**
+   * Attachments of each event, for event responses
+   */
+  async findByEvent(
+    eventIds: string[],
+  ): Promise<Map<string, AttachmentResponseDto[]>> {
+    const attachments = new Map<string, AttachmentResponseDto[]>(
+      eventIds.map((id) => [id, []]),
+    );
+
+    if (eventIds.length === 0) {
+      return attachments;
+    }
+
+    const rows = await this.prisma.eventAttachment.findMany({
+      where: { eventId: { in: eventIds } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const row of rows) {
+      attachments.get(row.eventId)?.push(this.toResponse(row));
+    }
+
+    return attachments;
+  }
+
+  async create(
+    eventId: string,
+    file: Express.Multer.File | undefined,
+    uploadAttachmentDto: UploadAttachmentDto,
+    user: PolicyUser,
+  ): Promise<AttachmentResponseDto> {
+    await this.findEvent(eventId, user, 'update');
+
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+
+    const isImage = file.mimetype in IMAGE_FORMATS;
+
+    if (!isImage && !DOCUMENT_TYPES.includes(file.mimetype)) {
+      throw new UnsupportedMediaTypeException(
+        `Files of type ${file.mimetype} cannot be attached`,
+      );
+    }
+
+    if (uploadAttachmentDto.cover && !isImage) {
+      throw new BadRequestException('The cover must be an image');
+    }
+
+    const count = await this.prisma.eventAttachment.count({
+      where: { eventId },
+    });
+
+    if (count >= MAX_ATTACHMENTS) {
+      throw new BadRequestException(
+        `An event can have at most ${MAX_ATTACHMENTS} attachments`,
+      );
+    }
+
+    const image = isImage ? await this.processImage(file) : null;
+
+    const id = randomUUID();
+    const storageKey = `events/${eventId}/${id}`;
+    const thumbnailKey = image ? `${storageKey}-thumbnail` : null;
+
+    await this.storage.put(storageKey, file.buffer, file.mimetype);
+
+    if (image && thumbnailKey) {
+      await this.storage.put(thumbnailKey, image.thumbnail, 'image/webp');
+    }
+
+    try {
+      const attachment = await this.prisma.$transaction(async (tx) => {
+        // An event has at most one cover
+        if (uploadAttachmentDto.cover) {
+          await tx.eventAttachment.updateMany({
+            where: { eventId, cover: true },
+            data: { cover: false },
+          });
+        }
+
+        return tx.eventAttachment.create({
+          data: {
+            id,
+            eventId,
+            uploadedById: user.id,
+            fileName: fileNameOf(file),
+            mimeType: file.mimetype,
+            size: file.size,
+            storageKey,
+            thumbnailKey,
+            width: image?.width,
+            height: image?.height,
+            cover: !!uploadAttachmentDto.cover,
+          },
+        });
+      });
+
+      return this.toResponse(attachment);
+    } catch (error) {
+      await this.deleteFiles([{ storageKey, thumbnailKey }]);
+      throw error;
+    }
+  }
+
+  /**
+   * Make an image the event's cover, or stop it being the cover
+   */
+  async update(
+    eventId: string,
+    attachmentId: string,
+    updateAttachmentDto: UpdateAttachmentDto,
+    user: PolicyUser,
+  ): Promise<AttachmentResponseDto> {
+    await this.findEvent(eventId, user, 'update');
+    const attachment = await this.findAttachment(eventId, attachmentId);
+
+    if (updateAttachmentDto.cover && !(attachment.mimeType in IMAGE_FORMATS)) {
+      throw new BadRequestException('The cover must be an image');
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      if (updateAttachmentDto.cover) {
+        await tx.eventAttachment.updateMany({
+          where: { eventId, cover: true, id: { not: attachmentId } },
+          data: { cover: false },
+        });
+      }
+
+      return tx.eventAttachment.update({
+        where: { id: attachmentId },
+        data: { cover: updateAttachmentDto.cover },
+      });
+    });
+
+    return this.toResponse(updated);
+  }
+
+  async download(
+    eventId: string,
+    attachmentId: string,
+    user: PolicyUser,
+  ): Promise<StreamableFile> {
+    await this.findEvent(eventId, user, 'read');
+    const attachment = await this.findAttachment(eventId, attachmentId);
+
+    // Only images are shown inline; anything else could be rendered as a
+    // page by the browser
+    const disposition =
+      attachment.mimeType in IMAGE_FORMATS ? 'inline' : 'attachment';
+
+    return new StreamableFile(await this.storage.get(attachment.storageKey), {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+    });
+  }
+
+  async downloadThumbnail(
+    eventId: string,
+    attachmentId: string,
+    user: PolicyUser,
+  ): Promise<StreamableFile> {
+    await this.findEvent(eventId, user, 'read');
+    const attachment = await this.findAttachment(eventId, attachmentId);
+
+    if (!attachment.thumbnailKey) {
+      throw new NotFoundException('The attachment has no thumbnail');
+    }
+
+    return new StreamableFile(await this.storage.get(attachment.thumbnailKey), {
+      type: 'image/webp',
+      disposition: 'inline',
+    });
+  }
+
+  async remove(
+    eventId: string,
+    attachmentId: string,
+    user: PolicyUser,
+  ): Promise<void> {
+    await this.findEvent(eventId, user, 'update');
+    const attachment = await this.findAttachment(eventId, attachmentId);
+
+    await this.prisma.eventAttachment.delete({
+      where: { id: attachment.id },
+    });
+
+    await this.deleteFiles([attachment]);
+  }
+
+  /**
+   * The stored files of an event about to be deleted. The rows go with
+   * the event; pass them to deleteFiles once it is gone.
+   */
+  findStored(eventId: string): Promise<EventAttachment[]> {
+    return this.prisma.eventAttachment.findMany({
+      where: { eventId },
+    });
+  }
+
+  /**
+   * Remove files from storage once nothing refers to them. Failures are
+   * only logged: the rows are already gone, and a leftover file is
+   * harmless.
+   */
+  async deleteFiles(
+    attachments: Pick<EventAttachment, 'storageKey' | 'thumbnailKey'>[],
+  ): Promise<void> {
+    const keys = attachments.flatMap((attachment) =>
+      attachment.thumbnailKey
+        ? [attachment.storageKey, attachment.thumbnailKey]
+        : [attachment.storageKey],
+    );
+
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        this.logger.warn(
+          `Could not delete stored file ${key}: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  private async findEvent(
+    eventId: string,
+    user: PolicyUser,
+    action: EventAction,
+  ): Promise<Event> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    // Check organization scoping
+    if (event.organizationId !== user.organizationId) {
+      throw new ForbiddenException('Access denied to this event');
+    }
+
+    if (!can(user, action, event)) {
+      throw new ForbiddenException(
+        action === 'read'
+          ? 'You do not have permission to view this event'
+          : "You do not have permission to change this event's attachments",
+      );
+    }
+
+    return event;
+  }
+
+  private async findAttachment(
+    eventId: string,
+    attachmentId: string,
+  ): Promise<EventAttachment> {
+    const attachment = await this.prisma.eventAttachment.findUnique({
+      where: { id: attachmentId },
+    });
+
+    if (!attachment || attachment.eventId !== eventId) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Check that an upload declared as an image is one, and make its
+   * thumbnail. EXIF orientation is applied so the thumbnail is upright.
+   */
+  private async processImage(
+    file: Express.Multer.File,
+  ): Promise<ProcessedImage> {
+    try {
+      const metadata = await sharp(file.buffer).metadata();
+
+      if (metadata.format !== IMAGE_FORMATS[file.mimetype]) {
+        throw new Error(`found ${metadata.format}`);
+      }
+
+      const thumbnail = await sharp(file.buffer)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .webp()
+        .toBuffer();
+
+      // Width and height as displayed, after orientation
+      const swapped = (metadata.orientation ?? 1) >= 5;
+
+      return {
+        width: swapped ? metadata.height : metadata.width,
+        height: swapped ? metadata.width : metadata.height,
+        thumbnail,
+      };
+    } catch {
+      throw new BadRequestException(`The file is not a valid ${file.mimetype}`);
+    }
+  }
+
+  private toResponse(attachment: EventAttachment): AttachmentResponseDto {
+    return new AttachmentResponseDto({
+      id: attachment.id,
+      eventId: attachment.eventId,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      width: attachment.width,
+      height: attachment.height,
+      cover: attachment.cover,
+      hasThumbnail: !!attachment.thumbnailKey,
+      uploadedById: attachment.uploadedById,
+      createdAt: attachment.createdAt,
+    });
+  }
+}
+
+/**
+ * The name the file was uploaded under, without any directories. Multer
+ * decodes the name as Latin-1, while browsers send UTF-8.
+ */
+function fileNameOf(file: Express.Multer.File): string {
+  return basename(Buffer.from(file.originalname, 'latin1').toString('utf8'))
+    .replace(/\\/g, '_')
+    .slice(0, 255);
+}
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  UseGuards,
+  Header,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { CalendarFeedService } from './calendar-feed.service';
+import { CalendarFeedResponseDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { NotImpersonatingGuard } from '../../common/guards/not-impersonating.guard';
+import { Public } from '../../common/decorators/public.decorator';
+import { NoEnvelope } from '../../common/decorators/no-envelope.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('events')
+@Controller('calendar')
+export class CalendarFeedController {
+  constructor(private readonly calendarFeedService: CalendarFeedService) {}
+
+  @Post('feed')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Create your calendar subscription feed for the active organization, replacing the previous one',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Feed created; the URL is only returned this once',
+    type: CalendarFeedResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  create(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<CalendarFeedResponseDto> {
+    return this.calendarFeedService.create(userId, organizationId);
+  }
+
+  @Delete('feed')
+  @UseGuards(JwtAuthGuard, NotImpersonatingGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke your calendar subscription feed' })
+  @ApiResponse({ status: 204, description: 'Feed revoked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'No feed to revoke' })
+  revoke(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<void> {
+    return this.calendarFeedService.revoke(userId, organizationId);
+  }
+
+  @Public()
+  @NoEnvelope()
+  @Get(':token.ics')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @ApiProduces('text/calendar')
+  @ApiOperation({ summary: 'iCalendar subscription feed' })
+  @ApiResponse({ status: 200, description: 'Returns the calendar' })
+  @ApiResponse({ status: 401, description: 'Member was deactivated' })
+  @ApiResponse({ status: 404, description: 'Unknown or revoked feed' })
+  feed(@Param('token') token: string): Promise<string> {
+    return this.calendarFeedService.render(token);
+  }
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { CalendarFeedService } from './calendar-feed.service';
+import { EventsService } from './events.service';
+import { AuthService } from '../auth/auth.service';
+import { PrismaService } from '../../database/prisma.service';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../common/permissions';
+
+describe('CalendarFeedService', () => {
+  let service: CalendarFeedService;
+
+  const mockPrismaService = {
+    calendarFeed: {
+      upsert: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const mockAuthService = {
+    validateUser: jest.fn(),
+  };
+
+  const mockEventsService = {
+    findCalendarEvents: jest.fn(),
+  };
+
+  const userId = 'user-1';
+  const organizationId = 'org-1';
+
+  const storedFeed = {
+    id: 'feed-1',
+    userId,
+    organizationId,
+    tokenHash: 'hash',
+    lastUsedAt: null,
+    createdAt: new Date(),
+    organization: { name: 'Acme Corp' },
+  };
+
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CalendarFeedService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => 'https://api.example.com') },
+        },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: EventsService,
+          useValue: mockEventsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CalendarFeedService>(CalendarFeedService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store only the hash and return the feed URL once', async () => {
+      mockPrismaService.calendarFeed.upsert.mockResolvedValue(storedFeed);
+
+      const result = await service.create(userId, organizationId);
+
+      const token = /^https:\/\/api\.example\.com\/calendar\/(.+)\.ics$/.exec(
+        result.url,
+      )![1];
+      const [{ create }] = mockPrismaService.calendarFeed.upsert.mock
+        .calls[0] as [{ create: { tokenHash: string } }];
+      expect(create.tokenHash).toBe(sha256(token));
+      expect(create.tokenHash).not.toBe(token);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should throw NotFoundException without a feed', async () => {
+      mockPrismaService.calendarFeed.deleteMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.revoke(userId, organizationId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('render', () => {
+    it('should render the events the member can see', async () => {
+      const user = {
+        id: userId,
+        organizationId,
+        permissions: DEFAULT_ROLE_PERMISSIONS.USER,
+      };
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(storedFeed);
+      mockAuthService.validateUser.mockResolvedValue(user);
+      mockEventsService.findCalendarEvents.mockResolvedValue([]);
+
+      const calendar = await service.render('token');
+
+      expect(mockPrismaService.calendarFeed.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: sha256('token') } }),
+      );
+      expect(mockEventsService.findCalendarEvents).toHaveBeenCalledWith(user);
+      expect(calendar).toContain('X-WR-CALNAME:Acme Corp');
+    });
+
+    it('should throw NotFoundException for an unknown token', async () => {
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(null);
+
+      await expect(service.render('token')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should stop working once the member is deactivated', async () => {
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(storedFeed);
+      mockAuthService.validateUser.mockRejectedValue(
+        new UnauthorizedException('Account is deactivated'),
+      );
+
+      await expect(service.render('token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockEventsService.findCalendarEvents).not.toHaveBeenCalled();
+    });
+  });
+});
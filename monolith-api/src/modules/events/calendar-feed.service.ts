@@ -0,0 +1,96 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { EventsService } from './events.service';
+import { CalendarFeedResponseDto } from './dto';
+import { renderCalendar } from './ical';
+
+/**
+ * Per-user iCalendar subscription feeds. Calendar apps cannot send
+ * credentials, so the feed URL carries a token of its own; only a hash
+ * of it is stored. The feed shows the APPROVED events the user can see
+ * in the organization, resolved with their current permissions on
+ * every fetch.
+ */
+@Injectable()
+export class CalendarFeedService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private authService: AuthService,
+    private eventsService: EventsService,
+  ) {}
+
+  /**
+   * Create the user's feed for the organization, replacing any previous
+   * one (whose URL stops working)
+   */
+  async create(
+    userId: string,
+    organizationId: string,
+  ): Promise<CalendarFeedResponseDto> {
+    const token = randomBytes(32).toString('base64url');
+    const data = { tokenHash: this.hash(token), lastUsedAt: null };
+
+    const feed = await this.prisma.calendarFeed.upsert({
+      where: { userId_organizationId: { userId, organizationId } },
+      create: { userId, organizationId, ...data },
+      update: { ...data, createdAt: new Date() },
+    });
+
+    const baseUrl = this.configService.get<string>(
+      'app.apiUrl',
+      'http://localhost:3000',
+    );
+
+    return new CalendarFeedResponseDto({
+      url: `${baseUrl}/calendar/${token}.ics`,
+      createdAt: feed.createdAt,
+    });
+  }
+
+  async revoke(userId: string, organizationId: string): Promise<void> {
+    const { count } = await this.prisma.calendarFeed.deleteMany({
+      where: { userId, organizationId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+  }
+
+  /**
+   * The feed as an iCalendar file. Removing or deactivating the member
+   * also disables their feed.
+   */
+  async render(token: string): Promise<string> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { tokenHash: this.hash(token) },
+      include: { organization: { select: { name: true } } },
+    });
+
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const user = await this.authService.validateUser(
+      feed.userId,
+      feed.organizationId,
+    );
+
+    await this.prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    const events = await this.eventsService.findCalendarEvents(user);
+
+    return renderCalendar(events, feed.organization.name);
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { CommentsService } from './comments.service';
+import { CreateCommentDto, UpdateCommentDto, CommentResponseDto } from './dto';
+import { JwtOrApiKeyAuthGuard } from '../auth/guards/jwt-or-api-key-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('events')
+@Controller('events/:id/comments')
+@UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+export class CommentsController {
+  constructor(private readonly commentsService: CommentsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List comment threads on an event' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the threads with their replies; internal notes for moderators only',
+    type: [CommentResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Only the event owner and moderators',
+  })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  findAll(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<CommentResponseDto[]> {
+    return this.commentsService.findAll(id, user);
+  }
+
+  @Post()
+  @RequirePermission('event:update:own', 'event:update:any')
+  @ApiOperation({ summary: 'Comment on an event or reply to a comment' })
+  @ApiResponse({
+    status: 201,
+    description: 'Comment added',
+    type: CommentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input, or a mentioned user cannot see the comment',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Only the event owner and moderators, with permission to edit events',
+  })
+  @ApiResponse({ status: 404, description: 'Event or comment not found' })
+  create(
+    @Param('id') id: string,
+    @Body() createCommentDto: CreateCommentDto,
+    @CurrentUser() user: any,
+  ): Promise<CommentResponseDto> {
+    return this.commentsService.create(id, createCommentDto, user);
+  }
+
+  @Patch(':commentId')
+  @RequirePermission('event:update:own', 'event:update:any')
+  @ApiOperation({ summary: 'Edit your comment' })
+  @ApiResponse({
+    status: 200,
+    description: 'Comment updated',
+    type: CommentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input, or a mentioned user cannot see the comment',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not your comment, or no permission to edit events',
+  })
+  @ApiResponse({ status: 404, description: 'Event or comment not found' })
+  @ApiResponse({ status: 409, description: 'Comment was deleted' })
+  update(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @Body() updateCommentDto: UpdateCommentDto,
+    @CurrentUser() user: any,
+  ): Promise<CommentResponseDto> {
+    return this.commentsService.update(id, commentId, updateCommentDto, user);
+  }
+
+  @Delete(':commentId')
+  @RequirePermission('event:update:own', 'event:update:any')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete your comment; its replies stay' })
+  @ApiResponse({ status: 204, description: 'Comment deleted' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not your comment, or no permission to edit events',
+  })
+  @ApiResponse({ status: 404, description: 'Event or comment not found' })
+  @ApiResponse({ status: 409, description: 'Comment was already deleted' })
+  remove(
+    @Param('id') id: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    return this.commentsService.remove(id, commentId, user);
+  }
+}
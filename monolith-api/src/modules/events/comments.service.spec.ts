@@ -0,0 +1,380 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventStatus, UserRole } from '@prisma/client';
+import { CommentsService } from './comments.service';
+import { PrismaService } from '../../database/prisma.service';
+import { EventBusService } from '../../common/events';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../common/permissions';
+
+describe('CommentsService', () => {
+  let service: CommentsService;
+
+  const mockPrismaService = {
+    event: {
+      findUnique: jest.fn(),
+    },
+    eventComment: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    membership: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockEventBus = { publish: jest.fn() };
+
+  const mockOwner = {
+    id: 'user-123',
+    organizationId: 'org-123',
+    role: UserRole.USER,
+    permissions: DEFAULT_ROLE_PERMISSIONS.USER,
+  };
+
+  const mockModerator = {
+    id: 'mod-123',
+    organizationId: 'org-123',
+    role: UserRole.MODERATOR,
+    permissions: DEFAULT_ROLE_PERMISSIONS.MODERATOR,
+  };
+
+  const mockEvent = {
+    id: 'event-123',
+    title: 'Test Event',
+    status: EventStatus.REJECTED,
+    organizationId: 'org-123',
+    createdById: 'user-123',
+  };
+
+  const author = { id: 'mod-123', firstName: 'Mod', lastName: 'Erator' };
+
+  const comment = (fields: Record<string, unknown> = {}) => ({
+    id: 'comment-1',
+    eventId: mockEvent.id,
+    authorId: author.id,
+    parentId: null,
+    body: 'Please add an agenda',
+    internal: false,
+    mentionedUserIds: [],
+    editedAt: null,
+    deletedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    author,
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: EventBusService,
+          useValue: mockEventBus,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CommentsService>(CommentsService);
+
+    mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should nest replies under their thread', async () => {
+      mockPrismaService.eventComment.findMany.mockResolvedValue([
+        comment(),
+        comment({ id: 'comment-2', parentId: 'comment-1' }),
+        comment({ id: 'comment-3' }),
+      ]);
+
+      const result = await service.findAll(mockEvent.id, mockModerator);
+
+      expect(result.map((thread) => thread.id)).toEqual([
+        'comment-1',
+        'comment-3',
+      ]);
+      expect(result[0].replies!.map((reply) => reply.id)).toEqual([
+        'comment-2',
+      ]);
+    });
+
+    it('should leave internal notes out for the owner', async () => {
+      mockPrismaService.eventComment.findMany.mockResolvedValue([]);
+
+      await service.findAll(mockEvent.id, mockOwner);
+
+      expect(mockPrismaService.eventComment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { eventId: mockEvent.id, internal: false },
+        }),
+      );
+    });
+
+    it('should hide the text of deleted comments', async () => {
+      mockPrismaService.eventComment.findMany.mockResolvedValue([
+        comment({ body: '', deletedAt: new Date() }),
+      ]);
+
+      const [thread] = await service.findAll(mockEvent.id, mockModerator);
+
+      expect(thread.body).toBeNull();
+    });
+
+    it('should deny members who cannot read the event', async () => {
+      await expect(
+        service.findAll(mockEvent.id, { ...mockOwner, id: 'user-456' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('create', () => {
+    it('should add the comment and publish a domain event', async () => {
+      mockPrismaService.membership.findMany.mockResolvedValue([
+        { userId: 'user-123', role: UserRole.USER, customRole: null },
+      ]);
+      mockPrismaService.eventComment.create.mockResolvedValue(
+        comment({ mentionedUserIds: ['user-123'] }),
+      );
+
+      await service.create(
+        mockEvent.id,
+        { body: 'Please add an agenda', mentionedUserIds: ['user-123'] },
+        mockModerator,
+      );
+
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'comment.added',
+          aggregateId: 'comment-1',
+          payload: expect.objectContaining({
+            eventId: mockEvent.id,
+            eventOwnerId: mockEvent.createdById,
+            mentionedUserIds: ['user-123'],
+          }),
+        }),
+      );
+    });
+
+    it('should attach a reply to a reply to the thread', async () => {
+      mockPrismaService.eventComment.findUnique.mockResolvedValue(
+        comment({ id: 'comment-2', parentId: 'comment-1' }),
+      );
+      mockPrismaService.eventComment.create.mockResolvedValue(comment());
+
+      await service.create(
+        mockEvent.id,
+        { body: 'Done, see the description', parentId: 'comment-2' },
+        mockOwner,
+      );
+
+      expect(mockPrismaService.eventComment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            parentId: 'comment-1',
+            internal: false,
+          }),
+        }),
+      );
+    });
+
+    it('should only let moderators leave internal notes', async () => {
+      await expect(
+        service.create(
+          mockEvent.id,
+          { body: 'Note to self', internal: true },
+          mockOwner,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.eventComment.create).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal internal notes to the owner', async () => {
+      mockPrismaService.eventComment.findUnique.mockResolvedValue(
+        comment({ internal: true }),
+      );
+
+      await expect(
+        service.create(
+          mockEvent.id,
+          { body: 'Replying', parentId: 'comment-1' },
+          mockOwner,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject mentions of non-members', async () => {
+      mockPrismaService.membership.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.create(
+          mockEvent.id,
+          { body: 'Hello', mentionedUserIds: ['stranger-1'] },
+          mockModerator,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject mentions of members who cannot read the event', async () => {
+      // Plain users only read their own events
+      mockPrismaService.membership.findMany.mockResolvedValue([
+        { userId: 'user-456', role: UserRole.USER, customRole: null },
+      ]);
+
+      await expect(
+        service.create(
+          mockEvent.id,
+          { body: 'Hello', mentionedUserIds: ['user-456'] },
+          mockModerator,
+        ),
+      ).rejects.toThrow(
+        'Mentioned users must be members who can see the event',
+      );
+      expect(mockPrismaService.eventComment.create).not.toHaveBeenCalled();
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should only let internal notes mention moderators', async () => {
+      mockPrismaService.membership.findMany.mockResolvedValue([
+        { userId: 'user-123', role: UserRole.USER, customRole: null },
+      ]);
+
+      await expect(
+        service.create(
+          mockEvent.id,
+          {
+            body: 'Owner keeps ignoring us',
+            internal: true,
+            mentionedUserIds: ['user-123'],
+          },
+          mockModerator,
+        ),
+      ).rejects.toThrow(
+        'Mentioned users must be moderators who can see the event',
+      );
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should let internal notes mention other moderators', async () => {
+      mockPrismaService.membership.findMany.mockResolvedValue([
+        { userId: 'mod-456', role: UserRole.MODERATOR, customRole: null },
+      ]);
+      mockPrismaService.eventComment.create.mockResolvedValue(
+        comment({ internal: true, mentionedUserIds: ['mod-456'] }),
+      );
+
+      await service.create(
+        mockEvent.id,
+        {
+          body: 'Second opinion?',
+          internal: true,
+          mentionedUserIds: ['mod-456'],
+        },
+        mockModerator,
+      );
+
+      expect(mockPrismaService.membership.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            organizationId: mockEvent.organizationId,
+            userId: { in: ['mod-456'] },
+            deactivatedAt: null,
+          },
+        }),
+      );
+      expect(mockEventBus.publish).toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should edit own comments', async () => {
+      mockPrismaService.eventComment.findUnique.mockResolvedValue(comment());
+      mockPrismaService.eventComment.update.mockResolvedValue(
+        comment({ body: 'Edited', editedAt: new Date() }),
+      );
+
+      const result = await service.update(
+        mockEvent.id,
+        'comment-1',
+        { body: 'Edited' },
+        mockModerator,
+      );
+
+      expect(result.body).toBe('Edited');
+      expect(mockPrismaService.eventComment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { body: 'Edited', editedAt: expect.any(Date) },
+        }),
+      );
+    });
+
+    it('should not add the owner to the mentions of an internal note', async () => {
+      mockPrismaService.eventComment.findUnique.mockResolvedValue(
+        comment({ internal: true }),
+      );
+      mockPrismaService.membership.findMany.mockResolvedValue([
+        { userId: 'user-123', role: UserRole.USER, customRole: null },
+      ]);
+
+      await expect(
+        service.update(
+          mockEvent.id,
+          'comment-1',
+          { body: 'Edited', mentionedUserIds: ['user-123'] },
+          mockModerator,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.eventComment.update).not.toHaveBeenCalled();
+    });
+
+    it("should not edit someone else's comment", async () => {
+      mockPrismaService.eventComment.findUnique.mockResolvedValue(comment());
+
+      await expect(
+        service.update(mockEvent.id, 'comment-1', { body: 'Mine' }, mockOwner),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should keep the deleted comment in its thread', async () => {
+      mockPrismaService.eventComment.findUnique.mockResolvedValue(comment());
+
+      await service.remove(mockEvent.id, 'comment-1', mockModerator);
+
+      expect(mockPrismaService.eventComment.update).toHaveBeenCalledWith({
+        where: { id: 'comment-1' },
+        data: {
+          body: '',
+          mentionedUserIds: [],
+          deletedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should not delete a comment twice', async () => {
+      mockPrismaService.eventComment.findUnique.mockResolvedValue(
+        comment({ deletedAt: new Date() }),
+      );
+
+      await expect(
+        service.remove(mockEvent.id, 'comment-1', mockModerator),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+});
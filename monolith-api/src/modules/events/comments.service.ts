@@ -0,0 +1,310 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Event, EventComment, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { EventBusService } from '../../common/events';
+import { PolicyUser, can, resolvePermissions } from '../../common/permissions';
+import { CreateCommentDto, UpdateCommentDto, CommentResponseDto } from './dto';
+import { CommentAddedEvent } from './events';
+
+const WITH_AUTHOR = {
+  author: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.EventCommentInclude;
+
+type CommentWithAuthor = Prisma.EventCommentGetPayload<{
+  include: typeof WITH_AUTHOR;
+}>;
+
+/**
+ * Discussion between an event's owner and the moderators. Whoever may
+ * read the event (see event.policy.ts) may read comments; adding or
+ * changing them also takes an event update permission, checked by the
+ * controller, so API keys limited to events:read stay read-only.
+ * Moderators (members who may approve or reject events) may also leave
+ * internal notes the owner does not see.
+ *
+ * Threads are one level deep: a reply to a reply joins the thread of the
+ * comment it answers. Deleted comments keep their place in the thread,
+ * without their text, so the replies still make sense.
+ */
+@Injectable()
+export class CommentsService {
+  constructor(
+    private prisma: PrismaService,
+    private eventBus: EventBusService,
+  ) {}
+
+  /**
+   * The event's threads, oldest first, each with its replies
+   */
+  async findAll(
+    eventId: string,
+    user: PolicyUser,
+  ): Promise<CommentResponseDto[]> {
+    await this.findEvent(eventId, user);
+
+    const comments = await this.prisma.eventComment.findMany({
+      where: {
+        eventId,
+        ...(!isModerator(user) && { internal: false }),
+      },
+      include: WITH_AUTHOR,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const replies = new Map<string, CommentResponseDto[]>();
+
+    for (const comment of comments) {
+      if (comment.parentId) {
+        replies.set(comment.parentId, [
+          ...(replies.get(comment.parentId) ?? []),
+          this.toResponse(comment),
+        ]);
+      }
+    }
+
+    return comments
+      .filter((comment) => !comment.parentId)
+      .map(
+        (comment) =>
+          new CommentResponseDto({
+            ...this.toResponse(comment),
+            replies: replies.get(comment.id) ?? [],
+          }),
+      );
+  }
+
+  async create(
+    eventId: string,
+    createCommentDto: CreateCommentDto,
+    user: PolicyUser,
+  ): Promise<CommentResponseDto> {
+    const event = await this.findEvent(eventId, user);
+    const parent = createCommentDto.parentId
+      ? await this.findComment(eventId, createCommentDto.parentId, user)
+      : null;
+
+    const internal = parent?.internal || !!createCommentDto.internal;
+
+    if (internal && !isModerator(user)) {
+      throw new ForbiddenException('Only moderators can leave internal notes');
+    }
+
+    const mentionedUserIds = createCommentDto.mentionedUserIds ?? [];
+    await this.assertMentionable(mentionedUserIds, event, internal);
+
+    const comment = await this.prisma.eventComment.create({
+      data: {
+        eventId,
+        authorId: user.id,
+        parentId: parent?.parentId ?? parent?.id,
+        body: createCommentDto.body,
+        internal,
+        mentionedUserIds,
+      },
+      include: WITH_AUTHOR,
+    });
+
+    // Publish domain event
+    await this.eventBus.publish(
+      new CommentAddedEvent(comment.id, {
+        eventId,
+        title: event.title,
+        organizationId: event.organizationId,
+        eventOwnerId: event.createdById,
+        authorId: user.id,
+        parentId: comment.parentId,
+        internal,
+        mentionedUserIds,
+        createdAt: comment.createdAt,
+      }),
+    );
+
+    return this.toResponse(comment);
+  }
+
+  async update(
+    eventId: string,
+    commentId: string,
+    updateCommentDto: UpdateCommentDto,
+    user: PolicyUser,
+  ): Promise<CommentResponseDto> {
+    const event = await this.findEvent(eventId, user);
+    const comment = await this.findOwnComment(eventId, commentId, user);
+
+    if (updateCommentDto.mentionedUserIds) {
+      await this.assertMentionable(
+        updateCommentDto.mentionedUserIds,
+        event,
+        comment.internal,
+      );
+    }
+
+    const updated = await this.prisma.eventComment.update({
+      where: { id: comment.id },
+      data: {
+        body: updateCommentDto.body,
+        ...(updateCommentDto.mentionedUserIds && {
+          mentionedUserIds: updateCommentDto.mentionedUserIds,
+        }),
+        editedAt: new Date(),
+      },
+      include: WITH_AUTHOR,
+    });
+
+    return this.toResponse(updated);
+  }
+
+  async remove(
+    eventId: string,
+    commentId: string,
+    user: PolicyUser,
+  ): Promise<void> {
+    await this.findEvent(eventId, user);
+    const comment = await this.findOwnComment(eventId, commentId, user);
+
+    await this.prisma.eventComment.update({
+      where: { id: comment.id },
+      data: { body: '', mentionedUserIds: [], deletedAt: new Date() },
+    });
+  }
+
+  /**
+   * The event, if the user may read it and so take part in its comments
+   */
+  private async findEvent(eventId: string, user: PolicyUser): Promise<Event> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizationId !== user.organizationId) {
+      throw new ForbiddenException('Access denied to this event');
+    }
+
+    if (!can(user, 'read', event)) {
+      throw new ForbiddenException(
+        'Only the event owner and moderators can view comments',
+      );
+    }
+
+    return event;
+  }
+
+  // Internal notes are not revealed to those who cannot see them
+  private async findComment(
+    eventId: string,
+    commentId: string,
+    user: PolicyUser,
+  ): Promise<EventComment> {
+    const comment = await this.prisma.eventComment.findUnique({
+      where: { id: commentId },
+    });
+
+    if (
+      !comment ||
+      comment.eventId !== eventId ||
+      (comment.internal && !isModerator(user))
+    ) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    if (comment.deletedAt) {
+      throw new ConflictException('The comment has been deleted');
+    }
+
+    return comment;
+  }
+
+  private async findOwnComment(
+    eventId: string,
+    commentId: string,
+    user: PolicyUser,
+  ): Promise<EventComment> {
+    const comment = await this.findComment(eventId, commentId, user);
+
+    if (comment.authorId !== user.id) {
+      throw new ForbiddenException('You can only change your own comments');
+    }
+
+    return comment;
+  }
+
+  /**
+   * Mentions are limited to active members who can see the comment: they
+   * must be allowed to read the event, and to be moderators if the
+   * comment is an internal note. Mentions are published to every
+   * subscriber, so anyone else would learn of the comment.
+   */
+  private async assertMentionable(
+    userIds: string[],
+    event: Event,
+    internal: boolean,
+  ): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const memberships = await this.prisma.membership.findMany({
+      where: {
+        organizationId: event.organizationId,
+        userId: { in: userIds },
+        deactivatedAt: null,
+      },
+      select: {
+        userId: true,
+        role: true,
+        customRole: { select: { permissions: true } },
+      },
+    });
+
+    const mentionable = memberships.filter((membership) => {
+      const member: PolicyUser = {
+        id: membership.userId,
+        organizationId: event.organizationId,
+        permissions: resolvePermissions(membership.role, membership.customRole),
+      };
+
+      return can(member, 'read', event) && (!internal || isModerator(member));
+    });
+
+    if (mentionable.length !== userIds.length) {
+      throw new BadRequestException(
+        internal
+          ? 'Mentioned users must be moderators who can see the event'
+          : 'Mentioned users must be members who can see the event',
+      );
+    }
+  }
+
+  private toResponse(comment: CommentWithAuthor): CommentResponseDto {
+    return new CommentResponseDto({
+      id: comment.id,
+      eventId: comment.eventId,
+      parentId: comment.parentId,
+      body: comment.deletedAt ? null : comment.body,
+      internal: comment.internal,
+      mentionedUserIds: comment.mentionedUserIds,
+      author: comment.author,
+      editedAt: comment.editedAt,
+      deletedAt: comment.deletedAt,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+    });
+  }
+}
+
+/**
+ * Moderators are the members who may approve or reject events
+ */
+function isModerator(user: PolicyUser): boolean {
+  return can(user, 'approve') || can(user, 'reject');
+}
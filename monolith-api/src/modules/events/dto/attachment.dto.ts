@@ -0,0 +1,76 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Form fields sent with the file in a multipart upload
+ */
+export class UploadAttachmentDto {
+  @ApiPropertyOptional({
+    description: "Make the image the event's cover, replacing the current one",
+    default: false,
+  })
+  @IsOptional()
+  // Multipart fields arrive as strings
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  cover?: boolean;
+}
+
+export class UpdateAttachmentDto {
+  @ApiProperty({
+    description:
+      "Whether the image is the event's cover; setting it replaces the current cover",
+  })
+  @IsBoolean()
+  cover: boolean;
+}
+
+export class AttachmentResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ example: 'agenda.pdf' })
+  fileName: string;
+
+  @ApiProperty({ example: 'application/pdf' })
+  mimeType: string;
+
+  @ApiProperty({ description: 'Size in bytes' })
+  size: number;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Width in pixels, for images',
+  })
+  width: number | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Height in pixels, for images',
+  })
+  height: number | null;
+
+  @ApiProperty({ description: "Whether the image is the event's cover" })
+  cover: boolean;
+
+  @ApiProperty({
+    description: 'Whether a thumbnail can be downloaded (images only)',
+  })
+  hasThumbnail: boolean;
+
+  @ApiProperty()
+  uploadedById: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  constructor(partial: Partial<AttachmentResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CalendarFeedResponseDto {
+  @ApiProperty({
+    description:
+      'Subscription URL for calendar apps; only returned when the feed is created',
+    example: 'http://localhost:3000/calendar/3q2-7wX0vG9sZk.ics',
+  })
+  url: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  constructor(partial: Partial<CalendarFeedResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
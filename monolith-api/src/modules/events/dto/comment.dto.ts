@@ -0,0 +1,144 @@
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateCommentDto {
+  @ApiProperty({
+    description: 'Comment text',
+    example: 'Could you add the agenda before we approve this?',
+    maxLength: 5000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Comment this one replies to. Replies to a reply join the same thread.',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Internal note, only visible to moderators. Replies to one are internal too.',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  internal?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Members mentioned in the comment. They must be able to read the event; internal notes can only mention moderators.',
+    type: [String],
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  mentionedUserIds?: string[];
+}
+
+export class UpdateCommentDto {
+  @ApiProperty({ description: 'Comment text', maxLength: 5000 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Members mentioned in the comment, under the same rules as on creation; replaces the previous mentions',
+    type: [String],
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  mentionedUserIds?: string[];
+}
+
+export class CommentAuthorDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  firstName: string;
+
+  @ApiProperty()
+  lastName: string;
+}
+
+export class CommentResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Comment that starts the thread, for a reply',
+  })
+  parentId?: string | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Comment text; null once the comment is deleted',
+  })
+  body: string | null;
+
+  @ApiProperty({ description: 'Internal note, only visible to moderators' })
+  internal: boolean;
+
+  @ApiProperty({ type: [String] })
+  mentionedUserIds: string[];
+
+  @ApiProperty({ type: CommentAuthorDto })
+  author: CommentAuthorDto;
+
+  @ApiProperty({ required: false, nullable: true })
+  editedAt?: Date | null;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'When the comment was deleted; its replies stay',
+  })
+  deletedAt?: Date | null;
+
+  @ApiProperty({
+    type: () => [CommentResponseDto],
+    required: false,
+    description: 'Replies, oldest first, on comments that start a thread',
+  })
+  replies?: CommentResponseDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<CommentResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
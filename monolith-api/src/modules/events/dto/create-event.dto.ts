@@ -3,10 +3,19 @@ import {
   IsNotEmpty,
   IsOptional,
   IsDateString,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  IsTimeZone,
+  IsUUID,
+  ArrayMaxSize,
+  Min,
   MinLength,
   MaxLength,
 } from 'class-validator';
+import { Transform } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MAX_TAGS, MAX_TAG_LENGTH, normalizeTags } from '../tags';
 
 export class CreateEventDto {
   @ApiProperty({
@@ -34,15 +43,17 @@ export class CreateEventDto {
   description: string;
 
   @ApiPropertyOptional({
-    description: 'Event location',
+    description: 'Event location; null to clear it',
     example: 'San Francisco, CA',
+    nullable: true,
   })
   @IsString()
   @IsOptional()
-  location?: string;
+  location?: string | null;
 
   @ApiProperty({
-    description: 'Event start date and time (ISO 8601)',
+    description:
+      'Event start date and time (ISO 8601). Without an offset it is a local time in timeZone. For an all-day event, the first day (YYYY-MM-DD).',
     example: '2026-06-15T09:00:00Z',
   })
   @IsDateString()
@@ -50,10 +61,99 @@ export class CreateEventDto {
   startDate: string;
 
   @ApiProperty({
-    description: 'Event end date and time (ISO 8601)',
+    description:
+      'Event end date and time (ISO 8601). Without an offset it is a local time in timeZone. For an all-day event, the last day (YYYY-MM-DD), which may be the first.',
     example: '2026-06-17T18:00:00Z',
   })
   @IsDateString()
   @IsNotEmpty()
   endDate: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA time zone the event is scheduled in. Recurring events keep their local time in it across daylight saving changes, and changing it keeps the local start and end times.',
+    example: 'Europe/London',
+    default: 'UTC',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timeZone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'All-day event: startDate and endDate are dates, the same day in every time zone. Changing it requires both dates.',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  allDay?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Maximum number of attendees; further sign-ups go onto a waitlist. Omit or null for no limit.',
+    example: 50,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  capacity?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Room the event is held in. The room cannot be booked twice at the same time by events that are not rejected; null frees it.',
+    format: 'uuid',
+    nullable: true,
+  })
+  @IsUUID()
+  @IsOptional()
+  roomId?: string | null;
+
+  @ApiPropertyOptional({
+    description: "Category from the organization's curated list; null for none",
+    format: 'uuid',
+    nullable: true,
+  })
+  @IsUUID()
+  @IsOptional()
+  categoryId?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Free-form tags, stored trimmed and lower-case. Replaces all tags on update.',
+    example: ['networking', 'ai'],
+    type: [String],
+    maxItems: MAX_TAGS,
+  })
+  @Transform(({ value }: { value: unknown }) => normalizeTags(value))
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS)
+  @IsString({ each: true })
+  @MinLength(1, { each: true })
+  @MaxLength(MAX_TAG_LENGTH, { each: true })
+  @IsOptional()
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'iCalendar RRULE making this the first occurrence of a recurring series. FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY; the series starts at startDate.',
+    example: 'FREQ=WEEKLY;BYDAY=MO',
+    nullable: true,
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  recurrenceRule?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Occurrence start times (ISO 8601, local to timeZone without an offset; dates for an all-day event) the series skips, like iCalendar EXDATE',
+    example: ['2026-06-29T09:00:00Z'],
+    type: [String],
+  })
+  @IsArray()
+  @IsDateString({}, { each: true })
+  @IsOptional()
+  exceptionDates?: string[];
 }
@@ -1,5 +1,20 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { EventStatus } from '@prisma/client';
+import { AttachmentResponseDto } from './attachment.dto';
+
+export class AttendeeCountsDto {
+  @ApiProperty()
+  going: number;
+
+  @ApiProperty()
+  maybe: number;
+
+  @ApiProperty()
+  declined: number;
+
+  @ApiProperty()
+  waitlisted: number;
+}
 
 export class EventResponseDto {
   @ApiProperty()
@@ -20,6 +35,74 @@ export class EventResponseDto {
   @ApiProperty()
   endDate: Date;
 
+  @ApiProperty({ description: 'IANA time zone the event is scheduled in' })
+  timeZone: string;
+
+  @ApiProperty({
+    description:
+      'All-day event: startDate and endDate are UTC midnights, endDate the one after the last day',
+  })
+  allDay: boolean;
+
+  @ApiProperty({
+    description:
+      'startDate as a local time in timeZone, with its offset; the first day of an all-day event',
+    example: '2026-06-15T09:00:00+01:00',
+  })
+  localStartDate: string;
+
+  @ApiProperty({
+    description:
+      'endDate as a local time in timeZone, with its offset; the last day of an all-day event',
+    example: '2026-06-15T10:00:00+01:00',
+  })
+  localEndDate: string;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Maximum number of attendees; null for no limit',
+  })
+  capacity?: number | null;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Room the event is held in',
+  })
+  roomId?: string | null;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'Category the event is filed under',
+  })
+  categoryId?: string | null;
+
+  @ApiProperty({ type: [String] })
+  tags: string[];
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'iCalendar RRULE when the event is a recurring series',
+  })
+  recurrenceRule?: string | null;
+
+  @ApiProperty({
+    required: false,
+    type: [Date],
+    description: 'Occurrence start times the series skips',
+  })
+  exceptionDates?: Date[];
+
+  @ApiProperty({
+    required: false,
+    description:
+      'On an expanded occurrence of a series: the start the rule generated, which identifies the occurrence',
+  })
+  originalStartDate?: Date;
+
   @ApiProperty({ enum: EventStatus })
   status: EventStatus;
 
@@ -32,6 +115,15 @@ export class EventResponseDto {
   @ApiProperty()
   createdById: string;
 
+  @ApiProperty({ type: AttendeeCountsDto })
+  attendeeCounts: AttendeeCountsDto;
+
+  @ApiProperty({
+    type: [AttachmentResponseDto],
+    description: 'Files attached to the event, oldest first',
+  })
+  attachments: AttachmentResponseDto[];
+
   @ApiProperty()
   createdAt: Date;
 
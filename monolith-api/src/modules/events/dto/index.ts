@@ -8,3 +8,10 @@ export * from './query-events.dto';
 export * from './paginated-events.dto';
 export * from './query-events.dto';
 export * from './paginated-events.dto';
+export * from './rsvp.dto';
+export * from './registration-response.dto';
+export * from './occurrence.dto';
+export * from './calendar-feed.dto';
+export * from './comment.dto';
+export * from './attachment.dto';
+export * from './revision.dto';
@@ -0,0 +1,88 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsDateString,
+  IsEnum,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum OccurrenceScope {
+  THIS = 'this',
+  FOLLOWING = 'following',
+}
+
+export class UpdateOccurrenceDto {
+  @ApiPropertyOptional({
+    description:
+      'Change only this occurrence, or this one and all following (splits the series)',
+    enum: OccurrenceScope,
+    default: OccurrenceScope.THIS,
+  })
+  @IsOptional()
+  @IsEnum(OccurrenceScope)
+  scope?: OccurrenceScope = OccurrenceScope.THIS;
+
+  @ApiPropertyOptional({ minLength: 3, maxLength: 200 })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(3)
+  @MaxLength(200)
+  @IsOptional()
+  title?: string;
+
+  @ApiPropertyOptional({ minLength: 10, maxLength: 5000 })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(10)
+  @MaxLength(5000)
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  location?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "New start of the occurrence (ISO 8601). Without an offset it is a local time in the event's zone; a date for an all-day event.",
+    example: '2026-06-15T10:00:00Z',
+  })
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "New end of the occurrence (ISO 8601). Without an offset it is a local time in the event's zone; the last day for an all-day event.",
+    example: '2026-06-15T10:30:00Z',
+  })
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'New RRULE for the following occurrences; only with scope "following"',
+    example: 'FREQ=WEEKLY;BYDAY=TU',
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  recurrenceRule?: string;
+}
+
+export class CancelOccurrenceQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Cancel only this occurrence, or this one and all following (ends the series)',
+    enum: OccurrenceScope,
+    default: OccurrenceScope.THIS,
+  })
+  @IsOptional()
+  @IsEnum(OccurrenceScope)
+  scope?: OccurrenceScope = OccurrenceScope.THIS;
+}
@@ -6,10 +6,16 @@ import {
   Max,
   IsString,
   IsDateString,
+  IsTimeZone,
+  IsUUID,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
 } from 'class-validator';
-import { Type } from 'class-transformer';
-import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { EventStatus } from '@prisma/client';
+import { MAX_TAGS, MAX_TAG_LENGTH, normalizeTags } from '../tags';
 
 export enum EventSortField {
   CREATED_AT = 'createdAt',
@@ -23,6 +29,11 @@ export enum SortOrder {
   DESC = 'desc',
 }
 
+export enum TagMatch {
+  ANY = 'any',
+  ALL = 'all',
+}
+
 export class QueryEventsDto {
   @ApiPropertyOptional({
     description: 'Page number (1-based)',
@@ -83,7 +94,8 @@ export class QueryEventsDto {
   search?: string;
 
   @ApiPropertyOptional({
-    description: 'Filter events starting from this date (ISO 8601)',
+    description:
+      'Filter events starting from this date (ISO 8601). Without an offset it is a local time in timeZone.',
     example: '2026-01-01T00:00:00Z',
   })
   @IsOptional()
@@ -91,10 +103,84 @@ export class QueryEventsDto {
   startDateFrom?: string;
 
   @ApiPropertyOptional({
-    description: 'Filter events starting until this date (ISO 8601)',
+    description:
+      'Filter events starting until this date (ISO 8601). Without an offset it is a local time in timeZone.',
     example: '2026-12-31T23:59:59Z',
   })
   @IsOptional()
   @IsDateString()
   startDateTo?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA time zone for startDateFrom and startDateTo given without an offset',
+    example: 'Europe/London',
+    default: 'UTC',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timeZone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by category ID',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  category?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Filter by tags, comma-separated or repeated; matched case-insensitively',
+    example: 'networking,ai',
+    type: [String],
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => normalizeTags(value))
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS)
+  @IsString({ each: true })
+  @MaxLength(MAX_TAG_LENGTH, { each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Whether events need any or all of the tags',
+    enum: TagMatch,
+    default: TagMatch.ANY,
+  })
+  @IsOptional()
+  @IsEnum(TagMatch)
+  tagMatch?: TagMatch = TagMatch.ANY;
+}
+
+export class QueryTagsDto {
+  @ApiPropertyOptional({
+    description: 'Start of the tag, matched case-insensitively',
+    example: 'net',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_TAG_LENGTH)
+  prefix?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of tags to return',
+    minimum: 1,
+    maximum: 50,
+    default: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 10;
+}
+
+export class TagCountDto {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ description: 'Number of events with the tag' })
+  count: number;
 }
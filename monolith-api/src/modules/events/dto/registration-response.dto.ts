@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RegistrationStatus } from '@prisma/client';
+
+export class AttendeeDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  email: string;
+
+  @ApiProperty()
+  firstName: string;
+
+  @ApiProperty()
+  lastName: string;
+}
+
+export class RegistrationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ enum: RegistrationStatus })
+  status: RegistrationStatus;
+
+  @ApiProperty({
+    required: false,
+    nullable: true,
+    description: 'When the user joined the waitlist',
+  })
+  waitlistedAt?: Date | null;
+
+  @ApiProperty({
+    required: false,
+    description: '1-based place on the waitlist, when WAITLISTED',
+  })
+  waitlistPosition?: number;
+
+  @ApiProperty({
+    type: AttendeeDto,
+    required: false,
+    description: 'Included when listing attendees',
+  })
+  user?: AttendeeDto;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<RegistrationResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,204 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EventStatus, RevisionAction } from '@prisma/client';
+
+/**
+ * A changed or cancelled occurrence of a series. Fields left null keep
+ * the series' values.
+ */
+export class OccurrenceSnapshotDto {
+  @ApiProperty({ example: '2026-05-08T10:00:00.000Z' })
+  originalStartDate: string;
+
+  @ApiProperty({ nullable: true })
+  title: string | null;
+
+  @ApiProperty({ nullable: true })
+  description: string | null;
+
+  @ApiProperty({ nullable: true })
+  location: string | null;
+
+  @ApiProperty({ nullable: true })
+  startDate: string | null;
+
+  @ApiProperty({ nullable: true })
+  endDate: string | null;
+
+  @ApiProperty()
+  cancelled: boolean;
+}
+
+/**
+ * The fields of an event a revision keeps, with dates as ISO 8601 UTC
+ * strings
+ */
+export class EventSnapshotDto {
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  description: string;
+
+  @ApiProperty({ nullable: true })
+  location: string | null;
+
+  @ApiProperty({ example: '2026-05-01T10:00:00.000Z' })
+  startDate: string;
+
+  @ApiProperty({ example: '2026-05-01T16:00:00.000Z' })
+  endDate: string;
+
+  @ApiProperty({ example: 'Europe/Berlin' })
+  timeZone: string;
+
+  @ApiProperty()
+  allDay: boolean;
+
+  @ApiProperty({ nullable: true })
+  capacity: number | null;
+
+  @ApiProperty({ nullable: true })
+  roomId: string | null;
+
+  @ApiProperty({ nullable: true })
+  categoryId: string | null;
+
+  @ApiProperty({ type: [String] })
+  tags: string[];
+
+  @ApiProperty({ nullable: true })
+  recurrenceRule: string | null;
+
+  @ApiProperty({ type: [String] })
+  exceptionDates: string[];
+
+  @ApiProperty({
+    type: [OccurrenceSnapshotDto],
+    description: 'Occurrences of a series changed or cancelled one by one',
+  })
+  occurrences: OccurrenceSnapshotDto[];
+
+  @ApiProperty({ enum: EventStatus })
+  status: EventStatus;
+
+  @ApiProperty({ nullable: true })
+  rejectionReason: string | null;
+}
+
+export type SnapshotField = keyof EventSnapshotDto;
+
+export class RevisionAuthorDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  firstName: string;
+
+  @ApiProperty()
+  lastName: string;
+}
+
+export class RevisionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty({ description: 'Numbers the revisions of an event from 1' })
+  version: number;
+
+  @ApiProperty({ enum: RevisionAction })
+  action: RevisionAction;
+
+  @ApiProperty({
+    type: [String],
+    description: 'Fields that differ from the previous revision',
+    example: ['title', 'startDate'],
+  })
+  changedFields: string[];
+
+  @ApiProperty({
+    nullable: true,
+    description: 'On a RESTORED revision: the version that was restored',
+  })
+  restoredFrom: number | null;
+
+  @ApiProperty({
+    type: RevisionAuthorDto,
+    nullable: true,
+    description: 'Who made the change; null once their account is deleted',
+  })
+  author: RevisionAuthorDto | null;
+
+  @ApiPropertyOptional({
+    type: EventSnapshotDto,
+    description: 'The event as it was (single revisions only)',
+  })
+  snapshot?: EventSnapshotDto;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  constructor(partial: Partial<RevisionResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class QueryRevisionDiffDto {
+  @ApiProperty({ description: 'Older revision', example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @ApiPropertyOptional({
+    description: 'Newer revision, by default the latest',
+    example: 3,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to?: number;
+}
+
+export class FieldChangeDto {
+  @ApiProperty({ example: 'title' })
+  field: SnapshotField;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Value in the "from" revision',
+  })
+  from: unknown;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Value in the "to" revision',
+  })
+  to: unknown;
+}
+
+export class RevisionDiffDto {
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  from: number;
+
+  @ApiProperty()
+  to: number;
+
+  @ApiProperty({
+    type: [FieldChangeDto],
+    description: 'Fields that differ, in snapshot order',
+  })
+  changes: FieldChangeDto[];
+
+  constructor(partial: Partial<RevisionDiffDto>) {
+    Object.assign(this, partial);
+  }
+}
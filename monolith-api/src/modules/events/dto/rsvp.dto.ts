@@ -0,0 +1,33 @@
+import { IsEnum, IsIn, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RegistrationStatus } from '@prisma/client';
+
+// WAITLISTED is assigned by the server when an event is full
+export const RSVP_STATUSES = [
+  RegistrationStatus.GOING,
+  RegistrationStatus.MAYBE,
+  RegistrationStatus.DECLINED,
+] as const;
+
+export type RsvpStatus = (typeof RSVP_STATUSES)[number];
+
+export class RsvpDto {
+  @ApiProperty({
+    description:
+      'Whether the user is attending. GOING to a full event puts the user on the waitlist.',
+    enum: RSVP_STATUSES,
+    example: RegistrationStatus.GOING,
+  })
+  @IsIn(RSVP_STATUSES)
+  status: RsvpStatus;
+}
+
+export class QueryAttendeesDto {
+  @ApiPropertyOptional({
+    description: 'Only list registrations with this response',
+    enum: RegistrationStatus,
+  })
+  @IsOptional()
+  @IsEnum(RegistrationStatus)
+  status?: RegistrationStatus;
+}
@@ -10,12 +10,16 @@ import {
   HttpCode,
   HttpStatus,
   Query,
+  ParseDatePipe,
+  Header,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiSecurity,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { EventsService } from './events.service';
 import {
@@ -24,19 +28,28 @@ import {
   EventResponseDto,
   QueryEventsDto,
   PaginatedEventsDto,
+  UpdateOccurrenceDto,
+  CancelOccurrenceQueryDto,
+  QueryTagsDto,
+  TagCountDto,
 } from './dto';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../../common/guards/roles.guard';
+import { JwtOrApiKeyAuthGuard } from '../auth/guards/jwt-or-api-key-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { EmailVerifiedGuard } from '../../common/guards/email-verified.guard';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { NoEnvelope } from '../../common/decorators/no-envelope.decorator';
 
 @ApiTags('events')
 @Controller('events')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
+@ApiSecurity('api-key')
 export class EventsController {
   constructor(private readonly eventsService: EventsService) {}
 
   @Post()
+  @RequirePermission('event:create')
   @ApiOperation({ summary: 'Create a new event' })
   @ApiResponse({
     status: 201,
@@ -45,19 +58,18 @@ export class EventsController {
   })
   @ApiResponse({ status: 400, description: 'Invalid input' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
   create(
     @Body() createEventDto: CreateEventDto,
     @CurrentUser() user: any,
   ): Promise<EventResponseDto> {
-    return this.eventsService.create(
-      createEventDto,
-      user.id,
-      user.organizationId,
-    );
+    return this.eventsService.create(createEventDto, user);
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all events with filtering, sorting, and pagination' })
+  @ApiOperation({
+    summary: 'Get all events with filtering, sorting, and pagination',
+  })
   @ApiResponse({
     status: 200,
     description: 'Returns paginated events for the user',
@@ -68,12 +80,42 @@ export class EventsController {
     @Query() query: QueryEventsDto,
     @CurrentUser() user: any,
   ): Promise<PaginatedEventsDto> {
-    return this.eventsService.findAllPaginated(
-      query,
-      user.organizationId,
-      user.id,
-      user.role,
-    );
+    return this.eventsService.findAllPaginated(query, user);
+  }
+
+  @Get('tags')
+  @ApiOperation({
+    summary: 'Autocomplete tags used on the events the user can read',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns matching tags, most used first',
+    type: [TagCountDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  findTags(
+    @Query() query: QueryTagsDto,
+    @CurrentUser() user: any,
+  ): Promise<TagCountDto[]> {
+    return this.eventsService.findTags(query, user);
+  }
+
+  // Registered before ':id', which would otherwise match "<id>.ics"
+  @Get(':id.ics')
+  @NoEnvelope()
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="event.ics"')
+  @ApiProduces('text/calendar')
+  @ApiOperation({ summary: 'Export an event as an iCalendar file' })
+  @ApiResponse({ status: 200, description: 'Returns the calendar' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  exportCalendar(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<string> {
+    return this.eventsService.exportCalendar(id, user);
   }
 
   @Get(':id')
@@ -90,12 +132,7 @@ export class EventsController {
     @Param('id') id: string,
     @CurrentUser() user: any,
   ): Promise<EventResponseDto> {
-    return this.eventsService.findOne(
-      id,
-      user.organizationId,
-      user.id,
-      user.role,
-    );
+    return this.eventsService.findOne(id, user);
   }
 
   @Patch(':id')
@@ -114,13 +151,7 @@ export class EventsController {
     @Body() updateEventDto: UpdateEventDto,
     @CurrentUser() user: any,
   ): Promise<EventResponseDto> {
-    return this.eventsService.update(
-      id,
-      updateEventDto,
-      user.organizationId,
-      user.id,
-      user.role,
-    );
+    return this.eventsService.update(id, updateEventDto, user);
   }
 
   @Delete(':id')
@@ -130,19 +161,61 @@ export class EventsController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({ status: 404, description: 'Event not found' })
-  remove(
+  remove(@Param('id') id: string, @CurrentUser() user: any): Promise<void> {
+    return this.eventsService.remove(id, user);
+  }
+
+  @Patch(':id/occurrences/:start')
+  @ApiOperation({
+    summary:
+      'Update one occurrence of a recurring event, or it and all following',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the occurrence, or the new series when following occurrences were changed',
+    type: EventResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input or not recurring' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Event or occurrence not found' })
+  updateOccurrence(
     @Param('id') id: string,
+    @Param('start', ParseDatePipe) start: Date,
+    @Body() updateOccurrenceDto: UpdateOccurrenceDto,
     @CurrentUser() user: any,
-  ): Promise<void> {
-    return this.eventsService.remove(
+  ): Promise<EventResponseDto> {
+    return this.eventsService.updateOccurrence(
       id,
-      user.organizationId,
-      user.id,
-      user.role,
+      start,
+      updateOccurrenceDto,
+      user,
     );
   }
 
+  @Delete(':id/occurrences/:start')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary:
+      'Cancel one occurrence of a recurring event, or it and all following',
+  })
+  @ApiResponse({ status: 204, description: 'Occurrence cancelled' })
+  @ApiResponse({ status: 400, description: 'Event is not recurring' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Event or occurrence not found' })
+  cancelOccurrence(
+    @Param('id') id: string,
+    @Param('start', ParseDatePipe) start: Date,
+    @Query() query: CancelOccurrenceQueryDto,
+    @CurrentUser() user: any,
+  ): Promise<void> {
+    return this.eventsService.cancelOccurrence(id, start, query.scope, user);
+  }
+
   @Post(':id/submit')
+  @UseGuards(EmailVerifiedGuard)
   @ApiOperation({ summary: 'Submit event for review' })
   @ApiResponse({
     status: 200,
@@ -150,17 +223,21 @@ export class EventsController {
     type: EventResponseDto,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden (not the owner or email not verified)',
+  })
   @ApiResponse({ status: 404, description: 'Event not found' })
   @ApiResponse({ status: 409, description: 'Invalid state transition' })
   submit(
     @Param('id') id: string,
     @CurrentUser() user: any,
   ): Promise<EventResponseDto> {
-    return this.eventsService.submit(id, user.organizationId, user.id);
+    return this.eventsService.submit(id, user);
   }
 
   @Post(':id/approve')
+  @RequirePermission('event:approve')
   @ApiOperation({ summary: 'Approve submitted event' })
   @ApiResponse({
     status: 200,
@@ -175,15 +252,11 @@ export class EventsController {
     @Param('id') id: string,
     @CurrentUser() user: any,
   ): Promise<EventResponseDto> {
-    return this.eventsService.approve(
-      id,
-      user.organizationId,
-      user.role,
-      user.id,
-    );
+    return this.eventsService.approve(id, user);
   }
 
   @Post(':id/reject')
+  @RequirePermission('event:reject')
   @ApiOperation({ summary: 'Reject submitted event' })
   @ApiResponse({
     status: 200,
@@ -200,12 +273,6 @@ export class EventsController {
     @Body() rejectDto: any,
     @CurrentUser() user: any,
   ): Promise<EventResponseDto> {
-    return this.eventsService.reject(
-      id,
-      rejectDto,
-      user.organizationId,
-      user.role,
-      user.id,
-    );
+    return this.eventsService.reject(id, rejectDto, user);
   }
 }
@@ -1,10 +1,38 @@
 import { Module } from '@nestjs/common';
 import { EventsService } from './events.service';
 import { EventsController } from './events.controller';
+import { RegistrationsService } from './registrations.service';
+import { RegistrationsController } from './registrations.controller';
+import { RoomBookingsService } from './room-bookings.service';
+import { CommentsService } from './comments.service';
+import { CommentsController } from './comments.controller';
+import { AttachmentsService } from './attachments.service';
+import { AttachmentsController } from './attachments.controller';
+import { RevisionsService } from './revisions.service';
+import { RevisionsController } from './revisions.controller';
+import { CalendarFeedService } from './calendar-feed.service';
+import { CalendarFeedController } from './calendar-feed.controller';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  controllers: [EventsController],
-  providers: [EventsService],
-  exports: [EventsService],
+  imports: [AuthModule],
+  controllers: [
+    EventsController,
+    RegistrationsController,
+    CommentsController,
+    AttachmentsController,
+    RevisionsController,
+    CalendarFeedController,
+  ],
+  providers: [
+    EventsService,
+    RegistrationsService,
+    RoomBookingsService,
+    CommentsService,
+    AttachmentsService,
+    RevisionsService,
+    CalendarFeedService,
+  ],
+  exports: [EventsService, RoomBookingsService],
 })
 export class EventsModule {}
@@ -6,8 +6,15 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { EventsService } from './events.service';
+import { RegistrationsService } from './registrations.service';
+import { RoomBookingsService } from './room-bookings.service';
+import { AttachmentsService } from './attachments.service';
+import { RevisionsService } from './revisions.service';
 import { PrismaService } from '../../database/prisma.service';
-import { EventStatus, UserRole } from '@prisma/client';
+import { EventStatus, Prisma, RevisionAction, UserRole } from '@prisma/client';
+import { EventBusService } from '../../common/events';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../common/permissions';
+import { OccurrenceScope, TagMatch } from './dto';
 
 describe('EventsService', () => {
   let service: EventsService;
@@ -22,24 +29,60 @@ describe('EventsService', () => {
       delete: jest.fn(),
       count: jest.fn(),
     },
+    eventOccurrence: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    category: {
+      findUnique: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+
+  const mockRegistrationsService = {
+    countByEvent: jest.fn(),
+    assertCapacity: jest.fn(),
+    promoteWaitlisted: jest.fn(),
+    publishPromotions: jest.fn(),
+  };
+
+  const mockRoomBookingsService = {
+    assertRoom: jest.fn(),
+    assertAvailable: jest.fn(),
+  };
+
+  const mockAttachmentsService = {
+    findByEvent: jest.fn(),
+    findStored: jest.fn(),
+    deleteFiles: jest.fn(),
+  };
+
+  const mockRevisionsService = {
+    record: jest.fn(),
+    findSnapshot: jest.fn(),
   };
 
   const mockUser = {
     id: 'user-123',
     organizationId: 'org-123',
     role: UserRole.USER,
+    permissions: DEFAULT_ROLE_PERMISSIONS.USER,
   };
 
   const mockModerator = {
     id: 'mod-123',
     organizationId: 'org-123',
     role: UserRole.MODERATOR,
+    permissions: DEFAULT_ROLE_PERMISSIONS.MODERATOR,
   };
 
   const mockAdmin = {
     id: 'admin-123',
     organizationId: 'org-123',
     role: UserRole.ADMIN,
+    permissions: DEFAULT_ROLE_PERMISSIONS.ADMIN,
   };
 
   const mockEvent = {
@@ -49,6 +92,8 @@ describe('EventsService', () => {
     location: 'Test Location',
     startDate: new Date('2026-05-01T10:00:00Z'),
     endDate: new Date('2026-05-01T16:00:00Z'),
+    timeZone: 'UTC',
+    allDay: false,
     status: EventStatus.DRAFT,
     rejectionReason: null,
     organizationId: 'org-123',
@@ -65,11 +110,41 @@ describe('EventsService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: EventBusService,
+          useValue: { publish: jest.fn() },
+        },
+        {
+          provide: RegistrationsService,
+          useValue: mockRegistrationsService,
+        },
+        {
+          provide: RoomBookingsService,
+          useValue: mockRoomBookingsService,
+        },
+        {
+          provide: AttachmentsService,
+          useValue: mockAttachmentsService,
+        },
+        {
+          provide: RevisionsService,
+          useValue: mockRevisionsService,
+        },
       ],
     }).compile();
 
     service = module.get<EventsService>(EventsService);
     prismaService = module.get<PrismaService>(PrismaService);
+
+    mockRegistrationsService.countByEvent.mockResolvedValue(new Map());
+    mockAttachmentsService.findByEvent.mockResolvedValue(new Map());
+    mockAttachmentsService.findStored.mockResolvedValue([]);
+    mockRegistrationsService.promoteWaitlisted.mockResolvedValue([]);
+    mockPrismaService.eventOccurrence.findMany.mockResolvedValue([]);
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof mockPrismaService) => Promise<unknown>) =>
+        callback(mockPrismaService),
+    );
   });
 
   afterEach(() => {
@@ -88,11 +163,7 @@ describe('EventsService', () => {
     it('should create event successfully', async () => {
       mockPrismaService.event.create.mockResolvedValue(mockEvent);
 
-      const result = await service.create(
-        createDto,
-        mockUser.id,
-        mockUser.organizationId,
-      );
+      const result = await service.create(createDto, mockUser);
 
       expect(result).toBeDefined();
       expect(mockPrismaService.event.create).toHaveBeenCalledWith({
@@ -112,9 +183,9 @@ describe('EventsService', () => {
         endDate: '2026-05-01T10:00:00Z',
       };
 
-      await expect(
-        service.create(invalidDto, mockUser.id, mockUser.organizationId),
-      ).rejects.toThrow(BadRequestException);
+      await expect(service.create(invalidDto, mockUser)).rejects.toThrow(
+        BadRequestException,
+      );
     });
   });
 
@@ -122,11 +193,7 @@ describe('EventsService', () => {
     it('should return only user events for regular user', async () => {
       mockPrismaService.event.findMany.mockResolvedValue([mockEvent]);
 
-      await service.findAll(
-        mockUser.organizationId,
-        mockUser.id,
-        UserRole.USER,
-      );
+      await service.findAll(mockUser);
 
       expect(mockPrismaService.event.findMany).toHaveBeenCalledWith({
         where: {
@@ -140,11 +207,7 @@ describe('EventsService', () => {
     it('should return all org events for moderator', async () => {
       mockPrismaService.event.findMany.mockResolvedValue([mockEvent]);
 
-      await service.findAll(
-        mockModerator.organizationId,
-        mockModerator.id,
-        UserRole.MODERATOR,
-      );
+      await service.findAll(mockModerator);
 
       expect(mockPrismaService.event.findMany).toHaveBeenCalledWith({
         where: {
@@ -157,11 +220,7 @@ describe('EventsService', () => {
     it('should return all org events for admin', async () => {
       mockPrismaService.event.findMany.mockResolvedValue([mockEvent]);
 
-      await service.findAll(
-        mockAdmin.organizationId,
-        mockAdmin.id,
-        UserRole.ADMIN,
-      );
+      await service.findAll(mockAdmin);
 
       expect(mockPrismaService.event.findMany).toHaveBeenCalledWith({
         where: {
@@ -172,6 +231,23 @@ describe('EventsService', () => {
     });
   });
 
+  describe('attendee counts', () => {
+    it('should include the attendee counts of each event', async () => {
+      const counts = { going: 3, maybe: 1, declined: 2 };
+      mockPrismaService.event.findMany.mockResolvedValue([mockEvent]);
+      mockRegistrationsService.countByEvent.mockResolvedValue(
+        new Map([[mockEvent.id, counts]]),
+      );
+
+      const [result] = await service.findAll(mockAdmin);
+
+      expect(result.attendeeCounts).toEqual(counts);
+      expect(mockRegistrationsService.countByEvent).toHaveBeenCalledWith([
+        mockEvent.id,
+      ]);
+    });
+  });
+
   describe('State Transitions', () => {
     describe('submit', () => {
       it('should submit draft event successfully', async () => {
@@ -182,11 +258,7 @@ describe('EventsService', () => {
           status: EventStatus.SUBMITTED,
         });
 
-        const result = await service.submit(
-          mockEvent.id,
-          mockUser.organizationId,
-          mockUser.id,
-        );
+        const result = await service.submit(mockEvent.id, mockUser);
 
         expect(result.status).toBe(EventStatus.SUBMITTED);
         expect(mockPrismaService.event.update).toHaveBeenCalledWith({
@@ -201,16 +273,16 @@ describe('EventsService', () => {
       it('should throw NotFoundException if event not found', async () => {
         mockPrismaService.event.findUnique.mockResolvedValue(null);
 
-        await expect(
-          service.submit(mockEvent.id, mockUser.organizationId, mockUser.id),
-        ).rejects.toThrow(NotFoundException);
+        await expect(service.submit(mockEvent.id, mockUser)).rejects.toThrow(
+          NotFoundException,
+        );
       });
 
       it('should throw ForbiddenException if not event owner', async () => {
         mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
 
         await expect(
-          service.submit(mockEvent.id, mockUser.organizationId, 'other-user'),
+          service.submit(mockEvent.id, { ...mockUser, id: 'other-user' }),
         ).rejects.toThrow(ForbiddenException);
       });
 
@@ -218,9 +290,9 @@ describe('EventsService', () => {
         const submittedEvent = { ...mockEvent, status: EventStatus.SUBMITTED };
         mockPrismaService.event.findUnique.mockResolvedValue(submittedEvent);
 
-        await expect(
-          service.submit(mockEvent.id, mockUser.organizationId, mockUser.id),
-        ).rejects.toThrow(ConflictException);
+        await expect(service.submit(mockEvent.id, mockUser)).rejects.toThrow(
+          ConflictException,
+        );
       });
     });
 
@@ -233,11 +305,7 @@ describe('EventsService', () => {
           status: EventStatus.APPROVED,
         });
 
-        const result = await service.approve(
-          mockEvent.id,
-          mockModerator.organizationId,
-          UserRole.MODERATOR,
-        );
+        const result = await service.approve(mockEvent.id, mockModerator);
 
         expect(result.status).toBe(EventStatus.APPROVED);
       });
@@ -250,23 +318,15 @@ describe('EventsService', () => {
           status: EventStatus.APPROVED,
         });
 
-        const result = await service.approve(
-          mockEvent.id,
-          mockAdmin.organizationId,
-          UserRole.ADMIN,
-        );
+        const result = await service.approve(mockEvent.id, mockAdmin);
 
         expect(result.status).toBe(EventStatus.APPROVED);
       });
 
       it('should throw ForbiddenException if user is not moderator/admin', async () => {
-        await expect(
-          service.approve(
-            mockEvent.id,
-            mockUser.organizationId,
-            UserRole.USER,
-          ),
-        ).rejects.toThrow(ForbiddenException);
+        await expect(service.approve(mockEvent.id, mockUser)).rejects.toThrow(
+          ForbiddenException,
+        );
       });
 
       it('should throw ConflictException if event is not SUBMITTED', async () => {
@@ -274,11 +334,7 @@ describe('EventsService', () => {
         mockPrismaService.event.findUnique.mockResolvedValue(draftEvent);
 
         await expect(
-          service.approve(
-            mockEvent.id,
-            mockModerator.organizationId,
-            UserRole.MODERATOR,
-          ),
+          service.approve(mockEvent.id, mockModerator),
         ).rejects.toThrow(ConflictException);
       });
     });
@@ -300,8 +356,7 @@ describe('EventsService', () => {
         const result = await service.reject(
           mockEvent.id,
           rejectDto,
-          mockModerator.organizationId,
-          UserRole.MODERATOR,
+          mockModerator,
         );
 
         expect(result.status).toBe(EventStatus.REJECTED);
@@ -316,12 +371,7 @@ describe('EventsService', () => {
 
       it('should throw ForbiddenException if user is not moderator/admin', async () => {
         await expect(
-          service.reject(
-            mockEvent.id,
-            rejectDto,
-            mockUser.organizationId,
-            UserRole.USER,
-          ),
+          service.reject(mockEvent.id, rejectDto, mockUser),
         ).rejects.toThrow(ForbiddenException);
       });
 
@@ -330,12 +380,7 @@ describe('EventsService', () => {
         mockPrismaService.event.findUnique.mockResolvedValue(approvedEvent);
 
         await expect(
-          service.reject(
-            mockEvent.id,
-            rejectDto,
-            mockModerator.organizationId,
-            UserRole.MODERATOR,
-          ),
+          service.reject(mockEvent.id, rejectDto, mockModerator),
         ).rejects.toThrow(ConflictException);
       });
     });
@@ -353,9 +398,7 @@ describe('EventsService', () => {
       const result = await service.update(
         mockEvent.id,
         { title: 'Updated Title' },
-        mockUser.organizationId,
-        mockUser.id,
-        UserRole.USER,
+        mockUser,
       );
 
       expect(result.title).toBe('Updated Title');
@@ -366,13 +409,7 @@ describe('EventsService', () => {
       mockPrismaService.event.findUnique.mockResolvedValue(submittedEvent);
 
       await expect(
-        service.update(
-          mockEvent.id,
-          { title: 'Updated' },
-          mockUser.organizationId,
-          mockUser.id,
-          UserRole.USER,
-        ),
+        service.update(mockEvent.id, { title: 'Updated' }, mockUser),
       ).rejects.toThrow(ForbiddenException);
     });
 
@@ -386,13 +423,47 @@ describe('EventsService', () => {
       const result = await service.update(
         mockEvent.id,
         { title: 'Admin Updated' },
-        mockAdmin.organizationId,
-        mockAdmin.id,
-        UserRole.ADMIN,
+        mockAdmin,
       );
 
       expect(result.title).toBe('Admin Updated');
     });
+
+    it('should fill freed seats from the waitlist when capacity grows', async () => {
+      const promoted = [{ id: 'registration-1', userId: 'user-456' }];
+      mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+      mockPrismaService.event.update.mockResolvedValue({
+        ...mockEvent,
+        capacity: 20,
+      });
+      mockRegistrationsService.promoteWaitlisted.mockResolvedValue(promoted);
+
+      await service.update(mockEvent.id, { capacity: 20 }, mockAdmin);
+
+      expect(mockRegistrationsService.assertCapacity).toHaveBeenCalledWith(
+        mockPrismaService,
+        mockEvent.id,
+        20,
+      );
+      expect(mockPrismaService.event.update).toHaveBeenCalledWith({
+        where: { id: mockEvent.id },
+        data: { capacity: 20, sequence: { increment: 1 } },
+      });
+      expect(mockRegistrationsService.publishPromotions).toHaveBeenCalledWith(
+        { ...mockEvent, capacity: 20 },
+        promoted,
+      );
+    });
+
+    it('should not touch the waitlist when capacity is unchanged', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+      mockPrismaService.event.update.mockResolvedValue(mockEvent);
+
+      await service.update(mockEvent.id, { title: 'Renamed' }, mockAdmin);
+
+      expect(mockRegistrationsService.assertCapacity).not.toHaveBeenCalled();
+      expect(mockRegistrationsService.promoteWaitlisted).not.toHaveBeenCalled();
+    });
   });
 
   describe('remove', () => {
@@ -401,43 +472,858 @@ describe('EventsService', () => {
       mockPrismaService.event.findUnique.mockResolvedValue(draftEvent);
       mockPrismaService.event.delete.mockResolvedValue(draftEvent);
 
-      await service.remove(
-        mockEvent.id,
-        mockUser.organizationId,
-        mockUser.id,
-        UserRole.USER,
-      );
+      await service.remove(mockEvent.id, mockUser);
 
       expect(mockPrismaService.event.delete).toHaveBeenCalledWith({
         where: { id: mockEvent.id },
       });
     });
 
+    it('should delete the stored files of its attachments', async () => {
+      const attachment = {
+        storageKey: 'events/event-123/file-1',
+        thumbnailKey: null,
+      };
+      mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+      mockPrismaService.event.delete.mockResolvedValue(mockEvent);
+      mockAttachmentsService.findStored.mockResolvedValue([attachment]);
+
+      await service.remove(mockEvent.id, mockUser);
+
+      expect(mockAttachmentsService.deleteFiles).toHaveBeenCalledWith([
+        attachment,
+      ]);
+    });
+
     it('should throw ForbiddenException if moderator tries to delete', async () => {
       mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
 
+      await expect(service.remove(mockEvent.id, mockModerator)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should allow admin to delete any event', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+      mockPrismaService.event.delete.mockResolvedValue(mockEvent);
+
+      await service.remove(mockEvent.id, mockAdmin);
+
+      expect(mockPrismaService.event.delete).toHaveBeenCalled();
+    });
+  });
+
+  describe('custom roles', () => {
+    const mockReviewer = {
+      ...mockUser,
+      permissions: ['event:read:any' as const, 'event:approve' as const],
+    };
+
+    it('should allow approving with the event:approve permission', async () => {
+      const submittedEvent = {
+        ...mockEvent,
+        createdById: 'someone-else',
+        status: EventStatus.SUBMITTED,
+      };
+      mockPrismaService.event.findUnique.mockResolvedValue(submittedEvent);
+      mockPrismaService.event.update.mockResolvedValue({
+        ...submittedEvent,
+        status: EventStatus.APPROVED,
+      });
+
+      const result = await service.approve(mockEvent.id, mockReviewer);
+
+      expect(result.status).toBe(EventStatus.APPROVED);
+    });
+
+    it('should deny actions the role does not grant', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+
       await expect(
-        service.remove(
-          mockEvent.id,
-          mockModerator.organizationId,
-          mockModerator.id,
-          UserRole.MODERATOR,
+        service.update(mockEvent.id, { title: 'Updated' }, mockReviewer),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        service.create(
+          {
+            title: 'New Event',
+            description: 'Event Description',
+            startDate: '2026-05-01T10:00:00Z',
+            endDate: '2026-05-01T16:00:00Z',
+          },
+          mockReviewer,
         ),
       ).rejects.toThrow(ForbiddenException);
     });
 
-    it('should allow admin to delete any event', async () => {
+    it('should list nothing without a read permission', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([]);
+
+      await service.findAll({ ...mockUser, permissions: [] });
+
+      expect(mockPrismaService.event.findMany).toHaveBeenCalledWith({
+        where: { organizationId: mockUser.organizationId, id: { in: [] } },
+        orderBy: { startDate: 'asc' },
+      });
+    });
+  });
+
+  describe('recurring events', () => {
+    // Mondays 09:00-09:15 UTC from 2026-06-01
+    const mockSeries = {
+      ...mockEvent,
+      startDate: new Date('2026-06-01T09:00:00Z'),
+      endDate: new Date('2026-06-01T09:15:00Z'),
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+      exceptionDates: [],
+      recurrenceEnd: null,
+    };
+
+    it('should store a normalized rule when creating a series', async () => {
+      mockPrismaService.event.create.mockResolvedValue(mockSeries);
+
+      await service.create(
+        {
+          title: 'Weekly Standup',
+          description: 'Fifteen minutes, no laptops',
+          startDate: '2026-06-01T09:00:00Z',
+          endDate: '2026-06-01T09:15:00Z',
+          recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=4',
+          exceptionDates: ['2026-06-08T09:00:00Z'],
+        },
+        mockUser,
+      );
+
+      expect(mockPrismaService.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;COUNT=4',
+          exceptionDates: [new Date('2026-06-08T09:00:00Z')],
+          recurrenceEnd: new Date('2026-06-22T09:00:00Z'),
+        }),
+      });
+    });
+
+    it('should reject an invalid rule', async () => {
+      await expect(
+        service.create(
+          {
+            title: 'Every Hour',
+            description: 'Far too many meetings',
+            startDate: '2026-06-01T09:00:00Z',
+            endDate: '2026-06-01T09:15:00Z',
+            recurrenceRule: 'FREQ=HOURLY',
+          },
+          mockUser,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should expand series into occurrences for date range queries', async () => {
+      const single = {
+        ...mockEvent,
+        id: 'event-456',
+        startDate: new Date('2026-06-10T12:00:00Z'),
+        endDate: new Date('2026-06-10T13:00:00Z'),
+      };
+      mockPrismaService.event.findMany
+        .mockResolvedValueOnce([{ ...mockSeries, occurrences: [] }])
+        .mockResolvedValueOnce([single]);
+      mockPrismaService.event.count.mockResolvedValue(1);
+
+      const result = await service.findAllPaginated(
+        {
+          page: 1,
+          limit: 10,
+          startDateFrom: '2026-06-01T00:00:00Z',
+          startDateTo: '2026-06-14T23:59:59Z',
+        },
+        mockAdmin,
+      );
+
+      expect(result.meta.total).toBe(3);
+      expect(result.data.map((event) => event.startDate)).toEqual([
+        new Date('2026-06-01T09:00:00Z'),
+        new Date('2026-06-08T09:00:00Z'),
+        single.startDate,
+      ]);
+      expect(result.data[1].originalStartDate).toEqual(
+        new Date('2026-06-08T09:00:00Z'),
+      );
+      expect(mockPrismaService.event.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ recurrenceRule: null }),
+      });
+    });
+
+    it('should override a single occurrence', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(mockSeries);
+      mockPrismaService.eventOccurrence.upsert.mockImplementation(
+        ({ create }: { create: object }) => create,
+      );
+      const occurrence = new Date('2026-06-08T09:00:00Z');
+
+      const result = await service.updateOccurrence(
+        mockSeries.id,
+        occurrence,
+        { title: 'Sprint Retro', endDate: '2026-06-08T10:00:00Z' },
+        mockAdmin,
+      );
+
+      expect(result).toMatchObject({
+        title: 'Sprint Retro',
+        startDate: occurrence,
+        endDate: new Date('2026-06-08T10:00:00Z'),
+        originalStartDate: occurrence,
+      });
+      expect(mockPrismaService.event.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a start the rule does not generate', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(mockSeries);
+
+      await expect(
+        service.updateOccurrence(
+          mockSeries.id,
+          new Date('2026-06-09T09:00:00Z'),
+          { title: 'Tuesday?' },
+          mockAdmin,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should require permission to edit the series', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue({
+        ...mockSeries,
+        status: EventStatus.APPROVED,
+      });
+
+      await expect(
+        service.cancelOccurrence(
+          mockSeries.id,
+          new Date('2026-06-08T09:00:00Z'),
+          undefined,
+          mockUser,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should cancel a single occurrence', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(mockSeries);
+      const occurrence = new Date('2026-06-08T09:00:00Z');
+
+      await service.cancelOccurrence(
+        mockSeries.id,
+        occurrence,
+        undefined,
+        mockAdmin,
+      );
+
+      expect(mockPrismaService.eventOccurrence.upsert).toHaveBeenCalledWith({
+        where: {
+          eventId_originalStartDate: {
+            eventId: mockSeries.id,
+            originalStartDate: occurrence,
+          },
+        },
+        create: {
+          eventId: mockSeries.id,
+          originalStartDate: occurrence,
+          cancelledAt: expect.any(Date),
+        },
+        update: {
+          cancelledAt: expect.any(Date),
+          sequence: { increment: 1 },
+        },
+      });
+    });
+
+    it('should split the series for this and following occurrences', async () => {
+      const approvedSeries = { ...mockSeries, status: EventStatus.APPROVED };
+      mockPrismaService.event.findUnique.mockResolvedValue(approvedSeries);
+      mockPrismaService.event.create.mockImplementation(
+        ({ data }: { data: object }) => ({ ...mockEvent, ...data }),
+      );
+
+      const result = await service.updateOccurrence(
+        mockSeries.id,
+        new Date('2026-06-15T09:00:00Z'),
+        {
+          scope: OccurrenceScope.FOLLOWING,
+          startDate: '2026-06-15T10:00:00Z',
+        },
+        mockAdmin,
+      );
+
+      expect(mockPrismaService.event.update).toHaveBeenCalledWith({
+        where: { id: mockSeries.id },
+        data: expect.objectContaining({
+          recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20260615T085959Z',
+          recurrenceEnd: new Date('2026-06-08T09:00:00Z'),
+        }),
+      });
+      expect(result).toMatchObject({
+        startDate: new Date('2026-06-15T10:00:00Z'),
+        endDate: new Date('2026-06-15T10:15:00Z'),
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+        // The new series stays approved like the one it was split from
+        status: EventStatus.APPROVED,
+      });
+    });
+
+    it('should end the series when cancelling this and following', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(mockSeries);
+
+      await service.cancelOccurrence(
+        mockSeries.id,
+        new Date('2026-06-15T09:00:00Z'),
+        OccurrenceScope.FOLLOWING,
+        mockAdmin,
+      );
+
+      expect(mockPrismaService.eventOccurrence.deleteMany).toHaveBeenCalledWith(
+        {
+          where: {
+            eventId: mockSeries.id,
+            originalStartDate: { gte: new Date('2026-06-15T09:00:00Z') },
+          },
+        },
+      );
+      expect(mockPrismaService.event.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('time zones', () => {
+    const londonEvent = {
+      ...mockEvent,
+      startDate: new Date('2026-07-01T08:00:00Z'),
+      endDate: new Date('2026-07-01T09:00:00Z'),
+      timeZone: 'Europe/London',
+      allDay: false,
+    };
+
+    it('should read local times in the event zone', async () => {
+      mockPrismaService.event.create.mockResolvedValue(londonEvent);
+
+      const result = await service.create(
+        {
+          title: 'Summer Planning',
+          description: 'Planning the summer offsite',
+          startDate: '2026-07-01T09:00:00',
+          endDate: '2026-07-01T10:00:00',
+          timeZone: 'Europe/London',
+        },
+        mockUser,
+      );
+
+      expect(mockPrismaService.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          startDate: new Date('2026-07-01T08:00:00Z'),
+          endDate: new Date('2026-07-01T09:00:00Z'),
+          timeZone: 'Europe/London',
+        }),
+      });
+      expect(result.localStartDate).toBe('2026-07-01T09:00:00+01:00');
+      expect(result.localEndDate).toBe('2026-07-01T10:00:00+01:00');
+    });
+
+    it('should keep the local times when the zone changes', async () => {
       mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
-      mockPrismaService.event.delete.mockResolvedValue(mockEvent);
+      mockPrismaService.event.update.mockResolvedValue(mockEvent);
+
+      await service.update(
+        mockEvent.id,
+        { timeZone: 'America/New_York' },
+        mockAdmin,
+      );
+
+      expect(mockPrismaService.event.update).toHaveBeenCalledWith({
+        where: { id: mockEvent.id },
+        data: expect.objectContaining({
+          startDate: new Date('2026-05-01T14:00:00Z'),
+          endDate: new Date('2026-05-01T20:00:00Z'),
+          timeZone: 'America/New_York',
+        }),
+      });
+    });
+
+    it('should read date filters in the requested zone', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([]);
+      mockPrismaService.event.count.mockResolvedValue(0);
+
+      await service.findAllPaginated(
+        {
+          page: 1,
+          limit: 10,
+          startDateFrom: '2026-07-01',
+          startDateTo: '2026-07-31T23:59:59Z',
+          timeZone: 'Asia/Tokyo',
+        },
+        mockAdmin,
+      );
+
+      expect(mockPrismaService.event.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          AND: [
+            {
+              OR: [
+                {
+                  allDay: false,
+                  startDate: {
+                    gte: new Date('2026-06-30T15:00:00Z'),
+                    lte: new Date('2026-07-31T23:59:59Z'),
+                  },
+                },
+                // All-day events by the dates the range covers in Tokyo
+                {
+                  allDay: true,
+                  startDate: {
+                    gte: new Date('2026-07-01T00:00:00Z'),
+                    lte: new Date('2026-08-01T08:59:59Z'),
+                  },
+                },
+              ],
+            },
+          ],
+        }),
+      });
+    });
+  });
+
+  describe('all-day events', () => {
+    const createDto = {
+      title: 'Company Offsite',
+      description: 'Three days away from the office',
+      startDate: '2026-06-15',
+      endDate: '2026-06-17',
+      timeZone: 'America/New_York',
+      allDay: true,
+    };
+
+    it('should store the days as UTC midnights, the end after the last day', async () => {
+      mockPrismaService.event.create.mockResolvedValue({
+        ...mockEvent,
+        startDate: new Date('2026-06-15T00:00:00Z'),
+        endDate: new Date('2026-06-18T00:00:00Z'),
+        allDay: true,
+      });
+
+      const result = await service.create(createDto, mockUser);
+
+      expect(mockPrismaService.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          startDate: new Date('2026-06-15T00:00:00Z'),
+          endDate: new Date('2026-06-18T00:00:00Z'),
+          allDay: true,
+        }),
+      });
+      expect(result.localStartDate).toBe('2026-06-15');
+      expect(result.localEndDate).toBe('2026-06-17');
+    });
+
+    it('should allow a single day', async () => {
+      mockPrismaService.event.create.mockResolvedValue(mockEvent);
+
+      await service.create(
+        { ...createDto, endDate: createDto.startDate },
+        mockUser,
+      );
+
+      expect(mockPrismaService.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          endDate: new Date('2026-06-16T00:00:00Z'),
+        }),
+      });
+    });
 
-      await service.remove(
+    it.each([
+      ['a time', { startDate: '2026-06-15T09:00:00Z' }],
+      ['an end before the start', { endDate: '2026-06-14' }],
+    ])('should reject %s', async (_case, dates) => {
+      await expect(
+        service.create({ ...createDto, ...dates }, mockUser),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.event.create).not.toHaveBeenCalled();
+    });
+
+    it('should require both dates to change allDay', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+
+      await expect(
+        service.update(
+          mockEvent.id,
+          { allDay: true, startDate: '2026-05-01' },
+          mockAdmin,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.event.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rooms', () => {
+    const roomId = '6f1c2a5e-3b7d-4c1a-9e2f-8a4b5c6d7e8f';
+
+    it('should book the room and check it within the transaction', async () => {
+      const booked = { ...mockEvent, roomId };
+      mockPrismaService.event.create.mockResolvedValue(booked);
+
+      const result = await service.create(
+        {
+          title: 'Planning',
+          description: 'Quarterly planning session',
+          startDate: '2026-05-01T10:00:00Z',
+          endDate: '2026-05-01T16:00:00Z',
+          roomId,
+        },
+        mockUser,
+      );
+
+      expect(mockRoomBookingsService.assertRoom).toHaveBeenCalledWith(
+        roomId,
+        mockUser.organizationId,
+      );
+      expect(mockRoomBookingsService.assertAvailable).toHaveBeenCalledWith(
+        mockPrismaService,
+        booked,
+      );
+      expect(result.roomId).toBe(roomId);
+    });
+
+    it('should not create the event when the room is taken', async () => {
+      mockPrismaService.event.create.mockResolvedValue({
+        ...mockEvent,
+        roomId,
+      });
+      mockRoomBookingsService.assertAvailable.mockRejectedValueOnce(
+        new ConflictException('The room is already booked'),
+      );
+
+      await expect(
+        service.create(
+          {
+            title: 'Planning',
+            description: 'Quarterly planning session',
+            startDate: '2026-05-01T10:00:00Z',
+            endDate: '2026-05-01T16:00:00Z',
+            roomId,
+          },
+          mockUser,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should check the room again when the event moves', async () => {
+      const booked = { ...mockEvent, roomId };
+      mockPrismaService.event.findUnique.mockResolvedValue(booked);
+      mockPrismaService.event.update.mockResolvedValue(booked);
+
+      await service.update(
         mockEvent.id,
-        mockAdmin.organizationId,
+        { startDate: '2026-05-01T11:00:00Z' },
+        mockUser,
+      );
+
+      expect(mockRoomBookingsService.assertRoom).not.toHaveBeenCalled();
+      expect(mockRoomBookingsService.assertAvailable).toHaveBeenCalledWith(
+        mockPrismaService,
+        booked,
+      );
+    });
+
+    it('should not check the room for other changes', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue({
+        ...mockEvent,
+        roomId,
+      });
+      mockPrismaService.event.update.mockResolvedValue(mockEvent);
+
+      await service.update(mockEvent.id, { title: 'Renamed' }, mockUser);
+
+      expect(mockRoomBookingsService.assertAvailable).not.toHaveBeenCalled();
+    });
+
+    it('should free the room', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue({
+        ...mockEvent,
+        roomId,
+      });
+      mockPrismaService.event.update.mockResolvedValue(mockEvent);
+
+      await service.update(mockEvent.id, { roomId: null }, mockUser);
+
+      expect(mockRoomBookingsService.assertRoom).not.toHaveBeenCalled();
+      expect(mockPrismaService.event.update).toHaveBeenCalledWith({
+        where: { id: mockEvent.id },
+        data: expect.objectContaining({ roomId: null }),
+      });
+    });
+
+    it('should not approve an event whose room was booked since', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue({
+        ...mockEvent,
+        roomId,
+        status: EventStatus.SUBMITTED,
+      });
+      mockPrismaService.event.update.mockResolvedValue({
+        ...mockEvent,
+        roomId,
+        status: EventStatus.APPROVED,
+      });
+      mockRoomBookingsService.assertAvailable.mockRejectedValueOnce(
+        new ConflictException('The room is already booked'),
+      );
+      const eventBus = { publish: jest.fn() };
+      Object.assign(service, { eventBus });
+
+      await expect(
+        service.approve(mockEvent.id, mockModerator),
+      ).rejects.toThrow(ConflictException);
+      expect(eventBus.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('categories and tags', () => {
+    const categoryId = '0b7f3c1e-5d2a-4e8b-9c6f-1a2b3c4d5e6f';
+
+    it('should file the event under a category of the organization', async () => {
+      mockPrismaService.category.findUnique.mockResolvedValue({
+        id: categoryId,
+        organizationId: mockUser.organizationId,
+      });
+      mockPrismaService.event.create.mockResolvedValue({
+        ...mockEvent,
+        categoryId,
+        tags: ['ai'],
+      });
+
+      const result = await service.create(
+        {
+          title: 'Meetup',
+          description: 'Monthly community meetup',
+          startDate: '2026-05-01T10:00:00Z',
+          endDate: '2026-05-01T16:00:00Z',
+          categoryId,
+          tags: ['ai'],
+        },
+        mockUser,
+      );
+
+      expect(mockPrismaService.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ categoryId, tags: ['ai'] }),
+      });
+      expect(result.tags).toEqual(['ai']);
+    });
+
+    it('should reject a category of another organization', async () => {
+      mockPrismaService.category.findUnique.mockResolvedValue({
+        id: categoryId,
+        organizationId: 'org-456',
+      });
+      mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+
+      await expect(
+        service.update(mockEvent.id, { categoryId }, mockUser),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.event.update).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [TagMatch.ANY, { hasSome: ['ai', 'web'] }],
+      [TagMatch.ALL, { hasEvery: ['ai', 'web'] }],
+    ])('should filter on %s of the tags', async (tagMatch, tags) => {
+      mockPrismaService.event.findMany.mockResolvedValue([]);
+      mockPrismaService.event.count.mockResolvedValue(0);
+
+      await service.findAllPaginated(
+        { category: categoryId, tags: ['ai', 'web'], tagMatch },
+        mockAdmin,
+      );
+
+      expect(mockPrismaService.event.count).toHaveBeenCalledWith({
+        where: {
+          organizationId: mockAdmin.organizationId,
+          categoryId,
+          tags,
+        },
+      });
+    });
+
+    it('should autocomplete tags of readable events in the database', async () => {
+      const tags = [
+        { name: 'networking', count: 2 },
+        { name: 'nextjs', count: 1 },
+      ];
+      mockPrismaService.$queryRaw.mockResolvedValue(tags);
+
+      const result = await service.findTags(
+        { prefix: ' N', limit: 10 },
+        mockUser,
+      );
+
+      const [strings, ...values] = mockPrismaService.$queryRaw.mock
+        .calls[0] as [TemplateStringsArray, ...unknown[]];
+      const query = Prisma.sql(strings, ...values);
+
+      expect(query.sql).toContain('unnest("tags")');
+      expect(query.sql).toContain('"createdById" = ?');
+      expect(query.values).toEqual([
+        mockUser.organizationId,
+        mockUser.id,
+        'n',
+        10,
+      ]);
+      expect(mockPrismaService.event.findMany).not.toHaveBeenCalled();
+      expect(result).toEqual(tags);
+    });
+  });
+
+  describe('revisions', () => {
+    const snapshot = {
+      title: 'Original Title',
+      description: 'Original Description',
+      location: null,
+      startDate: '2026-05-01T10:00:00.000Z',
+      endDate: '2026-05-01T16:00:00.000Z',
+      timeZone: 'UTC',
+      allDay: false,
+      capacity: null,
+      roomId: null,
+      categoryId: null,
+      tags: ['launch'],
+      recurrenceRule: null,
+      exceptionDates: [],
+      occurrences: [],
+      status: EventStatus.REJECTED,
+      rejectionReason: 'Missing agenda',
+    };
+
+    it('should record the created event in the same transaction', async () => {
+      mockPrismaService.event.create.mockResolvedValue(mockEvent);
+
+      await service.create(
+        {
+          title: 'New Event',
+          description: 'Event Description',
+          startDate: '2026-05-01T10:00:00Z',
+          endDate: '2026-05-01T16:00:00Z',
+        },
+        mockUser,
+      );
+
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(
+        mockPrismaService,
+        mockEvent,
+        RevisionAction.CREATED,
+        mockUser.id,
+      );
+    });
+
+    it('should record status changes', async () => {
+      const submittedEvent = { ...mockEvent, status: EventStatus.SUBMITTED };
+      const rejectedEvent = { ...mockEvent, status: EventStatus.REJECTED };
+      mockPrismaService.event.findUnique.mockResolvedValue(submittedEvent);
+      mockPrismaService.event.update.mockResolvedValue(rejectedEvent);
+
+      await service.reject(
+        mockEvent.id,
+        { reason: 'Missing agenda' },
+        mockModerator,
+      );
+
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(
+        mockPrismaService,
+        rejectedEvent,
+        RevisionAction.REJECTED,
+        mockModerator.id,
+      );
+    });
+
+    it('should restore the fields of a revision as an update', async () => {
+      const approvedEvent = { ...mockEvent, status: EventStatus.APPROVED };
+      mockPrismaService.event.findUnique.mockResolvedValue(approvedEvent);
+      mockPrismaService.event.update.mockResolvedValue(approvedEvent);
+      mockRevisionsService.findSnapshot.mockResolvedValue(snapshot);
+
+      await service.restoreRevision(mockEvent.id, 2, mockAdmin);
+
+      const [{ data }] = mockPrismaService.event.update.mock.calls[0] as [
+        { data: Record<string, unknown> },
+      ];
+      expect(data).toEqual(
+        expect.objectContaining({
+          title: 'Original Title',
+          location: null,
+          startDate: new Date(snapshot.startDate),
+          tags: ['launch'],
+        }),
+      );
+      // The moderation status is not part of the restore
+      expect(data).not.toHaveProperty('status');
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(
+        mockPrismaService,
+        approvedEvent,
+        RevisionAction.RESTORED,
         mockAdmin.id,
-        UserRole.ADMIN,
+        2,
       );
+    });
 
-      expect(mockPrismaService.event.delete).toHaveBeenCalled();
+    it('should record an override of a single occurrence', async () => {
+      const series = {
+        ...mockEvent,
+        startDate: new Date('2026-06-01T09:00:00Z'),
+        endDate: new Date('2026-06-01T09:15:00Z'),
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+        exceptionDates: [],
+      };
+      mockPrismaService.event.findUnique.mockResolvedValue(series);
+      mockPrismaService.eventOccurrence.upsert.mockImplementation(
+        ({ create }: { create: object }) => create,
+      );
+
+      await service.updateOccurrence(
+        series.id,
+        new Date('2026-06-08T09:00:00Z'),
+        { title: 'Sprint Retro' },
+        mockAdmin,
+      );
+
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(
+        mockPrismaService,
+        expect.objectContaining({ id: series.id }),
+        RevisionAction.UPDATED,
+        mockAdmin.id,
+      );
+    });
+
+    it('should record the cancellation of a single occurrence', async () => {
+      const series = {
+        ...mockEvent,
+        startDate: new Date('2026-06-01T09:00:00Z'),
+        endDate: new Date('2026-06-01T09:15:00Z'),
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+        exceptionDates: [],
+      };
+      mockPrismaService.event.findUnique.mockResolvedValue(series);
+
+      await service.cancelOccurrence(
+        series.id,
+        new Date('2026-06-08T09:00:00Z'),
+        undefined,
+        mockAdmin,
+      );
+
+      expect(mockPrismaService.$transaction).toHaveBeenCalled();
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(
+        mockPrismaService,
+        expect.objectContaining({ id: series.id }),
+        RevisionAction.UPDATED,
+        mockAdmin.id,
+      );
+    });
+
+    it('should only let admins restore revisions', async () => {
+      await expect(
+        service.restoreRevision(mockEvent.id, 2, mockModerator),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockRevisionsService.findSnapshot).not.toHaveBeenCalled();
     });
   });
 });
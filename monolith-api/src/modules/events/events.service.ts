@@ -14,115 +14,217 @@ import {
   QueryEventsDto,
   PaginatedEventsDto,
   EventSortField,
+  SortOrder,
+  UpdateOccurrenceDto,
+  OccurrenceScope,
+  QueryTagsDto,
+  TagCountDto,
+  TagMatch,
 } from './dto';
-import { EventStatus, UserRole, Prisma } from '@prisma/client';
+import {
+  Event,
+  EventOccurrence,
+  EventStatus,
+  Prisma,
+  RevisionAction,
+} from '@prisma/client';
 import { EventBusService } from '../../common/events';
+import {
+  EventAction,
+  PolicyUser,
+  can,
+  readableEventsWhere,
+  readableEventsSql,
+} from '../../common/permissions';
 import {
   EventSubmittedEvent,
   EventApprovedEvent,
   EventRejectedEvent,
 } from './events';
+import { RegistrationsService } from './registrations.service';
+import { RoomBookingsService } from './room-bookings.service';
+import { AttachmentsService } from './attachments.service';
+import { RevisionsService } from './revisions.service';
+import {
+  ExpandedOccurrence,
+  applyOverride,
+  expandSeries,
+  formatRecurrenceRule,
+  isOccurrence,
+  lastOccurrenceStart,
+  parseRecurrenceRule,
+  splitRecurrenceRule,
+} from './recurrence';
+import { CalendarEvent, renderCalendar } from './ical';
+import {
+  Schedule,
+  assertSpan,
+  formatEnd,
+  formatStart,
+  parseEnd,
+  parseStart,
+  scheduleZone,
+} from './schedule';
+import {
+  DEFAULT_TIME_ZONE,
+  fromWallClock,
+  moveToZone,
+  parseInZone,
+  toWallClock,
+} from './time-zone';
+
+type Recurrence = Pick<
+  Event,
+  'recurrenceRule' | 'exceptionDates' | 'recurrenceEnd'
+>;
 
 @Injectable()
 export class EventsService {
   constructor(
     private prisma: PrismaService,
     private eventBus: EventBusService,
+    private registrationsService: RegistrationsService,
+    private roomBookings: RoomBookingsService,
+    private attachmentsService: AttachmentsService,
+    private revisions: RevisionsService,
   ) {}
 
   async create(
     createEventDto: CreateEventDto,
-    userId: string,
-    organizationId: string,
+    user: PolicyUser,
   ): Promise<EventResponseDto> {
+    if (!can(user, 'create')) {
+      throw new ForbiddenException(
+        'You do not have permission to create events',
+      );
+    }
+
     // Validate dates
-    const startDate = new Date(createEventDto.startDate);
-    const endDate = new Date(createEventDto.endDate);
+    const schedule: Schedule = {
+      allDay: createEventDto.allDay ?? false,
+      timeZone: createEventDto.timeZone ?? DEFAULT_TIME_ZONE,
+    };
+    const startDate = parseStart(createEventDto.startDate, schedule);
+    const endDate = parseEnd(createEventDto.endDate, schedule);
+
+    assertSpan(startDate, endDate, schedule);
 
-    if (endDate <= startDate) {
-      throw new BadRequestException('End date must be after start date');
+    if (createEventDto.roomId) {
+      await this.roomBookings.assertRoom(
+        createEventDto.roomId,
+        user.organizationId,
+      );
     }
 
-    const event = await this.prisma.event.create({
-      data: {
-        title: createEventDto.title,
-        description: createEventDto.description,
-        location: createEventDto.location,
-        startDate,
-        endDate,
-        status: EventStatus.DRAFT,
-        organizationId,
-        createdById: userId,
-      },
+    if (createEventDto.categoryId) {
+      await this.assertCategory(createEventDto.categoryId, user.organizationId);
+    }
+
+    const event = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.event.create({
+        data: {
+          title: createEventDto.title,
+          description: createEventDto.description,
+          location: createEventDto.location,
+          startDate,
+          endDate,
+          ...schedule,
+          capacity: createEventDto.capacity,
+          roomId: createEventDto.roomId,
+          categoryId: createEventDto.categoryId,
+          tags: createEventDto.tags,
+          ...this.resolveRecurrence(
+            startDate,
+            schedule,
+            createEventDto.recurrenceRule ?? null,
+            createEventDto.exceptionDates?.map((date) =>
+              parseStart(date, schedule),
+            ) ?? [],
+          ),
+          status: EventStatus.DRAFT,
+          organizationId: user.organizationId,
+          createdById: user.id,
+        },
+      });
+
+      await this.roomBookings.assertAvailable(tx, created);
+      await this.revisions.record(tx, created, RevisionAction.CREATED, user.id);
+
+      return created;
     });
 
-    return new EventResponseDto(event);
+    return this.toResponse(event);
   }
 
-  async findAll(
-    organizationId: string,
-    userId: string,
-    userRole: UserRole,
-  ): Promise<EventResponseDto[]> {
-    // Regular users see only their own events
-    // Moderators and admins see all events in their org
-    const where =
-      userRole === UserRole.USER
-        ? { organizationId, createdById: userId }
-        : { organizationId };
-
+  async findAll(user: PolicyUser): Promise<EventResponseDto[]> {
     const events = await this.prisma.event.findMany({
-      where,
+      where: readableEventsWhere(user),
       orderBy: { startDate: 'asc' },
     });
 
-    return events.map((event) => new EventResponseDto(event));
+    return this.toResponses(events);
   }
 
   async findAllPaginated(
     query: QueryEventsDto,
-    organizationId: string,
-    userId: string,
-    userRole: UserRole,
+    user: PolicyUser,
   ): Promise<PaginatedEventsDto> {
-    // Build base where clause for org scoping and user role
-    const baseWhere: Prisma.EventWhereInput =
-      userRole === UserRole.USER
-        ? { organizationId, createdById: userId }
-        : { organizationId };
+    // Build base where clause for org scoping and read permissions
+    const baseWhere = readableEventsWhere(user);
+
+    // Bounds without an offset are local times in the requested zone
+    const timeZone = query.timeZone ?? DEFAULT_TIME_ZONE;
+    const from = query.startDateFrom
+      ? parseInZone(query.startDateFrom, timeZone)
+      : undefined;
+    const to = query.startDateTo
+      ? parseInZone(query.startDateTo, timeZone)
+      : undefined;
 
     // Build filters
     const where: Prisma.EventWhereInput = {
       ...baseWhere,
       ...(query.status && { status: query.status }),
+      ...(query.category && { categoryId: query.category }),
+      ...(query.tags?.length && {
+        tags:
+          query.tagMatch === TagMatch.ALL
+            ? { hasEvery: query.tags }
+            : { hasSome: query.tags },
+      }),
       ...(query.search && {
         OR: [
           { title: { contains: query.search, mode: 'insensitive' } },
           { description: { contains: query.search, mode: 'insensitive' } },
         ],
       }),
-      ...(query.startDateFrom && {
-        startDate: { gte: new Date(query.startDateFrom) },
-      }),
-      ...(query.startDateTo && {
-        startDate: { lte: new Date(query.startDateTo) },
-      }),
     };
 
-    // Handle date range filters together if both provided
-    if (query.startDateFrom && query.startDateTo) {
-      where.startDate = {
-        gte: new Date(query.startDateFrom),
-        lte: new Date(query.startDateTo),
-      };
-    }
+    // All-day events are floating dates, so they are compared with the
+    // dates the range covers in the requested zone
+    const floating = (date?: Date) => date && toWallClock(date, timeZone);
+    const startsWithin = (
+      build: (from?: Date, to?: Date) => Prisma.EventWhereInput,
+    ): Prisma.EventWhereInput => ({
+      OR: [
+        { allDay: false, ...build(from, to) },
+        { allDay: true, ...build(floating(from), floating(to)) },
+      ],
+    });
 
     // Build orderBy
-    const orderByMap: Record<EventSortField, Prisma.EventOrderByWithRelationInput> = {
-      [EventSortField.CREATED_AT]: { createdAt: query.sortOrder },
-      [EventSortField.START_DATE]: { startDate: query.sortOrder },
-      [EventSortField.TITLE]: { title: query.sortOrder },
-      [EventSortField.STATUS]: { status: query.sortOrder },
+    const orderByMap: Record<
+      EventSortField,
+      Prisma.EventOrderByWithRelationInput[]
+    > = {
+      [EventSortField.CREATED_AT]: [{ createdAt: query.sortOrder }],
+      // All-day events come first among those starting at the same time
+      [EventSortField.START_DATE]: [
+        { startDate: query.sortOrder },
+        { allDay: 'desc' },
+      ],
+      [EventSortField.TITLE]: [{ title: query.sortOrder }],
+      [EventSortField.STATUS]: [{ status: query.sortOrder }],
     };
 
     const orderBy = orderByMap[query.sortBy || EventSortField.START_DATE];
@@ -132,177 +234,416 @@ export class EventsService {
     const limit = query.limit || 10;
     const skip = (page - 1) * limit;
 
-    // Execute queries
-    const [events, total] = await Promise.all([
+    // Without a date range a recurring series is listed once, as itself
+    if (!from && !to) {
+      const [events, total] = await Promise.all([
+        this.prisma.event.findMany({
+          where,
+          orderBy,
+          skip,
+          take: limit,
+        }),
+        this.prisma.event.count({ where }),
+      ]);
+
+      const eventDtos = await this.toResponses(events);
+
+      return new PaginatedEventsDto(eventDtos, page, limit, total);
+    }
+
+    // With one, series are expanded into their occurrences in the range
+    const singlesWhere: Prisma.EventWhereInput = {
+      ...where,
+      recurrenceRule: null,
+      AND: [
+        startsWithin((start, end) => ({ startDate: { gte: start, lte: end } })),
+      ],
+    };
+
+    const series = await this.prisma.event.findMany({
+      where: {
+        ...where,
+        recurrenceRule: { not: null },
+        AND: [
+          startsWithin((start, end) => ({
+            startDate: end && { lte: end },
+            AND: start && [
+              {
+                OR: [
+                  { recurrenceEnd: null },
+                  { recurrenceEnd: { gte: start } },
+                ],
+              },
+            ],
+          })),
+        ],
+      },
+      include: { occurrences: true },
+    });
+    const occurrences = series.flatMap((item) =>
+      item.allDay
+        ? expandSeries(item, floating(from), floating(to))
+        : expandSeries(item, from, to),
+    );
+
+    if (occurrences.length === 0) {
+      const [events, total] = await Promise.all([
+        this.prisma.event.findMany({
+          where: singlesWhere,
+          orderBy,
+          skip,
+          take: limit,
+        }),
+        this.prisma.event.count({ where: singlesWhere }),
+      ]);
+
+      const eventDtos = await this.toResponses(events);
+
+      return new PaginatedEventsDto(eventDtos, page, limit, total);
+    }
+
+    // The requested page can only hold the first skip + limit single
+    // events, so those are merged with the occurrences in memory
+    const [singles, singlesTotal] = await Promise.all([
       this.prisma.event.findMany({
-        where,
+        where: singlesWhere,
         orderBy,
-        skip,
-        take: limit,
+        take: skip + limit,
       }),
-      this.prisma.event.count({ where }),
+      this.prisma.event.count({ where: singlesWhere }),
     ]);
 
-    const eventDtos = events.map((event) => new EventResponseDto(event));
+    const sortBy = query.sortBy || EventSortField.START_DATE;
+    const direction = query.sortOrder === SortOrder.DESC ? -1 : 1;
+    const pageItems = [...singles, ...occurrences]
+      .sort(
+        (a, b) =>
+          direction * compareBy(a, b, sortBy) ||
+          Number(b.allDay) - Number(a.allDay) ||
+          a.startDate.getTime() - b.startDate.getTime(),
+      )
+      .slice(skip, skip + limit);
+
+    const eventDtos = await this.toResponses(pageItems);
 
-    return new PaginatedEventsDto(eventDtos, page, limit, total);
+    return new PaginatedEventsDto(
+      eventDtos,
+      page,
+      limit,
+      singlesTotal + occurrences.length,
+    );
   }
 
-  async findOne(
-    id: string,
-    organizationId: string,
-    userId: string,
-    userRole: UserRole,
-  ): Promise<EventResponseDto> {
-    const event = await this.prisma.event.findUnique({
-      where: { id },
-    });
+  /**
+   * Tags in use on the events the user can read, most used first, for
+   * autocompletion. A series counts once. Matching and counting happen in
+   * the database, since this runs on every keystroke.
+   */
+  async findTags(
+    query: QueryTagsDto,
+    user: PolicyUser,
+  ): Promise<TagCountDto[]> {
+    const prefix = query.prefix?.trim().toLowerCase() ?? '';
 
-    if (!event) {
-      throw new NotFoundException('Event not found');
-    }
+    return this.prisma.$queryRaw<TagCountDto[]>`
+      SELECT "tag" AS "name", COUNT(*)::int AS "count"
+      FROM "events", unnest("tags") AS "tag"
+      WHERE ${readableEventsSql(user)} AND starts_with("tag", ${prefix})
+      GROUP BY "tag"
+      ORDER BY "count" DESC, "tag"
+      LIMIT ${query.limit ?? 10}
+    `;
+  }
 
-    // Check organization scoping
-    if (event.organizationId !== organizationId) {
-      throw new ForbiddenException('Access denied to this event');
-    }
+  async findOne(id: string, user: PolicyUser): Promise<EventResponseDto> {
+    const event = await this.findAuthorized(
+      id,
+      user,
+      'read',
+      'Access denied to this event',
+    );
 
-    // Regular users can only see their own events
-    if (userRole === UserRole.USER && event.createdById !== userId) {
-      throw new ForbiddenException('Access denied to this event');
-    }
+    return this.toResponse(event);
+  }
+
+  /**
+   * The event as an iCalendar file, for whoever may read it
+   */
+  async exportCalendar(id: string, user: PolicyUser): Promise<string> {
+    const event = await this.findAuthorized(
+      id,
+      user,
+      'read',
+      'Access denied to this event',
+    );
+    const occurrences = await this.prisma.eventOccurrence.findMany({
+      where: { eventId: id },
+      orderBy: { originalStartDate: 'asc' },
+    });
+
+    return renderCalendar([{ ...event, occurrences }]);
+  }
 
-    return new EventResponseDto(event);
+  /**
+   * The APPROVED events the user can see, scoped like the event list,
+   * with the overrides of their occurrences
+   */
+  findCalendarEvents(user: PolicyUser): Promise<CalendarEvent[]> {
+    return this.prisma.event.findMany({
+      where: { ...readableEventsWhere(user), status: EventStatus.APPROVED },
+      include: { occurrences: { orderBy: { originalStartDate: 'asc' } } },
+      orderBy: { startDate: 'asc' },
+    });
   }
 
   async update(
     id: string,
     updateEventDto: UpdateEventDto,
-    organizationId: string,
-    userId: string,
-    userRole: UserRole,
+    user: PolicyUser,
   ): Promise<EventResponseDto> {
-    const event = await this.prisma.event.findUnique({
-      where: { id },
-    });
+    const event = await this.findAuthorized(
+      id,
+      user,
+      'update',
+      'You do not have permission to edit this event',
+    );
 
-    if (!event) {
-      throw new NotFoundException('Event not found');
-    }
+    return this.applyUpdate(
+      event,
+      updateEventDto,
+      user,
+      RevisionAction.UPDATED,
+    );
+  }
 
-    // Check organization scoping
-    if (event.organizationId !== organizationId) {
-      throw new ForbiddenException('Access denied to this event');
+  /**
+   * Restore the fields of an earlier revision, as an update that is
+   * checked like any other. The moderation status stays as it is.
+   */
+  async restoreRevision(
+    id: string,
+    version: number,
+    user: PolicyUser,
+  ): Promise<EventResponseDto> {
+    // Checked before the lookup so the event's existence is not revealed
+    if (!can(user, 'restore')) {
+      throw new ForbiddenException(
+        'You do not have permission to restore revisions',
+      );
     }
 
-    // Only owner can edit their own draft events
-    // Moderators and admins can edit any event in their org
-    if (userRole === UserRole.USER) {
-      if (event.createdById !== userId) {
-        throw new ForbiddenException('You can only edit your own events');
-      }
-      if (event.status !== EventStatus.DRAFT) {
-        throw new ForbiddenException('You can only edit draft events');
-      }
+    const event = await this.findAuthorized(
+      id,
+      user,
+      'restore',
+      'Access denied to this event',
+    );
+    const snapshot = await this.revisions.findSnapshot(id, version);
+    const schedule: Schedule = snapshot;
+
+    return this.applyUpdate(
+      event,
+      {
+        title: snapshot.title,
+        description: snapshot.description,
+        location: snapshot.location,
+        startDate: formatStart(new Date(snapshot.startDate), schedule),
+        endDate: formatEnd(new Date(snapshot.endDate), schedule),
+        timeZone: snapshot.timeZone,
+        allDay: snapshot.allDay,
+        capacity: snapshot.capacity,
+        roomId: snapshot.roomId,
+        categoryId: snapshot.categoryId,
+        tags: snapshot.tags,
+        recurrenceRule: snapshot.recurrenceRule,
+        exceptionDates: snapshot.exceptionDates.map((date) =>
+          formatStart(new Date(date), schedule),
+        ),
+      },
+      user,
+      RevisionAction.RESTORED,
+      version,
+    );
+  }
+
+  private async applyUpdate(
+    event: Event,
+    updateEventDto: UpdateEventDto,
+    user: PolicyUser,
+    action: RevisionAction,
+    restoredFrom?: number,
+  ): Promise<EventResponseDto> {
+    const id = event.id;
+    const schedule: Schedule = {
+      allDay: updateEventDto.allDay ?? event.allDay,
+      timeZone: updateEventDto.timeZone ?? event.timeZone,
+    };
+    const zoneChanged = schedule.timeZone !== event.timeZone;
+    const allDayChanged = schedule.allDay !== event.allDay;
+
+    // Times cannot be turned into dates (or back) without the client
+    if (
+      allDayChanged &&
+      (!updateEventDto.startDate || !updateEventDto.endDate)
+    ) {
+      throw new BadRequestException(
+        'Changing allDay requires both startDate and endDate',
+      );
     }
 
+    // A new zone keeps the event's local times, wherever they now fall
+    const keepLocalTime = (date: Date) =>
+      moveToZone(date, scheduleZone(event), scheduleZone(schedule));
+
+    const startDate = updateEventDto.startDate
+      ? parseStart(updateEventDto.startDate, schedule)
+      : keepLocalTime(event.startDate);
+    const endDate = updateEventDto.endDate
+      ? parseEnd(updateEventDto.endDate, schedule)
+      : keepLocalTime(event.endDate);
+
     // Validate dates if provided
     if (updateEventDto.startDate || updateEventDto.endDate) {
-      const startDate = updateEventDto.startDate
-        ? new Date(updateEventDto.startDate)
-        : event.startDate;
-      const endDate = updateEventDto.endDate
-        ? new Date(updateEventDto.endDate)
-        : event.endDate;
-
-      if (endDate <= startDate) {
-        throw new BadRequestException('End date must be after start date');
-      }
+      assertSpan(startDate, endDate, schedule);
     }
 
-    const updatedEvent = await this.prisma.event.update({
-      where: { id },
-      data: {
-        ...(updateEventDto.title && { title: updateEventDto.title }),
-        ...(updateEventDto.description && {
-          description: updateEventDto.description,
-        }),
-        ...(updateEventDto.location !== undefined && {
-          location: updateEventDto.location,
-        }),
-        ...(updateEventDto.startDate && {
-          startDate: new Date(updateEventDto.startDate),
-        }),
-        ...(updateEventDto.endDate && {
-          endDate: new Date(updateEventDto.endDate),
-        }),
-      },
-    });
+    // Moving a series moves all of its occurrences
+    const scheduleChanged =
+      updateEventDto.recurrenceRule !== undefined ||
+      updateEventDto.exceptionDates !== undefined ||
+      ((!!updateEventDto.startDate || zoneChanged) && !!event.recurrenceRule);
+    const rule =
+      updateEventDto.recurrenceRule !== undefined
+        ? updateEventDto.recurrenceRule
+        : event.recurrenceRule;
+    const recurrence =
+      scheduleChanged &&
+      this.resolveRecurrence(
+        startDate,
+        schedule,
+        rule,
+        updateEventDto.exceptionDates
+          ? updateEventDto.exceptionDates.map((date) =>
+              parseStart(date, schedule),
+            )
+          : // Exceptions at times no longer match occurrences on dates
+            rule && !allDayChanged
+            ? event.exceptionDates.map(keepLocalTime)
+            : [],
+      );
 
-    return new EventResponseDto(updatedEvent);
-  }
+    // A capacity change is checked and applied under the event lock, so
+    // it cannot race with sign-ups; extra seats go to the waitlist
+    const capacityChanged = updateEventDto.capacity !== undefined;
 
-  async remove(
-    id: string,
-    organizationId: string,
-    userId: string,
-    userRole: UserRole,
-  ): Promise<void> {
-    const event = await this.prisma.event.findUnique({
-      where: { id },
-    });
+    // The room is checked once the new times are written
+    const roomChanged =
+      updateEventDto.roomId !== undefined &&
+      updateEventDto.roomId !== event.roomId;
+    const bookingChanged =
+      roomChanged ||
+      !!updateEventDto.startDate ||
+      !!updateEventDto.endDate ||
+      zoneChanged ||
+      !!recurrence;
 
-    if (!event) {
-      throw new NotFoundException('Event not found');
+    if (roomChanged && updateEventDto.roomId) {
+      await this.roomBookings.assertRoom(
+        updateEventDto.roomId,
+        user.organizationId,
+      );
     }
 
-    // Check organization scoping
-    if (event.organizationId !== organizationId) {
-      throw new ForbiddenException('Access denied to this event');
+    if (updateEventDto.categoryId) {
+      await this.assertCategory(updateEventDto.categoryId, user.organizationId);
     }
 
-    // Only owner can delete their own draft events
-    // Admins can delete any event in their org
-    if (userRole === UserRole.USER) {
-      if (event.createdById !== userId) {
-        throw new ForbiddenException('You can only delete your own events');
-      }
-      if (event.status !== EventStatus.DRAFT) {
-        throw new ForbiddenException('You can only delete draft events');
-      }
-    } else if (userRole === UserRole.MODERATOR) {
-      throw new ForbiddenException('Moderators cannot delete events');
-    }
+    const { updatedEvent, promoted } = await this.prisma.$transaction(
+      async (tx) => {
+        if (capacityChanged) {
+          await this.registrationsService.assertCapacity(
+            tx,
+            id,
+            updateEventDto.capacity ?? null,
+          );
+        }
 
-    await this.prisma.event.delete({
-      where: { id },
-    });
+        const updated = await tx.event.update({
+          where: { id },
+          data: {
+            ...(updateEventDto.title && { title: updateEventDto.title }),
+            ...(updateEventDto.description && {
+              description: updateEventDto.description,
+            }),
+            ...(updateEventDto.location !== undefined && {
+              location: updateEventDto.location,
+            }),
+            ...((updateEventDto.startDate || zoneChanged) && { startDate }),
+            ...((updateEventDto.endDate || zoneChanged) && { endDate }),
+            ...(zoneChanged && { timeZone: schedule.timeZone }),
+            ...(allDayChanged && { allDay: schedule.allDay }),
+            ...(capacityChanged && { capacity: updateEventDto.capacity }),
+            ...(roomChanged && { roomId: updateEventDto.roomId }),
+            ...(updateEventDto.categoryId !== undefined && {
+              categoryId: updateEventDto.categoryId,
+            }),
+            ...(updateEventDto.tags && { tags: updateEventDto.tags }),
+            ...recurrence,
+            // Lets calendar clients pick up the change
+            sequence: { increment: 1 },
+          },
+        });
+
+        if (recurrence) {
+          await this.removeStaleOverrides(tx, updated);
+        }
+
+        if (bookingChanged) {
+          await this.roomBookings.assertAvailable(tx, updated);
+        }
+
+        await this.revisions.record(tx, updated, action, user.id, restoredFrom);
+
+        return {
+          updatedEvent: updated,
+          promoted: capacityChanged
+            ? await this.registrationsService.promoteWaitlisted(tx, updated)
+            : [],
+        };
+      },
+    );
+
+    await this.registrationsService.publishPromotions(updatedEvent, promoted);
+
+    return this.toResponse(updatedEvent);
   }
 
-  // Moderation workflow methods
+  async remove(id: string, user: PolicyUser): Promise<void> {
+    await this.findAuthorized(
+      id,
+      user,
+      'delete',
+      'You do not have permission to delete this event',
+    );
 
-  async submit(
-    id: string,
-    organizationId: string,
-    userId: string,
-  ): Promise<EventResponseDto> {
-    const event = await this.prisma.event.findUnique({
+    const attachments = await this.attachmentsService.findStored(id);
+
+    await this.prisma.event.delete({
       where: { id },
     });
 
-    if (!event) {
-      throw new NotFoundException('Event not found');
-    }
+    await this.attachmentsService.deleteFiles(attachments);
+  }
 
-    // Check organization scoping
-    if (event.organizationId !== organizationId) {
-      throw new ForbiddenException('Access denied to this event');
-    }
+  // Moderation workflow methods
 
-    // Only owner can submit their event
-    if (event.createdById !== userId) {
-      throw new ForbiddenException('You can only submit your own events');
-    }
+  async submit(id: string, user: PolicyUser): Promise<EventResponseDto> {
+    const event = await this.findAuthorized(
+      id,
+      user,
+      'submit',
+      'You can only submit your own events',
+    );
 
     // Validate state transition
     if (event.status !== EventStatus.DRAFT) {
@@ -311,12 +652,23 @@ export class EventsService {
       );
     }
 
-    const updatedEvent = await this.prisma.event.update({
-      where: { id },
-      data: {
-        status: EventStatus.SUBMITTED,
-        rejectionReason: null, // Clear any previous rejection reason
-      },
+    const updatedEvent = await this.prisma.$transaction(async (tx) => {
+      const submitted = await tx.event.update({
+        where: { id },
+        data: {
+          status: EventStatus.SUBMITTED,
+          rejectionReason: null, // Clear any previous rejection reason
+        },
+      });
+
+      await this.revisions.record(
+        tx,
+        submitted,
+        RevisionAction.SUBMITTED,
+        user.id,
+      );
+
+      return submitted;
     });
 
     // Publish domain event
@@ -329,34 +681,23 @@ export class EventsService {
       }),
     );
 
-    return new EventResponseDto(updatedEvent);
+    return this.toResponse(updatedEvent);
   }
 
-  async approve(
-    id: string,
-    organizationId: string,
-    userRole: UserRole,
-    approvedBy?: string,
-  ): Promise<EventResponseDto> {
-    // Only moderators and admins can approve
-    if (userRole === UserRole.USER) {
+  async approve(id: string, user: PolicyUser): Promise<EventResponseDto> {
+    // Checked before the lookup so the event's existence is not revealed
+    if (!can(user, 'approve')) {
       throw new ForbiddenException(
-        'Only moderators and admins can approve events',
+        'You do not have permission to approve events',
       );
     }
 
-    const event = await this.prisma.event.findUnique({
-      where: { id },
-    });
-
-    if (!event) {
-      throw new NotFoundException('Event not found');
-    }
-
-    // Check organization scoping
-    if (event.organizationId !== organizationId) {
-      throw new ForbiddenException('Access denied to this event');
-    }
+    const event = await this.findAuthorized(
+      id,
+      user,
+      'approve',
+      'Access denied to this event',
+    );
 
     // Validate state transition
     if (event.status !== EventStatus.SUBMITTED) {
@@ -365,12 +706,25 @@ export class EventsService {
       );
     }
 
-    const updatedEvent = await this.prisma.event.update({
-      where: { id },
-      data: {
-        status: EventStatus.APPROVED,
-        rejectionReason: null,
-      },
+    // The room is checked again, as it may have been booked since
+    const updatedEvent = await this.prisma.$transaction(async (tx) => {
+      const approved = await tx.event.update({
+        where: { id },
+        data: {
+          status: EventStatus.APPROVED,
+          rejectionReason: null,
+        },
+      });
+
+      await this.roomBookings.assertAvailable(tx, approved);
+      await this.revisions.record(
+        tx,
+        approved,
+        RevisionAction.APPROVED,
+        user.id,
+      );
+
+      return approved;
     });
 
     // Publish domain event
@@ -380,39 +734,31 @@ export class EventsService {
         organizationId: updatedEvent.organizationId,
         createdById: updatedEvent.createdById,
         approvedAt: updatedEvent.updatedAt,
-        approvedBy: approvedBy || 'system',
+        approvedBy: user.id,
       }),
     );
 
-    return new EventResponseDto(updatedEvent);
+    return this.toResponse(updatedEvent);
   }
 
   async reject(
     id: string,
     rejectDto: RejectEventDto,
-    organizationId: string,
-    userRole: UserRole,
-    rejectedBy?: string,
+    user: PolicyUser,
   ): Promise<EventResponseDto> {
-    // Only moderators and admins can reject
-    if (userRole === UserRole.USER) {
+    // Checked before the lookup so the event's existence is not revealed
+    if (!can(user, 'reject')) {
       throw new ForbiddenException(
-        'Only moderators and admins can reject events',
+        'You do not have permission to reject events',
       );
     }
 
-    const event = await this.prisma.event.findUnique({
-      where: { id },
-    });
-
-    if (!event) {
-      throw new NotFoundException('Event not found');
-    }
-
-    // Check organization scoping
-    if (event.organizationId !== organizationId) {
-      throw new ForbiddenException('Access denied to this event');
-    }
+    const event = await this.findAuthorized(
+      id,
+      user,
+      'reject',
+      'Access denied to this event',
+    );
 
     // Validate state transition
     if (event.status !== EventStatus.SUBMITTED) {
@@ -421,12 +767,23 @@ export class EventsService {
       );
     }
 
-    const updatedEvent = await this.prisma.event.update({
-      where: { id },
-      data: {
-        status: EventStatus.REJECTED,
-        rejectionReason: rejectDto.reason,
-      },
+    const updatedEvent = await this.prisma.$transaction(async (tx) => {
+      const rejected = await tx.event.update({
+        where: { id },
+        data: {
+          status: EventStatus.REJECTED,
+          rejectionReason: rejectDto.reason,
+        },
+      });
+
+      await this.revisions.record(
+        tx,
+        rejected,
+        RevisionAction.REJECTED,
+        user.id,
+      );
+
+      return rejected;
     });
 
     // Publish domain event
@@ -436,12 +793,463 @@ export class EventsService {
         organizationId: updatedEvent.organizationId,
         createdById: updatedEvent.createdById,
         rejectedAt: updatedEvent.updatedAt,
-        rejectedBy: rejectedBy || 'system',
+        rejectedBy: user.id,
         reason: rejectDto.reason,
       }),
     );
 
-    return new EventResponseDto(updatedEvent);
+    return this.toResponse(updatedEvent);
+  }
+
+  // Recurring series
+
+  /**
+   * Change one occurrence of a series, or (scope "following") split the
+   * series there and change the new one that continues from it. The split
+   * keeps the series' moderation status, so edits do not reopen review.
+   */
+  async updateOccurrence(
+    id: string,
+    originalStartDate: Date,
+    updateDto: UpdateOccurrenceDto,
+    user: PolicyUser,
+  ): Promise<EventResponseDto> {
+    const series = await this.findOccurrence(id, originalStartDate, user);
+
+    if (updateDto.scope === OccurrenceScope.FOLLOWING) {
+      return this.splitSeries(series, originalStartDate, updateDto, user);
+    }
+
+    if (updateDto.recurrenceRule !== undefined) {
+      throw new BadRequestException(
+        'The recurrence rule can only be changed for following occurrences',
+      );
+    }
+
+    const current = applyOverride(
+      series,
+      originalStartDate,
+      series.occurrences.find(
+        (override) =>
+          override.originalStartDate.getTime() === originalStartDate.getTime(),
+      ),
+    )!;
+    const startDate = updateDto.startDate
+      ? parseStart(updateDto.startDate, series)
+      : current.startDate;
+    const endDate = updateDto.endDate
+      ? parseEnd(updateDto.endDate, series)
+      : current.endDate;
+
+    assertSpan(startDate, endDate, series);
+
+    const data = {
+      ...(updateDto.title && { title: updateDto.title }),
+      ...(updateDto.description && { description: updateDto.description }),
+      ...(updateDto.location !== undefined && {
+        location: updateDto.location,
+      }),
+      ...(updateDto.startDate && { startDate }),
+      ...(updateDto.endDate && { endDate }),
+    };
+
+    const override = await this.prisma.$transaction(async (tx) => {
+      const upserted = await tx.eventOccurrence.upsert({
+        where: {
+          eventId_originalStartDate: { eventId: id, originalStartDate },
+        },
+        create: { eventId: id, originalStartDate, ...data },
+        update: { ...data, sequence: { increment: 1 } },
+      });
+
+      if (updateDto.startDate || updateDto.endDate) {
+        await this.roomBookings.assertAvailable(tx, series);
+      }
+
+      await this.revisions.record(tx, series, RevisionAction.UPDATED, user.id);
+
+      return upserted;
+    });
+
+    return this.toResponse(applyOverride(series, originalStartDate, override)!);
+  }
+
+  /**
+   * Cancel one occurrence of a series, or (scope "following") end the
+   * series before it. Cancelling from the first occurrence on deletes
+   * the whole series.
+   */
+  async cancelOccurrence(
+    id: string,
+    originalStartDate: Date,
+    scope: OccurrenceScope | undefined,
+    user: PolicyUser,
+  ): Promise<void> {
+    const series = await this.findOccurrence(id, originalStartDate, user);
+
+    if (scope !== OccurrenceScope.FOLLOWING) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.eventOccurrence.upsert({
+          where: {
+            eventId_originalStartDate: { eventId: id, originalStartDate },
+          },
+          create: { eventId: id, originalStartDate, cancelledAt: new Date() },
+          update: { cancelledAt: new Date(), sequence: { increment: 1 } },
+        });
+        await this.revisions.record(
+          tx,
+          series,
+          RevisionAction.UPDATED,
+          user.id,
+        );
+      });
+      return;
+    }
+
+    if (originalStartDate.getTime() === series.startDate.getTime()) {
+      return this.remove(id, user);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const truncated = await this.truncateSeries(
+        tx,
+        series,
+        originalStartDate,
+      );
+      await this.revisions.record(
+        tx,
+        truncated,
+        RevisionAction.UPDATED,
+        user.id,
+      );
+    });
+  }
+
+  private async splitSeries(
+    series: Event & { occurrences: EventOccurrence[] },
+    splitAt: Date,
+    updateDto: UpdateOccurrenceDto,
+    user: PolicyUser,
+  ): Promise<EventResponseDto> {
+    const startDate = updateDto.startDate
+      ? parseStart(updateDto.startDate, series)
+      : splitAt;
+    const endDate = updateDto.endDate
+      ? parseEnd(updateDto.endDate, series)
+      : new Date(
+          startDate.getTime() +
+            series.endDate.getTime() -
+            series.startDate.getTime(),
+        );
+
+    assertSpan(startDate, endDate, series);
+
+    // From the first occurrence on is the whole series
+    if (splitAt.getTime() === series.startDate.getTime()) {
+      return this.update(
+        series.id,
+        {
+          title: updateDto.title,
+          description: updateDto.description,
+          location: updateDto.location,
+          startDate: formatStart(startDate, series),
+          endDate: formatEnd(endDate, series),
+          recurrenceRule: updateDto.recurrenceRule,
+        },
+        user,
+      );
+    }
+
+    // Exceptions and overrides move along with the occurrences they
+    // belong to (by local time), unless the following part gets a rule
+    // of its own
+    const local = (date: Date) => toWallClock(date, scheduleZone(series));
+    const shift = local(startDate).getTime() - local(splitAt).getTime();
+    const moved = (date: Date) =>
+      fromWallClock(
+        new Date(local(date).getTime() + shift),
+        scheduleZone(series),
+      );
+    const keepsPattern = updateDto.recurrenceRule === undefined;
+    const rule = keepsPattern
+      ? splitRecurrenceRule(series, splitAt).following
+      : updateDto.recurrenceRule!;
+
+    const created = await this.prisma.$transaction(async (tx) => {
+      const truncated = await this.truncateSeries(tx, series, splitAt);
+      await this.revisions.record(
+        tx,
+        truncated,
+        RevisionAction.UPDATED,
+        user.id,
+      );
+
+      const following = await tx.event.create({
+        data: {
+          title: updateDto.title ?? series.title,
+          description: updateDto.description ?? series.description,
+          location:
+            updateDto.location !== undefined
+              ? updateDto.location
+              : series.location,
+          startDate,
+          endDate,
+          timeZone: series.timeZone,
+          allDay: series.allDay,
+          capacity: series.capacity,
+          roomId: series.roomId,
+          categoryId: series.categoryId,
+          tags: series.tags,
+          ...this.resolveRecurrence(
+            startDate,
+            series,
+            rule,
+            keepsPattern
+              ? series.exceptionDates
+                  .filter((date) => date >= splitAt)
+                  .map(moved)
+              : [],
+          ),
+          status: series.status,
+          rejectionReason: series.rejectionReason,
+          organizationId: series.organizationId,
+          createdById: series.createdById,
+          occurrences: keepsPattern
+            ? {
+                create: series.occurrences
+                  .filter((override) => override.originalStartDate >= splitAt)
+                  .map((override) => ({
+                    originalStartDate: moved(override.originalStartDate),
+                    title: override.title,
+                    description: override.description,
+                    location: override.location,
+                    startDate: override.startDate,
+                    endDate: override.endDate,
+                    cancelledAt: override.cancelledAt,
+                  })),
+              }
+            : undefined,
+        },
+      });
+
+      await this.roomBookings.assertAvailable(tx, following);
+      await this.revisions.record(
+        tx,
+        following,
+        RevisionAction.CREATED,
+        user.id,
+      );
+
+      return following;
+    });
+
+    return this.toResponse(created);
+  }
+
+  /**
+   * End the series just before one of its occurrences, dropping the
+   * exceptions and overrides from there on
+   */
+  private async truncateSeries(
+    tx: Prisma.TransactionClient,
+    series: Event,
+    splitAt: Date,
+  ): Promise<Event> {
+    const truncated = await tx.event.update({
+      where: { id: series.id },
+      data: {
+        ...this.resolveRecurrence(
+          series.startDate,
+          series,
+          splitRecurrenceRule(series, splitAt).before,
+          series.exceptionDates.filter((date) => date < splitAt),
+        ),
+        sequence: { increment: 1 },
+      },
+    });
+
+    await tx.eventOccurrence.deleteMany({
+      where: { eventId: series.id, originalStartDate: { gte: splitAt } },
+    });
+
+    return truncated;
+  }
+
+  /**
+   * Overrides stay keyed to the occurrences the rule generated, so once
+   * the schedule changes those no longer generated are dropped
+   */
+  private async removeStaleOverrides(
+    tx: Prisma.TransactionClient,
+    event: Event,
+  ): Promise<void> {
+    const overrides = await tx.eventOccurrence.findMany({
+      where: { eventId: event.id },
+    });
+    const stale = overrides.filter(
+      (override) =>
+        !event.recurrenceRule ||
+        !isOccurrence(event, override.originalStartDate),
+    );
+
+    if (stale.length > 0) {
+      await tx.eventOccurrence.deleteMany({
+        where: { id: { in: stale.map((override) => override.id) } },
+      });
+    }
+  }
+
+  /**
+   * Validate and normalize a recurrence rule with its exception dates
+   */
+  private resolveRecurrence(
+    startDate: Date,
+    schedule: Schedule,
+    rule: string | null,
+    exceptionDates: Date[],
+  ): Recurrence {
+    if (!rule) {
+      if (exceptionDates.length > 0) {
+        throw new BadRequestException(
+          'Exception dates require a recurrence rule',
+        );
+      }
+
+      return { recurrenceRule: null, exceptionDates: [], recurrenceEnd: null };
+    }
+
+    const recurrenceRule = formatRecurrenceRule(parseRecurrenceRule(rule));
+    const series = {
+      startDate,
+      timeZone: schedule.timeZone,
+      allDay: schedule.allDay,
+      recurrenceRule,
+      exceptionDates,
+    };
+
+    return {
+      recurrenceRule,
+      exceptionDates,
+      recurrenceEnd: lastOccurrenceStart(series),
+    };
+  }
+
+  /**
+   * Load a recurring event with its overrides for an edit of one of its
+   * occurrences. Editing an occurrence is editing the series.
+   */
+  private async findOccurrence(
+    id: string,
+    originalStartDate: Date,
+    user: PolicyUser,
+  ): Promise<Event & { occurrences: EventOccurrence[] }> {
+    const event = await this.findAuthorized(
+      id,
+      user,
+      'update',
+      'You do not have permission to edit this event',
+    );
+
+    if (!event.recurrenceRule) {
+      throw new BadRequestException('Event is not recurring');
+    }
+
+    if (!isOccurrence(event, originalStartDate)) {
+      throw new NotFoundException('Occurrence not found');
+    }
+
+    const occurrences = await this.prisma.eventOccurrence.findMany({
+      where: { eventId: id },
+    });
+
+    return { ...event, occurrences };
+  }
+
+  private async toResponse(event: Event): Promise<EventResponseDto> {
+    const [response] = await this.toResponses([event]);
+    return response;
+  }
+
+  private async toResponses(
+    events: (Event | ExpandedOccurrence)[],
+  ): Promise<EventResponseDto[]> {
+    const eventIds = events.map((event) => event.id);
+    const [attendeeCounts, attachments] = await Promise.all([
+      this.registrationsService.countByEvent(eventIds),
+      this.attachmentsService.findByEvent(eventIds),
+    ]);
+
+    return events.map(
+      (event) =>
+        new EventResponseDto({
+          ...event,
+          localStartDate: formatStart(event.startDate, event),
+          localEndDate: formatEnd(event.endDate, event),
+          attendeeCounts: attendeeCounts.get(event.id),
+          attachments: attachments.get(event.id),
+        }),
+    );
+  }
+
+  /**
+   * Categories are curated per organization
+   */
+  private async assertCategory(
+    categoryId: string,
+    organizationId: string,
+  ): Promise<void> {
+    const category = await this.prisma.category.findUnique({
+      where: { id: categoryId },
+    });
+
+    if (!category || category.organizationId !== organizationId) {
+      throw new NotFoundException('Category not found');
+    }
+  }
+
+  /**
+   * Load an event and check the action against the event policy.
+   * Events of other organizations are always denied.
+   */
+  private async findAuthorized(
+    id: string,
+    user: PolicyUser,
+    action: EventAction,
+    deniedMessage: string,
+  ): Promise<Event> {
+    const event = await this.prisma.event.findUnique({
+      where: { id },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    // Check organization scoping
+    if (event.organizationId !== user.organizationId) {
+      throw new ForbiddenException('Access denied to this event');
+    }
+
+    if (!can(user, action, event)) {
+      throw new ForbiddenException(deniedMessage);
+    }
+
+    return event;
   }
 }
 
+const STATUS_ORDER = Object.values(EventStatus);
+
+function compareBy(a: Event, b: Event, field: EventSortField): number {
+  switch (field) {
+    case EventSortField.CREATED_AT:
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    case EventSortField.TITLE:
+      return a.title.localeCompare(b.title);
+    case EventSortField.STATUS:
+      // Same order as the database enum
+      return STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
+    default:
+      return a.startDate.getTime() - b.startDate.getTime();
+  }
+}
@@ -0,0 +1,20 @@
+import { DomainEvent } from '../../../common/events';
+
+export class CommentAddedEvent extends DomainEvent {
+  constructor(
+    commentId: string,
+    payload: {
+      eventId: string;
+      title: string;
+      organizationId: string;
+      eventOwnerId: string;
+      authorId: string;
+      parentId: string | null;
+      internal: boolean;
+      mentionedUserIds: string[];
+      createdAt: Date;
+    },
+  ) {
+    super('comment.added', commentId, 'Comment', payload);
+  }
+}
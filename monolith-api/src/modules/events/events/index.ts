@@ -1,3 +1,5 @@
 export * from './event-submitted.event';
 export * from './event-approved.event';
 export * from './event-rejected.event';
+export * from './registration-promoted.event';
+export * from './comment-added.event';
@@ -0,0 +1,16 @@
+import { DomainEvent } from '../../../common/events';
+
+export class RegistrationPromotedEvent extends DomainEvent {
+  constructor(
+    registrationId: string,
+    payload: {
+      eventId: string;
+      title: string;
+      organizationId: string;
+      userId: string;
+      promotedAt: Date;
+    },
+  ) {
+    super('registration.promoted', registrationId, 'Registration', payload);
+  }
+}
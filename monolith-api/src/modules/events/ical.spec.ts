@@ -0,0 +1,175 @@
+import { EventStatus } from '@prisma/client';
+import { CalendarEvent, renderCalendar } from './ical';
+
+describe('renderCalendar', () => {
+  const event: CalendarEvent = {
+    id: 'event-123',
+    title: 'Weekly Standup',
+    description: 'Agenda: blockers, plans; nothing else',
+    location: 'Room 1',
+    startDate: new Date('2026-06-01T09:00:00Z'),
+    endDate: new Date('2026-06-01T09:15:00Z'),
+    timeZone: 'UTC',
+    allDay: false,
+    capacity: null,
+    roomId: null,
+    categoryId: null,
+    tags: [],
+    recurrenceRule: null,
+    exceptionDates: [],
+    recurrenceEnd: null,
+    sequence: 2,
+    status: EventStatus.APPROVED,
+    rejectionReason: null,
+    organizationId: 'org-123',
+    createdById: 'user-123',
+    createdAt: new Date('2026-05-01T12:00:00Z'),
+    updatedAt: new Date('2026-05-02T12:00:00Z'),
+    occurrences: [],
+  };
+
+  const override = {
+    id: 'occurrence-1',
+    eventId: event.id,
+    originalStartDate: new Date('2026-06-08T09:00:00Z'),
+    title: null,
+    description: null,
+    location: null,
+    startDate: null,
+    endDate: null,
+    cancelledAt: null,
+    sequence: 1,
+    createdAt: new Date('2026-05-03T12:00:00Z'),
+    updatedAt: new Date('2026-05-03T12:00:00Z'),
+  };
+
+  const lines = (calendar: string) => calendar.split('\r\n');
+
+  it('should render a single event with a stable UID and sequence', () => {
+    const calendar = renderCalendar([event]);
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines(calendar)).toEqual(
+      expect.arrayContaining([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VEVENT',
+        'UID:event-123@eventboard',
+        'DTSTAMP:20260502T120000Z',
+        'SEQUENCE:2',
+        'DTSTART:20260601T090000Z',
+        'DTEND:20260601T091500Z',
+        'SUMMARY:Weekly Standup',
+        'DESCRIPTION:Agenda: blockers\\, plans\\; nothing else',
+        'LOCATION:Room 1',
+        'STATUS:CONFIRMED',
+      ]),
+    );
+  });
+
+  it('should export rejected events as cancelled', () => {
+    const calendar = renderCalendar([
+      { ...event, status: EventStatus.REJECTED },
+    ]);
+
+    expect(lines(calendar)).toContain('STATUS:CANCELLED');
+  });
+
+  it('should render a series with its exceptions and overrides', () => {
+    const calendar = renderCalendar([
+      {
+        ...event,
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+        exceptionDates: [new Date('2026-06-15T09:00:00Z')],
+        occurrences: [
+          { ...override, title: 'Sprint Retro' },
+          {
+            ...override,
+            id: 'occurrence-2',
+            originalStartDate: new Date('2026-06-22T09:00:00Z'),
+            cancelledAt: new Date(),
+          },
+        ],
+      },
+    ]);
+    const output = lines(calendar);
+
+    expect(output).toEqual(
+      expect.arrayContaining([
+        'RRULE:FREQ=WEEKLY;BYDAY=MO',
+        'EXDATE:20260615T090000Z',
+        'RECURRENCE-ID:20260608T090000Z',
+        'SUMMARY:Sprint Retro',
+        'SEQUENCE:3',
+        'RECURRENCE-ID:20260622T090000Z',
+        'STATUS:CANCELLED',
+      ]),
+    );
+    expect(output.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(3);
+  });
+
+  it('should render events outside UTC in local time with a VTIMEZONE', () => {
+    const calendar = renderCalendar([
+      {
+        ...event,
+        startDate: new Date('2026-06-01T08:00:00Z'),
+        endDate: new Date('2026-06-01T08:15:00Z'),
+        timeZone: 'Europe/London',
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+        exceptionDates: [new Date('2026-06-15T08:00:00Z')],
+      },
+    ]);
+
+    expect(lines(calendar)).toEqual(
+      expect.arrayContaining([
+        'BEGIN:VTIMEZONE',
+        'TZID:Europe/London',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20250330T010000',
+        'TZOFFSETFROM:+0000',
+        'TZOFFSETTO:+0100',
+        'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+        'BEGIN:STANDARD',
+        'DTSTART:20251026T020000',
+        'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+        'DTSTART;TZID=Europe/London:20260601T090000',
+        'DTEND;TZID=Europe/London:20260601T091500',
+        'EXDATE;TZID=Europe/London:20260615T090000',
+      ]),
+    );
+  });
+
+  it('should render all-day events as dates', () => {
+    const calendar = renderCalendar([
+      {
+        ...event,
+        startDate: new Date('2026-06-15T00:00:00Z'),
+        endDate: new Date('2026-06-18T00:00:00Z'),
+        timeZone: 'Europe/London',
+        allDay: true,
+        recurrenceRule: 'FREQ=YEARLY;UNTIL=20290614T235959Z',
+      },
+    ]);
+    const output = lines(calendar);
+
+    expect(output).toEqual(
+      expect.arrayContaining([
+        'DTSTART;VALUE=DATE:20260615',
+        'DTEND;VALUE=DATE:20260618',
+        'RRULE:FREQ=YEARLY;UNTIL=20290614',
+      ]),
+    );
+    expect(output).not.toContain('BEGIN:VTIMEZONE');
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const calendar = renderCalendar([
+      { ...event, description: 'Ünïcödé '.repeat(30) },
+    ]);
+
+    for (const line of lines(calendar)) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(calendar).toContain('\r\n ');
+  });
+});
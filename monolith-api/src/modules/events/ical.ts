@@ -0,0 +1,281 @@
+import { Event, EventOccurrence, EventStatus } from '@prisma/client';
+import { applyOverride } from './recurrence';
+import { Schedule, scheduleZone } from './schedule';
+import {
+  DEFAULT_TIME_ZONE,
+  ZoneTransition,
+  toWallClock,
+  zoneOffset,
+  zoneTransitions,
+} from './time-zone';
+
+/**
+ * An event with the overrides of its occurrences, as exported
+ */
+export type CalendarEvent = Event & { occurrences: EventOccurrence[] };
+
+const PRODUCT_ID = '-//EventBoard//EventBoard API//EN';
+
+// UIDs only need to be globally unique and stable across exports
+const UID_DOMAIN = 'eventboard';
+
+// Tentative until approved; rejected events are exported as cancelled
+const STATUS: Record<EventStatus, string> = {
+  [EventStatus.DRAFT]: 'TENTATIVE',
+  [EventStatus.SUBMITTED]: 'TENTATIVE',
+  [EventStatus.APPROVED]: 'CONFIRMED',
+  [EventStatus.REJECTED]: 'CANCELLED',
+};
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * RFC 5545 calendar of the events. A recurring event is exported as its
+ * RRULE with EXDATEs, plus one component per changed occurrence (keyed
+ * by RECURRENCE-ID); cancelled occurrences carry STATUS:CANCELLED.
+ * Events in a zone other than UTC get local times with a TZID, so that
+ * clients expand their rules across daylight saving changes the same
+ * way, and the calendar carries a VTIMEZONE for each such zone.
+ * All-day events are exported as dates (VALUE=DATE).
+ */
+export function renderCalendar(events: CalendarEvent[], name?: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...renderTimeZones(events),
+    ...events.flatMap(renderEvent),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function renderEvent(event: CalendarEvent): string[] {
+  const uid = `UID:${event.id}@${UID_DOMAIN}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    uid,
+    `DTSTAMP:${formatDate(event.updatedAt)}`,
+    `CREATED:${formatDate(event.createdAt)}`,
+    `LAST-MODIFIED:${formatDate(event.updatedAt)}`,
+    `SEQUENCE:${event.sequence}`,
+    dateProperty('DTSTART', [event.startDate], event),
+    dateProperty('DTEND', [event.endDate], event),
+    ...describe(event),
+    `STATUS:${STATUS[event.status]}`,
+  ];
+
+  if (event.recurrenceRule) {
+    // With dates the rule must end on a date, too
+    const rule = event.allDay
+      ? event.recurrenceRule.replace(/UNTIL=(\d{8})T\d{6}Z/, 'UNTIL=$1')
+      : event.recurrenceRule;
+    lines.push(`RRULE:${rule}`);
+
+    if (event.exceptionDates.length > 0) {
+      lines.push(dateProperty('EXDATE', event.exceptionDates, event));
+    }
+  }
+
+  lines.push('END:VEVENT');
+
+  // Overrides only mean something for a series that still has a rule
+  const overrides = event.recurrenceRule ? event.occurrences : [];
+
+  for (const override of overrides) {
+    const occurrence = applyOverride(
+      event,
+      override.originalStartDate,
+      override.cancelledAt ? undefined : override,
+    )!;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      uid,
+      dateProperty('RECURRENCE-ID', [override.originalStartDate], event),
+      `DTSTAMP:${formatDate(override.updatedAt)}`,
+      `LAST-MODIFIED:${formatDate(override.updatedAt)}`,
+      // Changing an occurrence must outrank the series it came from
+      `SEQUENCE:${event.sequence + override.sequence}`,
+      dateProperty('DTSTART', [occurrence.startDate], event),
+      dateProperty('DTEND', [occurrence.endDate], event),
+      ...describe(occurrence),
+      `STATUS:${override.cancelledAt ? 'CANCELLED' : STATUS[event.status]}`,
+      'END:VEVENT',
+    );
+  }
+
+  return lines;
+}
+
+function describe(
+  event: Pick<Event, 'title' | 'description' | 'location'>,
+): string[] {
+  return [
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+  ];
+}
+
+// UTC date-time form, e.g. 20260601T090000Z
+function formatDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+// Local date-time form, e.g. 20260601T090000
+function formatLocalDate(date: Date, timeZone: string): string {
+  return formatDate(toWallClock(date, timeZone)).replace(/Z$/, '');
+}
+
+/**
+ * A date-time property in UTC, or in local time with the zone's TZID;
+ * a date property for an all-day event
+ */
+function dateProperty(name: string, dates: Date[], schedule: Schedule): string {
+  if (schedule.allDay) {
+    const values = dates.map((date) => formatDate(date).slice(0, 8));
+    return `${name};VALUE=DATE:${values.join(',')}`;
+  }
+
+  if (schedule.timeZone === DEFAULT_TIME_ZONE) {
+    return `${name}:${dates.map(formatDate).join(',')}`;
+  }
+
+  const values = dates.map((date) => formatLocalDate(date, schedule.timeZone));
+  return `${name};TZID=${schedule.timeZone}:${values.join(',')}`;
+}
+
+/**
+ * A VTIMEZONE per zone the events are in (other than UTC). The offset
+ * changes of the year before the earliest event are written as yearly
+ * rules, which is what zones with daylight saving time follow.
+ */
+function renderTimeZones(events: CalendarEvent[]): string[] {
+  const firstYears = new Map<string, number>();
+
+  for (const event of events) {
+    if (scheduleZone(event) === DEFAULT_TIME_ZONE) {
+      continue;
+    }
+
+    const year = event.startDate.getUTCFullYear();
+    firstYears.set(
+      event.timeZone,
+      Math.min(year, firstYears.get(event.timeZone) ?? year),
+    );
+  }
+
+  return [...firstYears].flatMap(([timeZone, year]) => [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...renderObservances(timeZone, year - 1),
+    'END:VTIMEZONE',
+  ]);
+}
+
+function renderObservances(timeZone: string, year: number): string[] {
+  const transitions = zoneTransitions(timeZone, year);
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(
+      zoneOffset(new Date(Date.UTC(year, 0, 1)), timeZone),
+    );
+
+    return [
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD',
+    ];
+  }
+
+  // Only a regular back-and-forth of daylight saving time repeats
+  const yearly = transitions.length === 2;
+
+  return transitions.flatMap((transition) => {
+    const kind =
+      transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${formatDate(onset(transition)).replace(/Z$/, '')}`,
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      ...(yearly ? [`RRULE:${yearlyRule(transition)}`] : []),
+      `END:${kind}`,
+    ];
+  });
+}
+
+/**
+ * The change as a yearly rule on the nth (or last) weekday of its month,
+ * e.g. FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU
+ */
+function yearlyRule(transition: ZoneTransition): string {
+  const start = onset(transition);
+  const day = start.getUTCDate();
+  const daysInMonth = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+
+  return `FREQ=YEARLY;BYMONTH=${start.getUTCMonth() + 1};BYDAY=${week}${WEEKDAYS[start.getUTCDay()]}`;
+}
+
+// The local time just before the change, as a floating time
+function onset(transition: ZoneTransition): Date {
+  return new Date(transition.at.getTime() + transition.offsetFrom);
+}
+
+// UTC offset form, e.g. +0100
+function formatOffset(offset: number): string {
+  const minutes = Math.abs(offset) / 60000;
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+
+  return `${offset < 0 ? '-' : '+'}${hours}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split lines longer than 75 octets, continuing with a space. Never cuts
+ * through a multi-byte character.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts too
+    const limit = parts.length === 0 ? 75 : 74;
+
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,265 @@
+import { BadRequestException } from '@nestjs/common';
+import { EventStatus } from '@prisma/client';
+import {
+  MAX_EXPANDED_OCCURRENCES,
+  expandSeries,
+  formatRecurrenceRule,
+  isOccurrence,
+  lastOccurrenceStart,
+  occurrenceStarts,
+  parseRecurrenceRule,
+  splitRecurrenceRule,
+} from './recurrence';
+
+describe('recurrence', () => {
+  // Mondays at 09:00 UTC, starting 2026-06-01
+  const weekly = {
+    startDate: new Date('2026-06-01T09:00:00Z'),
+    timeZone: 'UTC',
+    allDay: false,
+    recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+    exceptionDates: [] as Date[],
+  };
+
+  const series = {
+    ...weekly,
+    id: 'event-123',
+    title: 'Weekly Standup',
+    description: 'Fifteen minutes, no laptops',
+    location: 'Room 1',
+    endDate: new Date('2026-06-01T09:15:00Z'),
+    capacity: null,
+    roomId: null,
+    categoryId: null,
+    tags: [],
+    recurrenceEnd: null,
+    sequence: 0,
+    status: EventStatus.APPROVED,
+    rejectionReason: null,
+    organizationId: 'org-123',
+    createdById: 'user-123',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const override = {
+    id: 'occurrence-1',
+    eventId: series.id,
+    originalStartDate: new Date('2026-06-08T09:00:00Z'),
+    title: null,
+    description: null,
+    location: null,
+    startDate: null,
+    endDate: null,
+    cancelledAt: null,
+    sequence: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  describe('parseRecurrenceRule', () => {
+    it('should accept a rule with or without the RRULE prefix', () => {
+      expect(
+        formatRecurrenceRule(parseRecurrenceRule('RRULE:FREQ=DAILY;COUNT=3')),
+      ).toBe('FREQ=DAILY;COUNT=3');
+    });
+
+    it.each([
+      'FREQ=HOURLY',
+      'BYDAY=MO',
+      'FREQ=WEEKLY;NOPE=1',
+      'DTSTART:20260601T090000Z\nRRULE:FREQ=DAILY',
+      'FREQ=DAILY;COUNT=5;UNTIL=20260701T000000Z',
+      'FREQ=DAILY;COUNT=5000',
+    ])('should reject %s', (rule) => {
+      expect(() => parseRecurrenceRule(rule)).toThrow(BadRequestException);
+    });
+  });
+
+  describe('occurrenceStarts', () => {
+    it('should expand the occurrences within the range', () => {
+      expect(
+        occurrenceStarts(
+          weekly,
+          new Date('2026-06-05T00:00:00Z'),
+          new Date('2026-06-22T09:00:00Z'),
+        ),
+      ).toEqual([
+        new Date('2026-06-08T09:00:00Z'),
+        new Date('2026-06-15T09:00:00Z'),
+        new Date('2026-06-22T09:00:00Z'),
+      ]);
+    });
+
+    it('should skip exception dates', () => {
+      const starts = occurrenceStarts(
+        { ...weekly, exceptionDates: [new Date('2026-06-08T09:00:00Z')] },
+        undefined,
+        new Date('2026-06-15T09:00:00Z'),
+      );
+
+      expect(starts).toEqual([
+        new Date('2026-06-01T09:00:00Z'),
+        new Date('2026-06-15T09:00:00Z'),
+      ]);
+    });
+
+    it('should keep the local time across daylight saving changes', () => {
+      // 09:00 in London is 08:00 UTC in summer and 09:00 UTC in winter
+      const starts = occurrenceStarts({
+        startDate: new Date('2026-10-19T08:00:00Z'),
+        timeZone: 'Europe/London',
+        allDay: false,
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=2',
+        exceptionDates: [],
+      });
+
+      expect(starts).toEqual([
+        new Date('2026-10-19T08:00:00Z'),
+        new Date('2026-10-26T09:00:00Z'),
+      ]);
+    });
+
+    it('should expand all-day series as dates, whatever the zone', () => {
+      const starts = occurrenceStarts({
+        startDate: new Date('2026-10-19T00:00:00Z'),
+        timeZone: 'Europe/London',
+        allDay: true,
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=2',
+        exceptionDates: [],
+      });
+
+      expect(starts).toEqual([
+        new Date('2026-10-19T00:00:00Z'),
+        new Date('2026-10-26T00:00:00Z'),
+      ]);
+    });
+
+    it('should cap open-ended rules', () => {
+      expect(occurrenceStarts(weekly)).toHaveLength(MAX_EXPANDED_OCCURRENCES);
+    });
+  });
+
+  describe('lastOccurrenceStart', () => {
+    it('should be null for a rule that never ends', () => {
+      expect(lastOccurrenceStart(weekly)).toBeNull();
+    });
+
+    it('should be the last start of a counted rule', () => {
+      expect(
+        lastOccurrenceStart({
+          ...weekly,
+          recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;COUNT=3',
+        }),
+      ).toEqual(new Date('2026-06-15T09:00:00Z'));
+    });
+  });
+
+  describe('isOccurrence', () => {
+    it('should match only starts the rule generates', () => {
+      expect(isOccurrence(weekly, new Date('2026-06-08T09:00:00Z'))).toBe(true);
+      expect(isOccurrence(weekly, new Date('2026-06-08T10:00:00Z'))).toBe(
+        false,
+      );
+      expect(
+        isOccurrence(
+          { ...weekly, exceptionDates: [new Date('2026-06-08T09:00:00Z')] },
+          new Date('2026-06-08T09:00:00Z'),
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('splitRecurrenceRule', () => {
+    it('should end the original just before the split', () => {
+      const { before, following } = splitRecurrenceRule(
+        weekly,
+        new Date('2026-06-15T09:00:00Z'),
+      );
+
+      expect(before).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20260615T085959Z');
+      expect(following).toBe('FREQ=WEEKLY;BYDAY=MO');
+    });
+
+    it('should reduce a COUNT by the occurrences already past', () => {
+      const { following } = splitRecurrenceRule(
+        { ...weekly, recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO;COUNT=10' },
+        new Date('2026-06-15T09:00:00Z'),
+      );
+
+      expect(following).toBe('FREQ=WEEKLY;BYDAY=MO;COUNT=8');
+    });
+  });
+
+  describe('expandSeries', () => {
+    const from = new Date('2026-06-01T00:00:00Z');
+    const to = new Date('2026-06-14T23:59:59Z');
+
+    it('should expand occurrences with the series duration', () => {
+      const occurrences = expandSeries(
+        { ...series, occurrences: [] },
+        from,
+        to,
+      );
+
+      expect(occurrences).toHaveLength(2);
+      expect(occurrences[1]).toMatchObject({
+        id: series.id,
+        title: series.title,
+        startDate: new Date('2026-06-08T09:00:00Z'),
+        endDate: new Date('2026-06-08T09:15:00Z'),
+        originalStartDate: new Date('2026-06-08T09:00:00Z'),
+      });
+    });
+
+    it('should apply overrides and leave out cancelled occurrences', () => {
+      const edited = expandSeries(
+        {
+          ...series,
+          occurrences: [{ ...override, title: 'Retro', location: 'Room 2' }],
+        },
+        from,
+        to,
+      );
+      const cancelled = expandSeries(
+        { ...series, occurrences: [{ ...override, cancelledAt: new Date() }] },
+        from,
+        to,
+      );
+
+      expect(edited[1]).toMatchObject({ title: 'Retro', location: 'Room 2' });
+      expect(cancelled).toHaveLength(1);
+    });
+
+    it('should follow occurrences moved into or out of the range', () => {
+      const occurrences = expandSeries(
+        {
+          ...series,
+          occurrences: [
+            // Moved out of the range
+            {
+              ...override,
+              startDate: new Date('2026-06-16T09:00:00Z'),
+              endDate: new Date('2026-06-16T09:15:00Z'),
+            },
+            // Moved into it
+            {
+              ...override,
+              id: 'occurrence-2',
+              originalStartDate: new Date('2026-06-15T09:00:00Z'),
+              startDate: new Date('2026-06-12T09:00:00Z'),
+              endDate: new Date('2026-06-12T09:15:00Z'),
+            },
+          ],
+        },
+        from,
+        to,
+      );
+
+      expect(occurrences.map((occurrence) => occurrence.startDate)).toEqual([
+        new Date('2026-06-01T09:00:00Z'),
+        new Date('2026-06-12T09:00:00Z'),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { BadRequestException } from '@nestjs/common';
+import { Event, EventOccurrence } from '@prisma/client';
+import { Frequency, Options, RRule } from 'rrule';
+import { scheduleZone } from './schedule';
+import { fromWallClock, toWallClock } from './time-zone';
+
+/**
+ * Upper bound on the occurrences expanded for one series in one query,
+ * so open-ended rules (no COUNT or UNTIL) stay cheap to list
+ */
+export const MAX_EXPANDED_OCCURRENCES = 500;
+
+// COUNT above this is rejected, for the same reason
+export const MAX_RECURRENCE_COUNT = 1000;
+
+const ALLOWED_FREQUENCIES = [
+  Frequency.DAILY,
+  Frequency.WEEKLY,
+  Frequency.MONTHLY,
+  Frequency.YEARLY,
+];
+
+export type RecurringSubject = Pick<
+  Event,
+  'startDate' | 'timeZone' | 'allDay' | 'recurrenceRule' | 'exceptionDates'
+>;
+
+/**
+ * One occurrence of a series, shaped like the event itself
+ */
+export type ExpandedOccurrence = Event & { originalStartDate: Date };
+
+/**
+ * Parse an iCalendar RRULE value ("FREQ=WEEKLY;BYDAY=MO", with or
+ * without the "RRULE:" prefix). The series start is the event's
+ * startDate, so DTSTART is not accepted inside the rule.
+ */
+export function parseRecurrenceRule(rule: string): Partial<Options> {
+  const value = rule.trim().replace(/^RRULE:/i, '');
+
+  if (/(^|;)DTSTART=/i.test(value) || value.includes('\n')) {
+    throw new BadRequestException(
+      'Recurrence rule must be a single RRULE without DTSTART',
+    );
+  }
+
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(value);
+  } catch {
+    throw new BadRequestException('Invalid recurrence rule');
+  }
+
+  if (
+    options.freq === undefined ||
+    !ALLOWED_FREQUENCIES.includes(options.freq)
+  ) {
+    throw new BadRequestException(
+      'Recurrence rule FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY',
+    );
+  }
+
+  if (options.count && options.until) {
+    throw new BadRequestException(
+      'Recurrence rule cannot have both COUNT and UNTIL',
+    );
+  }
+
+  if (options.count !== undefined && options.count !== null) {
+    if (options.count < 1 || options.count > MAX_RECURRENCE_COUNT) {
+      throw new BadRequestException(
+        `Recurrence rule COUNT must be between 1 and ${MAX_RECURRENCE_COUNT}`,
+      );
+    }
+  }
+
+  return options;
+}
+
+/**
+ * The rule in the canonical form it is stored in, without "RRULE:"
+ */
+export function formatRecurrenceRule(options: Partial<Options>): string {
+  return RRule.optionsToString(options).replace(/^RRULE:/, '');
+}
+
+/**
+ * The rule is expanded on the wall clock of the event's zone, so the
+ * occurrences keep their local time when daylight saving time changes.
+ * The dates it generates are floating local times (see toWallClock).
+ */
+function buildRule(series: RecurringSubject): RRule {
+  const options = parseRecurrenceRule(series.recurrenceRule!);
+
+  return new RRule({
+    ...options,
+    dtstart: toLocal(series, series.startDate),
+    // UNTIL is stored as an instant, like iCalendar has it
+    until: options.until && toLocal(series, options.until),
+  });
+}
+
+function toLocal(series: RecurringSubject, date: Date): Date {
+  return toWallClock(date, scheduleZone(series));
+}
+
+function toInstant(series: RecurringSubject, wallClock: Date): Date {
+  return fromWallClock(wallClock, scheduleZone(series));
+}
+
+function isExcluded(series: RecurringSubject, start: Date): boolean {
+  return series.exceptionDates.some(
+    (date) => date.getTime() === start.getTime(),
+  );
+}
+
+/**
+ * Start of the last occurrence the rule generates, or null when the rule
+ * never ends. Stored on the event so list queries can skip series that
+ * ended before the requested range.
+ */
+export function lastOccurrenceStart(series: RecurringSubject): Date | null {
+  const rule = buildRule(series);
+
+  if (!rule.options.count && !rule.options.until) {
+    return null;
+  }
+
+  const starts = rule.all();
+  return starts.length > 0
+    ? toInstant(series, starts[starts.length - 1])
+    : null;
+}
+
+/**
+ * Original start times of the series' occurrences within the range
+ * (inclusive), minus the exception dates. Either bound may be omitted;
+ * at most MAX_EXPANDED_OCCURRENCES are returned.
+ */
+export function occurrenceStarts(
+  series: RecurringSubject,
+  from?: Date,
+  to?: Date,
+): Date[] {
+  const rule = buildRule(series);
+  const starts: Date[] = [];
+
+  rule.all((wallClock) => {
+    const date = toInstant(series, wallClock);
+
+    if (to && date > to) {
+      return false;
+    }
+
+    if ((!from || date >= from) && !isExcluded(series, date)) {
+      starts.push(date);
+    }
+
+    return starts.length < MAX_EXPANDED_OCCURRENCES;
+  });
+
+  return starts;
+}
+
+/**
+ * Whether the rule generates an occurrence starting exactly then
+ */
+export function isOccurrence(series: RecurringSubject, start: Date): boolean {
+  if (isExcluded(series, start)) {
+    return false;
+  }
+
+  const match = buildRule(series).after(toLocal(series, start), true);
+  return !!match && toInstant(series, match).getTime() === start.getTime();
+}
+
+/**
+ * Split a series at one of its occurrences: the rule that ends the
+ * original just before it, and the rule the following part continues
+ * with (a COUNT is reduced by the occurrences already past).
+ */
+export function splitRecurrenceRule(
+  series: RecurringSubject,
+  splitAt: Date,
+): { before: string; following: string } {
+  const options = parseRecurrenceRule(series.recurrenceRule!);
+  const elapsed = buildRule(series).between(
+    toLocal(series, series.startDate),
+    toLocal(series, splitAt),
+    true,
+  ).length;
+
+  // between() includes splitAt itself, which belongs to the following part
+  const before = {
+    ...options,
+    count: null,
+    until: new Date(splitAt.getTime() - 1000),
+  };
+  const following = options.count
+    ? { ...options, count: options.count - (elapsed - 1) }
+    : options;
+
+  return {
+    before: formatRecurrenceRule(before),
+    following: formatRecurrenceRule(following),
+  };
+}
+
+/**
+ * The series' occurrences starting within the range, with per-occurrence
+ * overrides applied. Cancelled occurrences are left out, and occurrences
+ * moved into the range from outside it are included.
+ */
+export function expandSeries(
+  series: Event & { occurrences: EventOccurrence[] },
+  from?: Date,
+  to?: Date,
+): ExpandedOccurrence[] {
+  const { occurrences, ...event } = series;
+  const overrides = new Map(
+    occurrences.map((override) => [
+      override.originalStartDate.getTime(),
+      override,
+    ]),
+  );
+  const inRange = (date: Date) =>
+    (!from || date >= from) && (!to || date <= to);
+
+  const movedIn = occurrences
+    .filter(
+      (override) =>
+        !override.cancelledAt &&
+        override.startDate &&
+        inRange(override.startDate) &&
+        !inRange(override.originalStartDate),
+    )
+    .map((override) => override.originalStartDate);
+
+  return [...occurrenceStarts(event, from, to), ...movedIn]
+    .map((start) => applyOverride(event, start, overrides.get(start.getTime())))
+    .filter(
+      (occurrence): occurrence is ExpandedOccurrence =>
+        !!occurrence && inRange(occurrence.startDate),
+    );
+}
+
+/**
+ * The occurrence starting at originalStartDate as it currently stands,
+ * or null when it was cancelled
+ */
+export function applyOverride(
+  event: Event,
+  originalStartDate: Date,
+  override?: EventOccurrence,
+): ExpandedOccurrence | null {
+  if (override?.cancelledAt) {
+    return null;
+  }
+
+  const duration = event.endDate.getTime() - event.startDate.getTime();
+  const startDate = override?.startDate ?? originalStartDate;
+
+  return {
+    ...event,
+    title: override?.title ?? event.title,
+    description: override?.description ?? event.description,
+    location: override?.location ?? event.location,
+    startDate,
+    endDate: override?.endDate ?? new Date(startDate.getTime() + duration),
+    originalStartDate,
+  };
+}
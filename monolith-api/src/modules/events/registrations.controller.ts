@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { RegistrationsService } from './registrations.service';
+import { RsvpDto, QueryAttendeesDto, RegistrationResponseDto } from './dto';
+import { JwtOrApiKeyAuthGuard } from '../auth/guards/jwt-or-api-key-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('events')
+@Controller('events/:id')
+@UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+export class RegistrationsController {
+  constructor(private readonly registrationsService: RegistrationsService) {}
+
+  @Put('rsvp')
+  @RequirePermission('event:register')
+  @ApiOperation({ summary: 'RSVP to an approved event' })
+  @ApiResponse({
+    status: 200,
+    description: 'Registration saved',
+    type: RegistrationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  @ApiResponse({ status: 409, description: 'Event is not approved' })
+  rsvp(
+    @Param('id') id: string,
+    @Body() rsvpDto: RsvpDto,
+    @CurrentUser() user: any,
+  ): Promise<RegistrationResponseDto> {
+    return this.registrationsService.rsvp(id, rsvpDto, user);
+  }
+
+  @Delete('rsvp')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Cancel your registration for an event' })
+  @ApiResponse({ status: 204, description: 'Registration cancelled' })
+  @ApiResponse({ status: 404, description: 'Event or registration not found' })
+  cancel(@Param('id') id: string, @CurrentUser() user: any): Promise<void> {
+    return this.registrationsService.cancel(id, user);
+  }
+
+  @Get('attendees')
+  @ApiOperation({ summary: 'List registrations for an event' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the registrations with the attendees',
+    type: [RegistrationResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Only the event owner and moderators',
+  })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  findAttendees(
+    @Param('id') id: string,
+    @Query() query: QueryAttendeesDto,
+    @CurrentUser() user: any,
+  ): Promise<RegistrationResponseDto[]> {
+    return this.registrationsService.findAttendees(id, query, user);
+  }
+}
@@ -0,0 +1,398 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { EventStatus, RegistrationStatus } from '@prisma/client';
+import { RegistrationsService } from './registrations.service';
+import { PrismaService } from '../../database/prisma.service';
+import { EventBusService } from '../../common/events';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../common/permissions';
+
+describe('RegistrationsService', () => {
+  let service: RegistrationsService;
+
+  const mockPrismaService = {
+    event: {
+      findUnique: jest.fn(),
+    },
+    registration: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+
+  const mockEventBus = {
+    publish: jest.fn(),
+  };
+
+  const mockUser = {
+    id: 'user-123',
+    organizationId: 'org-123',
+    permissions: DEFAULT_ROLE_PERMISSIONS.USER,
+  };
+
+  const mockModerator = {
+    id: 'mod-123',
+    organizationId: 'org-123',
+    permissions: DEFAULT_ROLE_PERMISSIONS.MODERATOR,
+  };
+
+  const approvedEvent = {
+    id: 'event-123',
+    title: 'Team Offsite',
+    status: EventStatus.APPROVED,
+    capacity: 2,
+    organizationId: 'org-123',
+    createdById: 'owner-123',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RegistrationsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: EventBusService,
+          useValue: mockEventBus,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RegistrationsService>(RegistrationsService);
+
+    mockPrismaService.event.findUnique.mockResolvedValue(approvedEvent);
+    mockPrismaService.$queryRaw.mockResolvedValue([approvedEvent]);
+    mockPrismaService.registration.findUnique.mockResolvedValue(null);
+    mockPrismaService.registration.findMany.mockResolvedValue([]);
+    mockPrismaService.registration.count.mockResolvedValue(0);
+    mockPrismaService.registration.upsert.mockImplementation(
+      ({ create }: { create: object }) =>
+        Promise.resolve({ id: 'registration-1', ...create }),
+    );
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof mockPrismaService) => Promise<unknown>) =>
+        callback(mockPrismaService),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('rsvp', () => {
+    it("should save the user's response to an approved event", async () => {
+      mockPrismaService.registration.count.mockResolvedValue(1);
+
+      const result = await service.rsvp(
+        approvedEvent.id,
+        { status: RegistrationStatus.GOING },
+        mockUser,
+      );
+
+      expect(result.status).toBe(RegistrationStatus.GOING);
+      expect(mockPrismaService.registration.upsert).toHaveBeenCalledWith({
+        where: {
+          eventId_userId: { eventId: approvedEvent.id, userId: mockUser.id },
+        },
+        create: {
+          eventId: approvedEvent.id,
+          userId: mockUser.id,
+          status: RegistrationStatus.GOING,
+          waitlistedAt: null,
+        },
+        update: { status: RegistrationStatus.GOING, waitlistedAt: null },
+      });
+    });
+
+    it('should lock the event before counting its seats', async () => {
+      await service.rsvp(
+        approvedEvent.id,
+        { status: RegistrationStatus.GOING },
+        mockUser,
+      );
+
+      expect(
+        mockPrismaService.$queryRaw.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockPrismaService.registration.count.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should put the user on the waitlist when the event is full', async () => {
+      mockPrismaService.registration.count
+        .mockResolvedValueOnce(2) // going
+        .mockResolvedValueOnce(3); // already waiting
+
+      const result = await service.rsvp(
+        approvedEvent.id,
+        { status: RegistrationStatus.GOING },
+        mockUser,
+      );
+
+      expect(result).toMatchObject({
+        status: RegistrationStatus.WAITLISTED,
+        waitlistPosition: 4,
+      });
+      expect(result.waitlistedAt).toBeInstanceOf(Date);
+    });
+
+    it('should keep the place on the waitlist when asked again', async () => {
+      const waitlistedAt = new Date('2026-01-01T00:00:00Z');
+      mockPrismaService.registration.findUnique.mockResolvedValue({
+        id: 'registration-1',
+        status: RegistrationStatus.WAITLISTED,
+        waitlistedAt,
+      });
+
+      await service.rsvp(
+        approvedEvent.id,
+        { status: RegistrationStatus.GOING },
+        mockUser,
+      );
+
+      expect(mockPrismaService.registration.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: { status: RegistrationStatus.WAITLISTED, waitlistedAt },
+        }),
+      );
+    });
+
+    it('should promote the head of the waitlist when a seat is given up', async () => {
+      mockPrismaService.registration.findUnique.mockResolvedValue({
+        id: 'registration-1',
+        status: RegistrationStatus.GOING,
+        waitlistedAt: null,
+      });
+      mockPrismaService.registration.count.mockResolvedValue(1);
+      mockPrismaService.registration.findMany.mockResolvedValue([
+        { id: 'registration-2', userId: 'user-456' },
+      ]);
+
+      await service.rsvp(
+        approvedEvent.id,
+        { status: RegistrationStatus.DECLINED },
+        mockUser,
+      );
+
+      expect(mockPrismaService.registration.findMany).toHaveBeenCalledWith({
+        where: {
+          eventId: approvedEvent.id,
+          status: RegistrationStatus.WAITLISTED,
+        },
+        orderBy: { waitlistedAt: 'asc' },
+        take: 1,
+      });
+      expect(mockPrismaService.registration.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['registration-2'] } },
+        data: { status: RegistrationStatus.GOING, waitlistedAt: null },
+      });
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'registration.promoted',
+          aggregateId: 'registration-2',
+          payload: expect.objectContaining({
+            eventId: approvedEvent.id,
+            userId: 'user-456',
+          }),
+        }),
+      );
+    });
+
+    it('should throw ConflictException for an event that is not approved', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue({
+        ...approvedEvent,
+        status: EventStatus.SUBMITTED,
+      });
+
+      await expect(
+        service.rsvp(
+          approvedEvent.id,
+          { status: RegistrationStatus.MAYBE },
+          mockUser,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.registration.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException for an event of another organization', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue({
+        ...approvedEvent,
+        organizationId: 'org-456',
+      });
+
+      await expect(
+        service.rsvp(
+          approvedEvent.id,
+          { status: RegistrationStatus.GOING },
+          mockUser,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw ForbiddenException without the register permission', async () => {
+      await expect(
+        service.rsvp(
+          approvedEvent.id,
+          { status: RegistrationStatus.GOING },
+          { ...mockUser, permissions: ['event:read:own'] },
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should delete the registration and fill the freed seat', async () => {
+      mockPrismaService.registration.findUnique.mockResolvedValue({
+        id: 'registration-1',
+        status: RegistrationStatus.GOING,
+      });
+      mockPrismaService.registration.count.mockResolvedValue(1);
+
+      await service.cancel(approvedEvent.id, mockUser);
+
+      expect(mockPrismaService.registration.delete).toHaveBeenCalledWith({
+        where: { id: 'registration-1' },
+      });
+      expect(mockPrismaService.registration.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 1 }),
+      );
+    });
+
+    it('should not promote anyone when a waitlisted user leaves', async () => {
+      mockPrismaService.registration.findUnique.mockResolvedValue({
+        id: 'registration-1',
+        status: RegistrationStatus.WAITLISTED,
+      });
+
+      await service.cancel(approvedEvent.id, mockUser);
+
+      expect(mockPrismaService.registration.findMany).not.toHaveBeenCalled();
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException without a registration', async () => {
+      await expect(service.cancel(approvedEvent.id, mockUser)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('assertCapacity', () => {
+    it('should reject a capacity below the people already going', async () => {
+      mockPrismaService.registration.count.mockResolvedValue(5);
+
+      await expect(
+        service.assertCapacity(mockPrismaService as never, approvedEvent.id, 4),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('promoteWaitlisted', () => {
+    it('should promote the whole waitlist when the limit is removed', async () => {
+      mockPrismaService.registration.findMany.mockResolvedValue([
+        { id: 'registration-2' },
+        { id: 'registration-3' },
+      ]);
+
+      const promoted = await service.promoteWaitlisted(
+        mockPrismaService as never,
+        { ...approvedEvent, capacity: null } as never,
+      );
+
+      expect(promoted).toHaveLength(2);
+      expect(mockPrismaService.registration.findMany).toHaveBeenCalledWith({
+        where: {
+          eventId: approvedEvent.id,
+          status: RegistrationStatus.WAITLISTED,
+        },
+        orderBy: { waitlistedAt: 'asc' },
+      });
+    });
+  });
+
+  describe('findAttendees', () => {
+    it('should list attendees for a moderator', async () => {
+      await service.findAttendees(
+        approvedEvent.id,
+        { status: RegistrationStatus.GOING },
+        mockModerator,
+      );
+
+      expect(mockPrismaService.registration.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            eventId: approvedEvent.id,
+            status: RegistrationStatus.GOING,
+          },
+        }),
+      );
+    });
+
+    it('should list attendees for the event owner', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue({
+        ...approvedEvent,
+        createdById: mockUser.id,
+      });
+
+      await expect(
+        service.findAttendees(approvedEvent.id, {}, mockUser),
+      ).resolves.toEqual([]);
+    });
+
+    it('should throw ForbiddenException for other members', async () => {
+      await expect(
+        service.findAttendees(approvedEvent.id, {}, mockUser),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('countByEvent', () => {
+    it('should count responses per event, with zeros for the rest', async () => {
+      mockPrismaService.registration.groupBy.mockResolvedValue([
+        {
+          eventId: 'event-1',
+          status: RegistrationStatus.GOING,
+          _count: { _all: 4 },
+        },
+        {
+          eventId: 'event-1',
+          status: RegistrationStatus.DECLINED,
+          _count: { _all: 1 },
+        },
+      ]);
+
+      const counts = await service.countByEvent(['event-1', 'event-2']);
+
+      expect(counts.get('event-1')).toEqual({
+        going: 4,
+        maybe: 0,
+        declined: 1,
+        waitlisted: 0,
+      });
+      expect(counts.get('event-2')).toEqual({
+        going: 0,
+        maybe: 0,
+        declined: 0,
+        waitlisted: 0,
+      });
+    });
+
+    it('should not query without events', async () => {
+      await service.countByEvent([]);
+
+      expect(mockPrismaService.registration.groupBy).not.toHaveBeenCalled();
+    });
+  });
+});
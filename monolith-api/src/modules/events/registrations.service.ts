@@ -0,0 +1,358 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import {
+  Event,
+  EventStatus,
+  Prisma,
+  Registration,
+  RegistrationStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { EventBusService } from '../../common/events';
+import { PolicyUser, can } from '../../common/permissions';
+import {
+  RsvpDto,
+  QueryAttendeesDto,
+  RegistrationResponseDto,
+  AttendeeCountsDto,
+} from './dto';
+import { RegistrationPromotedEvent } from './events';
+
+/**
+ * Attendance of org members at events. Any member allowed to register
+ * may RSVP to an APPROVED event of their organization, even one they
+ * cannot otherwise read in full.
+ *
+ * GOING counts against the event's capacity; beyond it users are
+ * WAITLISTED in the order they asked and promoted as seats free up.
+ * Every change to the GOING set of an event runs in a transaction
+ * holding a row lock on the event, so concurrent sign-ups cannot
+ * overbook it.
+ */
+@Injectable()
+export class RegistrationsService {
+  constructor(
+    private prisma: PrismaService,
+    private eventBus: EventBusService,
+  ) {}
+
+  async rsvp(
+    eventId: string,
+    rsvpDto: RsvpDto,
+    user: PolicyUser,
+  ): Promise<RegistrationResponseDto> {
+    const event = await this.findEvent(eventId, user);
+
+    if (!can(user, 'register', event)) {
+      throw new ForbiddenException(
+        'You do not have permission to register for events',
+      );
+    }
+
+    if (event.status !== EventStatus.APPROVED) {
+      throw new ConflictException(
+        `Cannot register for event with status ${event.status}. Only APPROVED events accept registrations.`,
+      );
+    }
+
+    const { registration, promoted } = await this.prisma.$transaction(
+      async (tx) => {
+        const locked = await this.lockEvent(tx, eventId);
+        const existing = await tx.registration.findUnique({
+          where: { eventId_userId: { eventId, userId: user.id } },
+        });
+
+        let data: Pick<Registration, 'status' | 'waitlistedAt'> = {
+          status: rsvpDto.status,
+          waitlistedAt: null,
+        };
+
+        if (rsvpDto.status === RegistrationStatus.GOING) {
+          if (
+            existing?.status === RegistrationStatus.GOING ||
+            existing?.status === RegistrationStatus.WAITLISTED
+          ) {
+            // Keep the seat or the place in the queue
+            data = {
+              status: existing.status,
+              waitlistedAt: existing.waitlistedAt,
+            };
+          } else if ((await this.freeSeats(tx, locked)) <= 0) {
+            data = {
+              status: RegistrationStatus.WAITLISTED,
+              waitlistedAt: new Date(),
+            };
+          }
+        }
+
+        const saved = await tx.registration.upsert({
+          where: { eventId_userId: { eventId, userId: user.id } },
+          create: { eventId, userId: user.id, ...data },
+          update: data,
+        });
+
+        const freedSeat =
+          existing?.status === RegistrationStatus.GOING &&
+          saved.status !== RegistrationStatus.GOING;
+
+        return {
+          registration: saved,
+          promoted: freedSeat ? await this.promoteWaitlisted(tx, locked) : [],
+        };
+      },
+    );
+
+    await this.publishPromotions(event, promoted);
+
+    return this.toResponse(registration);
+  }
+
+  async cancel(eventId: string, user: PolicyUser): Promise<void> {
+    const event = await this.findEvent(eventId, user);
+
+    const promoted = await this.prisma.$transaction(async (tx) => {
+      const locked = await this.lockEvent(tx, eventId);
+      const registration = await tx.registration.findUnique({
+        where: { eventId_userId: { eventId, userId: user.id } },
+      });
+
+      if (!registration) {
+        throw new NotFoundException('Registration not found');
+      }
+
+      await tx.registration.delete({ where: { id: registration.id } });
+
+      return registration.status === RegistrationStatus.GOING
+        ? this.promoteWaitlisted(tx, locked)
+        : [];
+    });
+
+    await this.publishPromotions(event, promoted);
+  }
+
+  /**
+   * Attendee list, for whoever may read the event itself: its owner and
+   * members with `event:read:any` (moderators and admins). The waitlist
+   * comes last, in queue order.
+   */
+  async findAttendees(
+    eventId: string,
+    query: QueryAttendeesDto,
+    user: PolicyUser,
+  ): Promise<RegistrationResponseDto[]> {
+    const event = await this.findEvent(eventId, user);
+
+    if (!can(user, 'read', event)) {
+      throw new ForbiddenException(
+        'Only the event owner and moderators can view attendees',
+      );
+    }
+
+    const registrations = await this.prisma.registration.findMany({
+      where: { eventId, ...(query.status && { status: query.status }) },
+      include: {
+        user: {
+          select: { id: true, email: true, firstName: true, lastName: true },
+        },
+      },
+      orderBy: [
+        { waitlistedAt: { sort: 'asc', nulls: 'first' } },
+        { createdAt: 'asc' },
+      ],
+    });
+
+    return registrations.map(
+      (registration) => new RegistrationResponseDto(registration),
+    );
+  }
+
+  /**
+   * Attendee counts per response for each of the given events. Events
+   * without registrations are included with zero counts.
+   */
+  async countByEvent(
+    eventIds: string[],
+  ): Promise<Map<string, AttendeeCountsDto>> {
+    const counts = new Map<string, AttendeeCountsDto>(
+      eventIds.map((id) => [
+        id,
+        { going: 0, maybe: 0, declined: 0, waitlisted: 0 },
+      ]),
+    );
+
+    if (eventIds.length === 0) {
+      return counts;
+    }
+
+    const groups = await this.prisma.registration.groupBy({
+      by: ['eventId', 'status'],
+      where: { eventId: { in: eventIds } },
+      _count: { _all: true },
+    });
+
+    const keys: Record<RegistrationStatus, keyof AttendeeCountsDto> = {
+      [RegistrationStatus.GOING]: 'going',
+      [RegistrationStatus.MAYBE]: 'maybe',
+      [RegistrationStatus.DECLINED]: 'declined',
+      [RegistrationStatus.WAITLISTED]: 'waitlisted',
+    };
+
+    for (const group of groups) {
+      counts.get(group.eventId)![keys[group.status]] = group._count._all;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Lock the event for a capacity change and make sure the new capacity
+   * still fits everyone already going. Call inside a transaction.
+   */
+  async assertCapacity(
+    tx: Prisma.TransactionClient,
+    eventId: string,
+    capacity: number | null,
+  ): Promise<void> {
+    await this.lockEvent(tx, eventId);
+
+    if (capacity === null) {
+      return;
+    }
+
+    const going = await tx.registration.count({
+      where: { eventId, status: RegistrationStatus.GOING },
+    });
+
+    if (capacity < going) {
+      throw new ConflictException(
+        `Capacity cannot be lower than the ${going} people already going`,
+      );
+    }
+  }
+
+  /**
+   * Move people from the head of the waitlist into the free seats.
+   * The caller must hold the event lock (see lockEvent).
+   */
+  async promoteWaitlisted(
+    tx: Prisma.TransactionClient,
+    event: Event,
+  ): Promise<Registration[]> {
+    const seats = await this.freeSeats(tx, event);
+
+    if (seats <= 0) {
+      return [];
+    }
+
+    const next = await tx.registration.findMany({
+      where: { eventId: event.id, status: RegistrationStatus.WAITLISTED },
+      orderBy: { waitlistedAt: 'asc' },
+      ...(Number.isFinite(seats) && { take: seats }),
+    });
+
+    if (next.length === 0) {
+      return [];
+    }
+
+    await tx.registration.updateMany({
+      where: { id: { in: next.map((registration) => registration.id) } },
+      data: { status: RegistrationStatus.GOING, waitlistedAt: null },
+    });
+
+    return next;
+  }
+
+  /**
+   * Announce promotions once the transaction that made them committed
+   */
+  async publishPromotions(
+    event: Event,
+    promoted: Registration[],
+  ): Promise<void> {
+    const promotedAt = new Date();
+
+    for (const registration of promoted) {
+      await this.eventBus.publish(
+        new RegistrationPromotedEvent(registration.id, {
+          eventId: event.id,
+          title: event.title,
+          organizationId: event.organizationId,
+          userId: registration.userId,
+          promotedAt,
+        }),
+      );
+    }
+  }
+
+  private async freeSeats(
+    tx: Prisma.TransactionClient,
+    event: Event,
+  ): Promise<number> {
+    if (event.capacity === null) {
+      return Infinity;
+    }
+
+    const going = await tx.registration.count({
+      where: { eventId: event.id, status: RegistrationStatus.GOING },
+    });
+
+    return event.capacity - going;
+  }
+
+  // Serializes registration changes per event until the transaction ends
+  private async lockEvent(
+    tx: Prisma.TransactionClient,
+    eventId: string,
+  ): Promise<Event> {
+    const [event] = await tx.$queryRaw<Event[]>`
+      SELECT * FROM "events" WHERE "id" = ${eventId} FOR UPDATE
+    `;
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    return event;
+  }
+
+  private async toResponse(
+    registration: Registration,
+  ): Promise<RegistrationResponseDto> {
+    if (registration.status !== RegistrationStatus.WAITLISTED) {
+      return new RegistrationResponseDto(registration);
+    }
+
+    const ahead = await this.prisma.registration.count({
+      where: {
+        eventId: registration.eventId,
+        status: RegistrationStatus.WAITLISTED,
+        waitlistedAt: { lt: registration.waitlistedAt! },
+      },
+    });
+
+    return new RegistrationResponseDto({
+      ...registration,
+      waitlistPosition: ahead + 1,
+    });
+  }
+
+  private async findEvent(eventId: string, user: PolicyUser): Promise<Event> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizationId !== user.organizationId) {
+      throw new ForbiddenException('Access denied to this event');
+    }
+
+    return event;
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { RevisionsService } from './revisions.service';
+import { EventsService } from './events.service';
+import {
+  RevisionResponseDto,
+  QueryRevisionDiffDto,
+  RevisionDiffDto,
+  EventResponseDto,
+} from './dto';
+import { JwtOrApiKeyAuthGuard } from '../auth/guards/jwt-or-api-key-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('events')
+@Controller('events/:id/revisions')
+@UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+export class RevisionsController {
+  constructor(
+    private readonly revisionsService: RevisionsService,
+    private readonly eventsService: EventsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: "List an event's revisions, newest first" })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns who changed which fields, and when',
+    type: [RevisionResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  findAll(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+  ): Promise<RevisionResponseDto[]> {
+    return this.revisionsService.findAll(id, user);
+  }
+
+  // Registered before ':version', which would otherwise match "diff"
+  @Get('diff')
+  @ApiOperation({ summary: 'Compare two revisions field by field' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the fields that differ with both values',
+    type: RevisionDiffDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid versions' })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 404, description: 'Event or revision not found' })
+  diff(
+    @Param('id') id: string,
+    @Query() query: QueryRevisionDiffDto,
+    @CurrentUser() user: any,
+  ): Promise<RevisionDiffDto> {
+    return this.revisionsService.diff(id, query, user);
+  }
+
+  @Get(':version')
+  @ApiOperation({ summary: 'Get a revision with the event as it was' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the revision and its snapshot',
+    type: RevisionResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Access denied' })
+  @ApiResponse({ status: 404, description: 'Event or revision not found' })
+  findOne(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: any,
+  ): Promise<RevisionResponseDto> {
+    return this.revisionsService.findOne(id, version, user);
+  }
+
+  @Post(':version/restore')
+  @RequirePermission('event:restore')
+  @ApiOperation({
+    summary: "Restore a revision's fields (admin)",
+    description:
+      'Applies the fields as an update, recorded as a new RESTORED revision. The moderation status is not changed.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Event restored',
+    type: EventResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Event or revision not found' })
+  @ApiResponse({ status: 409, description: 'The room is no longer free' })
+  restore(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: any,
+  ): Promise<EventResponseDto> {
+    return this.eventsService.restoreRevision(id, version, user);
+  }
+}
@@ -0,0 +1,320 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { EventStatus, RevisionAction, UserRole } from '@prisma/client';
+import { RevisionsService } from './revisions.service';
+import { PrismaService } from '../../database/prisma.service';
+import { DEFAULT_ROLE_PERMISSIONS } from '../../common/permissions';
+
+describe('RevisionsService', () => {
+  let service: RevisionsService;
+
+  const mockPrismaService = {
+    event: {
+      findUnique: jest.fn(),
+    },
+    eventRevision: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    eventOccurrence: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockUser = {
+    id: 'user-123',
+    organizationId: 'org-123',
+    role: UserRole.USER,
+    permissions: DEFAULT_ROLE_PERMISSIONS.USER,
+  };
+
+  const mockEvent = {
+    id: 'event-123',
+    title: 'Test Event',
+    description: 'Test Description',
+    location: null,
+    startDate: new Date('2026-05-01T10:00:00Z'),
+    endDate: new Date('2026-05-01T16:00:00Z'),
+    timeZone: 'UTC',
+    allDay: false,
+    capacity: null,
+    roomId: null,
+    categoryId: null,
+    tags: [],
+    recurrenceRule: null,
+    exceptionDates: [],
+    recurrenceEnd: null,
+    sequence: 0,
+    status: EventStatus.DRAFT,
+    rejectionReason: null,
+    organizationId: 'org-123',
+    createdById: 'user-123',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const snapshot = {
+    title: 'Test Event',
+    description: 'Test Description',
+    location: null,
+    startDate: '2026-05-01T10:00:00.000Z',
+    endDate: '2026-05-01T16:00:00.000Z',
+    timeZone: 'UTC',
+    allDay: false,
+    capacity: null,
+    roomId: null,
+    categoryId: null,
+    tags: [],
+    recurrenceRule: null,
+    exceptionDates: [],
+    occurrences: [],
+    status: EventStatus.DRAFT,
+    rejectionReason: null,
+  };
+
+  const revision = (version: number, fields: Record<string, unknown> = {}) => ({
+    id: `revision-${version}`,
+    eventId: mockEvent.id,
+    version,
+    action: RevisionAction.UPDATED,
+    snapshot: { ...snapshot, ...fields },
+    changedFields: [],
+    restoredFrom: null,
+    authorId: mockUser.id,
+    author: { id: mockUser.id, firstName: 'Test', lastName: 'User' },
+    createdAt: new Date(),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RevisionsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RevisionsService>(RevisionsService);
+
+    mockPrismaService.event.findUnique.mockResolvedValue(mockEvent);
+    mockPrismaService.eventOccurrence.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('should start with the fields that were set', async () => {
+      mockPrismaService.eventRevision.findFirst.mockResolvedValue(null);
+
+      await service.record(
+        mockPrismaService as never,
+        mockEvent,
+        RevisionAction.CREATED,
+        mockUser.id,
+      );
+
+      expect(mockPrismaService.eventRevision.create).toHaveBeenCalledWith({
+        data: {
+          eventId: mockEvent.id,
+          version: 1,
+          action: RevisionAction.CREATED,
+          snapshot,
+          changedFields: [
+            'title',
+            'description',
+            'startDate',
+            'endDate',
+            'timeZone',
+            'allDay',
+            'status',
+          ],
+          restoredFrom: undefined,
+          authorId: mockUser.id,
+        },
+      });
+    });
+
+    it('should list the fields changed since the previous revision', async () => {
+      mockPrismaService.eventRevision.findFirst.mockResolvedValue(
+        revision(3, { title: 'Old Title' }),
+      );
+
+      await service.record(
+        mockPrismaService as never,
+        { ...mockEvent, tags: ['launch'] },
+        RevisionAction.UPDATED,
+        mockUser.id,
+      );
+
+      expect(mockPrismaService.eventRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          version: 4,
+          changedFields: ['title', 'tags'],
+        }),
+      });
+    });
+
+    it('should skip updates that changed nothing', async () => {
+      mockPrismaService.eventRevision.findFirst.mockResolvedValue(revision(2));
+
+      await service.record(
+        mockPrismaService as never,
+        mockEvent,
+        RevisionAction.UPDATED,
+        mockUser.id,
+      );
+
+      expect(mockPrismaService.eventRevision.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep changed and cancelled occurrences of a series', async () => {
+      mockPrismaService.eventRevision.findFirst.mockResolvedValue(revision(2));
+      mockPrismaService.eventOccurrence.findMany.mockResolvedValue([
+        {
+          id: 'occurrence-1',
+          eventId: mockEvent.id,
+          originalStartDate: new Date('2026-05-08T10:00:00Z'),
+          title: null,
+          description: null,
+          location: 'Room 2',
+          startDate: new Date('2026-05-08T11:00:00Z'),
+          endDate: null,
+          cancelledAt: null,
+        },
+        {
+          id: 'occurrence-2',
+          eventId: mockEvent.id,
+          originalStartDate: new Date('2026-05-15T10:00:00Z'),
+          title: null,
+          description: null,
+          location: null,
+          startDate: null,
+          endDate: null,
+          cancelledAt: new Date(),
+        },
+      ]);
+
+      await service.record(
+        mockPrismaService as never,
+        mockEvent,
+        RevisionAction.UPDATED,
+        mockUser.id,
+      );
+
+      expect(mockPrismaService.eventOccurrence.findMany).toHaveBeenCalledWith({
+        where: { eventId: mockEvent.id },
+        orderBy: { originalStartDate: 'asc' },
+      });
+      const [[{ data }]] = mockPrismaService.eventRevision.create.mock
+        .calls as [
+        [
+          {
+            data: {
+              version: number;
+              changedFields: string[];
+              snapshot: { occurrences: unknown[] };
+            };
+          },
+        ],
+      ];
+      expect(data.version).toBe(3);
+      expect(data.changedFields).toEqual(['occurrences']);
+      expect(data.snapshot.occurrences).toEqual([
+        {
+          originalStartDate: '2026-05-08T10:00:00.000Z',
+          title: null,
+          description: null,
+          location: 'Room 2',
+          startDate: '2026-05-08T11:00:00.000Z',
+          endDate: null,
+          cancelled: false,
+        },
+        {
+          originalStartDate: '2026-05-15T10:00:00.000Z',
+          title: null,
+          description: null,
+          location: null,
+          startDate: null,
+          endDate: null,
+          cancelled: true,
+        },
+      ]);
+    });
+  });
+
+  describe('diff', () => {
+    it('should compare two revisions field by field', async () => {
+      mockPrismaService.eventRevision.findUnique.mockImplementation(
+        ({ where }: { where: { eventId_version: { version: number } } }) =>
+          where.eventId_version.version === 1
+            ? revision(1, { status: EventStatus.REJECTED })
+            : revision(3, {
+                title: 'Test Event with Agenda',
+                status: EventStatus.SUBMITTED,
+              }),
+      );
+
+      const result = await service.diff(
+        mockEvent.id,
+        { from: 1, to: 3 },
+        mockUser,
+      );
+
+      expect(result.changes).toEqual([
+        {
+          field: 'title',
+          from: 'Test Event',
+          to: 'Test Event with Agenda',
+        },
+        {
+          field: 'status',
+          from: EventStatus.REJECTED,
+          to: EventStatus.SUBMITTED,
+        },
+      ]);
+    });
+
+    it('should compare with the latest revision by default', async () => {
+      mockPrismaService.eventRevision.findFirst.mockResolvedValue(revision(5));
+      mockPrismaService.eventRevision.findUnique.mockResolvedValue(revision(4));
+
+      const result = await service.diff(mockEvent.id, { from: 4 }, mockUser);
+
+      expect([result.from, result.to]).toEqual([4, 5]);
+      expect(result.changes).toEqual([]);
+    });
+
+    it('should throw NotFoundException for an unknown revision', async () => {
+      mockPrismaService.eventRevision.findFirst.mockResolvedValue(revision(2));
+      mockPrismaService.eventRevision.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.diff(mockEvent.id, { from: 7 }, mockUser),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findOne', () => {
+    it('should include the snapshot', async () => {
+      mockPrismaService.eventRevision.findUnique.mockResolvedValue(revision(1));
+
+      const result = await service.findOne(mockEvent.id, 1, mockUser);
+
+      expect(result.snapshot).toEqual(snapshot);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should deny members who cannot read the event', async () => {
+      await expect(
+        service.findAll(mockEvent.id, { ...mockUser, id: 'user-456' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
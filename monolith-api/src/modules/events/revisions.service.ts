@@ -0,0 +1,309 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  Event,
+  EventOccurrence,
+  EventRevision,
+  Prisma,
+  RevisionAction,
+} from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { PolicyUser, can } from '../../common/permissions';
+import {
+  EventSnapshotDto,
+  SnapshotField,
+  RevisionResponseDto,
+  QueryRevisionDiffDto,
+  RevisionDiffDto,
+  FieldChangeDto,
+} from './dto';
+
+// Fields kept in a revision, in the order diffs list them
+const SNAPSHOT_FIELDS: SnapshotField[] = [
+  'title',
+  'description',
+  'location',
+  'startDate',
+  'endDate',
+  'timeZone',
+  'allDay',
+  'capacity',
+  'roomId',
+  'categoryId',
+  'tags',
+  'recurrenceRule',
+  'exceptionDates',
+  'occurrences',
+  'status',
+  'rejectionReason',
+];
+
+const WITH_AUTHOR = {
+  author: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.EventRevisionInclude;
+
+type RevisionWithAuthor = Prisma.EventRevisionGetPayload<{
+  include: typeof WITH_AUTHOR;
+}>;
+
+/**
+ * History of an event: after every create, update and status change the
+ * event's fields, with the changes to single occurrences of a series, are
+ * stored as a numbered, immutable revision, so
+ * reviewers can see what changed, for example between a rejection and
+ * the resubmission. Whoever may read the event may read its history.
+ *
+ * Events from before revisions were kept start their history at their
+ * first change.
+ */
+@Injectable()
+export class RevisionsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record the event as it now is. Call inside the transaction that
+   * changed it: the event row stays locked until commit, so concurrent
+   * changes get consecutive versions. Updates that leave the kept fields
+   * as they were are not recorded.
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    event: Event,
+    action: RevisionAction,
+    authorId: string,
+    restoredFrom?: number,
+  ): Promise<void> {
+    const previous = await tx.eventRevision.findFirst({
+      where: { eventId: event.id },
+      orderBy: { version: 'desc' },
+    });
+    const occurrences = await tx.eventOccurrence.findMany({
+      where: { eventId: event.id },
+      orderBy: { originalStartDate: 'asc' },
+    });
+
+    const snapshot = snapshotOf(event, occurrences);
+    const changedFields = diffSnapshots(
+      previous ? snapshotFrom(previous) : {},
+      snapshot,
+    ).map((change) => change.field);
+
+    if (action === RevisionAction.UPDATED && changedFields.length === 0) {
+      return;
+    }
+
+    await tx.eventRevision.create({
+      data: {
+        eventId: event.id,
+        version: (previous?.version ?? 0) + 1,
+        action,
+        // Plain objects all the way down, as Prisma's JSON input expects
+        snapshot: {
+          ...snapshot,
+          occurrences: snapshot.occurrences.map((occurrence) => ({
+            ...occurrence,
+          })),
+        },
+        changedFields,
+        restoredFrom,
+        authorId,
+      },
+    });
+  }
+
+  /**
+   * The event's revisions, newest first, without their snapshots
+   */
+  async findAll(
+    eventId: string,
+    user: PolicyUser,
+  ): Promise<RevisionResponseDto[]> {
+    await this.findEvent(eventId, user);
+
+    const revisions = await this.prisma.eventRevision.findMany({
+      where: { eventId },
+      include: WITH_AUTHOR,
+      orderBy: { version: 'desc' },
+    });
+
+    return revisions.map((revision) => this.toResponse(revision));
+  }
+
+  async findOne(
+    eventId: string,
+    version: number,
+    user: PolicyUser,
+  ): Promise<RevisionResponseDto> {
+    await this.findEvent(eventId, user);
+    const revision = await this.findRevision(eventId, version);
+
+    return new RevisionResponseDto({
+      ...this.toResponse(revision),
+      snapshot: snapshotFrom(revision),
+    });
+  }
+
+  /**
+   * Field-level changes from one revision to another
+   */
+  async diff(
+    eventId: string,
+    query: QueryRevisionDiffDto,
+    user: PolicyUser,
+  ): Promise<RevisionDiffDto> {
+    await this.findEvent(eventId, user);
+
+    const to = query.to
+      ? await this.findRevision(eventId, query.to)
+      : await this.prisma.eventRevision.findFirst({
+          where: { eventId },
+          orderBy: { version: 'desc' },
+          include: WITH_AUTHOR,
+        });
+
+    if (!to) {
+      throw new NotFoundException('Revision not found');
+    }
+
+    const from = await this.findRevision(eventId, query.from);
+
+    return new RevisionDiffDto({
+      eventId,
+      from: from.version,
+      to: to.version,
+      changes: diffSnapshots(snapshotFrom(from), snapshotFrom(to)),
+    });
+  }
+
+  /**
+   * The snapshot of a revision, for restoring it. The caller checks
+   * access to the event.
+   */
+  async findSnapshot(
+    eventId: string,
+    version: number,
+  ): Promise<EventSnapshotDto> {
+    return snapshotFrom(await this.findRevision(eventId, version));
+  }
+
+  private async findEvent(eventId: string, user: PolicyUser): Promise<Event> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    // Check organization scoping
+    if (event.organizationId !== user.organizationId) {
+      throw new ForbiddenException('Access denied to this event');
+    }
+
+    if (!can(user, 'read', event)) {
+      throw new ForbiddenException(
+        'You do not have permission to view this event',
+      );
+    }
+
+    return event;
+  }
+
+  private async findRevision(
+    eventId: string,
+    version: number,
+  ): Promise<RevisionWithAuthor> {
+    const revision = await this.prisma.eventRevision.findUnique({
+      where: { eventId_version: { eventId, version } },
+      include: WITH_AUTHOR,
+    });
+
+    if (!revision) {
+      throw new NotFoundException('Revision not found');
+    }
+
+    return revision;
+  }
+
+  private toResponse(revision: RevisionWithAuthor): RevisionResponseDto {
+    return new RevisionResponseDto({
+      id: revision.id,
+      eventId: revision.eventId,
+      version: revision.version,
+      action: revision.action,
+      changedFields: revision.changedFields,
+      restoredFrom: revision.restoredFrom,
+      author: revision.author,
+      createdAt: revision.createdAt,
+    });
+  }
+}
+
+function snapshotOf(
+  event: Event,
+  occurrences: EventOccurrence[],
+): EventSnapshotDto {
+  return {
+    title: event.title,
+    description: event.description,
+    location: event.location,
+    startDate: event.startDate.toISOString(),
+    endDate: event.endDate.toISOString(),
+    timeZone: event.timeZone,
+    allDay: event.allDay,
+    capacity: event.capacity,
+    roomId: event.roomId,
+    categoryId: event.categoryId,
+    tags: event.tags,
+    recurrenceRule: event.recurrenceRule,
+    exceptionDates: event.exceptionDates.map((date) => date.toISOString()),
+    occurrences: occurrences.map((occurrence) => ({
+      originalStartDate: occurrence.originalStartDate.toISOString(),
+      title: occurrence.title,
+      description: occurrence.description,
+      location: occurrence.location,
+      startDate: occurrence.startDate?.toISOString() ?? null,
+      endDate: occurrence.endDate?.toISOString() ?? null,
+      cancelled: !!occurrence.cancelledAt,
+    })),
+    status: event.status,
+    rejectionReason: event.rejectionReason,
+  };
+}
+
+// Snapshots are only ever written by snapshotOf()
+function snapshotFrom(revision: EventRevision): EventSnapshotDto {
+  return revision.snapshot as unknown as EventSnapshotDto;
+}
+
+/**
+ * The fields whose values differ. Missing values and empty lists count
+ * as null, so a first revision lists only the fields that were set.
+ */
+function diffSnapshots(
+  from: Partial<EventSnapshotDto>,
+  to: Partial<EventSnapshotDto>,
+): FieldChangeDto[] {
+  const valueOf = (
+    snapshot: Partial<EventSnapshotDto>,
+    field: SnapshotField,
+  ) => {
+    const value = snapshot[field];
+    return value === undefined || (Array.isArray(value) && value.length === 0)
+      ? null
+      : value;
+  };
+
+  return SNAPSHOT_FIELDS.filter(
+    (field) =>
+      JSON.stringify(valueOf(from, field)) !==
+      JSON.stringify(valueOf(to, field)),
+  ).map((field) => ({
+    field,
+    from: valueOf(from, field),
+    to: valueOf(to, field),
+  }));
+}
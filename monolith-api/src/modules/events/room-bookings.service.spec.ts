@@ -0,0 +1,243 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { EventStatus } from '@prisma/client';
+import { RoomBookingsService } from './room-bookings.service';
+import { PrismaService } from '../../database/prisma.service';
+
+describe('RoomBookingsService', () => {
+  let service: RoomBookingsService;
+
+  const mockPrismaService = {
+    room: {
+      findFirst: jest.fn(),
+    },
+    event: {
+      findMany: jest.fn(),
+    },
+    eventOccurrence: {
+      findMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  };
+
+  const roomId = 'room-1';
+
+  const booking = (
+    id: string,
+    start: string,
+    end: string,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id,
+    title: 'Booking',
+    description: 'Room booking',
+    location: null,
+    startDate: new Date(start),
+    endDate: new Date(end),
+    timeZone: 'UTC',
+    allDay: false,
+    capacity: null,
+    roomId,
+    categoryId: null,
+    tags: [],
+    recurrenceRule: null,
+    exceptionDates: [],
+    recurrenceEnd: null,
+    sequence: 0,
+    status: EventStatus.SUBMITTED,
+    rejectionReason: null,
+    organizationId: 'org-1',
+    createdById: 'user-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    occurrences: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomBookingsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RoomBookingsService>(RoomBookingsService);
+
+    mockPrismaService.$queryRaw.mockResolvedValue([{ id: roomId }]);
+    mockPrismaService.eventOccurrence.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('assertRoom', () => {
+    it('should reject a room of another organization', async () => {
+      mockPrismaService.room.findFirst.mockResolvedValue(null);
+
+      await expect(service.assertRoom(roomId, 'org-2')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.room.findFirst).toHaveBeenCalledWith({
+        where: { id: roomId, venue: { organizationId: 'org-2' } },
+      });
+    });
+  });
+
+  describe('assertAvailable', () => {
+    const event = booking(
+      'event-1',
+      '2026-06-15T10:00:00Z',
+      '2026-06-15T11:00:00Z',
+    );
+
+    it('should allow back-to-back bookings', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([
+        booking('other', '2026-06-15T09:00:00Z', '2026-06-15T10:00:00Z'),
+        booking('later', '2026-06-15T11:00:00Z', '2026-06-15T12:00:00Z'),
+      ]);
+
+      await expect(
+        service.assertAvailable(mockPrismaService as never, event),
+      ).resolves.toBeUndefined();
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalled();
+    });
+
+    it('should reject an overlapping booking', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([
+        booking('other', '2026-06-15T10:30:00Z', '2026-06-15T12:00:00Z'),
+      ]);
+
+      await expect(
+        service.assertAvailable(mockPrismaService as never, event),
+      ).rejects.toThrow(
+        new ConflictException(
+          'The room is already booked from 2026-06-15T10:30:00.000Z to 2026-06-15T11:00:00.000Z',
+        ),
+      );
+    });
+
+    it('should only count other events that are not rejected', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([]);
+
+      await service.assertAvailable(mockPrismaService as never, event);
+
+      expect(mockPrismaService.event.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          roomId,
+          status: { not: EventStatus.REJECTED },
+          id: { not: event.id },
+        }),
+        include: { occurrences: true },
+      });
+    });
+
+    it('should check the occurrences of a series', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([
+        booking('other', '2026-06-29T10:15:00Z', '2026-06-29T10:45:00Z'),
+      ]);
+
+      await expect(
+        service.assertAvailable(mockPrismaService as never, {
+          ...event,
+          recurrenceRule: 'FREQ=WEEKLY;COUNT=4',
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should skip occurrences cancelled by an override', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([
+        booking('other', '2026-06-29T10:15:00Z', '2026-06-29T10:45:00Z'),
+      ]);
+      mockPrismaService.eventOccurrence.findMany.mockResolvedValue([
+        {
+          id: 'override-1',
+          eventId: event.id,
+          originalStartDate: new Date('2026-06-29T10:00:00Z'),
+          title: null,
+          description: null,
+          location: null,
+          startDate: null,
+          endDate: null,
+          cancelledAt: new Date(),
+          sequence: 0,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+
+      await expect(
+        service.assertAvailable(mockPrismaService as never, {
+          ...event,
+          recurrenceRule: 'FREQ=WEEKLY;COUNT=4',
+        }),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should not check rejected events or events without a room', async () => {
+      await service.assertAvailable(mockPrismaService as never, {
+        ...event,
+        status: EventStatus.REJECTED,
+      });
+      await service.assertAvailable(mockPrismaService as never, {
+        ...event,
+        roomId: null,
+      });
+
+      expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+      expect(mockPrismaService.event.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findFreeSlots', () => {
+    it('should return the gaps between bookings', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([
+        booking('b', '2026-06-15T13:00:00Z', '2026-06-15T14:00:00Z'),
+        booking('a', '2026-06-15T07:00:00Z', '2026-06-15T10:00:00Z'),
+        booking('c', '2026-06-15T13:30:00Z', '2026-06-15T15:00:00Z'),
+      ]);
+
+      const result = await service.findFreeSlots(
+        roomId,
+        new Date('2026-06-15T08:00:00Z'),
+        new Date('2026-06-15T18:00:00Z'),
+      );
+
+      expect(result).toEqual([
+        {
+          start: new Date('2026-06-15T10:00:00Z'),
+          end: new Date('2026-06-15T13:00:00Z'),
+        },
+        {
+          start: new Date('2026-06-15T15:00:00Z'),
+          end: new Date('2026-06-15T18:00:00Z'),
+        },
+      ]);
+    });
+
+    it('should count a series running into the range', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([
+        booking('series', '2026-06-01T22:00:00Z', '2026-06-02T02:00:00Z', {
+          recurrenceRule: 'FREQ=DAILY',
+        }),
+      ]);
+
+      const result = await service.findFreeSlots(
+        roomId,
+        new Date('2026-06-15T00:00:00Z'),
+        new Date('2026-06-16T00:00:00Z'),
+      );
+
+      expect(result).toEqual([
+        {
+          start: new Date('2026-06-15T02:00:00Z'),
+          end: new Date('2026-06-15T22:00:00Z'),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { Event, EventOccurrence, EventStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { expandSeries } from './recurrence';
+
+/**
+ * A span of time a room is booked or free
+ */
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * An event as a booking of its room, with the overrides of its
+ * occurrences when it is a series
+ */
+type RoomBooking = Event & { occurrences: EventOccurrence[] };
+
+/**
+ * Room bookings: every event in a room that is not rejected holds the
+ * room for its time, or for each of its occurrences when recurring.
+ * Open-ended series are checked as far as their expansion goes (see
+ * MAX_EXPANDED_OCCURRENCES).
+ */
+@Injectable()
+export class RoomBookingsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Check that the room exists in the organization
+   */
+  async assertRoom(roomId: string, organizationId: string): Promise<void> {
+    const room = await this.prisma.room.findFirst({
+      where: { id: roomId, venue: { organizationId } },
+    });
+
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+  }
+
+  /**
+   * Reject (409) an event overlapping another booking of its room. Locks
+   * the room first, so concurrent bookings are checked one at a time;
+   * call it in the transaction that writes the event, after the write.
+   */
+  async assertAvailable(
+    tx: Prisma.TransactionClient,
+    event: Event,
+  ): Promise<void> {
+    if (!event.roomId || event.status === EventStatus.REJECTED) {
+      return;
+    }
+
+    await this.lockRoom(tx, event.roomId);
+
+    const slots = bookedSlots({
+      ...event,
+      occurrences: event.recurrenceRule
+        ? await tx.eventOccurrence.findMany({ where: { eventId: event.id } })
+        : [],
+    });
+
+    if (slots.length === 0) {
+      return;
+    }
+
+    const others = await this.findBookings(
+      tx,
+      event.roomId,
+      slots[0].start,
+      new Date(Math.max(...slots.map((slot) => slot.end.getTime()))),
+      event.id,
+    );
+    const overlap = findOverlap(slots, others);
+
+    if (overlap) {
+      throw new ConflictException(
+        `The room is already booked from ${overlap.start.toISOString()} to ${overlap.end.toISOString()}`,
+      );
+    }
+  }
+
+  /**
+   * The spans between from and to in which the room is not booked
+   */
+  async findFreeSlots(
+    roomId: string,
+    from: Date,
+    to: Date,
+  ): Promise<TimeSlot[]> {
+    const booked = await this.findBookings(this.prisma, roomId, from, to);
+    const free: TimeSlot[] = [];
+    let cursor = from;
+
+    for (const slot of booked) {
+      if (slot.start > cursor) {
+        free.push({ start: cursor, end: slot.start < to ? slot.start : to });
+      }
+
+      if (slot.end > cursor) {
+        cursor = slot.end;
+      }
+    }
+
+    if (cursor < to) {
+      free.push({ start: cursor, end: to });
+    }
+
+    return free;
+  }
+
+  /**
+   * The room's bookings overlapping the range, sorted by start
+   */
+  private async findBookings(
+    client: Prisma.TransactionClient,
+    roomId: string,
+    from: Date,
+    to: Date,
+    excludeEventId?: string,
+  ): Promise<TimeSlot[]> {
+    const events = await client.event.findMany({
+      where: {
+        roomId,
+        status: { not: EventStatus.REJECTED },
+        ...(excludeEventId && { id: { not: excludeEventId } }),
+        startDate: { lt: to },
+        // Series are checked occurrence by occurrence
+        OR: [
+          { recurrenceRule: null, endDate: { gt: from } },
+          { recurrenceRule: { not: null } },
+        ],
+      },
+      include: { occurrences: true },
+    });
+
+    return events
+      .flatMap((event) => bookedSlots(event, from, to))
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  private async lockRoom(
+    tx: Prisma.TransactionClient,
+    roomId: string,
+  ): Promise<void> {
+    const [room] = await tx.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "rooms" WHERE "id" = ${roomId} FOR UPDATE
+    `;
+
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+  }
+}
+
+/**
+ * The spans the event holds its room for, within the range when one is
+ * given, sorted by start
+ */
+function bookedSlots(event: RoomBooking, from?: Date, to?: Date): TimeSlot[] {
+  const overlaps = (slot: TimeSlot) =>
+    (!from || slot.end > from) && (!to || slot.start < to);
+
+  if (!event.recurrenceRule) {
+    return [{ start: event.startDate, end: event.endDate }].filter(overlaps);
+  }
+
+  // Occurrences that start before the range may still run into it
+  const duration = Math.max(
+    event.endDate.getTime() - event.startDate.getTime(),
+    ...event.occurrences.map((override) =>
+      override.endDate
+        ? override.endDate.getTime() -
+          (override.startDate ?? override.originalStartDate).getTime()
+        : 0,
+    ),
+  );
+  const expandFrom = from && new Date(from.getTime() - duration);
+
+  return expandSeries(event, expandFrom, to)
+    .map((occurrence) => ({
+      start: occurrence.startDate,
+      end: occurrence.endDate,
+    }))
+    .filter(overlaps)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * The first span where two lists of slots (each sorted by start) overlap
+ */
+function findOverlap(a: TimeSlot[], b: TimeSlot[]): TimeSlot | null {
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i].start < b[j].end && b[j].start < a[i].end) {
+      return {
+        start: a[i].start > b[j].start ? a[i].start : b[j].start,
+        end: a[i].end < b[j].end ? a[i].end : b[j].end,
+      };
+    }
+
+    // Whichever ends first cannot overlap anything later in the other
+    if (a[i].end <= b[j].end) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return null;
+}
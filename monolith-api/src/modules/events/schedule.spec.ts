@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  assertSpan,
+  formatEnd,
+  formatStart,
+  parseEnd,
+  parseStart,
+} from './schedule';
+
+describe('schedule', () => {
+  const timed = { allDay: false, timeZone: 'Europe/London' };
+  const allDay = { allDay: true, timeZone: 'Europe/London' };
+
+  describe('timed events', () => {
+    it('should read and show local times in the zone', () => {
+      const start = parseStart('2026-06-15T09:00:00', timed);
+
+      expect(start).toEqual(new Date('2026-06-15T08:00:00Z'));
+      expect(parseEnd('2026-06-15T10:00:00', timed)).toEqual(
+        new Date('2026-06-15T09:00:00Z'),
+      );
+      expect(formatStart(start, timed)).toBe('2026-06-15T09:00:00+01:00');
+    });
+
+    it('should require the end after the start', () => {
+      const start = new Date('2026-06-15T09:00:00Z');
+
+      expect(() => assertSpan(start, start, timed)).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('all-day events', () => {
+    it('should read days as UTC midnights, the end after the last day', () => {
+      const start = parseStart('2026-06-15', allDay);
+      const end = parseEnd('2026-06-15', allDay);
+
+      expect(start).toEqual(new Date('2026-06-15T00:00:00Z'));
+      expect(end).toEqual(new Date('2026-06-16T00:00:00Z'));
+      expect(() => assertSpan(start, end, allDay)).not.toThrow();
+    });
+
+    it('should show the first and last day', () => {
+      expect(formatStart(new Date('2026-06-15T00:00:00Z'), allDay)).toBe(
+        '2026-06-15',
+      );
+      expect(formatEnd(new Date('2026-06-18T00:00:00Z'), allDay)).toBe(
+        '2026-06-17',
+      );
+    });
+
+    it('should reject a date with a time', () => {
+      expect(() => parseStart('2026-06-15T00:00:00Z', allDay)).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { BadRequestException } from '@nestjs/common';
+import { Event } from '@prisma/client';
+import { DEFAULT_TIME_ZONE, formatInZone, parseInZone } from './time-zone';
+
+/**
+ * How an event's dates are read and shown
+ */
+export type Schedule = Pick<Event, 'allDay' | 'timeZone'>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The zone the event's dates are in. All-day events are floating dates,
+ * kept as UTC midnights so they fall on the same day in every zone.
+ */
+export function scheduleZone(schedule: Schedule): string {
+  return schedule.allDay ? DEFAULT_TIME_ZONE : schedule.timeZone;
+}
+
+/**
+ * Read a start date-time, or for an all-day event the first day
+ * (YYYY-MM-DD). Occurrence and exception dates are read the same way.
+ */
+export function parseStart(value: string, schedule: Schedule): Date {
+  if (schedule.allDay && !DATE_ONLY.test(value)) {
+    throw new BadRequestException(
+      'All-day events take dates (YYYY-MM-DD) without a time',
+    );
+  }
+
+  return parseInZone(value, scheduleZone(schedule));
+}
+
+/**
+ * Read an end date-time, or for an all-day event the last day. That is
+ * stored as the midnight after it, like an iCalendar DTEND.
+ */
+export function parseEnd(value: string, schedule: Schedule): Date {
+  const date = parseStart(value, schedule);
+  return schedule.allDay ? new Date(date.getTime() + DAY) : date;
+}
+
+export function assertSpan(
+  startDate: Date,
+  endDate: Date,
+  schedule: Schedule,
+): void {
+  if (endDate > startDate) {
+    return;
+  }
+
+  throw new BadRequestException(
+    schedule.allDay
+      ? 'End date cannot be before start date'
+      : 'End date must be after start date',
+  );
+}
+
+/**
+ * The start as shown to clients: a local date-time with its offset, or
+ * the first day of an all-day event
+ */
+export function formatStart(date: Date, schedule: Schedule): string {
+  return schedule.allDay
+    ? date.toISOString().slice(0, 10)
+    : formatInZone(date, schedule.timeZone);
+}
+
+/**
+ * The end as shown to clients, the last day for an all-day event; the
+ * counterpart of parseEnd()
+ */
+export function formatEnd(date: Date, schedule: Schedule): string {
+  return schedule.allDay
+    ? new Date(date.getTime() - DAY).toISOString().slice(0, 10)
+    : formatInZone(date, schedule.timeZone);
+}
@@ -0,0 +1,18 @@
+import { normalizeTags } from './tags';
+
+describe('tags', () => {
+  describe('normalizeTags', () => {
+    it('should trim, lower-case and deduplicate tags', () => {
+      expect(normalizeTags([' AI ', 'ai', 'Web'])).toEqual(['ai', 'web']);
+    });
+
+    it('should split a comma-separated query value', () => {
+      expect(normalizeTags('ai,Web')).toEqual(['ai', 'web']);
+    });
+
+    it('should leave anything else to validation', () => {
+      expect(normalizeTags([1, 'ai'])).toEqual([1, 'ai']);
+      expect(normalizeTags(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Most tags an event can carry
+ */
+export const MAX_TAGS = 10;
+
+/**
+ * Longest tag, in characters
+ */
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Tags are free-form but compared case-insensitively, so they are kept
+ * trimmed and lower-case, without duplicates. Anything that is not a
+ * list of strings is left for validation to reject.
+ */
+export function normalizeTags(value: unknown): unknown {
+  if (typeof value === 'string') {
+    value = value.split(',');
+  }
+
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== 'string')) {
+    return value;
+  }
+
+  return [
+    ...new Set((value as string[]).map((tag) => tag.trim().toLowerCase())),
+  ];
+}
@@ -0,0 +1,130 @@
+import {
+  formatInZone,
+  fromWallClock,
+  moveToZone,
+  parseInZone,
+  toWallClock,
+  zoneOffset,
+  zoneTransitions,
+} from './time-zone';
+
+describe('time-zone', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  describe('zoneOffset', () => {
+    it('should follow daylight saving time', () => {
+      expect(
+        zoneOffset(new Date('2026-01-15T12:00:00Z'), 'Europe/London'),
+      ).toBe(0);
+      expect(
+        zoneOffset(new Date('2026-07-15T12:00:00Z'), 'Europe/London'),
+      ).toBe(HOUR);
+      expect(
+        zoneOffset(new Date('2026-07-15T12:00:00Z'), 'America/New_York'),
+      ).toBe(-4 * HOUR);
+    });
+
+    it('should handle offsets that are not whole hours', () => {
+      expect(zoneOffset(new Date('2026-07-15T12:00:00Z'), 'Asia/Kolkata')).toBe(
+        5.5 * HOUR,
+      );
+    });
+  });
+
+  describe('fromWallClock', () => {
+    it('should invert toWallClock', () => {
+      const date = new Date('2026-07-15T08:00:00Z');
+      const wallClock = toWallClock(date, 'Europe/London');
+
+      expect(wallClock).toEqual(new Date('2026-07-15T09:00:00Z'));
+      expect(fromWallClock(wallClock, 'Europe/London')).toEqual(date);
+    });
+
+    it('should take the first of a repeated local time', () => {
+      // 01:30 happens twice in London on 2026-10-25
+      expect(
+        fromWallClock(new Date('2026-10-25T01:30:00Z'), 'Europe/London'),
+      ).toEqual(new Date('2026-10-25T00:30:00Z'));
+    });
+
+    it('should move a skipped local time past the gap', () => {
+      // 01:30 does not happen in London on 2026-03-29
+      expect(
+        fromWallClock(new Date('2026-03-29T01:30:00Z'), 'Europe/London'),
+      ).toEqual(new Date('2026-03-29T01:30:00Z'));
+    });
+  });
+
+  describe('parseInZone', () => {
+    it('should take a date-time with an offset as it is', () => {
+      expect(parseInZone('2026-07-15T09:00:00+02:00', 'Europe/London')).toEqual(
+        new Date('2026-07-15T07:00:00Z'),
+      );
+      expect(parseInZone('2026-07-15T09:00:00Z', 'Europe/London')).toEqual(
+        new Date('2026-07-15T09:00:00Z'),
+      );
+    });
+
+    it('should read a date-time without an offset in the zone', () => {
+      expect(parseInZone('2026-07-15T09:00:00', 'Europe/London')).toEqual(
+        new Date('2026-07-15T08:00:00Z'),
+      );
+      expect(parseInZone('2026-07-15T09:00', 'UTC')).toEqual(
+        new Date('2026-07-15T09:00:00Z'),
+      );
+    });
+
+    it('should read a bare date as midnight in the zone', () => {
+      expect(parseInZone('2026-07-15', 'Asia/Tokyo')).toEqual(
+        new Date('2026-07-14T15:00:00Z'),
+      );
+    });
+  });
+
+  describe('formatInZone', () => {
+    it('should format the local time with its offset', () => {
+      const date = new Date('2026-07-15T08:00:00Z');
+
+      expect(formatInZone(date, 'Europe/London')).toBe(
+        '2026-07-15T09:00:00+01:00',
+      );
+      expect(formatInZone(date, 'America/St_Johns')).toBe(
+        '2026-07-15T05:30:00-02:30',
+      );
+      expect(formatInZone(date, 'UTC')).toBe('2026-07-15T08:00:00+00:00');
+    });
+  });
+
+  describe('moveToZone', () => {
+    it('should keep the local time', () => {
+      expect(
+        moveToZone(
+          new Date('2026-07-15T08:00:00Z'),
+          'Europe/London',
+          'America/New_York',
+        ),
+      ).toEqual(new Date('2026-07-15T13:00:00Z'));
+    });
+  });
+
+  describe('zoneTransitions', () => {
+    it('should find the daylight saving changes of a year', () => {
+      expect(zoneTransitions('Europe/London', 2026)).toEqual([
+        {
+          at: new Date('2026-03-29T01:00:00Z'),
+          offsetFrom: 0,
+          offsetTo: HOUR,
+        },
+        {
+          at: new Date('2026-10-25T01:00:00Z'),
+          offsetFrom: HOUR,
+          offsetTo: 0,
+        },
+      ]);
+    });
+
+    it('should find none in a zone without daylight saving time', () => {
+      expect(zoneTransitions('Asia/Tokyo', 2026)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Events without a zone of their own are scheduled in UTC
+ */
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A trailing Z or ±hh[:mm] on the time part
+const OFFSET = /(Z|[+-]\d{2}(:?\d{2})?)$/i;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+
+  return format;
+}
+
+/**
+ * Offset of the zone from UTC at that instant, in milliseconds
+ */
+export function zoneOffset(date: Date, timeZone: string): number {
+  if (timeZone === DEFAULT_TIME_ZONE) {
+    return 0;
+  }
+
+  const parts = Object.fromEntries(
+    formatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  const local = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+
+  return local - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * The local time in the zone at that instant, as a Date whose UTC fields
+ * hold it (a "floating" time, the way the recurrence rules are expanded)
+ */
+export function toWallClock(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + zoneOffset(date, timeZone));
+}
+
+/**
+ * The instant a floating local time stands for in the zone. A time that
+ * happens twice when the clocks go back is the first of the two; one
+ * skipped when they go forward is read with the offset from before the
+ * gap, so it lands that much later (as RFC 5545 does).
+ */
+export function fromWallClock(wallClock: Date, timeZone: string): Date {
+  const local = wallClock.getTime();
+  // Zones change their offset at most once within a day either side
+  const before = local - zoneOffset(new Date(local - DAY), timeZone);
+  const after = local - zoneOffset(new Date(local + DAY), timeZone);
+  const matches = [before, after].filter(
+    (instant) => toWallClock(new Date(instant), timeZone).getTime() === local,
+  );
+
+  return new Date(matches.length > 0 ? Math.min(...matches) : before);
+}
+
+/**
+ * The instant with the same local time in another zone, which is how an
+ * event keeps its wall-clock time when its zone changes
+ */
+export function moveToZone(date: Date, from: string, to: string): Date {
+  return from === to ? date : fromWallClock(toWallClock(date, from), to);
+}
+
+/**
+ * Parse an ISO 8601 date or date-time. One with an offset (or Z) is that
+ * instant; one without is a local time in the zone, and a bare date is
+ * its midnight there.
+ */
+export function parseInZone(value: string, timeZone: string): Date {
+  const [date, time] = value.split(/[T\s]/i);
+
+  if (time && OFFSET.test(time)) {
+    return new Date(value);
+  }
+
+  return fromWallClock(new Date(`${date}T${time ?? '00:00:00'}Z`), timeZone);
+}
+
+/**
+ * The instant as a local ISO 8601 date-time with the zone's offset,
+ * e.g. 2026-06-15T09:00:00+01:00
+ */
+export function formatInZone(date: Date, timeZone: string): string {
+  const offset = zoneOffset(date, timeZone) / 60000;
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+
+  return `${toWallClock(date, timeZone).toISOString().slice(0, 19)}${sign}${hours}:${minutes}`;
+}
+
+/**
+ * A change of the zone's offset: the instant it happens and the offsets
+ * (in milliseconds) before and after
+ */
+export interface ZoneTransition {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+/**
+ * The zone's offset changes during a calendar year, found by checking
+ * the offset daily and narrowing each change down to the minute
+ */
+export function zoneTransitions(
+  timeZone: string,
+  year: number,
+): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = zoneOffset(new Date(previous), timeZone);
+
+  for (let day = previous + DAY; day <= end; day += DAY) {
+    const offset = zoneOffset(new Date(day), timeZone);
+
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = day;
+
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+
+        if (zoneOffset(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+
+      transitions.push({
+        at: new Date(high),
+        offsetFrom: previousOffset,
+        offsetTo: offset,
+      });
+    }
+
+    previous = day;
+    previousOffset = offset;
+  }
+
+  return transitions;
+}
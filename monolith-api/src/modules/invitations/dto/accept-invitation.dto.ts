@@ -0,0 +1,53 @@
+import {
+  IsString,
+  MinLength,
+  MaxLength,
+  Matches,
+  IsNotEmpty,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AcceptInvitationDto {
+  @ApiProperty({
+    description: 'Invitation token from the invitation email',
+    example: 'b3f1c2...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    description:
+      'Password (min 8 chars, must contain uppercase, lowercase, number, and special char)',
+    example: 'Password123!',
+    minLength: 8,
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  @Matches(/((?=.*\d)|(?=.*\W+))(?![.\n])(?=.*[A-Z])(?=.*[a-z]).*$/, {
+    message:
+      'Password must contain uppercase, lowercase, number, and special character',
+  })
+  password: string;
+
+  @ApiProperty({
+    description: 'User first name',
+    example: 'Jane',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(2)
+  @MaxLength(50)
+  firstName: string;
+
+  @ApiProperty({
+    description: 'User last name',
+    example: 'Doe',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(2)
+  @MaxLength(50)
+  lastName: string;
+}
@@ -0,0 +1,22 @@
+import { IsEmail, IsNotEmpty, IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+export class CreateInvitationDto {
+  @ApiProperty({
+    description: 'Email address to invite',
+    example: 'jane.doe@example.com',
+  })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Role the user gets when accepting the invitation',
+    enum: UserRole,
+    default: UserRole.USER,
+  })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole = UserRole.USER;
+}
@@ -0,0 +1,4 @@
+export * from './create-invitation.dto';
+export * from './accept-invitation.dto';
+export * from './join-invitation.dto';
+export * from './invitation-response.dto';
@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+export enum InvitationStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  REVOKED = 'REVOKED',
+  EXPIRED = 'EXPIRED',
+}
+
+export class InvitationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  email: string;
+
+  @ApiProperty({ enum: UserRole })
+  role: UserRole;
+
+  @ApiProperty({ enum: InvitationStatus })
+  status: InvitationStatus;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  invitedById: string;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty({ required: false, nullable: true })
+  acceptedAt?: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  revokedAt?: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  constructor(partial: Partial<InvitationResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class JoinInvitationDto {
+  @ApiProperty({
+    description: 'Invitation token from the invitation email',
+    example: 'b3f1c2...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Ip,
+  Headers,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { InvitationsService } from './invitations.service';
+import {
+  CreateInvitationDto,
+  AcceptInvitationDto,
+  JoinInvitationDto,
+  InvitationResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Public } from '../../common/decorators/public.decorator';
+
+@ApiTags('invitations')
+@Controller('invitations')
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Invite a user to the organization by email' })
+  @ApiResponse({
+    status: 201,
+    description: 'Invitation created and emailed',
+    type: InvitationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  @ApiResponse({ status: 409, description: 'User is already a member' })
+  create(
+    @Body() createInvitationDto: CreateInvitationDto,
+    @CurrentUser('id') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<InvitationResponseDto> {
+    return this.invitationsService.create(
+      createInvitationDto,
+      organizationId,
+      userId,
+    );
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List invitations of the organization' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns invitations, newest first',
+    type: [InvitationResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  findAll(
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<InvitationResponseDto[]> {
+    return this.invitationsService.findAll(organizationId);
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  @ApiResponse({ status: 204, description: 'Invitation revoked' })
+  @ApiResponse({ status: 403, description: 'Forbidden - admin only' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  @ApiResponse({ status: 409, description: 'Invitation already accepted' })
+  revoke(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<void> {
+    return this.invitationsService.revoke(id, organizationId);
+  }
+
+  @Public()
+  @Post('accept')
+  @ApiOperation({ summary: 'Sign up by accepting an invitation' })
+  @ApiResponse({ status: 201, description: 'User successfully registered' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired invitation' })
+  @ApiResponse({ status: 409, description: 'User already exists' })
+  accept(
+    @Body() acceptInvitationDto: AcceptInvitationDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.invitationsService.accept(acceptInvitationDto, {
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  @Post('join')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Join another organization by accepting an invitation',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Joined; returns tokens for the new organization',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or expired invitation' })
+  @ApiResponse({
+    status: 403,
+    description: 'Invitation was sent to a different email',
+  })
+  join(
+    @Body() joinInvitationDto: JoinInvitationDto,
+    @CurrentUser('id') userId: string,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.invitationsService.join(joinInvitationDto, userId, {
+      ipAddress,
+      userAgent,
+    });
+  }
+}
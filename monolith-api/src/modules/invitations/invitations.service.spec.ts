@@ -0,0 +1,413 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { InvitationsService } from './invitations.service';
+import { InvitationStatus } from './dto';
+import { PrismaService } from '../../database/prisma.service';
+import { MailerService } from '../../common/mailer';
+import { TokenService } from '../auth/token.service';
+import { PasswordPolicyService } from '../auth/password-policy.service';
+import * as bcrypt from 'bcrypt';
+
+jest.mock('bcrypt');
+
+describe('InvitationsService', () => {
+  let service: InvitationsService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    membership: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    invitation: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockTokenService = {
+    issueTokens: jest.fn(),
+  };
+
+  const mockPasswordPolicyService = {
+    assertAcceptable: jest.fn(),
+  };
+
+  const mockMailerService = {
+    send: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+  };
+
+  const pendingInvitation = {
+    id: 'invitation-1',
+    email: 'invitee@example.com',
+    role: 'MODERATOR',
+    tokenHash: createHash('sha256').update('invite-token').digest('hex'),
+    organizationId: 'org-1',
+    invitedById: 'admin-1',
+    expiresAt: new Date(Date.now() + 60_000),
+    acceptedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: TokenService,
+          useValue: mockTokenService,
+        },
+        {
+          provide: PasswordPolicyService,
+          useValue: mockPasswordPolicyService,
+        },
+        {
+          provide: MailerService,
+          useValue: mockMailerService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<InvitationsService>(InvitationsService);
+
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof mockPrismaService) => Promise<unknown>) =>
+        callback(mockPrismaService),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store a hashed token and email the raw token', async () => {
+      mockPrismaService.membership.findFirst.mockResolvedValue(null);
+      mockPrismaService.invitation.create.mockResolvedValue({
+        ...pendingInvitation,
+        organization: { name: 'Acme' },
+        invitedBy: { firstName: 'Ada', lastName: 'Admin' },
+      });
+
+      const result = await service.create(
+        { email: pendingInvitation.email, role: 'MODERATOR' },
+        'org-1',
+        'admin-1',
+      );
+
+      const [[{ data }]] = mockPrismaService.invitation.create.mock.calls as [
+        [{ data: { tokenHash: string } }],
+      ];
+      const [[message]] = mockMailerService.send.mock.calls as [
+        [{ to: string; text: string }],
+      ];
+      const token = new URL(
+        message.text.match(/https?:\/\/\S+/)![0],
+      ).searchParams.get('token')!;
+
+      expect(message.to).toBe(pendingInvitation.email);
+      expect(data.tokenHash).toBe(
+        createHash('sha256').update(token).digest('hex'),
+      );
+      expect(result.status).toBe(InvitationStatus.PENDING);
+      expect(result).not.toHaveProperty('tokenHash');
+    });
+
+    it('should revoke earlier pending invitations for the same email', async () => {
+      mockPrismaService.membership.findFirst.mockResolvedValue(null);
+      mockPrismaService.invitation.create.mockResolvedValue({
+        ...pendingInvitation,
+        organization: { name: 'Acme' },
+        invitedBy: { firstName: 'Ada', lastName: 'Admin' },
+      });
+
+      await service.create(
+        { email: pendingInvitation.email, role: 'USER' },
+        'org-1',
+        'admin-1',
+      );
+
+      expect(mockPrismaService.invitation.updateMany).toHaveBeenCalledWith({
+        where: {
+          organizationId: 'org-1',
+          email: pendingInvitation.email,
+          acceptedAt: null,
+          revokedAt: null,
+        },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should throw ConflictException if the user is already a member', async () => {
+      mockPrismaService.membership.findFirst.mockResolvedValue({
+        id: 'membership-1',
+      });
+
+      await expect(
+        service.create(
+          { email: pendingInvitation.email, role: 'USER' },
+          'org-1',
+          'admin-1',
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.membership.findFirst).toHaveBeenCalledWith({
+        where: {
+          organizationId: 'org-1',
+          user: { email: pendingInvitation.email },
+        },
+      });
+      expect(mockPrismaService.invitation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should derive the status of each invitation', async () => {
+      mockPrismaService.invitation.findMany.mockResolvedValue([
+        pendingInvitation,
+        { ...pendingInvitation, id: 'invitation-2', acceptedAt: new Date() },
+        { ...pendingInvitation, id: 'invitation-3', revokedAt: new Date() },
+        {
+          ...pendingInvitation,
+          id: 'invitation-4',
+          expiresAt: new Date(Date.now() - 1000),
+        },
+      ]);
+
+      const result = await service.findAll('org-1');
+
+      expect(result.map((invitation) => invitation.status)).toEqual([
+        InvitationStatus.PENDING,
+        InvitationStatus.ACCEPTED,
+        InvitationStatus.REVOKED,
+        InvitationStatus.EXPIRED,
+      ]);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke a pending invitation', async () => {
+      mockPrismaService.invitation.findFirst.mockResolvedValue(
+        pendingInvitation,
+      );
+
+      await service.revoke('invitation-1', 'org-1');
+
+      expect(mockPrismaService.invitation.update).toHaveBeenCalledWith({
+        where: { id: 'invitation-1' },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should throw NotFoundException for other organizations', async () => {
+      mockPrismaService.invitation.findFirst.mockResolvedValue(null);
+
+      await expect(service.revoke('invitation-1', 'org-2')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw ConflictException if already accepted', async () => {
+      mockPrismaService.invitation.findFirst.mockResolvedValue({
+        ...pendingInvitation,
+        acceptedAt: new Date(),
+      });
+
+      await expect(service.revoke('invitation-1', 'org-1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('accept', () => {
+    const acceptDto = {
+      token: 'invite-token',
+      password: 'Password123!',
+      firstName: 'Ivy',
+      lastName: 'Invitee',
+    };
+
+    it('should create the user with a membership in the inviting organization', async () => {
+      const createdUser = {
+        id: 'user-2',
+        email: pendingInvitation.email,
+      };
+      mockPrismaService.invitation.findUnique.mockResolvedValue(
+        pendingInvitation,
+      );
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.invitation.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.user.create.mockResolvedValue(createdUser);
+      (bcrypt.hash as jest.Mock).mockResolvedValue('hashed-password');
+      mockTokenService.issueTokens.mockResolvedValue({
+        accessToken: 'jwt-token',
+        refreshToken: 'refresh-token',
+      });
+
+      const result = await service.accept(acceptDto);
+
+      expect(mockPrismaService.invitation.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: pendingInvitation.tokenHash },
+      });
+      expect(mockPrismaService.user.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            email: pendingInvitation.email,
+            emailVerifiedAt: expect.any(Date),
+            memberships: {
+              create: { organizationId: 'org-1', role: 'MODERATOR' },
+            },
+          }),
+        }),
+      );
+      expect(mockTokenService.issueTokens).toHaveBeenCalledWith(
+        createdUser,
+        'org-1',
+        {},
+      );
+      expect(result).toEqual({
+        user: { ...createdUser, role: 'MODERATOR', organizationId: 'org-1' },
+        accessToken: 'jwt-token',
+        refreshToken: 'refresh-token',
+      });
+    });
+
+    it("should enforce the inviting organization's password policy", async () => {
+      mockPrismaService.invitation.findUnique.mockResolvedValue(
+        pendingInvitation,
+      );
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPasswordPolicyService.assertAcceptable.mockRejectedValueOnce(
+        new BadRequestException([
+          'Password must be at least 12 characters long',
+        ]),
+      );
+
+      await expect(service.accept(acceptDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPasswordPolicyService.assertAcceptable).toHaveBeenCalledWith(
+        acceptDto.password,
+        ['org-1'],
+      );
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired invitation', async () => {
+      mockPrismaService.invitation.findUnique.mockResolvedValue({
+        ...pendingInvitation,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.accept(acceptDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject when a concurrent accept won the race', async () => {
+      mockPrismaService.invitation.findUnique.mockResolvedValue(
+        pendingInvitation,
+      );
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.invitation.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.accept(acceptDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should send existing users to the join flow', async () => {
+      mockPrismaService.invitation.findUnique.mockResolvedValue(
+        pendingInvitation,
+      );
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'user-2' });
+
+      await expect(service.accept(acceptDto)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('join', () => {
+    const existingUser = { id: 'user-2', email: pendingInvitation.email };
+
+    it('should add a membership and issue tokens for the new organization', async () => {
+      mockPrismaService.invitation.findUnique.mockResolvedValue(
+        pendingInvitation,
+      );
+      mockPrismaService.user.findUnique.mockResolvedValue(existingUser);
+      mockPrismaService.invitation.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.membership.create.mockResolvedValue({
+        userId: 'user-2',
+        organizationId: 'org-1',
+        role: 'MODERATOR',
+      });
+      mockTokenService.issueTokens.mockResolvedValue({
+        accessToken: 'jwt-token',
+        refreshToken: 'refresh-token',
+      });
+
+      const result = await service.join({ token: 'invite-token' }, 'user-2');
+
+      expect(mockPrismaService.membership.create).toHaveBeenCalledWith({
+        data: { userId: 'user-2', organizationId: 'org-1', role: 'MODERATOR' },
+      });
+      expect(mockTokenService.issueTokens).toHaveBeenCalledWith(
+        existingUser,
+        'org-1',
+        {},
+      );
+      expect(result).toEqual({
+        organizationId: 'org-1',
+        role: 'MODERATOR',
+        accessToken: 'jwt-token',
+        refreshToken: 'refresh-token',
+      });
+    });
+
+    it('should refuse invitations addressed to someone else', async () => {
+      mockPrismaService.invitation.findUnique.mockResolvedValue(
+        pendingInvitation,
+      );
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-3',
+        email: 'someone-else@example.com',
+      });
+
+      await expect(
+        service.join({ token: 'invite-token' }, 'user-3'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.membership.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Invitation, Prisma } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../../database/prisma.service';
+import { MailerService } from '../../common/mailer';
+import { TokenService, ClientContext } from '../auth/token.service';
+import { PasswordPolicyService } from '../auth/password-policy.service';
+import {
+  CreateInvitationDto,
+  AcceptInvitationDto,
+  JoinInvitationDto,
+  InvitationResponseDto,
+  InvitationStatus,
+} from './dto';
+
+/**
+ * Admin-issued invitations to join an organization. The raw token is only
+ * ever sent by email; the database stores its SHA-256 hash. New users
+ * accept by creating an account, existing users join while signed in.
+ */
+@Injectable()
+export class InvitationsService {
+  constructor(
+    private prisma: PrismaService,
+    private tokenService: TokenService,
+    private passwordPolicyService: PasswordPolicyService,
+    private mailer: MailerService,
+    private configService: ConfigService,
+  ) {}
+
+  async create(
+    createInvitationDto: CreateInvitationDto,
+    organizationId: string,
+    invitedById: string,
+  ): Promise<InvitationResponseDto> {
+    const { email, role } = createInvitationDto;
+
+    const existingMembership = await this.prisma.membership.findFirst({
+      where: { organizationId, user: { email } },
+    });
+
+    if (existingMembership) {
+      throw new ConflictException(
+        'User is already a member of this organization',
+      );
+    }
+
+    // Re-inviting an address replaces its pending invitation
+    await this.prisma.invitation.updateMany({
+      where: { organizationId, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    const token = randomBytes(32).toString('base64url');
+    const ttlDays = Number(
+      this.configService.get<string>('INVITATION_TTL_DAYS', '7'),
+    );
+
+    const invitation = await this.prisma.invitation.create({
+      data: {
+        email,
+        role,
+        tokenHash: this.hashToken(token),
+        organizationId,
+        invitedById,
+        expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+      },
+      include: {
+        organization: { select: { name: true } },
+        invitedBy: { select: { firstName: true, lastName: true } },
+      },
+    });
+
+    const baseUrl = this.configService.get<string>(
+      'app.frontendUrl',
+      'http://localhost:5173',
+    );
+
+    await this.mailer.send({
+      to: email,
+      subject: `You're invited to join ${invitation.organization.name} on EventBoard`,
+      text: [
+        'Hi,',
+        '',
+        `${invitation.invitedBy.firstName} ${invitation.invitedBy.lastName} invited you to join ${invitation.organization.name} on EventBoard.`,
+        'Accept the invitation by opening the link below:',
+        `${baseUrl}/accept-invitation?token=${encodeURIComponent(token)}`,
+        '',
+        `The invitation expires in ${ttlDays} days.`,
+      ].join('\n'),
+    });
+
+    return this.toResponse(invitation);
+  }
+
+  async findAll(organizationId: string): Promise<InvitationResponseDto[]> {
+    const invitations = await this.prisma.invitation.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map((invitation) => this.toResponse(invitation));
+  }
+
+  async revoke(id: string, organizationId: string): Promise<void> {
+    const invitation = await this.prisma.invitation.findFirst({
+      where: { id, organizationId },
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    if (invitation.acceptedAt) {
+      throw new ConflictException('Invitation has already been accepted');
+    }
+
+    if (!invitation.revokedAt) {
+      await this.prisma.invitation.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+    }
+  }
+
+  /**
+   * Create an account from an invitation. The user joins the inviting
+   * organization with the invited role; the email counts as verified
+   * because the token was delivered to that mailbox.
+   */
+  async accept(
+    acceptInvitationDto: AcceptInvitationDto,
+    context: ClientContext = {},
+  ) {
+    const invitation = await this.findPending(acceptInvitationDto.token);
+
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: invitation.email },
+    });
+
+    if (existingUser) {
+      throw new ConflictException(
+        'User with this email already exists; sign in to join the organization',
+      );
+    }
+
+    await this.passwordPolicyService.assertAcceptable(
+      acceptInvitationDto.password,
+      [invitation.organizationId],
+    );
+
+    const passwordHash = await bcrypt.hash(acceptInvitationDto.password, 10);
+
+    const user = await this.prisma.$transaction(async (tx) => {
+      await this.markAccepted(tx, invitation.id);
+
+      return tx.user.create({
+        data: {
+          email: invitation.email,
+          passwordHash,
+          firstName: acceptInvitationDto.firstName,
+          lastName: acceptInvitationDto.lastName,
+          emailVerifiedAt: new Date(),
+          memberships: {
+            create: {
+              organizationId: invitation.organizationId,
+              role: invitation.role,
+            },
+          },
+        },
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          emailVerifiedAt: true,
+          createdAt: true,
+        },
+      });
+    });
+
+    const tokens = await this.tokenService.issueTokens(
+      user,
+      invitation.organizationId,
+      context,
+    );
+
+    return {
+      user: {
+        ...user,
+        role: invitation.role,
+        organizationId: invitation.organizationId,
+      },
+      ...tokens,
+    };
+  }
+
+  /**
+   * Add a signed-in user to the inviting organization. The invitation
+   * must have been sent to the user's own address; the returned tokens
+   * are for the joined organization.
+   */
+  async join(
+    joinInvitationDto: JoinInvitationDto,
+    userId: string,
+    context: ClientContext = {},
+  ) {
+    const invitation = await this.findPending(joinInvitationDto.token);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+
+    if (!user || user.email !== invitation.email) {
+      throw new ForbiddenException(
+        'This invitation was sent to a different email address',
+      );
+    }
+
+    const membership = await this.prisma.$transaction(async (tx) => {
+      await this.markAccepted(tx, invitation.id);
+
+      return tx.membership.create({
+        data: {
+          userId: user.id,
+          organizationId: invitation.organizationId,
+          role: invitation.role,
+        },
+      });
+    });
+
+    const tokens = await this.tokenService.issueTokens(
+      user,
+      membership.organizationId,
+      context,
+    );
+
+    return {
+      organizationId: membership.organizationId,
+      role: membership.role,
+      ...tokens,
+    };
+  }
+
+  private async findPending(token: string): Promise<Invitation> {
+    const invitation = await this.prisma.invitation.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+
+    if (!invitation || this.statusOf(invitation) !== InvitationStatus.PENDING) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    return invitation;
+  }
+
+  private async markAccepted(
+    tx: Prisma.TransactionClient,
+    invitationId: string,
+  ): Promise<void> {
+    // Conditional update so two concurrent accepts cannot both succeed
+    const { count } = await tx.invitation.updateMany({
+      where: {
+        id: invitationId,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { acceptedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+  }
+
+  private statusOf(invitation: Invitation): InvitationStatus {
+    if (invitation.acceptedAt) {
+      return InvitationStatus.ACCEPTED;
+    }
+    if (invitation.revokedAt) {
+      return InvitationStatus.REVOKED;
+    }
+    if (invitation.expiresAt <= new Date()) {
+      return InvitationStatus.EXPIRED;
+    }
+    return InvitationStatus.PENDING;
+  }
+
+  private toResponse(invitation: Invitation): InvitationResponseDto {
+    return new InvitationResponseDto({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      status: this.statusOf(invitation),
+      organizationId: invitation.organizationId,
+      invitedById: invitation.invitedById,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: invitation.acceptedAt,
+      revokedAt: invitation.revokedAt,
+      createdAt: invitation.createdAt,
+    });
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,4 @@
+export * from './update-organization.dto';
+export * from './update-member-role.dto';
+export * from './transfer-ownership.dto';
+export * from './organization-response.dto';
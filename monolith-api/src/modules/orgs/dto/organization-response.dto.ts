@@ -0,0 +1,68 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+export class OrganizationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  slug: string;
+
+  @ApiProperty({ type: 'object', additionalProperties: true })
+  settings: Record<string, unknown>;
+
+  @ApiProperty({ required: false, nullable: true })
+  ownerId?: string | null;
+
+  @ApiProperty()
+  mfaRequired: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<OrganizationResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class MemberResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  email: string;
+
+  @ApiProperty()
+  firstName: string;
+
+  @ApiProperty()
+  lastName: string;
+
+  @ApiProperty({ enum: UserRole })
+  role: UserRole;
+
+  @ApiProperty({ required: false, nullable: true })
+  customRoleId?: string | null;
+
+  @ApiProperty()
+  isOwner: boolean;
+
+  @ApiProperty({ required: false, nullable: true })
+  emailVerifiedAt?: Date | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  deactivatedAt?: Date | null;
+
+  @ApiProperty({ description: 'When the user joined the organization' })
+  joinedAt: Date;
+
+  constructor(partial: Partial<MemberResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,23 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+export class UpdateMemberRoleDto {
+  @ApiProperty({
+    description: 'New role for the member',
+    enum: UserRole,
+    example: UserRole.MODERATOR,
+  })
+  @IsEnum(UserRole)
+  @IsNotEmpty()
+  role: UserRole;
+
+  @ApiPropertyOptional({
+    description:
+      "Custom role whose permissions replace the base role's; omit or null to clear",
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID()
+  customRoleId?: string | null;
+}
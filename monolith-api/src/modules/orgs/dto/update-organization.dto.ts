@@ -0,0 +1,42 @@
+import {
+  IsString,
+  IsOptional,
+  IsObject,
+  MinLength,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateOrganizationDto {
+  @ApiPropertyOptional({
+    description: 'Organization name',
+    example: 'Acme Corporation',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'URL-friendly unique identifier',
+    example: 'acme-corp',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug may only contain lowercase letters, numbers and hyphens',
+  })
+  slug?: string;
+
+  @ApiPropertyOptional({
+    description: 'Free-form organization settings; replaces existing settings',
+    example: { defaultEventLocation: 'Head office' },
+  })
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, unknown>;
+}
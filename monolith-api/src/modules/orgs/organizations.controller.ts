@@ -0,0 +1,210 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { OrganizationsService } from './organizations.service';
+import {
+  UpdateOrganizationDto,
+  UpdateMemberRoleDto,
+  TransferOwnershipDto,
+  OrganizationResponseDto,
+  MemberResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('organizations')
+@Controller('organizations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get organization details' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the organization',
+    type: OrganizationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<OrganizationResponseDto> {
+    return this.organizationsService.findOne(id, organizationId);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update organization name, slug or settings' })
+  @ApiResponse({
+    status: 200,
+    description: 'Organization updated successfully',
+    type: OrganizationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 409, description: 'Slug already in use' })
+  update(
+    @Param('id') id: string,
+    @Body() updateOrganizationDto: UpdateOrganizationDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<OrganizationResponseDto> {
+    return this.organizationsService.update(
+      id,
+      updateOrganizationDto,
+      organizationId,
+    );
+  }
+
+  @Get(':id/members')
+  @ApiOperation({ summary: 'List organization members' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns all members',
+    type: [MemberResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  findMembers(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<MemberResponseDto[]> {
+    return this.organizationsService.findMembers(id, organizationId);
+  }
+
+  @Patch(':id/members/:userId/role')
+  @ApiOperation({ summary: "Change a member's role" })
+  @ApiResponse({
+    status: 200,
+    description: 'Role updated successfully',
+    type: MemberResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  updateMemberRole(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Body() updateMemberRoleDto: UpdateMemberRoleDto,
+    @CurrentUser('organizationId') organizationId: string,
+    @CurrentUser('id') actorId: string,
+  ): Promise<MemberResponseDto> {
+    return this.organizationsService.updateMemberRole(
+      id,
+      userId,
+      updateMemberRoleDto.role,
+      organizationId,
+      actorId,
+      updateMemberRoleDto.customRoleId,
+    );
+  }
+
+  @Post(':id/members/:userId/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Deactivate a member and end their sessions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Member deactivated',
+    type: MemberResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  deactivateMember(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+    @CurrentUser('id') actorId: string,
+  ): Promise<MemberResponseDto> {
+    return this.organizationsService.deactivateMember(
+      id,
+      userId,
+      organizationId,
+      actorId,
+    );
+  }
+
+  @Post(':id/members/:userId/reactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reactivate a deactivated member' })
+  @ApiResponse({
+    status: 200,
+    description: 'Member reactivated',
+    type: MemberResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  reactivateMember(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+    @CurrentUser('id') actorId: string,
+  ): Promise<MemberResponseDto> {
+    return this.organizationsService.reactivateMember(
+      id,
+      userId,
+      organizationId,
+      actorId,
+    );
+  }
+
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a member from the organization' })
+  @ApiResponse({ status: 204, description: 'Member removed' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  removeMember(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @CurrentUser('organizationId') organizationId: string,
+    @CurrentUser('id') actorId: string,
+  ): Promise<void> {
+    return this.organizationsService.removeMember(
+      id,
+      userId,
+      organizationId,
+      actorId,
+    );
+  }
+
+  @Post(':id/transfer-ownership')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Transfer organization ownership to a member' })
+  @ApiResponse({
+    status: 200,
+    description: 'Ownership transferred',
+    type: OrganizationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Only the owner can transfer' })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  transferOwnership(
+    @Param('id') id: string,
+    @Body() transferOwnershipDto: TransferOwnershipDto,
+    @CurrentUser('organizationId') organizationId: string,
+    @CurrentUser('id') actorId: string,
+  ): Promise<OrganizationResponseDto> {
+    return this.organizationsService.transferOwnership(
+      id,
+      transferOwnershipDto.userId,
+      organizationId,
+      actorId,
+    );
+  }
+}
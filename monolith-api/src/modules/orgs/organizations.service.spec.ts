@@ -0,0 +1,388 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { OrganizationsService } from './organizations.service';
+import { PrismaService } from '../../database/prisma.service';
+import { TokenService } from '../auth/token.service';
+
+describe('OrganizationsService', () => {
+  let service: OrganizationsService;
+
+  const mockPrismaService = {
+    organization: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    membership: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    customRole: {
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockTokenService = {
+    revokeAllForUser: jest.fn(),
+  };
+
+  const organizationId = 'org-1';
+  const ownerId = 'owner-1';
+  const adminId = 'admin-2';
+
+  const organization = {
+    id: organizationId,
+    name: 'Acme',
+    slug: 'acme',
+    settings: {},
+    ownerId,
+    mfaRequired: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const memberId = 'member-1';
+
+  const membershipOf = (userId: string, overrides = {}) => ({
+    role: UserRole.USER,
+    customRoleId: null as string | null,
+    deactivatedAt: null as Date | null,
+    createdAt: new Date(),
+    user: {
+      id: userId,
+      email: `${userId}@acme.com`,
+      firstName: 'Mem',
+      lastName: 'Ber',
+      emailVerifiedAt: null,
+    },
+    ...overrides,
+  });
+
+  const member = membershipOf(memberId);
+
+  const memberKey = (userId: string) => ({
+    userId_organizationId: { userId, organizationId },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: TokenService,
+          useValue: mockTokenService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationsService>(OrganizationsService);
+
+    mockPrismaService.organization.findUnique.mockResolvedValue(organization);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findOne', () => {
+    it('should return the organization', async () => {
+      const result = await service.findOne(organizationId, organizationId);
+
+      expect(result.id).toBe(organizationId);
+      expect(result.settings).toEqual({});
+    });
+
+    it('should throw ForbiddenException for another organization', async () => {
+      await expect(service.findOne(organizationId, 'org-2')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should throw NotFoundException if organization does not exist', async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.findOne('missing', organizationId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should update name and settings', async () => {
+      mockPrismaService.organization.update.mockResolvedValue({
+        ...organization,
+        name: 'Acme Inc',
+        settings: { theme: 'dark' },
+      });
+
+      const result = await service.update(
+        organizationId,
+        { name: 'Acme Inc', settings: { theme: 'dark' } },
+        organizationId,
+      );
+
+      expect(mockPrismaService.organization.update).toHaveBeenCalledWith({
+        where: { id: organizationId },
+        data: { name: 'Acme Inc', settings: { theme: 'dark' } },
+      });
+      expect(result.settings).toEqual({ theme: 'dark' });
+    });
+
+    it('should throw ConflictException if the slug is taken', async () => {
+      mockPrismaService.organization.findUnique
+        .mockResolvedValueOnce(organization)
+        .mockResolvedValueOnce({ id: 'org-2', slug: 'taken' });
+
+      await expect(
+        service.update(organizationId, { slug: 'taken' }, organizationId),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.organization.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findMembers', () => {
+    it('should flag the owner among the members', async () => {
+      mockPrismaService.membership.findMany.mockResolvedValue([
+        membershipOf(ownerId, { role: UserRole.ADMIN }),
+        member,
+      ]);
+
+      const result = await service.findMembers(organizationId, organizationId);
+
+      expect(mockPrismaService.membership.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { organizationId } }),
+      );
+      expect(result.map((m) => m.id)).toEqual([ownerId, memberId]);
+      expect(result.map((m) => m.isOwner)).toEqual([true, false]);
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    it('should change the role of the membership', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(member);
+      mockPrismaService.membership.update.mockResolvedValue({
+        ...member,
+        role: UserRole.MODERATOR,
+      });
+
+      const result = await service.updateMemberRole(
+        organizationId,
+        memberId,
+        UserRole.MODERATOR,
+        organizationId,
+        adminId,
+      );
+
+      expect(mockPrismaService.membership.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: memberKey(memberId),
+          data: { role: UserRole.MODERATOR, customRoleId: null },
+        }),
+      );
+      expect(result.role).toBe(UserRole.MODERATOR);
+    });
+
+    it('should assign a custom role of the organization', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(member);
+      mockPrismaService.customRole.findUnique.mockResolvedValue({
+        id: 'role-1',
+        organizationId,
+      });
+      mockPrismaService.membership.update.mockResolvedValue({
+        ...member,
+        customRoleId: 'role-1',
+      });
+
+      const result = await service.updateMemberRole(
+        organizationId,
+        memberId,
+        UserRole.USER,
+        organizationId,
+        adminId,
+        'role-1',
+      );
+
+      expect(mockPrismaService.membership.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { role: UserRole.USER, customRoleId: 'role-1' },
+        }),
+      );
+      expect(result.customRoleId).toBe('role-1');
+    });
+
+    it('should reject custom roles of another organization', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(member);
+      mockPrismaService.customRole.findUnique.mockResolvedValue({
+        id: 'role-2',
+        organizationId: 'org-2',
+      });
+
+      await expect(
+        service.updateMemberRole(
+          organizationId,
+          memberId,
+          UserRole.USER,
+          organizationId,
+          adminId,
+          'role-2',
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.membership.update).not.toHaveBeenCalled();
+    });
+
+    it('should not allow admins to change their own role', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(
+        membershipOf(adminId, { role: UserRole.ADMIN }),
+      );
+
+      await expect(
+        service.updateMemberRole(
+          organizationId,
+          adminId,
+          UserRole.USER,
+          organizationId,
+          adminId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it("should not allow changing the owner's role", async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(
+        membershipOf(ownerId, { role: UserRole.ADMIN }),
+      );
+
+      await expect(
+        service.updateMemberRole(
+          organizationId,
+          ownerId,
+          UserRole.USER,
+          organizationId,
+          adminId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw NotFoundException for users outside the organization', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.updateMemberRole(
+          organizationId,
+          'stranger',
+          UserRole.USER,
+          organizationId,
+          adminId,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deactivateMember', () => {
+    it('should deactivate the membership and revoke its sessions', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(member);
+      mockPrismaService.membership.update.mockResolvedValue({
+        ...member,
+        deactivatedAt: new Date(),
+      });
+
+      const result = await service.deactivateMember(
+        organizationId,
+        memberId,
+        organizationId,
+        adminId,
+      );
+
+      expect(result.deactivatedAt).toBeInstanceOf(Date);
+      expect(mockTokenService.revokeAllForUser).toHaveBeenCalledWith(
+        memberId,
+        organizationId,
+      );
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should delete the membership but keep the user', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(member);
+
+      await service.removeMember(
+        organizationId,
+        memberId,
+        organizationId,
+        adminId,
+      );
+
+      expect(mockPrismaService.membership.delete).toHaveBeenCalledWith({
+        where: memberKey(memberId),
+      });
+      expect(mockTokenService.revokeAllForUser).toHaveBeenCalledWith(
+        memberId,
+        organizationId,
+      );
+    });
+  });
+
+  describe('transferOwnership', () => {
+    it('should make the new owner an admin', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(member);
+      mockPrismaService.$transaction.mockResolvedValue([
+        { ...organization, ownerId: memberId },
+        { ...member, role: UserRole.ADMIN },
+      ]);
+
+      const result = await service.transferOwnership(
+        organizationId,
+        memberId,
+        organizationId,
+        ownerId,
+      );
+
+      expect(mockPrismaService.organization.update).toHaveBeenCalledWith({
+        where: { id: organizationId },
+        data: { ownerId: memberId },
+      });
+      expect(mockPrismaService.membership.update).toHaveBeenCalledWith({
+        where: memberKey(memberId),
+        data: { role: UserRole.ADMIN },
+      });
+      expect(result.ownerId).toBe(memberId);
+    });
+
+    it('should only allow the current owner to transfer', async () => {
+      await expect(
+        service.transferOwnership(
+          organizationId,
+          memberId,
+          organizationId,
+          adminId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should refuse deactivated members', async () => {
+      mockPrismaService.membership.findUnique.mockResolvedValue(
+        membershipOf(memberId, { deactivatedAt: new Date() }),
+      );
+
+      await expect(
+        service.transferOwnership(
+          organizationId,
+          memberId,
+          organizationId,
+          ownerId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
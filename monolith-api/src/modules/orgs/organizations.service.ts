@@ -0,0 +1,336 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Organization, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { TokenService } from '../auth/token.service';
+import {
+  UpdateOrganizationDto,
+  OrganizationResponseDto,
+  MemberResponseDto,
+} from './dto';
+
+const MEMBER_SELECT = {
+  role: true,
+  customRoleId: true,
+  deactivatedAt: true,
+  createdAt: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      emailVerifiedAt: true,
+    },
+  },
+} satisfies Prisma.MembershipSelect;
+
+type Member = Prisma.MembershipGetPayload<{ select: typeof MEMBER_SELECT }>;
+
+@Injectable()
+export class OrganizationsService {
+  constructor(
+    private prisma: PrismaService,
+    private tokenService: TokenService,
+  ) {}
+
+  async findOne(
+    id: string,
+    organizationId: string,
+  ): Promise<OrganizationResponseDto> {
+    const organization = await this.findScoped(id, organizationId);
+    return this.toResponse(organization);
+  }
+
+  async update(
+    id: string,
+    updateOrganizationDto: UpdateOrganizationDto,
+    organizationId: string,
+  ): Promise<OrganizationResponseDto> {
+    const organization = await this.findScoped(id, organizationId);
+    const { name, slug, settings } = updateOrganizationDto;
+
+    if (slug && slug !== organization.slug) {
+      const existing = await this.prisma.organization.findUnique({
+        where: { slug },
+      });
+
+      if (existing) {
+        throw new ConflictException(
+          'Organization with this slug already exists',
+        );
+      }
+    }
+
+    const updated = await this.prisma.organization.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(slug && { slug }),
+        ...(settings && { settings: settings as Prisma.InputJsonObject }),
+      },
+    });
+
+    return this.toResponse(updated);
+  }
+
+  async findMembers(
+    id: string,
+    organizationId: string,
+  ): Promise<MemberResponseDto[]> {
+    const organization = await this.findScoped(id, organizationId);
+
+    const members = await this.prisma.membership.findMany({
+      where: { organizationId: id },
+      select: MEMBER_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return members.map((member) => this.toMember(member, organization));
+  }
+
+  async updateMemberRole(
+    id: string,
+    memberId: string,
+    role: UserRole,
+    organizationId: string,
+    actorId: string,
+    customRoleId?: string | null,
+  ): Promise<MemberResponseDto> {
+    const organization = await this.findScoped(id, organizationId);
+    await this.findManageableMember(organization, memberId, actorId);
+
+    if (customRoleId) {
+      const customRole = await this.prisma.customRole.findUnique({
+        where: { id: customRoleId },
+      });
+
+      if (!customRole || customRole.organizationId !== id) {
+        throw new NotFoundException('Role not found');
+      }
+    }
+
+    const updated = await this.prisma.membership.update({
+      where: this.membershipKey(id, memberId),
+      data: { role, customRoleId: customRoleId ?? null },
+      select: MEMBER_SELECT,
+    });
+
+    return this.toMember(updated, organization);
+  }
+
+  /**
+   * Block a member from acting in this organization and end their
+   * sessions here. Their memberships elsewhere are unaffected, and the
+   * membership and its events are kept so it can be reactivated.
+   */
+  async deactivateMember(
+    id: string,
+    memberId: string,
+    organizationId: string,
+    actorId: string,
+  ): Promise<MemberResponseDto> {
+    const organization = await this.findScoped(id, organizationId);
+    const member = await this.findManageableMember(
+      organization,
+      memberId,
+      actorId,
+    );
+
+    if (member.deactivatedAt) {
+      return this.toMember(member, organization);
+    }
+
+    const updated = await this.prisma.membership.update({
+      where: this.membershipKey(id, memberId),
+      data: { deactivatedAt: new Date() },
+      select: MEMBER_SELECT,
+    });
+
+    await this.tokenService.revokeAllForUser(memberId, id);
+
+    return this.toMember(updated, organization);
+  }
+
+  async reactivateMember(
+    id: string,
+    memberId: string,
+    organizationId: string,
+    actorId: string,
+  ): Promise<MemberResponseDto> {
+    const organization = await this.findScoped(id, organizationId);
+    await this.findManageableMember(organization, memberId, actorId);
+
+    const updated = await this.prisma.membership.update({
+      where: this.membershipKey(id, memberId),
+      data: { deactivatedAt: null },
+      select: MEMBER_SELECT,
+    });
+
+    return this.toMember(updated, organization);
+  }
+
+  /**
+   * Remove a member from the organization and end their sessions here.
+   * The user account and the events they created are kept.
+   */
+  async removeMember(
+    id: string,
+    memberId: string,
+    organizationId: string,
+    actorId: string,
+  ): Promise<void> {
+    const organization = await this.findScoped(id, organizationId);
+    await this.findManageableMember(organization, memberId, actorId);
+
+    await this.prisma.membership.delete({
+      where: this.membershipKey(id, memberId),
+    });
+
+    await this.tokenService.revokeAllForUser(memberId, id);
+  }
+
+  /**
+   * Hand the organization over to another active member, who is promoted
+   * to ADMIN. Only the current owner may do this; an organization without
+   * an owner can be assigned one by any admin.
+   */
+  async transferOwnership(
+    id: string,
+    newOwnerId: string,
+    organizationId: string,
+    actorId: string,
+  ): Promise<OrganizationResponseDto> {
+    const organization = await this.findScoped(id, organizationId);
+
+    if (organization.ownerId && organization.ownerId !== actorId) {
+      throw new ForbiddenException(
+        'Only the organization owner can transfer ownership',
+      );
+    }
+
+    if (organization.ownerId === newOwnerId) {
+      throw new BadRequestException('User already owns this organization');
+    }
+
+    const newOwner = await this.findMember(id, newOwnerId);
+
+    if (newOwner.deactivatedAt) {
+      throw new BadRequestException(
+        'Ownership cannot be transferred to a deactivated member',
+      );
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.organization.update({
+        where: { id },
+        data: { ownerId: newOwnerId },
+      }),
+      this.prisma.membership.update({
+        where: this.membershipKey(id, newOwnerId),
+        data: { role: UserRole.ADMIN },
+      }),
+    ]);
+
+    return this.toResponse(updated);
+  }
+
+  private async findScoped(
+    id: string,
+    organizationId: string,
+  ): Promise<Organization> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    // Check organization scoping
+    if (organization.id !== organizationId) {
+      throw new ForbiddenException('Access denied to this organization');
+    }
+
+    return organization;
+  }
+
+  private async findMember(
+    organizationId: string,
+    memberId: string,
+  ): Promise<Member> {
+    const member = await this.prisma.membership.findUnique({
+      where: this.membershipKey(organizationId, memberId),
+      select: MEMBER_SELECT,
+    });
+
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+
+    return member;
+  }
+
+  /**
+   * Admins cannot manage themselves (so an org always keeps an admin)
+   * or the owner (whose admin rights only change via ownership transfer)
+   */
+  private async findManageableMember(
+    organization: Organization,
+    memberId: string,
+    actorId: string,
+  ): Promise<Member> {
+    const member = await this.findMember(organization.id, memberId);
+
+    if (member.user.id === actorId) {
+      throw new ForbiddenException('You cannot change your own membership');
+    }
+
+    if (member.user.id === organization.ownerId) {
+      throw new ForbiddenException(
+        'The organization owner cannot be changed; transfer ownership first',
+      );
+    }
+
+    return member;
+  }
+
+  private membershipKey(
+    organizationId: string,
+    userId: string,
+  ): Prisma.MembershipWhereUniqueInput {
+    return { userId_organizationId: { userId, organizationId } };
+  }
+
+  private toResponse(organization: Organization): OrganizationResponseDto {
+    return new OrganizationResponseDto({
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      settings: (organization.settings ?? {}) as Record<string, unknown>,
+      ownerId: organization.ownerId,
+      mfaRequired: organization.mfaRequired,
+      createdAt: organization.createdAt,
+      updatedAt: organization.updatedAt,
+    });
+  }
+
+  private toMember(
+    member: Member,
+    organization: Organization,
+  ): MemberResponseDto {
+    return new MemberResponseDto({
+      ...member.user,
+      role: member.role,
+      customRoleId: member.customRoleId,
+      isOwner: member.user.id === organization.ownerId,
+      deactivatedAt: member.deactivatedAt,
+      joinedAt: member.createdAt,
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PERMISSIONS, Permission } from '../../../common/permissions';
+
+export class CreateCustomRoleDto {
+  @ApiProperty({
+    description: 'Role name, unique within the organization',
+    example: 'Event Reviewer',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(2)
+  @MaxLength(50)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'What the role is for',
+    example: 'Can review and approve events but not create them',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Permissions granted by the role',
+    enum: PERMISSIONS,
+    isArray: true,
+    example: ['event:read:any', 'event:approve', 'event:reject'],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(PERMISSIONS, { each: true })
+  permissions: Permission[];
+}
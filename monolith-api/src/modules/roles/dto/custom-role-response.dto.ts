@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { PERMISSIONS, Permission } from '../../../common/permissions';
+
+export class CustomRoleResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  description?: string | null;
+
+  @ApiProperty({ enum: PERMISSIONS, isArray: true })
+  permissions: Permission[];
+
+  @ApiProperty({ description: 'Number of members holding the role' })
+  memberCount: number;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<CustomRoleResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class PermissionCatalogDto {
+  @ApiProperty({ enum: PERMISSIONS, isArray: true })
+  permissions: Permission[];
+
+  @ApiProperty({
+    description: 'Permissions of the built-in roles',
+    example: { USER: ['event:create', 'event:read:own'] },
+  })
+  defaults: Record<UserRole, Permission[]>;
+
+  constructor(partial: Partial<PermissionCatalogDto>) {
+    Object.assign(this, partial);
+  }
+}
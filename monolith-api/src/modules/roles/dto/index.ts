@@ -0,0 +1,3 @@
+export * from './create-custom-role.dto';
+export * from './update-custom-role.dto';
+export * from './custom-role-response.dto';
@@ -0,0 +1,133 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { RolesService } from './roles.service';
+import {
+  CreateCustomRoleDto,
+  UpdateCustomRoleDto,
+  CustomRoleResponseDto,
+  PermissionCatalogDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('roles')
+@Controller('roles')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermission('role:manage')
+@ApiBearerAuth()
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @Get('permissions')
+  @ApiOperation({
+    summary: 'List available permissions and the built-in role defaults',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the permission catalog',
+    type: PermissionCatalogDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  getPermissionCatalog(): PermissionCatalogDto {
+    return this.rolesService.getPermissionCatalog();
+  }
+
+  @Get()
+  @ApiOperation({ summary: "List the organization's custom roles" })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the custom roles',
+    type: [CustomRoleResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  findAll(
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<CustomRoleResponseDto[]> {
+    return this.rolesService.findAll(organizationId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a custom role' })
+  @ApiResponse({
+    status: 201,
+    description: 'Role created successfully',
+    type: CustomRoleResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 409, description: 'Role name already in use' })
+  create(
+    @Body() createCustomRoleDto: CreateCustomRoleDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<CustomRoleResponseDto> {
+    return this.rolesService.create(createCustomRoleDto, organizationId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get custom role by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the role',
+    type: CustomRoleResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<CustomRoleResponseDto> {
+    return this.rolesService.findOne(id, organizationId);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a custom role' })
+  @ApiResponse({
+    status: 200,
+    description: 'Role updated successfully',
+    type: CustomRoleResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  @ApiResponse({ status: 409, description: 'Role name already in use' })
+  update(
+    @Param('id') id: string,
+    @Body() updateCustomRoleDto: UpdateCustomRoleDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<CustomRoleResponseDto> {
+    return this.rolesService.update(id, updateCustomRoleDto, organizationId);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a custom role; its members keep their base role',
+  })
+  @ApiResponse({ status: 204, description: 'Role deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  remove(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<void> {
+    return this.rolesService.remove(id, organizationId);
+  }
+}
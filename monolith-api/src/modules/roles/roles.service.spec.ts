@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { RolesService } from './roles.service';
+import { PrismaService } from '../../database/prisma.service';
+import { PERMISSIONS } from '../../common/permissions';
+
+describe('RolesService', () => {
+  let service: RolesService;
+
+  const mockPrismaService = {
+    customRole: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  const organizationId = 'org-1';
+
+  const customRole = {
+    id: 'role-1',
+    organizationId,
+    name: 'Reviewer',
+    description: null,
+    permissions: ['event:read:any', 'event:approve'],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    _count: { memberships: 2 },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RolesService>(RolesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getPermissionCatalog', () => {
+    it('should list every permission and give admins all of them', () => {
+      const result = service.getPermissionCatalog();
+
+      expect(result.permissions).toEqual([...PERMISSIONS]);
+      expect(result.defaults.ADMIN).toEqual([...PERMISSIONS]);
+      expect(result.defaults.MODERATOR).not.toContain('event:delete:any');
+    });
+  });
+
+  describe('create', () => {
+    it('should create the role in the organization', async () => {
+      mockPrismaService.customRole.findUnique.mockResolvedValue(null);
+      mockPrismaService.customRole.create.mockResolvedValue(customRole);
+
+      const result = await service.create(
+        { name: 'Reviewer', permissions: ['event:read:any', 'event:approve'] },
+        organizationId,
+      );
+
+      expect(mockPrismaService.customRole.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            name: 'Reviewer',
+            description: undefined,
+            permissions: ['event:read:any', 'event:approve'],
+            organizationId,
+          },
+        }),
+      );
+      expect(result.memberCount).toBe(2);
+    });
+
+    it('should throw ConflictException if the name is taken', async () => {
+      mockPrismaService.customRole.findUnique.mockResolvedValue(customRole);
+
+      await expect(
+        service.create({ name: 'Reviewer', permissions: [] }, organizationId),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.customRole.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should replace the permissions', async () => {
+      mockPrismaService.customRole.findUnique.mockResolvedValue(customRole);
+      mockPrismaService.customRole.update.mockResolvedValue({
+        ...customRole,
+        permissions: ['event:read:any'],
+      });
+
+      const result = await service.update(
+        customRole.id,
+        { permissions: ['event:read:any'] },
+        organizationId,
+      );
+
+      expect(mockPrismaService.customRole.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: customRole.id },
+          data: { permissions: ['event:read:any'] },
+        }),
+      );
+      expect(result.permissions).toEqual(['event:read:any']);
+    });
+
+    it('should throw ForbiddenException for roles of another organization', async () => {
+      mockPrismaService.customRole.findUnique.mockResolvedValue(customRole);
+
+      await expect(
+        service.update(customRole.id, { name: 'Other' }, 'org-2'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the role', async () => {
+      mockPrismaService.customRole.findUnique.mockResolvedValue(customRole);
+
+      await service.remove(customRole.id, organizationId);
+
+      expect(mockPrismaService.customRole.delete).toHaveBeenCalledWith({
+        where: { id: customRole.id },
+      });
+    });
+
+    it('should throw NotFoundException if the role does not exist', async () => {
+      mockPrismaService.customRole.findUnique.mockResolvedValue(null);
+
+      await expect(service.remove('missing', organizationId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { CustomRole, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  Permission,
+} from '../../common/permissions';
+import {
+  CreateCustomRoleDto,
+  UpdateCustomRoleDto,
+  CustomRoleResponseDto,
+  PermissionCatalogDto,
+} from './dto';
+
+const WITH_MEMBER_COUNT = {
+  _count: { select: { memberships: true } },
+} satisfies Prisma.CustomRoleInclude;
+
+type CustomRoleWithCount = CustomRole & { _count: { memberships: number } };
+
+@Injectable()
+export class RolesService {
+  constructor(private prisma: PrismaService) {}
+
+  getPermissionCatalog(): PermissionCatalogDto {
+    return new PermissionCatalogDto({
+      permissions: [...PERMISSIONS],
+      defaults: {
+        [UserRole.USER]: [...DEFAULT_ROLE_PERMISSIONS.USER],
+        [UserRole.MODERATOR]: [...DEFAULT_ROLE_PERMISSIONS.MODERATOR],
+        [UserRole.ADMIN]: [...DEFAULT_ROLE_PERMISSIONS.ADMIN],
+      },
+    });
+  }
+
+  async findAll(organizationId: string): Promise<CustomRoleResponseDto[]> {
+    const roles = await this.prisma.customRole.findMany({
+      where: { organizationId },
+      include: WITH_MEMBER_COUNT,
+      orderBy: { name: 'asc' },
+    });
+
+    return roles.map((role) => this.toResponse(role));
+  }
+
+  async findOne(
+    id: string,
+    organizationId: string,
+  ): Promise<CustomRoleResponseDto> {
+    const role = await this.findScoped(id, organizationId);
+    return this.toResponse(role);
+  }
+
+  async create(
+    createCustomRoleDto: CreateCustomRoleDto,
+    organizationId: string,
+  ): Promise<CustomRoleResponseDto> {
+    await this.assertNameAvailable(organizationId, createCustomRoleDto.name);
+
+    const role = await this.prisma.customRole.create({
+      data: {
+        name: createCustomRoleDto.name,
+        description: createCustomRoleDto.description,
+        permissions: createCustomRoleDto.permissions,
+        organizationId,
+      },
+      include: WITH_MEMBER_COUNT,
+    });
+
+    return this.toResponse(role);
+  }
+
+  /**
+   * Changes take effect on the next request of every member holding
+   * the role, since permissions are resolved per request
+   */
+  async update(
+    id: string,
+    updateCustomRoleDto: UpdateCustomRoleDto,
+    organizationId: string,
+  ): Promise<CustomRoleResponseDto> {
+    const role = await this.findScoped(id, organizationId);
+    const { name, description, permissions } = updateCustomRoleDto;
+
+    if (name && name !== role.name) {
+      await this.assertNameAvailable(organizationId, name);
+    }
+
+    const updated = await this.prisma.customRole.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(description !== undefined && { description }),
+        ...(permissions && { permissions }),
+      },
+      include: WITH_MEMBER_COUNT,
+    });
+
+    return this.toResponse(updated);
+  }
+
+  /**
+   * Members holding the role fall back to the permissions of their
+   * base role
+   */
+  async remove(id: string, organizationId: string): Promise<void> {
+    await this.findScoped(id, organizationId);
+
+    await this.prisma.customRole.delete({
+      where: { id },
+    });
+  }
+
+  private async findScoped(
+    id: string,
+    organizationId: string,
+  ): Promise<CustomRoleWithCount> {
+    const role = await this.prisma.customRole.findUnique({
+      where: { id },
+      include: WITH_MEMBER_COUNT,
+    });
+
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+
+    // Check organization scoping
+    if (role.organizationId !== organizationId) {
+      throw new ForbiddenException('Access denied to this role');
+    }
+
+    return role;
+  }
+
+  private async assertNameAvailable(
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.prisma.customRole.findUnique({
+      where: { organizationId_name: { organizationId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictException('A role with this name already exists');
+    }
+  }
+
+  private toResponse(role: CustomRoleWithCount): CustomRoleResponseDto {
+    return new CustomRoleResponseDto({
+      id: role.id,
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions as Permission[],
+      memberCount: role._count.memberships,
+      createdAt: role.createdAt,
+      updatedAt: role.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,3 @@
+export * from './upsert-sso-connection.dto';
+export * from './sso-connection-response.dto';
+export * from './sso-callback-query.dto';
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+export class SsoConnectionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  issuer: string;
+
+  @ApiProperty()
+  clientId: string;
+
+  @ApiProperty({ type: [String] })
+  allowedDomains: string[];
+
+  @ApiProperty({ enum: UserRole })
+  defaultRole: UserRole;
+
+  @ApiProperty()
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'Redirect URI to register with the identity provider',
+  })
+  redirectUri: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<SsoConnectionResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsFQDN,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+export class UpsertSsoConnectionDto {
+  @ApiProperty({
+    description: 'OpenID Connect issuer URL (discovery is used)',
+    example: 'https://login.acme.com',
+  })
+  @IsUrl({ require_tld: false, require_protocol: true })
+  @MaxLength(255)
+  issuer: string;
+
+  @ApiProperty({ example: 'eventboard' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  clientId: string;
+
+  @ApiProperty({ description: 'Stored encrypted, never returned' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  clientSecret: string;
+
+  @ApiProperty({
+    description: 'Email domains allowed to sign in through this connection',
+    example: ['acme.com'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsFQDN({}, { each: true })
+  allowedDomains: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Role given to members provisioned on first SSO login (never ADMIN)',
+    enum: [UserRole.USER, UserRole.MODERATOR],
+    default: UserRole.USER,
+  })
+  @IsOptional()
+  @IsIn([UserRole.USER, UserRole.MODERATOR])
+  defaultRole?: UserRole;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,230 @@
+import {
+  Injectable,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, createPublicKey, JsonWebKey } from 'crypto';
+
+const SUPPORTED_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+type SigningAlgorithm = (typeof SUPPORTED_ALGORITHMS)[number];
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+}
+
+export interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface CodeExchange {
+  code: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  codeVerifier: string;
+}
+
+interface JwksResponse {
+  keys: (JsonWebKey & { kid?: string })[];
+}
+
+/**
+ * Minimal OpenID Connect relying party: discovery, authorization code +
+ * PKCE (S256) and ID token verification against the provider's JWKS.
+ *
+ * Discovery documents and key sets are cached per process; the key set is
+ * refetched once when a token is signed with an unknown `kid`, so provider
+ * key rotation is picked up without a restart.
+ */
+@Injectable()
+export class OidcClientService {
+  private readonly metadataCache = new Map<string, OidcProviderMetadata>();
+  private readonly jwksCache = new Map<string, JwksResponse>();
+
+  constructor(private jwtService: JwtService) {}
+
+  async discover(issuer: string): Promise<OidcProviderMetadata> {
+    const cached = this.metadataCache.get(issuer);
+    if (cached) {
+      return cached;
+    }
+
+    const metadata = await this.fetchJson<OidcProviderMetadata>(
+      `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+    );
+
+    if (metadata.issuer !== issuer) {
+      throw new ServiceUnavailableException(
+        'Identity provider issuer does not match its configuration',
+      );
+    }
+
+    this.metadataCache.set(issuer, metadata);
+    return metadata;
+  }
+
+  buildAuthorizationUrl(
+    metadata: OidcProviderMetadata,
+    request: AuthorizationRequest,
+  ): string {
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      scope: 'openid email profile',
+      client_id: request.clientId,
+      redirect_uri: request.redirectUri,
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: this.codeChallenge(request.codeVerifier),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return url.toString();
+  }
+
+  /**
+   * Exchange an authorization code for tokens and return the verified
+   * ID token claims
+   */
+  async exchangeCode(
+    metadata: OidcProviderMetadata,
+    exchange: CodeExchange,
+    nonce: string,
+  ): Promise<IdTokenClaims> {
+    let response: Response;
+
+    try {
+      response = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code: exchange.code,
+          redirect_uri: exchange.redirectUri,
+          client_id: exchange.clientId,
+          client_secret: exchange.clientSecret,
+          code_verifier: exchange.codeVerifier,
+        }),
+      });
+    } catch {
+      throw new ServiceUnavailableException('Identity provider is unavailable');
+    }
+
+    const body = (await response.json().catch(() => ({}))) as {
+      id_token?: string;
+    };
+
+    if (!response.ok || !body.id_token) {
+      throw new UnauthorizedException('SSO login failed');
+    }
+
+    return this.verifyIdToken(
+      metadata,
+      body.id_token,
+      exchange.clientId,
+      nonce,
+    );
+  }
+
+  async verifyIdToken(
+    metadata: OidcProviderMetadata,
+    idToken: string,
+    clientId: string,
+    nonce: string,
+  ): Promise<IdTokenClaims> {
+    const decoded = this.jwtService.decode<{
+      header: { alg: string; kid?: string };
+    } | null>(idToken, { complete: true });
+    const algorithm = decoded?.header.alg as SigningAlgorithm | undefined;
+
+    if (!algorithm || !SUPPORTED_ALGORITHMS.includes(algorithm)) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    const publicKey = await this.findSigningKey(
+      metadata.jwks_uri,
+      decoded!.header.kid,
+    );
+
+    let claims: IdTokenClaims;
+    try {
+      claims = await this.jwtService.verifyAsync<IdTokenClaims>(idToken, {
+        publicKey,
+        algorithms: [algorithm],
+        issuer: metadata.issuer,
+        audience: clientId,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    return claims;
+  }
+
+  private async findSigningKey(
+    jwksUri: string,
+    kid: string | undefined,
+  ): Promise<string> {
+    const pick = (jwks: JwksResponse) =>
+      kid ? jwks.keys.find((key) => key.kid === kid) : jwks.keys[0];
+
+    let jwk = this.jwksCache.has(jwksUri)
+      ? pick(this.jwksCache.get(jwksUri)!)
+      : undefined;
+
+    if (!jwk) {
+      const jwks = await this.fetchJson<JwksResponse>(jwksUri);
+      this.jwksCache.set(jwksUri, jwks);
+      jwk = pick(jwks);
+    }
+
+    if (!jwk) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    return createPublicKey({ key: jwk, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+  }
+
+  private codeChallenge(codeVerifier: string): string {
+    return createHash('sha256').update(codeVerifier).digest('base64url');
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return (await response.json()) as T;
+    } catch {
+      throw new ServiceUnavailableException('Identity provider is unavailable');
+    }
+  }
+}
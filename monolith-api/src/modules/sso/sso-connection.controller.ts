@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { SsoService } from './sso.service';
+import { UpsertSsoConnectionDto, SsoConnectionResponseDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('organizations')
+@Controller('organizations/:id/sso')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class SsoConnectionController {
+  constructor(private readonly ssoService: SsoService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get the organization's SSO connection" })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the SSO connection (without the client secret)',
+    type: SsoConnectionResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'SSO connection not found' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<SsoConnectionResponseDto> {
+    return this.ssoService.getConnection(id, organizationId);
+  }
+
+  @Put()
+  @ApiOperation({ summary: 'Create or replace the OIDC SSO connection' })
+  @ApiResponse({
+    status: 200,
+    description: 'SSO connection saved',
+    type: SsoConnectionResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  upsert(
+    @Param('id') id: string,
+    @Body() upsertSsoConnectionDto: UpsertSsoConnectionDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<SsoConnectionResponseDto> {
+    return this.ssoService.upsertConnection(
+      id,
+      upsertSsoConnectionDto,
+      organizationId,
+    );
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove the SSO connection' })
+  @ApiResponse({ status: 204, description: 'SSO connection removed' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'SSO connection not found' })
+  remove(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<void> {
+    return this.ssoService.removeConnection(id, organizationId);
+  }
+}
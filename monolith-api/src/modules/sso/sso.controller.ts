@@ -0,0 +1,53 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Redirect,
+  Ip,
+  Headers,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SsoService } from './sso.service';
+import { SsoCallbackQueryDto } from './dto';
+import { Public } from '../../common/decorators/public.decorator';
+
+@ApiTags('auth')
+@Controller('auth/sso')
+export class SsoController {
+  constructor(private readonly ssoService: SsoService) {}
+
+  @Public()
+  @Get(':slug/authorize')
+  @Redirect()
+  @ApiOperation({
+    summary: "Redirect to the organization's identity provider to sign in",
+  })
+  @ApiResponse({
+    status: 302,
+    description: 'Redirect to the identity provider',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'SSO is not configured for this organization',
+  })
+  async authorize(@Param('slug') slug: string) {
+    return { url: await this.ssoService.startLogin(slug) };
+  }
+
+  @Public()
+  @Get('callback')
+  @ApiOperation({
+    summary: 'Complete an SSO login (redirect target of the identity provider)',
+  })
+  @ApiResponse({ status: 200, description: 'User successfully logged in' })
+  @ApiResponse({ status: 401, description: 'Invalid or expired SSO login' })
+  @ApiResponse({ status: 403, description: 'Email domain is not allowed' })
+  callback(
+    @Query() query: SsoCallbackQueryDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.ssoService.handleCallback(query, { ipAddress, userAgent });
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthModule } from '../auth/auth.module';
+import { SsoService } from './sso.service';
+import { OidcClientService } from './oidc-client.service';
+import { SsoController } from './sso.controller';
+import { SsoConnectionController } from './sso-connection.controller';
+
+@Module({
+  // ID tokens are verified with the provider's keys, never our own secret
+  imports: [AuthModule, JwtModule.register({})],
+  controllers: [SsoController, SsoConnectionController],
+  providers: [SsoService, OidcClientService],
+})
+export class SsoModule {}
@@ -0,0 +1,408 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserRole } from '@prisma/client';
+import { SsoService } from './sso.service';
+import { OidcClientService } from './oidc-client.service';
+import { AuthService } from '../auth/auth.service';
+import { PrismaService } from '../../database/prisma.service';
+
+describe('SsoService', () => {
+  let service: SsoService;
+
+  const mockPrismaService = {
+    ssoConnection: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    ssoLoginRequest: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    ssoIdentity: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    membership: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const metadata = {
+    issuer: 'https://idp.example.com',
+    authorization_endpoint: 'https://idp.example.com/authorize',
+    token_endpoint: 'https://idp.example.com/token',
+    jwks_uri: 'https://idp.example.com/jwks',
+  };
+
+  const mockOidcClient = {
+    discover: jest.fn(),
+    buildAuthorizationUrl: jest.fn(),
+    exchangeCode: jest.fn(),
+  };
+
+  const mockAuthService = {
+    completeSsoLogin: jest.fn(),
+  };
+
+  const organizationId = 'org-1';
+
+  const connection = {
+    id: 'conn-1',
+    organizationId,
+    issuer: metadata.issuer,
+    clientId: 'eventboard',
+    clientSecret: '',
+    allowedDomains: ['acme.com'],
+    defaultRole: UserRole.USER,
+    enabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const loginRequest = () => ({
+    id: 'req-1',
+    connectionId: connection.id,
+    state: 'state-1',
+    nonce: 'nonce-1',
+    codeVerifier: 'verifier-1',
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    createdAt: new Date(),
+    connection,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SsoService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: OidcClientService,
+          useValue: mockOidcClient,
+        },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback: unknown) => fallback),
+            getOrThrow: jest.fn((key: string) => `test-${key}`),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SsoService>(SsoService);
+
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof mockPrismaService) => Promise<unknown>) =>
+        callback(mockPrismaService),
+    );
+    mockPrismaService.ssoConnection.upsert.mockImplementation(
+      ({ create }: { create: typeof connection }) => ({
+        ...connection,
+        ...create,
+      }),
+    );
+    mockOidcClient.discover.mockResolvedValue(metadata);
+    mockAuthService.completeSsoLogin.mockResolvedValue({
+      accessToken: 'access-token',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const saveConnection = () =>
+    service.upsertConnection(
+      organizationId,
+      {
+        issuer: metadata.issuer,
+        clientId: 'eventboard',
+        clientSecret: 'client-secret',
+        allowedDomains: ['ACME.com'],
+      },
+      organizationId,
+    );
+
+  describe('configuration', () => {
+    it('should refuse to start without SSO_ENCRYPTION_KEY', () => {
+      expect(
+        () =>
+          new SsoService(
+            mockPrismaService as unknown as PrismaService,
+            mockOidcClient as unknown as OidcClientService,
+            mockAuthService as unknown as AuthService,
+            new ConfigService({}),
+          ),
+      ).toThrow('SSO_ENCRYPTION_KEY');
+    });
+  });
+
+  describe('upsertConnection', () => {
+    it('should store the client secret encrypted and never return it', async () => {
+      const result = await saveConnection();
+
+      const [[{ create }]] = mockPrismaService.ssoConnection.upsert.mock
+        .calls as [[{ create: typeof connection }]];
+      expect(create.clientSecret).not.toContain('client-secret');
+      expect(create.allowedDomains).toEqual(['acme.com']);
+      expect(result).not.toHaveProperty('clientSecret');
+      expect(result.redirectUri).toBe(
+        'http://localhost:3000/auth/sso/callback',
+      );
+    });
+
+    it('should deny configuring another organization', async () => {
+      await expect(
+        service.upsertConnection(
+          'other-org',
+          {
+            issuer: metadata.issuer,
+            clientId: 'eventboard',
+            clientSecret: 'client-secret',
+            allowedDomains: ['acme.com'],
+          },
+          organizationId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('startLogin', () => {
+    it('should throw NotFoundException when SSO is not configured', async () => {
+      mockPrismaService.ssoConnection.findFirst.mockResolvedValue(null);
+
+      await expect(service.startLogin('acme-corp')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should persist state, nonce and PKCE verifier for the callback', async () => {
+      mockPrismaService.ssoConnection.findFirst.mockResolvedValue(connection);
+      mockOidcClient.buildAuthorizationUrl.mockReturnValue(
+        'https://idp.example.com/authorize?state=x',
+      );
+
+      const url = await service.startLogin('acme-corp');
+
+      expect(url).toBe('https://idp.example.com/authorize?state=x');
+      const [[{ data }]] = mockPrismaService.ssoLoginRequest.create.mock
+        .calls as [[{ data: ReturnType<typeof loginRequest> }]];
+      expect(mockOidcClient.buildAuthorizationUrl).toHaveBeenCalledWith(
+        metadata,
+        {
+          clientId: 'eventboard',
+          redirectUri: 'http://localhost:3000/auth/sso/callback',
+          state: data.state,
+          nonce: data.nonce,
+          codeVerifier: data.codeVerifier,
+        },
+      );
+    });
+  });
+
+  describe('handleCallback', () => {
+    const claims = {
+      iss: metadata.issuer,
+      sub: 'idp-user-1',
+      aud: 'eventboard',
+      email: 'Jane.Doe@acme.com',
+      email_verified: true,
+      given_name: 'Jane',
+      family_name: 'Doe',
+    };
+
+    beforeEach(async () => {
+      await saveConnection();
+      const [[{ create }]] = mockPrismaService.ssoConnection.upsert.mock
+        .calls as [[{ create: typeof connection }]];
+
+      mockPrismaService.ssoLoginRequest.findUnique.mockResolvedValue({
+        ...loginRequest(),
+        connection: { ...connection, clientSecret: create.clientSecret },
+      });
+      mockPrismaService.ssoLoginRequest.deleteMany.mockResolvedValue({
+        count: 1,
+      });
+      mockOidcClient.exchangeCode.mockResolvedValue(claims);
+    });
+
+    it('should reject an unknown state', async () => {
+      mockPrismaService.ssoLoginRequest.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.handleCallback({ state: 'unknown', code: 'code' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a state that was already used', async () => {
+      mockPrismaService.ssoLoginRequest.deleteMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        service.handleCallback({ state: 'state-1', code: 'code' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockOidcClient.exchangeCode).not.toHaveBeenCalled();
+    });
+
+    it('should exchange the code with the decrypted secret and PKCE verifier', async () => {
+      mockPrismaService.ssoIdentity.findUnique.mockResolvedValue({
+        id: 'identity-1',
+        userId: 'user-1',
+      });
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        id: 'membership-1',
+      });
+
+      const result = await service.handleCallback(
+        { state: 'state-1', code: 'code' },
+        { ipAddress: '127.0.0.1' },
+      );
+
+      expect(mockOidcClient.exchangeCode).toHaveBeenCalledWith(
+        metadata,
+        {
+          code: 'code',
+          clientId: 'eventboard',
+          clientSecret: 'client-secret',
+          redirectUri: 'http://localhost:3000/auth/sso/callback',
+          codeVerifier: 'verifier-1',
+        },
+        'nonce-1',
+      );
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+      expect(mockAuthService.completeSsoLogin).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ id: connection.id, organizationId }),
+        { ipAddress: '127.0.0.1' },
+      );
+      expect(result).toEqual({ accessToken: 'access-token' });
+    });
+
+    it('should provision an unknown user just in time without a password', async () => {
+      mockPrismaService.ssoIdentity.findUnique.mockResolvedValue(null);
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.user.create.mockResolvedValue({ id: 'new-user' });
+      mockPrismaService.membership.findUnique.mockResolvedValue(null);
+
+      await service.handleCallback({ state: 'state-1', code: 'code' });
+
+      expect(mockPrismaService.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: 'jane.doe@acme.com',
+          firstName: 'Jane',
+          lastName: 'Doe',
+          passwordHash: null,
+        }),
+      });
+      expect(mockPrismaService.ssoIdentity.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          connectionId: connection.id,
+          userId: 'new-user',
+          subject: 'idp-user-1',
+        }),
+      });
+      expect(mockPrismaService.membership.create).toHaveBeenCalledWith({
+        data: { userId: 'new-user', organizationId, role: UserRole.USER },
+      });
+    });
+
+    it('should link an existing member with the same email', async () => {
+      mockPrismaService.ssoIdentity.findUnique.mockResolvedValue(null);
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'existing-user',
+        memberships: [{ id: 'membership-1', organizationId }],
+      });
+      mockPrismaService.membership.findUnique.mockResolvedValue({
+        id: 'membership-1',
+      });
+
+      await service.handleCallback({ state: 'state-1', code: 'code' });
+
+      expect(mockPrismaService.user.findUnique).toHaveBeenCalledWith({
+        where: { email: 'jane.doe@acme.com' },
+        include: { memberships: { where: { organizationId } } },
+      });
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.membership.create).not.toHaveBeenCalled();
+      expect(mockAuthService.completeSsoLogin).toHaveBeenCalledWith(
+        'existing-user',
+        expect.objectContaining({ id: connection.id, organizationId }),
+        {},
+      );
+    });
+
+    it('should not link an account that only belongs to another organization', async () => {
+      mockPrismaService.ssoIdentity.findUnique.mockResolvedValue(null);
+      // The victim belongs to other organizations only
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'victim',
+        memberships: [],
+      });
+
+      await expect(
+        service.handleCallback({ state: 'state-1', code: 'code' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.ssoIdentity.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.membership.create).not.toHaveBeenCalled();
+      expect(mockAuthService.completeSsoLogin).not.toHaveBeenCalled();
+    });
+
+    it('should reject email domains that are not allowed', async () => {
+      mockOidcClient.exchangeCode.mockResolvedValue({
+        ...claims,
+        email: 'jane@example.com',
+      });
+
+      await expect(
+        service.handleCallback({ state: 'state-1', code: 'code' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockAuthService.completeSsoLogin).not.toHaveBeenCalled();
+    });
+
+    it('should reject unverified emails', async () => {
+      mockOidcClient.exchangeCode.mockResolvedValue({
+        ...claims,
+        email_verified: false,
+      });
+
+      await expect(
+        service.handleCallback({ state: 'state-1', code: 'code' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject emails the identity provider does not mark verified', async () => {
+      mockOidcClient.exchangeCode.mockResolvedValue({
+        ...claims,
+        email_verified: undefined,
+      });
+
+      await expect(
+        service.handleCallback({ state: 'state-1', code: 'code' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockAuthService.completeSsoLogin).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SsoConnection, UserRole } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { encryptSecret, decryptSecret } from '../../common/crypto';
+import { AuthService } from '../auth/auth.service';
+import { ClientContext } from '../auth/token.service';
+import { OidcClientService, IdTokenClaims } from './oidc-client.service';
+import {
+  UpsertSsoConnectionDto,
+  SsoConnectionResponseDto,
+  SsoCallbackQueryDto,
+} from './dto';
+
+const LOGIN_REQUEST_TTL_MINUTES = 10;
+
+/**
+ * Per-organization OpenID Connect single sign-on.
+ *
+ * Login uses the authorization code flow with PKCE. Each attempt is a
+ * single-use SsoLoginRequest row keyed by `state`, holding the nonce and
+ * code verifier. On callback the user is matched by IdP subject, then by
+ * the email of an existing member; unknown users are provisioned just in
+ * time without a password. Tokens are issued through AuthService like any
+ * other login, for a session confined to the connection's organization.
+ */
+@Injectable()
+export class SsoService {
+  // IdP client secrets are encrypted under SSO_ENCRYPTION_KEY, which is
+  // required
+  private readonly encryptionKey: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private oidcClient: OidcClientService,
+    private authService: AuthService,
+    private configService: ConfigService,
+  ) {
+    this.encryptionKey = configService.getOrThrow<string>('SSO_ENCRYPTION_KEY');
+  }
+
+  async getConnection(
+    id: string,
+    organizationId: string,
+  ): Promise<SsoConnectionResponseDto> {
+    this.assertOrganization(id, organizationId);
+
+    const connection = await this.prisma.ssoConnection.findUnique({
+      where: { organizationId: id },
+    });
+
+    if (!connection) {
+      throw new NotFoundException('SSO connection not found');
+    }
+
+    return this.toResponse(connection);
+  }
+
+  async upsertConnection(
+    id: string,
+    upsertSsoConnectionDto: UpsertSsoConnectionDto,
+    organizationId: string,
+  ): Promise<SsoConnectionResponseDto> {
+    this.assertOrganization(id, organizationId);
+
+    const data = {
+      issuer: upsertSsoConnectionDto.issuer,
+      clientId: upsertSsoConnectionDto.clientId,
+      clientSecret: this.encrypt(upsertSsoConnectionDto.clientSecret),
+      allowedDomains: upsertSsoConnectionDto.allowedDomains.map((domain) =>
+        domain.toLowerCase(),
+      ),
+      defaultRole: upsertSsoConnectionDto.defaultRole ?? UserRole.USER,
+      enabled: upsertSsoConnectionDto.enabled ?? true,
+    };
+
+    const connection = await this.prisma.ssoConnection.upsert({
+      where: { organizationId: id },
+      create: { organizationId: id, ...data },
+      update: data,
+    });
+
+    return this.toResponse(connection);
+  }
+
+  async removeConnection(id: string, organizationId: string): Promise<void> {
+    this.assertOrganization(id, organizationId);
+
+    const { count } = await this.prisma.ssoConnection.deleteMany({
+      where: { organizationId: id },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('SSO connection not found');
+    }
+  }
+
+  /**
+   * Start a login for the organization with the given slug and return
+   * the identity provider URL to redirect the browser to
+   */
+  async startLogin(slug: string): Promise<string> {
+    const connection = await this.prisma.ssoConnection.findFirst({
+      where: { organization: { slug }, enabled: true },
+    });
+
+    if (!connection) {
+      throw new NotFoundException(
+        'SSO is not configured for this organization',
+      );
+    }
+
+    const metadata = await this.oidcClient.discover(connection.issuer);
+
+    const state = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+
+    // Abandoned attempts are cleaned up lazily
+    await this.prisma.ssoLoginRequest.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    await this.prisma.ssoLoginRequest.create({
+      data: {
+        connectionId: connection.id,
+        state,
+        nonce,
+        codeVerifier,
+        expiresAt: new Date(Date.now() + LOGIN_REQUEST_TTL_MINUTES * 60 * 1000),
+      },
+    });
+
+    return this.oidcClient.buildAuthorizationUrl(metadata, {
+      clientId: connection.clientId,
+      redirectUri: this.redirectUri(),
+      state,
+      nonce,
+      codeVerifier,
+    });
+  }
+
+  async handleCallback(
+    query: SsoCallbackQueryDto,
+    context: ClientContext = {},
+  ) {
+    const loginRequest = await this.prisma.ssoLoginRequest.findUnique({
+      where: { state: query.state },
+      include: { connection: true },
+    });
+
+    if (!loginRequest) {
+      throw new UnauthorizedException('Invalid or expired SSO login');
+    }
+
+    // Single use, even when the login fails below
+    const { count } = await this.prisma.ssoLoginRequest.deleteMany({
+      where: { id: loginRequest.id },
+    });
+
+    if (count === 0 || loginRequest.expiresAt < new Date()) {
+      throw new UnauthorizedException('Invalid or expired SSO login');
+    }
+
+    if (query.error || !query.code) {
+      throw new UnauthorizedException(
+        `SSO login failed: ${query.error ?? 'no authorization code'}`,
+      );
+    }
+
+    const { connection } = loginRequest;
+
+    if (!connection.enabled) {
+      throw new UnauthorizedException(
+        'SSO is not configured for this organization',
+      );
+    }
+
+    const metadata = await this.oidcClient.discover(connection.issuer);
+    const claims = await this.oidcClient.exchangeCode(
+      metadata,
+      {
+        code: query.code,
+        clientId: connection.clientId,
+        clientSecret: this.decrypt(connection.clientSecret),
+        redirectUri: this.redirectUri(),
+        codeVerifier: loginRequest.codeVerifier,
+      },
+      loginRequest.nonce,
+    );
+
+    const email = this.allowedEmail(claims, connection);
+    const userId = await this.provisionUser(connection, claims, email);
+
+    return this.authService.completeSsoLogin(userId, connection, context);
+  }
+
+  private allowedEmail(
+    claims: IdTokenClaims,
+    connection: SsoConnection,
+  ): string {
+    if (!claims.email || claims.email_verified !== true) {
+      throw new UnauthorizedException(
+        'Identity provider did not return a verified email',
+      );
+    }
+
+    const email = claims.email.toLowerCase();
+    const domain = email.split('@').pop();
+
+    if (!domain || !connection.allowedDomains.includes(domain)) {
+      throw new ForbiddenException(
+        'Email domain is not allowed for this organization',
+      );
+    }
+
+    return email;
+  }
+
+  /**
+   * Find the user linked to the IdP subject, otherwise link the account
+   * with the same email or create one, and make sure they are a member
+   * of the connection's organization. Deactivated memberships are left
+   * alone so that completing the login is refused.
+   *
+   * An existing account is only linked if it already belongs to the
+   * organization: nothing proves the organization owns its allowed
+   * domains, so its identity provider may not claim anyone else.
+   */
+  private async provisionUser(
+    connection: SsoConnection,
+    claims: IdTokenClaims,
+    email: string,
+  ): Promise<string> {
+    return this.prisma.$transaction(async (tx) => {
+      const identity = await tx.ssoIdentity.findUnique({
+        where: {
+          connectionId_subject: {
+            connectionId: connection.id,
+            subject: claims.sub,
+          },
+        },
+      });
+
+      let userId: string;
+
+      if (identity) {
+        userId = identity.userId;
+        await tx.ssoIdentity.update({
+          where: { id: identity.id },
+          data: { email, lastLoginAt: new Date() },
+        });
+      } else {
+        const existing = await tx.user.findUnique({
+          where: { email },
+          include: {
+            memberships: {
+              where: { organizationId: connection.organizationId },
+            },
+          },
+        });
+
+        if (existing && existing.memberships.length === 0) {
+          throw new ForbiddenException(
+            'An account with this email already exists. Sign in with it and ask to be invited to this organization.',
+          );
+        }
+
+        const user =
+          existing ??
+          (await tx.user.create({
+            data: {
+              email,
+              ...this.nameFromClaims(claims, email),
+              passwordHash: null,
+              emailVerifiedAt: new Date(),
+            },
+          }));
+
+        userId = user.id;
+        await tx.ssoIdentity.create({
+          data: {
+            connectionId: connection.id,
+            userId,
+            subject: claims.sub,
+            email,
+            lastLoginAt: new Date(),
+          },
+        });
+      }
+
+      const membership = await tx.membership.findUnique({
+        where: {
+          userId_organizationId: {
+            userId,
+            organizationId: connection.organizationId,
+          },
+        },
+      });
+
+      if (!membership) {
+        await tx.membership.create({
+          data: {
+            userId,
+            organizationId: connection.organizationId,
+            role: connection.defaultRole,
+          },
+        });
+      }
+
+      return userId;
+    });
+  }
+
+  private nameFromClaims(claims: IdTokenClaims, email: string) {
+    if (claims.given_name) {
+      return {
+        firstName: claims.given_name,
+        lastName: claims.family_name ?? '',
+      };
+    }
+
+    const [firstName, ...rest] = (claims.name ?? email.split('@')[0]).split(
+      ' ',
+    );
+    return { firstName, lastName: rest.join(' ') };
+  }
+
+  private assertOrganization(id: string, organizationId: string): void {
+    if (id !== organizationId) {
+      throw new ForbiddenException('Access denied to this organization');
+    }
+  }
+
+  private redirectUri(): string {
+    const apiUrl = this.configService.get<string>(
+      'app.apiUrl',
+      'http://localhost:3000',
+    );
+    return `${apiUrl}/auth/sso/callback`;
+  }
+
+  private toResponse(connection: SsoConnection): SsoConnectionResponseDto {
+    return new SsoConnectionResponseDto({
+      id: connection.id,
+      organizationId: connection.organizationId,
+      issuer: connection.issuer,
+      clientId: connection.clientId,
+      allowedDomains: connection.allowedDomains,
+      defaultRole: connection.defaultRole,
+      enabled: connection.enabled,
+      redirectUri: this.redirectUri(),
+      createdAt: connection.createdAt,
+      updatedAt: connection.updatedAt,
+    });
+  }
+
+  private encrypt(plaintext: string): string {
+    return encryptSecret(plaintext, this.encryptionKey);
+  }
+
+  private decrypt(encrypted: string): string {
+    return decryptSecret(encrypted, this.encryptionKey);
+  }
+}
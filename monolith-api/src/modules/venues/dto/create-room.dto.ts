@@ -0,0 +1,47 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateRoomDto {
+  @ApiProperty({
+    description: 'Room name, unique within the venue',
+    example: 'Board Room',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of people the room seats; null when unknown',
+    example: 12,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'What the room is equipped with',
+    example: ['projector', 'whiteboard'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  amenities?: string[];
+}
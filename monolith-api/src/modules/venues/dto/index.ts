@@ -0,0 +1,6 @@
+export * from './create-venue.dto';
+export * from './update-venue.dto';
+export * from './create-room.dto';
+export * from './update-room.dto';
+export * from './venue-response.dto';
+export * from './room-availability.dto';
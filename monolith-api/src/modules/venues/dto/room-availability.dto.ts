@@ -0,0 +1,59 @@
+import { IsDateString, IsOptional, IsTimeZone } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RoomAvailabilityQueryDto {
+  @ApiProperty({
+    description:
+      'Start of the range (ISO 8601). Without an offset it is a local time in timeZone.',
+    example: '2026-06-15T08:00:00',
+  })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({
+    description:
+      'End of the range (ISO 8601), at most 31 days after from. Without an offset it is a local time in timeZone.',
+    example: '2026-06-15T18:00:00',
+  })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({
+    description: 'IANA time zone from and to are read in',
+    example: 'Europe/London',
+    default: 'UTC',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timeZone?: string;
+}
+
+export class TimeSlotDto {
+  @ApiProperty()
+  start: Date;
+
+  @ApiProperty()
+  end: Date;
+}
+
+export class RoomAvailabilityDto {
+  @ApiProperty()
+  roomId: string;
+
+  @ApiProperty()
+  from: Date;
+
+  @ApiProperty()
+  to: Date;
+
+  @ApiProperty({
+    type: [TimeSlotDto],
+    description:
+      'Spans within the range when no event that is not rejected holds the room',
+  })
+  freeSlots: TimeSlotDto[];
+
+  constructor(partial: Partial<RoomAvailabilityDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateVenueDto } from './create-venue.dto';
+
+export class UpdateVenueDto extends PartialType(CreateVenueDto) {}
@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RoomResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  venueId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  capacity?: number | null;
+
+  @ApiProperty({ type: [String] })
+  amenities: string[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<RoomResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
+
+export class VenueResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  address?: string | null;
+
+  @ApiProperty({ type: [RoomResponseDto] })
+  rooms: RoomResponseDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(partial: Partial<VenueResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
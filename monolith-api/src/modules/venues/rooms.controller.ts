@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { VenuesService } from './venues.service';
+import {
+  UpdateRoomDto,
+  RoomResponseDto,
+  RoomAvailabilityQueryDto,
+  RoomAvailabilityDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('venues')
+@Controller('rooms')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class RoomsController {
+  constructor(private readonly venuesService: VenuesService) {}
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get room by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the room',
+    type: RoomResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<RoomResponseDto> {
+    return this.venuesService.findRoom(id, organizationId);
+  }
+
+  @Get(':id/availability')
+  @ApiOperation({
+    summary: 'List the free slots of a room over a range of up to 31 days',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the free slots',
+    type: RoomAvailabilityDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid range' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  getAvailability(
+    @Param('id') id: string,
+    @Query() query: RoomAvailabilityQueryDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<RoomAvailabilityDto> {
+    return this.venuesService.getAvailability(id, query, organizationId);
+  }
+
+  @Patch(':id')
+  @RequirePermission('venue:manage')
+  @ApiOperation({ summary: 'Update a room' })
+  @ApiResponse({
+    status: 200,
+    description: 'Room updated successfully',
+    type: RoomResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  @ApiResponse({ status: 409, description: 'Room name already in use' })
+  update(
+    @Param('id') id: string,
+    @Body() updateRoomDto: UpdateRoomDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<RoomResponseDto> {
+    return this.venuesService.updateRoom(id, updateRoomDto, organizationId);
+  }
+
+  @Delete(':id')
+  @RequirePermission('venue:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a room; booked events lose their room' })
+  @ApiResponse({ status: 204, description: 'Room deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  remove(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<void> {
+    return this.venuesService.removeRoom(id, organizationId);
+  }
+}
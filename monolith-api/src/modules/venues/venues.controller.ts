@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { VenuesService } from './venues.service';
+import {
+  CreateVenueDto,
+  UpdateVenueDto,
+  CreateRoomDto,
+  VenueResponseDto,
+  RoomResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('venues')
+@Controller('venues')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class VenuesController {
+  constructor(private readonly venuesService: VenuesService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List the organization's venues and their rooms" })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the venues',
+    type: [VenueResponseDto],
+  })
+  findAll(
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<VenueResponseDto[]> {
+    return this.venuesService.findAll(organizationId);
+  }
+
+  @Post()
+  @RequirePermission('venue:manage')
+  @ApiOperation({ summary: 'Create a venue' })
+  @ApiResponse({
+    status: 201,
+    description: 'Venue created successfully',
+    type: VenueResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 409, description: 'Venue name already in use' })
+  create(
+    @Body() createVenueDto: CreateVenueDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<VenueResponseDto> {
+    return this.venuesService.create(createVenueDto, organizationId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get venue by ID, with its rooms' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the venue',
+    type: VenueResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Venue not found' })
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<VenueResponseDto> {
+    return this.venuesService.findOne(id, organizationId);
+  }
+
+  @Patch(':id')
+  @RequirePermission('venue:manage')
+  @ApiOperation({ summary: 'Update a venue' })
+  @ApiResponse({
+    status: 200,
+    description: 'Venue updated successfully',
+    type: VenueResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Venue not found' })
+  @ApiResponse({ status: 409, description: 'Venue name already in use' })
+  update(
+    @Param('id') id: string,
+    @Body() updateVenueDto: UpdateVenueDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<VenueResponseDto> {
+    return this.venuesService.update(id, updateVenueDto, organizationId);
+  }
+
+  @Delete(':id')
+  @RequirePermission('venue:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a venue and its rooms; booked events lose their room',
+  })
+  @ApiResponse({ status: 204, description: 'Venue deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Venue not found' })
+  remove(
+    @Param('id') id: string,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<void> {
+    return this.venuesService.remove(id, organizationId);
+  }
+
+  @Post(':id/rooms')
+  @RequirePermission('venue:manage')
+  @ApiOperation({ summary: 'Add a room to a venue' })
+  @ApiResponse({
+    status: 201,
+    description: 'Room created successfully',
+    type: RoomResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Venue not found' })
+  @ApiResponse({ status: 409, description: 'Room name already in use' })
+  createRoom(
+    @Param('id') id: string,
+    @Body() createRoomDto: CreateRoomDto,
+    @CurrentUser('organizationId') organizationId: string,
+  ): Promise<RoomResponseDto> {
+    return this.venuesService.createRoom(id, createRoomDto, organizationId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { VenuesService } from './venues.service';
+import { VenuesController } from './venues.controller';
+import { RoomsController } from './rooms.controller';
+import { EventsModule } from '../events/events.module';
+
+@Module({
+  imports: [EventsModule],
+  controllers: [VenuesController, RoomsController],
+  providers: [VenuesService],
+})
+export class VenuesModule {}
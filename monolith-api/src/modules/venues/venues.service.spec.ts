@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { VenuesService } from './venues.service';
+import { PrismaService } from '../../database/prisma.service';
+import { RoomBookingsService } from '../events/room-bookings.service';
+
+describe('VenuesService', () => {
+  let service: VenuesService;
+
+  const mockPrismaService = {
+    venue: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    room: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  const mockRoomBookingsService = {
+    findFreeSlots: jest.fn(),
+  };
+
+  const organizationId = 'org-1';
+
+  const venue = {
+    id: 'venue-1',
+    organizationId,
+    name: 'Head Office',
+    address: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    rooms: [],
+  };
+
+  const room = {
+    id: 'room-1',
+    venueId: venue.id,
+    name: 'Board Room',
+    capacity: 12,
+    amenities: ['projector'],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    venue,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VenuesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: RoomBookingsService,
+          useValue: mockRoomBookingsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<VenuesService>(VenuesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create the venue in the organization', async () => {
+      mockPrismaService.venue.findUnique.mockResolvedValue(null);
+      mockPrismaService.venue.create.mockResolvedValue(venue);
+
+      const result = await service.create({ name: venue.name }, organizationId);
+
+      expect(mockPrismaService.venue.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { name: venue.name, address: undefined, organizationId },
+        }),
+      );
+      expect(result.rooms).toEqual([]);
+    });
+
+    it('should reject a name already in use', async () => {
+      mockPrismaService.venue.findUnique.mockResolvedValue(venue);
+
+      await expect(
+        service.create({ name: venue.name }, organizationId),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.venue.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException for an unknown venue', async () => {
+      mockPrismaService.venue.findUnique.mockResolvedValue(null);
+
+      await expect(service.findOne('missing', organizationId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should deny access to another organization', async () => {
+      mockPrismaService.venue.findUnique.mockResolvedValue(venue);
+
+      await expect(service.findOne(venue.id, 'org-2')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('createRoom', () => {
+    it('should add the room to the venue', async () => {
+      mockPrismaService.venue.findUnique.mockResolvedValue(venue);
+      mockPrismaService.room.findUnique.mockResolvedValue(null);
+      mockPrismaService.room.create.mockResolvedValue(room);
+
+      const result = await service.createRoom(
+        venue.id,
+        { name: room.name, capacity: 12 },
+        organizationId,
+      );
+
+      expect(mockPrismaService.room.create).toHaveBeenCalledWith({
+        data: {
+          name: room.name,
+          capacity: 12,
+          amenities: [],
+          venueId: venue.id,
+        },
+      });
+      expect(result).not.toHaveProperty('venue');
+    });
+  });
+
+  describe('findRoom', () => {
+    it('should deny access to a room of another organization', async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue({
+        ...room,
+        venue: { ...venue, organizationId: 'org-2' },
+      });
+
+      await expect(service.findRoom(room.id, organizationId)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('getAvailability', () => {
+    beforeEach(() => {
+      mockPrismaService.room.findUnique.mockResolvedValue(room);
+    });
+
+    it('should read the range in the given time zone', async () => {
+      mockRoomBookingsService.findFreeSlots.mockResolvedValue([]);
+
+      const result = await service.getAvailability(
+        room.id,
+        {
+          from: '2026-06-15T09:00:00',
+          to: '2026-06-15T17:00:00',
+          timeZone: 'Europe/London',
+        },
+        organizationId,
+      );
+
+      expect(mockRoomBookingsService.findFreeSlots).toHaveBeenCalledWith(
+        room.id,
+        new Date('2026-06-15T08:00:00Z'),
+        new Date('2026-06-15T16:00:00Z'),
+      );
+      expect(result.roomId).toBe(room.id);
+    });
+
+    it.each([
+      ['an empty range', '2026-06-15T09:00:00Z', '2026-06-15T09:00:00Z'],
+      ['a range over 31 days', '2026-06-01T00:00:00Z', '2026-07-03T00:00:00Z'],
+    ])('should reject %s', async (_case, from, to) => {
+      await expect(
+        service.getAvailability(room.id, { from, to }, organizationId),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRoomBookingsService.findFreeSlots).not.toHaveBeenCalled();
+    });
+  });
+});
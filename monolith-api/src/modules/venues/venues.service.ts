@@ -0,0 +1,293 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma, Room, Venue } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { RoomBookingsService } from '../events/room-bookings.service';
+import { DEFAULT_TIME_ZONE, parseInZone } from '../events/time-zone';
+import {
+  CreateVenueDto,
+  UpdateVenueDto,
+  CreateRoomDto,
+  UpdateRoomDto,
+  VenueResponseDto,
+  RoomResponseDto,
+  RoomAvailabilityQueryDto,
+  RoomAvailabilityDto,
+} from './dto';
+
+// Longest range the availability of a room can be asked for
+const MAX_AVAILABILITY_DAYS = 31;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const WITH_ROOMS = {
+  rooms: { orderBy: { name: 'asc' } },
+} satisfies Prisma.VenueInclude;
+
+type VenueWithRooms = Venue & { rooms: Room[] };
+
+@Injectable()
+export class VenuesService {
+  constructor(
+    private prisma: PrismaService,
+    private roomBookings: RoomBookingsService,
+  ) {}
+
+  async findAll(organizationId: string): Promise<VenueResponseDto[]> {
+    const venues = await this.prisma.venue.findMany({
+      where: { organizationId },
+      include: WITH_ROOMS,
+      orderBy: { name: 'asc' },
+    });
+
+    return venues.map((venue) => this.toResponse(venue));
+  }
+
+  async findOne(id: string, organizationId: string): Promise<VenueResponseDto> {
+    const venue = await this.findScoped(id, organizationId);
+    return this.toResponse(venue);
+  }
+
+  async create(
+    createVenueDto: CreateVenueDto,
+    organizationId: string,
+  ): Promise<VenueResponseDto> {
+    await this.assertNameAvailable(organizationId, createVenueDto.name);
+
+    const venue = await this.prisma.venue.create({
+      data: {
+        name: createVenueDto.name,
+        address: createVenueDto.address,
+        organizationId,
+      },
+      include: WITH_ROOMS,
+    });
+
+    return this.toResponse(venue);
+  }
+
+  async update(
+    id: string,
+    updateVenueDto: UpdateVenueDto,
+    organizationId: string,
+  ): Promise<VenueResponseDto> {
+    const venue = await this.findScoped(id, organizationId);
+    const { name, address } = updateVenueDto;
+
+    if (name && name !== venue.name) {
+      await this.assertNameAvailable(organizationId, name);
+    }
+
+    const updated = await this.prisma.venue.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(address !== undefined && { address }),
+      },
+      include: WITH_ROOMS,
+    });
+
+    return this.toResponse(updated);
+  }
+
+  /**
+   * Deletes the venue's rooms too; events booked in them keep their
+   * times but lose the room
+   */
+  async remove(id: string, organizationId: string): Promise<void> {
+    await this.findScoped(id, organizationId);
+
+    await this.prisma.venue.delete({
+      where: { id },
+    });
+  }
+
+  // Rooms
+
+  async createRoom(
+    venueId: string,
+    createRoomDto: CreateRoomDto,
+    organizationId: string,
+  ): Promise<RoomResponseDto> {
+    await this.findScoped(venueId, organizationId);
+    await this.assertRoomNameAvailable(venueId, createRoomDto.name);
+
+    const room = await this.prisma.room.create({
+      data: {
+        name: createRoomDto.name,
+        capacity: createRoomDto.capacity,
+        amenities: createRoomDto.amenities ?? [],
+        venueId,
+      },
+    });
+
+    return this.toRoomResponse(room);
+  }
+
+  async findRoom(id: string, organizationId: string): Promise<RoomResponseDto> {
+    const room = await this.findRoomScoped(id, organizationId);
+    return this.toRoomResponse(room);
+  }
+
+  async updateRoom(
+    id: string,
+    updateRoomDto: UpdateRoomDto,
+    organizationId: string,
+  ): Promise<RoomResponseDto> {
+    const room = await this.findRoomScoped(id, organizationId);
+    const { name, capacity, amenities } = updateRoomDto;
+
+    if (name && name !== room.name) {
+      await this.assertRoomNameAvailable(room.venueId, name);
+    }
+
+    const updated = await this.prisma.room.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(capacity !== undefined && { capacity }),
+        ...(amenities && { amenities }),
+      },
+    });
+
+    return this.toRoomResponse(updated);
+  }
+
+  /**
+   * Events booked in the room keep their times but lose the room
+   */
+  async removeRoom(id: string, organizationId: string): Promise<void> {
+    await this.findRoomScoped(id, organizationId);
+
+    await this.prisma.room.delete({
+      where: { id },
+    });
+  }
+
+  async getAvailability(
+    id: string,
+    query: RoomAvailabilityQueryDto,
+    organizationId: string,
+  ): Promise<RoomAvailabilityDto> {
+    await this.findRoomScoped(id, organizationId);
+
+    const timeZone = query.timeZone ?? DEFAULT_TIME_ZONE;
+    const from = parseInZone(query.from, timeZone);
+    const to = parseInZone(query.to, timeZone);
+
+    if (to <= from) {
+      throw new BadRequestException('to must be after from');
+    }
+
+    if (to.getTime() - from.getTime() > MAX_AVAILABILITY_DAYS * DAY) {
+      throw new BadRequestException(
+        `The range cannot be longer than ${MAX_AVAILABILITY_DAYS} days`,
+      );
+    }
+
+    return new RoomAvailabilityDto({
+      roomId: id,
+      from,
+      to,
+      freeSlots: await this.roomBookings.findFreeSlots(id, from, to),
+    });
+  }
+
+  private async findScoped(
+    id: string,
+    organizationId: string,
+  ): Promise<VenueWithRooms> {
+    const venue = await this.prisma.venue.findUnique({
+      where: { id },
+      include: WITH_ROOMS,
+    });
+
+    if (!venue) {
+      throw new NotFoundException('Venue not found');
+    }
+
+    // Check organization scoping
+    if (venue.organizationId !== organizationId) {
+      throw new ForbiddenException('Access denied to this venue');
+    }
+
+    return venue;
+  }
+
+  private async findRoomScoped(
+    id: string,
+    organizationId: string,
+  ): Promise<Room & { venue: Venue }> {
+    const room = await this.prisma.room.findUnique({
+      where: { id },
+      include: { venue: true },
+    });
+
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    // Check organization scoping
+    if (room.venue.organizationId !== organizationId) {
+      throw new ForbiddenException('Access denied to this room');
+    }
+
+    return room;
+  }
+
+  private async assertNameAvailable(
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.prisma.venue.findUnique({
+      where: { organizationId_name: { organizationId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictException('A venue with this name already exists');
+    }
+  }
+
+  private async assertRoomNameAvailable(
+    venueId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.prisma.room.findUnique({
+      where: { venueId_name: { venueId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'A room with this name already exists in the venue',
+      );
+    }
+  }
+
+  private toResponse(venue: VenueWithRooms): VenueResponseDto {
+    return new VenueResponseDto({
+      id: venue.id,
+      name: venue.name,
+      address: venue.address,
+      rooms: venue.rooms.map((room) => this.toRoomResponse(room)),
+      createdAt: venue.createdAt,
+      updatedAt: venue.updatedAt,
+    });
+  }
+
+  private toRoomResponse(room: Room): RoomResponseDto {
+    return new RoomResponseDto({
+      id: room.id,
+      venueId: room.venueId,
+      name: room.name,
+      capacity: room.capacity,
+      amenities: room.amenities,
+      createdAt: room.createdAt,
+      updatedAt: room.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { BREACHED_PASSWORDS_FILE } from '../modules/auth/breached-password.service';
+
+/**
+ * Rebuild the bundled breached-password list:
+ *   npm run passwords:build-breached-list -- <input> [output]
+ * The input has one entry per line, either a plain password or a
+ * Pwned Passwords `SHA1:COUNT` line. Only SHA-1 hashes are written, in
+ * k-anonymity range form (`PREFIX:SUFFIX`), so the file never contains
+ * the passwords themselves.
+ */
+function build(input: string, output = BREACHED_PASSWORDS_FILE) {
+  const hashes = new Set<string>();
+
+  for (const line of readFileSync(input, 'utf8').split(/\r?\n/)) {
+    if (!line) {
+      continue;
+    }
+
+    const pwned = /^([0-9A-Fa-f]{40})(:\d+)?$/.exec(line);
+    hashes.add(
+      pwned
+        ? pwned[1].toUpperCase()
+        : createHash('sha1').update(line).digest('hex').toUpperCase(),
+    );
+  }
+
+  const lines = [...hashes]
+    .sort()
+    .map((hash) => `${hash.slice(0, 5)}:${hash.slice(5)}`);
+
+  writeFileSync(
+    output,
+    [
+      '# SHA-1 hashes of breached passwords as PREFIX:SUFFIX (k-anonymity ranges)',
+      '# Generated by src/scripts/build-breached-password-list.ts',
+      ...lines,
+      '',
+    ].join('\n'),
+  );
+  console.log(`Wrote ${lines.length} hashes to ${output}`);
+}
+
+const [input, output] = process.argv.slice(2);
+
+if (!input) {
+  console.error('Usage: build-breached-password-list <input> [output]');
+  process.exit(1);
+}
+
+build(input, output);
@@ -0,0 +1,24 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { SigningKeyService } from '../modules/auth/signing-key.service';
+
+/**
+ * Rotate the access token signing key:
+ *   npm run jwt:rotate-key
+ * The new key is published immediately and starts signing after
+ * JWT_KEY_ACTIVATION_DELAY_SECONDS.
+ */
+async function rotate() {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  const { kid, activatesAt } = await app.get(SigningKeyService).rotate();
+  console.log(
+    `New signing key ${kid} activates at ${activatesAt.toISOString()}`,
+  );
+
+  await app.close();
+}
+
+void rotate();
@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { MailerService, OutboxMailerService } from '../src/common/mailer';
+
+/**
+ * Email verification and password reset flows.
+ * Relies on the outbox mail transport (MAIL_TRANSPORT unset or "outbox").
+ */
+describe('Account emails (e2e)', () => {
+  let app: INestApplication;
+  let outbox: OutboxMailerService;
+  let email: string;
+  let accessToken: string;
+  let refreshToken: string;
+  let eventId: string;
+
+  const tokenFromLatestMail = (to: string): string => {
+    const message = outbox.findLatest(to);
+    const link = message!.text.match(/https?:\/\/\S+/)![0];
+    return new URL(link).searchParams.get('token')!;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    outbox = app.get<OutboxMailerService>(MailerService);
+
+    const timestamp = Date.now();
+    email = `emailflow${timestamp}@example.com`;
+    const signupResponse = await request(app.getHttpServer())
+      .post('/auth/signup')
+      .send({
+        email,
+        password: 'SecurePass123!',
+        firstName: 'Email',
+        lastName: 'Flow',
+        organizationName: `Email Flow ${timestamp}`,
+      })
+      .expect(201);
+    accessToken = signupResponse.body.accessToken;
+    refreshToken = signupResponse.body.refreshToken;
+
+    const eventResponse = await request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        title: 'Email Flow Event',
+        description: 'Event used to test verification gating',
+        startDate: '2026-09-01T10:00:00Z',
+        endDate: '2026-09-01T12:00:00Z',
+      })
+      .expect(201);
+    eventId = eventResponse.body.id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('Email verification', () => {
+    it('should send a verification email on signup', () => {
+      const message = outbox.findLatest(email);
+
+      expect(message).toBeDefined();
+      expect(message!.subject).toContain('Verify');
+    });
+
+    it('should block submitting events before verification', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/events/${eventId}/submit`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+
+      expect(response.body.message).toContain('verified');
+    });
+
+    it('should verify the email and allow submitting', async () => {
+      const token = tokenFromLatestMail(email);
+
+      await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .post(`/events/${eventId}/submit`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+    });
+
+    it('should reject a verification token that was already used', async () => {
+      const token = tokenFromLatestMail(email);
+
+      await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token })
+        .expect(400);
+    });
+  });
+
+  describe('Password reset', () => {
+    let resetToken: string;
+
+    it('should accept forgot-password requests for unknown emails', async () => {
+      outbox.clear();
+
+      await request(app.getHttpServer())
+        .post('/auth/password/forgot')
+        .send({ email: 'nobody@example.com' })
+        .expect(202);
+
+      expect(outbox.getMessages()).toHaveLength(0);
+    });
+
+    it('should email a reset link to existing users', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/password/forgot')
+        .send({ email })
+        .expect(202);
+
+      resetToken = tokenFromLatestMail(email);
+      expect(resetToken).toBeTruthy();
+    });
+
+    it('should not accept a reset token as an access token', () => {
+      return request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Authorization', `Bearer ${resetToken}`)
+        .expect(401);
+    });
+
+    it('should reset the password', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/password/reset')
+        .send({ token: resetToken, password: 'BrandNewPass123!' })
+        .expect(200);
+    });
+
+    it('should reject reusing the reset token', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/password/reset')
+        .send({ token: resetToken, password: 'AnotherPass123!' })
+        .expect(400);
+    });
+
+    it('should revoke refresh tokens issued before the reset', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+
+    it('should log in with the new password only', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'SecurePass123!' })
+        .expect(401);
+
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email, password: 'BrandNewPass123!' })
+        .expect(201);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * All-day events: dates instead of times, the same day in every zone,
+ * spanning one or more days.
+ */
+describe('All-day events (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let eventId: string;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'admin@acme.com', password: 'Password123!' })
+      .expect(201);
+    adminToken = login.body.accessToken;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should reject times for an all-day event', () => {
+    return request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'All-Day Offsite',
+        description: 'Three days away from the office',
+        startDate: '2026-08-10T09:00:00Z',
+        endDate: '2026-08-12T17:00:00Z',
+        allDay: true,
+      })
+      .expect(400);
+  });
+
+  it('should create a multi-day event from its first and last day', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'All-Day Offsite',
+        description: 'Three days away from the office',
+        startDate: '2026-08-10',
+        endDate: '2026-08-12',
+        allDay: true,
+      })
+      .expect(201);
+
+    eventId = response.body.id;
+    expect(response.body).toMatchObject({
+      allDay: true,
+      startDate: '2026-08-10T00:00:00.000Z',
+      endDate: '2026-08-13T00:00:00.000Z',
+      localStartDate: '2026-08-10',
+      localEndDate: '2026-08-12',
+    });
+  });
+
+  it('should find it by its date in any zone', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/events')
+      .query({
+        search: 'All-Day Offsite',
+        startDateFrom: '2026-08-10',
+        startDateTo: '2026-08-10T23:59:59',
+        timeZone: 'Pacific/Auckland',
+      })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data.map((event: { id: string }) => event.id)).toEqual(
+      [eventId],
+    );
+  });
+
+  it('should export it as dates', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}.ics`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.text).toContain('DTSTART;VALUE=DATE:20260810');
+    expect(response.text).toContain('DTEND;VALUE=DATE:20260813');
+  });
+});
@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import sharp from 'sharp';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Attachments: files on an event, stored by the configured storage driver,
+ * with thumbnails for images and one image as the event's cover.
+ */
+describe('Attachments (e2e)', () => {
+  let app: INestApplication;
+  let userToken: string;
+  let eventId: string;
+  let png: Buffer;
+
+  const login = async (email: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+    return response.body.accessToken as string;
+  };
+
+  const upload = (file: Buffer, fileName: string, contentType: string) =>
+    request(app.getHttpServer())
+      .post(`/events/${eventId}/attachments`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .attach('file', file, { filename: fileName, contentType });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    userToken = await login('user@acme.com');
+
+    const event = await request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({
+        title: 'Event with Attachments',
+        description: 'Checking attachments',
+        startDate: '2026-12-01T09:00:00Z',
+        endDate: '2026-12-01T10:00:00Z',
+      })
+      .expect(201);
+    eventId = event.body.id;
+
+    png = await sharp({
+      create: { width: 640, height: 480, channels: 3, background: '#f97316' },
+    })
+      .png()
+      .toBuffer();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should attach a document and serve it back', async () => {
+    const agenda = Buffer.from('09:00 Welcome\n09:30 Keynote\n');
+
+    const response = await upload(agenda, 'agenda.txt', 'text/plain').expect(
+      201,
+    );
+
+    expect(response.body).toEqual(
+      expect.objectContaining({
+        fileName: 'agenda.txt',
+        size: agenda.length,
+        hasThumbnail: false,
+      }),
+    );
+
+    const download = await request(app.getHttpServer())
+      .get(`/events/${eventId}/attachments/${response.body.id}/download`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    expect(download.headers['content-disposition']).toContain('attachment');
+    expect(download.text).toBe(agenda.toString());
+  });
+
+  it('should attach a cover image with a thumbnail', async () => {
+    const response = await request(app.getHttpServer())
+      .post(`/events/${eventId}/attachments`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .field('cover', 'true')
+      .attach('file', png, { filename: 'cover.png', contentType: 'image/png' })
+      .expect(201);
+
+    expect(response.body).toEqual(
+      expect.objectContaining({
+        cover: true,
+        width: 640,
+        height: 480,
+        hasThumbnail: true,
+      }),
+    );
+
+    const thumbnail = await request(app.getHttpServer())
+      .get(`/events/${eventId}/attachments/${response.body.id}/thumbnail`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    expect(thumbnail.headers['content-type']).toBe('image/webp');
+  });
+
+  it('should list attachments on the event', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    expect(response.body.attachments).toHaveLength(2);
+  });
+
+  it('should reject types that are not allowed', async () => {
+    await upload(
+      Buffer.from('MZ'),
+      'setup.exe',
+      'application/x-msdownload',
+    ).expect(415);
+  });
+
+  it('should reject images that cannot be read', async () => {
+    await upload(Buffer.from('not an image'), 'fake.png', 'image/png').expect(
+      400,
+    );
+  });
+
+  it('should remove an attachment', async () => {
+    const response = await upload(
+      Buffer.from('Bring a laptop'),
+      'notes.txt',
+      'text/plain',
+    ).expect(201);
+
+    await request(app.getHttpServer())
+      .delete(`/events/${eventId}/attachments/${response.body.id}`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(204);
+
+    await request(app.getHttpServer())
+      .get(`/events/${eventId}/attachments/${response.body.id}/download`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(404);
+  });
+});
@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * iCalendar export: a single event as an .ics file, and per-user
+ * subscription feeds of approved events behind a token URL.
+ */
+describe('Calendar (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let moderatorToken: string;
+  let eventId: string;
+  let feedPath: string;
+
+  const login = async (email: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+    return response.body.accessToken as string;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    adminToken = await login('admin@acme.com');
+    moderatorToken = await login('moderator@acme.com');
+
+    const event = await request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'Calendar Export Review',
+        description: 'Checking the iCalendar output',
+        startDate: '2026-09-10T15:00:00Z',
+        endDate: '2026-09-10T16:00:00Z',
+      })
+      .expect(201);
+    eventId = event.body.id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should export a single event', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}.ics`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/calendar/);
+    expect(response.text).toContain(`UID:${eventId}@eventboard`);
+    expect(response.text).toContain('STATUS:TENTATIVE');
+  });
+
+  it('should create a feed with approved events only', async () => {
+    const feed = await request(app.getHttpServer())
+      .post('/calendar/feed')
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(201);
+    feedPath = new URL(feed.body.url as string).pathname;
+
+    const before = await request(app.getHttpServer()).get(feedPath).expect(200);
+    expect(before.text).not.toContain(`UID:${eventId}@eventboard`);
+
+    await request(app.getHttpServer())
+      .post(`/events/${eventId}/submit`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(201);
+    await request(app.getHttpServer())
+      .post(`/events/${eventId}/approve`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(201);
+
+    const after = await request(app.getHttpServer()).get(feedPath).expect(200);
+    expect(after.text).toContain(`UID:${eventId}@eventboard`);
+    expect(after.text).toContain('STATUS:CONFIRMED');
+  });
+
+  it('should raise the sequence when the event changes', async () => {
+    await request(app.getHttpServer())
+      .patch(`/events/${eventId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ location: 'Board Room' })
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .get(feedPath)
+      .expect(200);
+    expect(response.text).toContain('SEQUENCE:1');
+  });
+
+  it('should stop serving a revoked feed', async () => {
+    await request(app.getHttpServer())
+      .delete('/calendar/feed')
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(204);
+
+    await request(app.getHttpServer()).get(feedPath).expect(404);
+  });
+});
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Categories and tags: admins curate categories, events carry free-form
+ * tags, and both can be filtered on.
+ */
+describe('Categories (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let moderatorToken: string;
+  let categoryId: string;
+  const tag = `e2e-${Date.now()}`;
+
+  const login = async (email: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+    return response.body.accessToken as string;
+  };
+
+  const createEvent = (fields: Record<string, unknown>) =>
+    request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'Categorized Event',
+        description: 'Checking categories and tags',
+        startDate: '2026-10-01T09:00:00Z',
+        endDate: '2026-10-01T10:00:00Z',
+        ...fields,
+      })
+      .expect(201);
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    adminToken = await login('admin@acme.com');
+    moderatorToken = await login('moderator@acme.com');
+
+    const category = await request(app.getHttpServer())
+      .post('/categories')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: `Workshops ${Date.now()}`, color: '#3b82f6' })
+      .expect(201);
+    categoryId = category.body.id;
+
+    await createEvent({ categoryId, tags: [tag, 'Hands-On'] });
+    await createEvent({ tags: [tag] });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should only let admins curate categories', async () => {
+    await request(app.getHttpServer())
+      .post('/categories')
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ name: 'Unauthorized Category' })
+      .expect(403);
+  });
+
+  it('should count the events in each category', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/categories/${categoryId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.eventCount).toBe(1);
+  });
+
+  it('should filter events by category and tags', async () => {
+    const byCategory = await request(app.getHttpServer())
+      .get('/events')
+      .query({ category: categoryId })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(byCategory.body.meta.total).toBe(1);
+    expect(byCategory.body.data[0].tags).toEqual([tag, 'hands-on']);
+
+    const anyTag = await request(app.getHttpServer())
+      .get('/events')
+      .query({ tags: `${tag},hands-on` })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(anyTag.body.meta.total).toBe(2);
+
+    const allTags = await request(app.getHttpServer())
+      .get('/events')
+      .query({ tags: `${tag},hands-on`, tagMatch: 'all' })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(allTags.body.meta.total).toBe(1);
+  });
+
+  it('should autocomplete tags', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/events/tags')
+      .query({ prefix: tag })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body).toEqual([{ name: tag, count: 2 }]);
+  });
+});
@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Comment threads: the event's owner and the moderators discuss the event,
+ * and moderators keep internal notes the owner does not see.
+ */
+describe('Comments (e2e)', () => {
+  let app: INestApplication;
+  let userToken: string;
+  let moderatorToken: string;
+  let eventId: string;
+  let ownerId: string;
+  let threadId: string;
+
+  const login = async (email: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+    return response.body.accessToken as string;
+  };
+
+  const comment = (token: string, fields: Record<string, unknown>) =>
+    request(app.getHttpServer())
+      .post(`/events/${eventId}/comments`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(fields);
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    userToken = await login('user@acme.com');
+    moderatorToken = await login('moderator@acme.com');
+
+    const event = await request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({
+        title: 'Discussed Event',
+        description: 'Checking comment threads',
+        startDate: '2026-11-01T09:00:00Z',
+        endDate: '2026-11-01T10:00:00Z',
+      })
+      .expect(201);
+    eventId = event.body.id;
+    ownerId = event.body.createdById;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should let a moderator start a thread', async () => {
+    const response = await comment(moderatorToken, {
+      body: 'Could you add an agenda?',
+    }).expect(201);
+
+    expect(response.body.parentId).toBeNull();
+    expect(response.body.author.id).toBeDefined();
+    threadId = response.body.id;
+  });
+
+  it('should let the owner reply', async () => {
+    const response = await comment(userToken, {
+      body: 'Added it to the description',
+      parentId: threadId,
+    }).expect(201);
+
+    expect(response.body.parentId).toBe(threadId);
+  });
+
+  it('should keep internal notes from the owner', async () => {
+    await comment(moderatorToken, {
+      body: 'Looks fine to approve',
+      internal: true,
+    }).expect(201);
+
+    await comment(userToken, {
+      body: 'Trying an internal note',
+      internal: true,
+    }).expect(403);
+
+    const owner = await request(app.getHttpServer())
+      .get(`/events/${eventId}/comments`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    expect(owner.body).toHaveLength(1);
+    expect(owner.body[0].replies).toHaveLength(1);
+
+    const moderator = await request(app.getHttpServer())
+      .get(`/events/${eventId}/comments`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+
+    expect(moderator.body).toHaveLength(2);
+  });
+
+  it('should only mention users who can see the comment', async () => {
+    await comment(moderatorToken, {
+      body: 'Pinging the owner',
+      mentionedUserIds: [ownerId],
+    }).expect(201);
+
+    await comment(moderatorToken, {
+      body: 'Pinging the owner in a note',
+      internal: true,
+      mentionedUserIds: [ownerId],
+    }).expect(400);
+
+    // Tech Innovators' user is not a member here
+    const outsider = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@techinnovators.com', password: 'Password123!' })
+      .expect(201);
+
+    await comment(moderatorToken, {
+      body: 'Pinging an outsider',
+      mentionedUserIds: [outsider.body.user.id],
+    }).expect(400);
+  });
+
+  it('should keep read-only API keys from commenting', async () => {
+    const apiKey = await request(app.getHttpServer())
+      .post('/auth/api-keys')
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ name: 'comment reader', scopes: ['events:read'] })
+      .expect(201);
+    const key = apiKey.body.key as string;
+
+    await request(app.getHttpServer())
+      .get(`/events/${eventId}/comments`)
+      .set('X-API-Key', key)
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post(`/events/${eventId}/comments`)
+      .set('X-API-Key', key)
+      .send({ body: 'Posted with a read-only key' })
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .patch(`/events/${eventId}/comments/${threadId}`)
+      .set('X-API-Key', key)
+      .send({ body: 'Edited with a read-only key' })
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .delete(`/events/${eventId}/comments/${threadId}`)
+      .set('X-API-Key', key)
+      .expect(403);
+  });
+
+  it('should only let authors change their comments', async () => {
+    await request(app.getHttpServer())
+      .patch(`/events/${eventId}/comments/${threadId}`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ body: 'Rewritten' })
+      .expect(403);
+
+    const response = await request(app.getHttpServer())
+      .patch(`/events/${eventId}/comments/${threadId}`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ body: 'Could you add an agenda and speakers?' })
+      .expect(200);
+
+    expect(response.body.editedAt).not.toBeNull();
+  });
+
+  it('should keep the replies of a deleted comment', async () => {
+    await request(app.getHttpServer())
+      .delete(`/events/${eventId}/comments/${threadId}`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(204);
+
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}/comments`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    expect(response.body[0].body).toBeNull();
+    expect(response.body[0].deletedAt).not.toBeNull();
+    expect(response.body[0].replies).toHaveLength(1);
+  });
+});
@@ -2,12 +2,13 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import request from 'supertest';
 import { AppModule } from '../src/app.module';
+import { MailerService, OutboxMailerService } from '../src/common/mailer';
 
 /**
  * Critical Flow E2E Test
  * 
  * Tests the complete event lifecycle from creation to approval:
- * 1. User signs up
+ * 1. Admin invites a user, who signs up by accepting the invitation
  * 2. User creates a draft event
  * 3. User submits event for review
  * 4. Moderator reviews and approves event
@@ -21,6 +22,7 @@ describe('Critical Flow: Event Lifecycle (e2e)', () => {
   let adminToken: string;
   let eventId: string;
   let userId: string;
+  let userEmail: string;
   let organizationId: string;
 
   beforeAll(async () => {
@@ -74,23 +76,42 @@ describe('Critical Flow: Event Lifecycle (e2e)', () => {
   });
 
   describe('Step 1: User Signup', () => {
-    it('should create a new user account', async () => {
-      const timestamp = Date.now();
+    it('should let the admin invite a new user', async () => {
+      userEmail = `testuser${Date.now()}@example.com`;
+
+      const response = await request(app.getHttpServer())
+        .post('/invitations')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: userEmail, role: 'USER' })
+        .expect(201);
+
+      expect(response.body.status).toBe('PENDING');
+      expect(response.body).not.toHaveProperty('tokenHash');
+    });
+
+    it('should create a new user account from the emailed invitation', async () => {
+      const outbox = app.get<OutboxMailerService>(MailerService);
+      const message = outbox.findLatest(userEmail);
+      const token = new URL(
+        message!.text.match(/https?:\/\/\S+/)![0],
+      ).searchParams.get('token');
+
       const response = await request(app.getHttpServer())
-        .post('/auth/signup')
+        .post('/invitations/accept')
         .send({
-          email: `testuser${timestamp}@example.com`,
+          token,
           password: 'SecurePass123!',
           firstName: 'Test',
           lastName: 'User',
-          organizationId,
         })
         .expect(201);
 
       expect(response.body).toHaveProperty('accessToken');
       expect(response.body.user).toHaveProperty('id');
-      expect(response.body.user.email).toBe(`testuser${timestamp}@example.com`);
+      expect(response.body.user.email).toBe(userEmail);
       expect(response.body.user.role).toBe('USER');
+      expect(response.body.user.organizationId).toBe(organizationId);
+      expect(response.body.user.emailVerifiedAt).toBeTruthy();
 
       userToken = response.body.accessToken;
       userId = response.body.user.id;
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Admin impersonation: acting as a user sees their view of the API,
+ * sensitive actions are blocked and every request is audited.
+ */
+describe('Impersonation (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let adminId: string;
+  let userId: string;
+  let impersonationToken: string;
+  let sessionId: string;
+
+  const login = (email: string) =>
+    request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    const adminResponse = await login('admin@acme.com');
+    adminToken = adminResponse.body.accessToken;
+    adminId = adminResponse.body.user.id;
+
+    const userResponse = await login('user@acme.com');
+    userId = userResponse.body.user.id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should not let a non-admin impersonate', async () => {
+    const moderator = await login('moderator@acme.com');
+
+    return request(app.getHttpServer())
+      .post('/auth/impersonate')
+      .set('Authorization', `Bearer ${moderator.body.accessToken}`)
+      .send({ userId, reason: 'Testing' })
+      .expect(403);
+  });
+
+  it('should issue a token acting as the user', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/impersonate')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ userId, reason: 'Reproduce events list' })
+      .expect(201);
+
+    expect(response.body.refreshToken).toBeUndefined();
+    impersonationToken = response.body.accessToken;
+    sessionId = response.body.sessionId;
+  });
+
+  it('should mark /auth/me with the acting admin', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${impersonationToken}`)
+      .expect(200);
+
+    expect(response.body.id).toBe(userId);
+    expect(response.body.impersonatedBy).toMatchObject({
+      id: adminId,
+      email: 'admin@acme.com',
+      sessionId,
+    });
+  });
+
+  it("should see the user's own events only", async () => {
+    const response = await request(app.getHttpServer())
+      .get('/events')
+      .set('Authorization', `Bearer ${impersonationToken}`)
+      .expect(200);
+
+    for (const event of response.body.data) {
+      expect(event.createdById).toBe(userId);
+    }
+  });
+
+  it('should block sensitive actions', async () => {
+    await request(app.getHttpServer())
+      .post('/auth/mfa/enroll')
+      .set('Authorization', `Bearer ${impersonationToken}`)
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post('/auth/api-keys')
+      .set('Authorization', `Bearer ${impersonationToken}`)
+      .send({ name: 'sneaky', scopes: ['events:read'] })
+      .expect(403);
+  });
+
+  it('should stop accepting the token once the session ends', async () => {
+    await request(app.getHttpServer())
+      .post('/auth/impersonation/end')
+      .set('Authorization', `Bearer ${impersonationToken}`)
+      .expect(204);
+
+    await request(app.getHttpServer())
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${impersonationToken}`)
+      .expect(401);
+  });
+
+  it('should keep an audit trail of every impersonated request', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/auth/impersonations/${sessionId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      actorId: adminId,
+      targetUserId: userId,
+      reason: 'Reproduce events list',
+      endedAt: expect.any(String),
+    });
+    expect(
+      response.body.requests.map(
+        (r: { method: string; path: string; statusCode: number }) =>
+          `${r.method} ${r.path} ${r.statusCode}`,
+      ),
+    ).toEqual(
+      expect.arrayContaining([
+        'GET /auth/me 200',
+        'GET /events 200',
+        'POST /auth/mfa/enroll 403',
+        'POST /auth/api-keys 403',
+      ]),
+    );
+  });
+});
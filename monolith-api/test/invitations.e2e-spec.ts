@@ -0,0 +1,241 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { MailerService, OutboxMailerService } from '../src/common/mailer';
+
+/**
+ * Organization invitations: admin management, accept-invitation signup and
+ * existing users joining a second organization.
+ * Relies on the outbox mail transport (MAIL_TRANSPORT unset or "outbox").
+ */
+describe('Invitations (e2e)', () => {
+  let app: INestApplication;
+  let outbox: OutboxMailerService;
+  let adminToken: string;
+  let userToken: string;
+
+  const tokenFromLatestMail = (to: string): string => {
+    const message = outbox.findLatest(to);
+    const link = message!.text.match(/https?:\/\/\S+/)![0];
+    return new URL(link).searchParams.get('token')!;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    outbox = app.get<OutboxMailerService>(MailerService);
+
+    const adminResponse = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'admin@acme.com', password: 'Password123!' })
+      .expect(201);
+    adminToken = adminResponse.body.accessToken;
+
+    const userResponse = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@acme.com', password: 'Password123!' })
+      .expect(201);
+    userToken = userResponse.body.accessToken;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should forbid non-admins from inviting', () => {
+    return request(app.getHttpServer())
+      .post('/invitations')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ email: `denied${Date.now()}@example.com` })
+      .expect(403);
+  });
+
+  it('should reject inviting an existing member', () => {
+    return request(app.getHttpServer())
+      .post('/invitations')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ email: 'user@acme.com' })
+      .expect(409);
+  });
+
+  it('should join the organization with the invited role', async () => {
+    const email = `moderator${Date.now()}@example.com`;
+
+    await request(app.getHttpServer())
+      .post('/invitations')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ email, role: 'MODERATOR' })
+      .expect(201);
+
+    const token = tokenFromLatestMail(email);
+
+    const response = await request(app.getHttpServer())
+      .post('/invitations/accept')
+      .send({
+        token,
+        password: 'SecurePass123!',
+        firstName: 'Invited',
+        lastName: 'Moderator',
+      })
+      .expect(201);
+
+    expect(response.body.user.role).toBe('MODERATOR');
+
+    await request(app.getHttpServer())
+      .post('/invitations/accept')
+      .send({
+        token,
+        password: 'SecurePass123!',
+        firstName: 'Invited',
+        lastName: 'Again',
+      })
+      .expect(400);
+  });
+
+  it('should not accept a revoked invitation', async () => {
+    const email = `revoked${Date.now()}@example.com`;
+
+    const invitation = await request(app.getHttpServer())
+      .post('/invitations')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ email })
+      .expect(201);
+
+    const token = tokenFromLatestMail(email);
+
+    await request(app.getHttpServer())
+      .delete(`/invitations/${invitation.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(204);
+
+    await request(app.getHttpServer())
+      .post('/invitations/accept')
+      .send({
+        token,
+        password: 'SecurePass123!',
+        firstName: 'Revoked',
+        lastName: 'Invitee',
+      })
+      .expect(400);
+
+    const list = await request(app.getHttpServer())
+      .get('/invitations')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(
+      list.body.find((item: { id: string }) => item.id === invitation.body.id)
+        .status,
+    ).toBe('REVOKED');
+  });
+
+  it('should let an existing user join and switch between organizations', async () => {
+    const email = `consultant${Date.now()}@example.com`;
+
+    const signup = await request(app.getHttpServer())
+      .post('/auth/signup')
+      .send({
+        email,
+        password: 'SecurePass123!',
+        firstName: 'Con',
+        lastName: 'Sultant',
+        organizationName: `Consulting ${Date.now()}`,
+      })
+      .expect(201);
+    const homeOrganizationId = signup.body.user.organizationId;
+
+    await request(app.getHttpServer())
+      .post('/invitations')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ email, role: 'MODERATOR' })
+      .expect(201);
+
+    const token = tokenFromLatestMail(email);
+
+    // Signing up again with the invitation is refused for existing users
+    await request(app.getHttpServer())
+      .post('/invitations/accept')
+      .send({
+        token,
+        password: 'SecurePass123!',
+        firstName: 'Con',
+        lastName: 'Sultant',
+      })
+      .expect(409);
+
+    await request(app.getHttpServer())
+      .post('/invitations/join')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ token })
+      .expect(403);
+
+    const joined = await request(app.getHttpServer())
+      .post('/invitations/join')
+      .set('Authorization', `Bearer ${signup.body.accessToken}`)
+      .send({ token })
+      .expect(200);
+
+    expect(joined.body.role).toBe('MODERATOR');
+    expect(joined.body.organizationId).not.toBe(homeOrganizationId);
+
+    const me = await request(app.getHttpServer())
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${joined.body.accessToken}`)
+      .expect(200);
+
+    expect(me.body.organizationId).toBe(joined.body.organizationId);
+    expect(me.body.role).toBe('MODERATOR');
+    expect(me.body.memberships).toHaveLength(2);
+
+    // The role follows the active organization
+    await request(app.getHttpServer())
+      .get('/auth/moderator-only')
+      .set('Authorization', `Bearer ${joined.body.accessToken}`)
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .get('/auth/admin-only')
+      .set('Authorization', `Bearer ${joined.body.accessToken}`)
+      .expect(403);
+
+    const switched = await request(app.getHttpServer())
+      .post('/auth/switch-organization')
+      .set('Authorization', `Bearer ${joined.body.accessToken}`)
+      .send({ organizationId: homeOrganizationId })
+      .expect(200);
+
+    expect(switched.body.role).toBe('ADMIN');
+
+    await request(app.getHttpServer())
+      .get('/auth/admin-only')
+      .set('Authorization', `Bearer ${switched.body.accessToken}`)
+      .expect(200);
+  });
+
+  it('should not switch to an organization the user does not belong to', async () => {
+    const other = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@techinnovators.com', password: 'Password123!' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post('/auth/switch-organization')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ organizationId: other.body.user.organizationId })
+      .expect(403);
+  });
+});
@@ -0,0 +1,201 @@
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { JwtService } from '@nestjs/jwt';
+
+export interface MockIdpUser {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+}
+
+interface PendingCode {
+  user: MockIdpUser;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+}
+
+/**
+ * Minimal OpenID Connect provider for SSO tests and local development.
+ *
+ * There is no login page: /authorize immediately redirects back with a
+ * code for the current `user`. PKCE (S256) and the client credentials are
+ * checked on /token, and ID tokens are signed RS256 with a key published
+ * on /jwks.
+ *
+ * Run standalone with `npx ts-node test/mock-idp.ts` (MOCK_IDP_PORT,
+ * default 4010); the client is `eventboard` / `mock-secret`.
+ */
+export class MockIdp {
+  issuer = '';
+  user: MockIdpUser = {
+    sub: 'mock-user-1',
+    email: 'jane.doe@acme.com',
+    email_verified: true,
+    given_name: 'Jane',
+    family_name: 'Doe',
+  };
+
+  private server?: Server;
+  private readonly codes = new Map<string, PendingCode>();
+  private readonly keys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private readonly kid = randomBytes(8).toString('hex');
+  private readonly jwtService = new JwtService();
+
+  constructor(
+    readonly clientId = 'eventboard',
+    readonly clientSecret = 'mock-secret',
+  ) {}
+
+  async start(port = 0): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(() => this.json(res, 500, {}));
+    });
+
+    await new Promise<void>((resolve) =>
+      this.server!.listen(port, '127.0.0.1', resolve),
+    );
+
+    const address = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${address.port}`;
+    return this.issuer;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server?.close(resolve));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', this.issuer);
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return this.json(res, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256'],
+        id_token_signing_alg_values_supported: ['RS256'],
+      });
+    }
+
+    if (url.pathname === '/jwks') {
+      const jwk = this.keys.publicKey.export({ format: 'jwk' });
+      return this.json(res, 200, {
+        keys: [{ ...jwk, kid: this.kid, alg: 'RS256', use: 'sig' }],
+      });
+    }
+
+    if (url.pathname === '/authorize') {
+      return this.authorize(url.searchParams, res);
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      return this.token(new URLSearchParams(await this.readBody(req)), res);
+    }
+
+    this.json(res, 404, { error: 'not_found' });
+  }
+
+  private authorize(params: URLSearchParams, res: ServerResponse) {
+    const redirectUri = params.get('redirect_uri');
+
+    if (
+      params.get('client_id') !== this.clientId ||
+      params.get('response_type') !== 'code' ||
+      params.get('code_challenge_method') !== 'S256' ||
+      !params.get('code_challenge') ||
+      !redirectUri
+    ) {
+      return this.json(res, 400, { error: 'invalid_request' });
+    }
+
+    const code = randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      user: this.user,
+      clientId: this.clientId,
+      redirectUri,
+      codeChallenge: params.get('code_challenge')!,
+      nonce: params.get('nonce') ?? undefined,
+    });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    location.searchParams.set('state', params.get('state') ?? '');
+
+    res.writeHead(302, { Location: location.toString() });
+    res.end();
+  }
+
+  private token(params: URLSearchParams, res: ServerResponse) {
+    const pending = this.codes.get(params.get('code') ?? '');
+    this.codes.delete(params.get('code') ?? '');
+
+    if (
+      params.get('client_id') !== this.clientId ||
+      params.get('client_secret') !== this.clientSecret
+    ) {
+      return this.json(res, 401, { error: 'invalid_client' });
+    }
+
+    const verifier = params.get('code_verifier') ?? '';
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+    if (
+      !pending ||
+      params.get('grant_type') !== 'authorization_code' ||
+      params.get('redirect_uri') !== pending.redirectUri ||
+      challenge !== pending.codeChallenge
+    ) {
+      return this.json(res, 400, { error: 'invalid_grant' });
+    }
+
+    const idToken = this.jwtService.sign(
+      { ...pending.user, nonce: pending.nonce },
+      {
+        privateKey: this.keys.privateKey.export({
+          type: 'pkcs8',
+          format: 'pem',
+        }),
+        algorithm: 'RS256',
+        keyid: this.kid,
+        issuer: this.issuer,
+        audience: pending.clientId,
+        expiresIn: 300,
+      },
+    );
+
+    this.json(res, 200, {
+      access_token: randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken,
+    });
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private json(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+if (require.main === module) {
+  const idp = new MockIdp();
+  void idp
+    .start(parseInt(process.env.MOCK_IDP_PORT || '4010', 10))
+    .then((issuer) => console.log(`Mock IdP listening at ${issuer}`));
+}
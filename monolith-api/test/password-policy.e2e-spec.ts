@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Password policy: admins tighten the rules for their organization and
+ * changing the password enforces them, along with reuse history and the
+ * breached-password list.
+ */
+describe('Password policy (e2e)', () => {
+  let app: INestApplication;
+  let accessToken: string;
+  let organizationId: string;
+  const email = `password-policy-${Date.now()}@example.com`;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    const signup = await request(app.getHttpServer())
+      .post('/auth/signup')
+      .send({
+        email,
+        password: 'SecurePass123!',
+        firstName: 'Pass',
+        lastName: 'Word',
+        organizationName: `Password Policy ${Date.now()}`,
+      })
+      .expect(201);
+    accessToken = signup.body.accessToken;
+    organizationId = signup.body.user.organizationId;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should reject a breached password at signup', () => {
+    return request(app.getHttpServer())
+      .post('/auth/signup')
+      .send({
+        email: `breached-${Date.now()}@example.com`,
+        password: 'P@ssw0rd123',
+        firstName: 'Bree',
+        lastName: 'Ched',
+        organizationName: `Breached ${Date.now()}`,
+      })
+      .expect(400);
+  });
+
+  it('should let the admin tighten the policy', async () => {
+    const response = await request(app.getHttpServer())
+      .put(`/organizations/${organizationId}/password-policy`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ minLength: 14, requireSymbol: true, historySize: 3 })
+      .expect(200);
+
+    expect(response.body).toEqual({
+      organizationId,
+      minLength: 14,
+      requireDigit: false,
+      requireSymbol: true,
+      historySize: 3,
+      maxAgeDays: null,
+    });
+  });
+
+  it('should enforce the policy when changing the password', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/password/change')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ currentPassword: 'SecurePass123!', newPassword: 'Short123!' })
+      .expect(400);
+
+    expect(response.body.message).toEqual([
+      'Password must be at least 14 characters long',
+    ]);
+  });
+
+  it('should not allow reusing the current password', () => {
+    return request(app.getHttpServer())
+      .post('/auth/password/change')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        currentPassword: 'SecurePass123!',
+        newPassword: 'SecurePass123!',
+      })
+      .expect(400);
+  });
+
+  it('should reject a wrong current password', () => {
+    return request(app.getHttpServer())
+      .post('/auth/password/change')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        currentPassword: 'WrongPass123!',
+        newPassword: 'BrandNewPass123!',
+      })
+      .expect(401);
+  });
+
+  it('should change the password and sign out other sessions', async () => {
+    const other = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'SecurePass123!' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post('/auth/password/change')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        currentPassword: 'SecurePass123!',
+        newPassword: 'BrandNewPass123!',
+      })
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${other.body.accessToken}`)
+      .expect(401);
+    await request(app.getHttpServer())
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'BrandNewPass123!' })
+      .expect(201);
+  });
+});
@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Recurring events: a series created from an RRULE is listed as its
+ * occurrences in date range queries, single occurrences can be changed
+ * or cancelled, and "this and following" splits the series.
+ */
+describe('Recurring events (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let seriesId: string;
+
+  const login = async (email: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+    return response.body.accessToken as string;
+  };
+
+  // Standups of the series (and only those) in June 2026
+  const listJune = async () => {
+    const response = await request(app.getHttpServer())
+      .get('/events')
+      .query({
+        search: 'Recurring Standup',
+        startDateFrom: '2026-06-01T00:00:00Z',
+        startDateTo: '2026-06-30T23:59:59Z',
+        limit: 100,
+      })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    return response.body.data as {
+      id: string;
+      title: string;
+      startDate: string;
+    }[];
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    adminToken = await login('admin@acme.com');
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should reject an invalid recurrence rule', () => {
+    return request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'Recurring Standup',
+        description: 'Fifteen minutes, no laptops',
+        startDate: '2026-06-01T09:00:00Z',
+        endDate: '2026-06-01T09:15:00Z',
+        recurrenceRule: 'FREQ=SOMETIMES',
+      })
+      .expect(400);
+  });
+
+  it('should create a weekly series with an exception', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'Recurring Standup',
+        description: 'Fifteen minutes, no laptops',
+        startDate: '2026-06-01T09:00:00Z',
+        endDate: '2026-06-01T09:15:00Z',
+        recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO',
+        exceptionDates: ['2026-06-08T09:00:00Z'],
+      })
+      .expect(201);
+
+    seriesId = response.body.id;
+    expect(response.body.recurrenceRule).toBe('FREQ=WEEKLY;BYDAY=MO');
+  });
+
+  it('should list the occurrences in a date range', async () => {
+    const occurrences = await listJune();
+
+    expect(occurrences.map((event) => event.startDate)).toEqual([
+      '2026-06-01T09:00:00.000Z',
+      '2026-06-15T09:00:00.000Z',
+      '2026-06-22T09:00:00.000Z',
+      '2026-06-29T09:00:00.000Z',
+    ]);
+    expect(occurrences.every((event) => event.id === seriesId)).toBe(true);
+  });
+
+  it('should change and cancel single occurrences', async () => {
+    const response = await request(app.getHttpServer())
+      .patch(`/events/${seriesId}/occurrences/2026-06-15T09:00:00Z`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ title: 'Recurring Standup (Retro)' })
+      .expect(200);
+
+    expect(response.body.originalStartDate).toBe('2026-06-15T09:00:00.000Z');
+
+    await request(app.getHttpServer())
+      .delete(`/events/${seriesId}/occurrences/2026-06-22T09:00:00Z`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(204);
+
+    const occurrences = await listJune();
+    expect(occurrences.map((event) => event.title)).toEqual([
+      'Recurring Standup',
+      'Recurring Standup (Retro)',
+      'Recurring Standup',
+    ]);
+  });
+
+  it('should return 404 for a start the series does not have', () => {
+    return request(app.getHttpServer())
+      .patch(`/events/${seriesId}/occurrences/2026-06-16T09:00:00Z`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ title: 'Recurring Standup' })
+      .expect(404);
+  });
+
+  it('should split the series for this and following occurrences', async () => {
+    const response = await request(app.getHttpServer())
+      .patch(`/events/${seriesId}/occurrences/2026-06-29T09:00:00Z`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ scope: 'following', startDate: '2026-06-29T10:00:00Z' })
+      .expect(200);
+
+    expect(response.body.id).not.toBe(seriesId);
+    expect(response.body.status).toBe('DRAFT');
+
+    const occurrences = await listJune();
+    expect(occurrences.map((event) => event.startDate)).toEqual([
+      '2026-06-01T09:00:00.000Z',
+      '2026-06-15T09:00:00.000Z',
+      '2026-06-29T10:00:00.000Z',
+    ]);
+  });
+
+  it('should submit the series for review as a whole', async () => {
+    const response = await request(app.getHttpServer())
+      .post(`/events/${seriesId}/submit`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(201);
+
+    expect(response.body.status).toBe('SUBMITTED');
+  });
+});
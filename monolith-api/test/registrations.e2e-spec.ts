@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Registrations: org members RSVP to approved events, the owner and
+ * moderators see who is coming, and events carry attendee counts. Full
+ * events put people on a waitlist that moves up as seats free.
+ */
+describe('Registrations (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let moderatorToken: string;
+  let userToken: string;
+  let eventId: string;
+
+  const login = async (email: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+    return response.body.accessToken as string;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    adminToken = await login('admin@acme.com');
+    moderatorToken = await login('moderator@acme.com');
+    userToken = await login('user@acme.com');
+
+    const event = await request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'Quarterly All-Hands',
+        description: 'Company update and Q&A',
+        startDate: '2026-09-01T15:00:00Z',
+        endDate: '2026-09-01T16:00:00Z',
+      })
+      .expect(201);
+    eventId = event.body.id;
+
+    await request(app.getHttpServer())
+      .post(`/events/${eventId}/submit`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(201);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const rsvp = (token: string, status: string) =>
+    request(app.getHttpServer())
+      .put(`/events/${eventId}/rsvp`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ status });
+
+  it('should not accept registrations before approval', async () => {
+    await rsvp(userToken, 'GOING').expect(409);
+
+    await request(app.getHttpServer())
+      .post(`/events/${eventId}/approve`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(201);
+  });
+
+  it('should let members RSVP and change their response', async () => {
+    await rsvp(userToken, 'MAYBE').expect(200);
+    const response = await rsvp(userToken, 'GOING').expect(200);
+    expect(response.body.status).toBe('GOING');
+
+    await rsvp(moderatorToken, 'DECLINED').expect(200);
+  });
+
+  it('should reject an unknown response', () => {
+    return rsvp(userToken, 'PERHAPS').expect(400);
+  });
+
+  it('should include attendee counts in the event', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.attendeeCounts).toEqual({
+      going: 1,
+      maybe: 0,
+      declined: 1,
+      waitlisted: 0,
+    });
+  });
+
+  it('should show attendees to the owner but not to other members', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}/attendees?status=GOING`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0].user.email).toBe('user@acme.com');
+
+    await request(app.getHttpServer())
+      .get(`/events/${eventId}/attendees`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(403);
+  });
+
+  it('should not let members of another organization RSVP', async () => {
+    const outsiderToken = await login('user@techinnovators.com');
+
+    await rsvp(outsiderToken, 'GOING').expect(403);
+  });
+
+  it('should cancel a registration', async () => {
+    await request(app.getHttpServer())
+      .delete(`/events/${eventId}/rsvp`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(204);
+
+    await request(app.getHttpServer())
+      .delete(`/events/${eventId}/rsvp`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(404);
+  });
+
+  it('should waitlist members once the event is full', async () => {
+    await request(app.getHttpServer())
+      .patch(`/events/${eventId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ capacity: 1 })
+      .expect(200);
+
+    await rsvp(userToken, 'GOING').expect(200);
+    const response = await rsvp(moderatorToken, 'GOING').expect(200);
+
+    expect(response.body).toMatchObject({
+      status: 'WAITLISTED',
+      waitlistPosition: 1,
+    });
+  });
+
+  it('should reject a capacity below one', () => {
+    return request(app.getHttpServer())
+      .patch(`/events/${eventId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ capacity: 0 })
+      .expect(400);
+  });
+
+  it('should promote the waitlist when a seat frees up', async () => {
+    await request(app.getHttpServer())
+      .delete(`/events/${eventId}/rsvp`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(204);
+
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}/attendees?status=GOING`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0].user.email).toBe('moderator@acme.com');
+  });
+});
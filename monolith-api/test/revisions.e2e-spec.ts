@@ -0,0 +1,166 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Revision history: every change to an event is kept, reviewers can see
+ * what changed between a rejection and the resubmission, and admins can
+ * restore an earlier revision.
+ */
+describe('Revisions (e2e)', () => {
+  let app: INestApplication;
+  let userToken: string;
+  let moderatorToken: string;
+  let adminToken: string;
+  let eventId: string;
+
+  const login = async (email: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+    return response.body.accessToken as string;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    userToken = await login('user@acme.com');
+    moderatorToken = await login('moderator@acme.com');
+    adminToken = await login('admin@acme.com');
+
+    const event = await request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({
+        title: 'Revised Event',
+        description: 'Checking the revision history',
+        startDate: '2027-01-10T09:00:00Z',
+        endDate: '2027-01-10T10:00:00Z',
+      })
+      .expect(201);
+    eventId = event.body.id;
+
+    // Submitted, rejected, fixed and submitted again
+    await request(app.getHttpServer())
+      .post(`/events/${eventId}/submit`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(201);
+    await request(app.getHttpServer())
+      .post(`/events/${eventId}/reject`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ reason: 'Please add the agenda to the description' })
+      .expect(201);
+    await request(app.getHttpServer())
+      .patch(`/events/${eventId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'Revised Event with Agenda',
+        description: '09:00 Welcome, 09:15 Talks',
+      })
+      .expect(200);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should list who changed which fields, newest first', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}/revisions`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+
+    expect(
+      response.body.map((revision: { action: string }) => revision.action),
+    ).toEqual(['UPDATED', 'REJECTED', 'SUBMITTED', 'CREATED']);
+    expect(response.body[0].changedFields).toEqual(['title', 'description']);
+    expect(response.body[0].snapshot).toBeUndefined();
+  });
+
+  it('should show what changed since the rejection', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}/revisions/diff`)
+      .query({ from: 3 })
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+
+    expect(response.body.to).toBe(4);
+    expect(response.body.changes).toEqual([
+      {
+        field: 'title',
+        from: 'Revised Event',
+        to: 'Revised Event with Agenda',
+      },
+      {
+        field: 'description',
+        from: 'Checking the revision history',
+        to: '09:00 Welcome, 09:15 Talks',
+      },
+    ]);
+  });
+
+  it('should return a revision with its snapshot', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/events/${eventId}/revisions/3`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    expect(response.body.snapshot).toEqual(
+      expect.objectContaining({
+        status: 'REJECTED',
+        rejectionReason: 'Please add the agenda to the description',
+      }),
+    );
+  });
+
+  it('should only let admins restore a revision', async () => {
+    await request(app.getHttpServer())
+      .post(`/events/${eventId}/revisions/1/restore`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(403);
+
+    const response = await request(app.getHttpServer())
+      .post(`/events/${eventId}/revisions/1/restore`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(201);
+
+    expect(response.body.title).toBe('Revised Event');
+    expect(response.body.status).toBe('REJECTED');
+
+    const revisions = await request(app.getHttpServer())
+      .get(`/events/${eventId}/revisions`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(revisions.body[0]).toEqual(
+      expect.objectContaining({
+        version: 5,
+        action: 'RESTORED',
+        restoredFrom: 1,
+      }),
+    );
+  });
+
+  it('should return 404 for an unknown revision', async () => {
+    await request(app.getHttpServer())
+      .get(`/events/${eventId}/revisions/99`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(404);
+  });
+});
@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Sessions: every login is a device session that can be listed and
+ * revoked, and revocation takes effect on access tokens immediately.
+ */
+describe('Sessions (e2e)', () => {
+  let app: INestApplication;
+
+  const login = async (email = 'user@acme.com', userAgent = 'e2e') => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+    return response.body as {
+      accessToken: string;
+      refreshToken: string;
+      user: { id: string };
+    };
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should list sessions and revoke another device', async () => {
+    const phoneAgent = `e2e-phone-${Date.now()}`;
+    const laptop = await login();
+    const phone = await login('user@acme.com', phoneAgent);
+
+    const sessions = await request(app.getHttpServer())
+      .get('/auth/sessions')
+      .set('Authorization', `Bearer ${laptop.accessToken}`)
+      .expect(200);
+
+    type Session = { id: string; current: boolean; userAgent: string };
+    const list = sessions.body as Session[];
+    expect(list.filter((session) => session.current)).toHaveLength(1);
+
+    const phoneSession = list.find(
+      (session) => session.userAgent === phoneAgent,
+    );
+    expect(phoneSession?.current).toBe(false);
+
+    await request(app.getHttpServer())
+      .delete(`/auth/sessions/${phoneSession!.id}`)
+      .set('Authorization', `Bearer ${laptop.accessToken}`)
+      .expect(204);
+
+    await request(app.getHttpServer())
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${phone.accessToken}`)
+      .expect(401);
+    await request(app.getHttpServer())
+      .post('/auth/refresh')
+      .send({ refreshToken: phone.refreshToken })
+      .expect(401);
+
+    await request(app.getHttpServer())
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${laptop.accessToken}`)
+      .expect(200);
+  });
+
+  it('should reject the access token right after logout', async () => {
+    const session = await login();
+
+    await request(app.getHttpServer())
+      .post('/auth/logout')
+      .send({ refreshToken: session.refreshToken })
+      .expect(204);
+
+    await request(app.getHttpServer())
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${session.accessToken}`)
+      .expect(401);
+  });
+
+  it('should let an admin sign a member out everywhere', async () => {
+    const admin = await login('admin@acme.com');
+    const member = await login('moderator@acme.com');
+
+    await request(app.getHttpServer())
+      .delete(`/auth/users/${member.user.id}/sessions`)
+      .set('Authorization', `Bearer ${admin.accessToken}`)
+      .expect(204);
+
+    await request(app.getHttpServer())
+      .get('/auth/me')
+      .set('Authorization', `Bearer ${member.accessToken}`)
+      .expect(401);
+  });
+});
@@ -0,0 +1,212 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { MockIdp } from './mock-idp';
+
+/**
+ * OIDC single sign-on against the in-process mock identity provider:
+ * authorization code + PKCE, just-in-time provisioning, account linking and
+ * keeping SSO sessions in their organization.
+ */
+describe('SSO (e2e)', () => {
+  let app: INestApplication;
+  let idp: MockIdp;
+  let adminToken: string;
+  let organizationId: string;
+
+  // Follow the redirects browser-style: API -> IdP -> API callback
+  const ssoLogin = async () => {
+    const authorize = await request(app.getHttpServer())
+      .get('/auth/sso/acme-corp/authorize')
+      .expect(302);
+
+    const idpResponse = await fetch(authorize.headers.location, {
+      redirect: 'manual',
+    });
+    const callback = new URL(idpResponse.headers.get('location')!);
+
+    return request(app.getHttpServer()).get(
+      `${callback.pathname}${callback.search}`,
+    );
+  };
+
+  beforeAll(async () => {
+    idp = new MockIdp();
+    await idp.start();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    const adminResponse = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'admin@acme.com', password: 'Password123!' })
+      .expect(201);
+    adminToken = adminResponse.body.accessToken;
+    organizationId = adminResponse.body.user.organizationId;
+
+    const connection = await request(app.getHttpServer())
+      .put(`/organizations/${organizationId}/sso`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        issuer: idp.issuer,
+        clientId: idp.clientId,
+        clientSecret: idp.clientSecret,
+        allowedDomains: ['acme.com'],
+      })
+      .expect(200);
+
+    expect(connection.body).not.toHaveProperty('clientSecret');
+  });
+
+  afterAll(async () => {
+    await request(app.getHttpServer())
+      .delete(`/organizations/${organizationId}/sso`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    await app.close();
+    await idp.stop();
+  });
+
+  it('should provision a new user on first SSO login', async () => {
+    const email = `sso${Date.now()}@acme.com`;
+    idp.user = {
+      sub: `sub-${Date.now()}`,
+      email,
+      email_verified: true,
+      given_name: 'Sam',
+    };
+
+    const response = await ssoLogin();
+
+    expect(response.status).toBe(200);
+    expect(response.body.accessToken).toBeDefined();
+    expect(response.body.user).toMatchObject({
+      email,
+      firstName: 'Sam',
+      role: 'USER',
+      organizationId,
+    });
+
+    // Same IdP subject signs in to the same account
+    const again = await ssoLogin();
+    expect(again.body.user.id).toBe(response.body.user.id);
+  });
+
+  it('should link an existing member by email', async () => {
+    idp.user = {
+      sub: `admin-${Date.now()}`,
+      email: 'admin@acme.com',
+      email_verified: true,
+    };
+
+    const response = await ssoLogin();
+
+    expect(response.status).toBe(200);
+    expect(response.body.user.role).toBe('ADMIN');
+  });
+
+  it('should not link an account that only belongs to another organization', async () => {
+    // Nothing stops an admin from allowing a domain they do not own
+    await request(app.getHttpServer())
+      .put(`/organizations/${organizationId}/sso`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        issuer: idp.issuer,
+        clientId: idp.clientId,
+        clientSecret: idp.clientSecret,
+        allowedDomains: ['acme.com', 'techinnovators.com'],
+      })
+      .expect(200);
+
+    idp.user = {
+      sub: `takeover-${Date.now()}`,
+      email: 'user@techinnovators.com',
+      email_verified: true,
+    };
+
+    const response = await ssoLogin();
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should not let an SSO session switch to another organization', async () => {
+    const techLogin = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@techinnovators.com', password: 'Password123!' })
+      .expect(201);
+
+    // The moderator is also a member of Tech Innovators
+    idp.user = {
+      sub: `moderator-${Date.now()}`,
+      email: 'moderator@acme.com',
+      email_verified: true,
+    };
+
+    const response = await ssoLogin();
+    expect(response.status).toBe(200);
+
+    await request(app.getHttpServer())
+      .post('/auth/switch-organization')
+      .set('Authorization', `Bearer ${response.body.accessToken}`)
+      .send({ organizationId: techLogin.body.user.organizationId })
+      .expect(403);
+  });
+
+  it('should reject emails outside the allowed domains', async () => {
+    idp.user = {
+      sub: `other-${Date.now()}`,
+      email: 'someone@example.com',
+      email_verified: true,
+    };
+
+    const response = await ssoLogin();
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should reject emails the identity provider has not verified', async () => {
+    idp.user = { sub: `unverified-${Date.now()}`, email: 'new@acme.com' };
+
+    const response = await ssoLogin();
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should not accept a callback state twice', async () => {
+    idp.user = {
+      sub: `replay-${Date.now()}`,
+      email: 'replay@acme.com',
+      email_verified: true,
+    };
+
+    const authorize = await request(app.getHttpServer())
+      .get('/auth/sso/acme-corp/authorize')
+      .expect(302);
+    const idpResponse = await fetch(authorize.headers.location, {
+      redirect: 'manual',
+    });
+    const callback = new URL(idpResponse.headers.get('location')!);
+    const path = `${callback.pathname}${callback.search}`;
+
+    await request(app.getHttpServer()).get(path).expect(200);
+    await request(app.getHttpServer()).get(path).expect(401);
+  });
+
+  it('should return 404 for organizations without SSO', () => {
+    return request(app.getHttpServer())
+      .get('/auth/sso/tech-innovators/authorize')
+      .expect(404);
+  });
+});
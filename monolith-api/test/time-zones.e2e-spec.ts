@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Time zones: events are scheduled in an IANA zone, local times are read
+ * in it, responses carry UTC and local times, and recurring events keep
+ * their local time across daylight saving changes.
+ */
+describe('Time zones (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'admin@acme.com', password: 'Password123!' })
+      .expect(201);
+    adminToken = login.body.accessToken;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should reject an unknown time zone', () => {
+    return request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'Zoned Standup',
+        description: 'Fifteen minutes, no laptops',
+        startDate: '2026-10-19T09:00:00',
+        endDate: '2026-10-19T09:15:00',
+        timeZone: 'Europe/Atlantis',
+      })
+      .expect(400);
+  });
+
+  it('should keep a series at its local time across the DST change', async () => {
+    const created = await request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'Zoned Standup',
+        description: 'Fifteen minutes, no laptops',
+        startDate: '2026-10-19T09:00:00',
+        endDate: '2026-10-19T09:15:00',
+        timeZone: 'Europe/London',
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=2',
+      })
+      .expect(201);
+
+    expect(created.body.startDate).toBe('2026-10-19T08:00:00.000Z');
+    expect(created.body.localStartDate).toBe('2026-10-19T09:00:00+01:00');
+
+    const response = await request(app.getHttpServer())
+      .get('/events')
+      .query({
+        search: 'Zoned Standup',
+        startDateFrom: '2026-10-19',
+        startDateTo: '2026-10-31',
+        timeZone: 'Europe/London',
+      })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(
+      response.body.data.map(
+        (event: { localStartDate: string }) => event.localStartDate,
+      ),
+    ).toEqual(['2026-10-19T09:00:00+01:00', '2026-10-26T09:00:00+00:00']);
+  });
+});
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+
+/**
+ * Venues and rooms: events booked into a room cannot overlap, and the
+ * room's availability lists the gaps between its bookings.
+ */
+describe('Venues (e2e)', () => {
+  let app: INestApplication;
+  let adminToken: string;
+  let moderatorToken: string;
+  let roomId: string;
+
+  const login = async (email: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password: 'Password123!' })
+      .expect(201);
+
+    return response.body.accessToken as string;
+  };
+
+  const book = (startDate: string, endDate: string) =>
+    request(app.getHttpServer())
+      .post('/events')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'Room Booking Check',
+        description: 'Checking room double-booking',
+        startDate,
+        endDate,
+        roomId,
+      });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+
+    await app.init();
+
+    adminToken = await login('admin@acme.com');
+    moderatorToken = await login('moderator@acme.com');
+
+    const venue = await request(app.getHttpServer())
+      .post('/venues')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: `Booking Venue ${Date.now()}` })
+      .expect(201);
+    const room = await request(app.getHttpServer())
+      .post(`/venues/${venue.body.id}/rooms`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'Board Room', capacity: 12, amenities: ['projector'] })
+      .expect(201);
+    roomId = room.body.id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should only let venue managers add venues', async () => {
+    await request(app.getHttpServer())
+      .post('/venues')
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ name: 'Unauthorized Venue' })
+      .expect(403);
+
+    const venues = await request(app.getHttpServer())
+      .get('/venues')
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+    expect(venues.body.length).toBeGreaterThan(0);
+  });
+
+  it('should reject an overlapping booking of the room', async () => {
+    const event = await book(
+      '2026-11-02T09:00:00Z',
+      '2026-11-02T10:00:00Z',
+    ).expect(201);
+    expect(event.body.roomId).toBe(roomId);
+
+    await book('2026-11-02T09:30:00Z', '2026-11-02T11:00:00Z').expect(409);
+    await book('2026-11-02T10:00:00Z', '2026-11-02T11:00:00Z').expect(201);
+  });
+
+  it('should reject moving an event onto another booking', async () => {
+    const event = await book(
+      '2026-11-02T13:00:00Z',
+      '2026-11-02T14:00:00Z',
+    ).expect(201);
+
+    await request(app.getHttpServer())
+      .patch(`/events/${event.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ startDate: '2026-11-02T10:30:00Z' })
+      .expect(409);
+  });
+
+  it('should free the room of a rejected event', async () => {
+    const event = await book(
+      '2026-11-03T09:00:00Z',
+      '2026-11-03T10:00:00Z',
+    ).expect(201);
+
+    await request(app.getHttpServer())
+      .post(`/events/${event.body.id}/submit`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(201);
+    await request(app.getHttpServer())
+      .post(`/events/${event.body.id}/reject`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ reason: 'The room is needed for something else' })
+      .expect(201);
+
+    await book('2026-11-03T09:00:00Z', '2026-11-03T10:00:00Z').expect(201);
+  });
+
+  it('should list the free slots of the room', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/rooms/${roomId}/availability`)
+      .query({ from: '2026-11-02T08:00:00Z', to: '2026-11-02T18:00:00Z' })
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+
+    expect(response.body.freeSlots).toEqual([
+      { start: '2026-11-02T08:00:00.000Z', end: '2026-11-02T09:00:00.000Z' },
+      { start: '2026-11-02T11:00:00.000Z', end: '2026-11-02T13:00:00.000Z' },
+      { start: '2026-11-02T14:00:00.000Z', end: '2026-11-02T18:00:00.000Z' },
+    ]);
+  });
+});